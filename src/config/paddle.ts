@@ -33,7 +33,14 @@ export const PADDLE_PLANS = {
       'Sin soporte directo'
     ],
     limits: {
-      messagesPerDay: 100
+      messagesPerDay: 100,
+      // Estimated LLM spend per month in USD (see lib/ai/usage/budget.ts)
+      monthlyLLMBudgetUsd: 15,
+      // Token buckets for flood protection (see lib/utils/rate-limiter.ts)
+      rateLimit: {
+        customer: { capacity: 10, refillPerMinute: 5 },
+        account: { capacity: 60, refillPerMinute: 30 }
+      }
     }
   },
   pro: {
@@ -48,7 +55,12 @@ export const PADDLE_PLANS = {
       'Soporte por Email (48hs hábiles)'
     ],
     limits: {
-      messagesPerDay: 1000
+      messagesPerDay: 1000,
+      monthlyLLMBudgetUsd: 120,
+      rateLimit: {
+        customer: { capacity: 15, refillPerMinute: 8 },
+        account: { capacity: 200, refillPerMinute: 120 }
+      }
     }
   },
   enterprise: {
@@ -63,7 +75,13 @@ export const PADDLE_PLANS = {
       'Soporte prioritario 24/7'
     ],
     limits: {
-      messagesPerDay: -1 // Unlimited
+      messagesPerDay: -1, // Unlimited
+      monthlyLLMBudgetUsd: -1, // Unlimited
+      // Flood protection still applies to unlimited plans
+      rateLimit: {
+        customer: { capacity: 20, refillPerMinute: 10 },
+        account: { capacity: 600, refillPerMinute: 360 }
+      }
     }
   }
 } as const;
@@ -0,0 +1,59 @@
+import { Request, Response } from 'express';
+import HttpStatusCodes from '../../constants/HttpStatusCodes';
+import blocksService from './blocks.service';
+import { RouteError } from '../../other/errorHandler';
+import { getUid } from '../../other/routeHelpers';
+
+export async function listBlocks(req: Request, res: Response) {
+  try {
+    const uid = getUid(req);
+
+    const result = await blocksService.listBlocks(uid);
+
+    res.status(HttpStatusCodes.OK).json(result);
+  } catch (error: any) {
+    console.error('Error listing blocks:', error);
+    if (error instanceof RouteError) {
+      throw error;
+    }
+    throw new RouteError(HttpStatusCodes.INTERNAL_SERVER_ERROR, error.message || 'Internal server error while listing blocks');
+  }
+}
+
+export async function clearBlocks(req: Request, res: Response) {
+  try {
+    const uid = getUid(req);
+
+    const result = await blocksService.clearBlocks(uid);
+
+    res.status(HttpStatusCodes.OK).json(result);
+  } catch (error: any) {
+    console.error('Error clearing blocks:', error);
+    if (error instanceof RouteError) {
+      throw error;
+    }
+    throw new RouteError(HttpStatusCodes.INTERNAL_SERVER_ERROR, error.message || 'Internal server error while clearing blocks');
+  }
+}
+
+export async function clearBlock(req: Request, res: Response) {
+  try {
+    const uid = getUid(req);
+    const session = req.query.session as string;
+    const { customerNumber } = req.params;
+
+    if (!session) {
+      throw new RouteError(HttpStatusCodes.BAD_REQUEST, 'session query parameter is required');
+    }
+
+    const result = await blocksService.clearBlock(uid, session, customerNumber);
+
+    res.status(HttpStatusCodes.OK).json(result);
+  } catch (error: any) {
+    console.error('Error clearing block:', error);
+    if (error instanceof RouteError) {
+      throw error;
+    }
+    throw new RouteError(HttpStatusCodes.INTERNAL_SERVER_ERROR, error.message || 'Internal server error while clearing block');
+  }
+}
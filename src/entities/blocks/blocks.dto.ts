@@ -0,0 +1,12 @@
+import { TemporalBlock } from '../../lib/utils/temporal-block-manager';
+
+export interface ListBlocksResponse {
+  success: boolean;
+  total: number;
+  blocks: TemporalBlock[];
+}
+
+export interface ClearBlocksResponse {
+  success: boolean;
+  removed: number;
+}
@@ -0,0 +1,11 @@
+import { Router } from 'express';
+import * as controller from './blocks.controller';
+import { verifyToken } from '../../middlewares/tokenVerification';
+
+const router = Router();
+
+router.get('/', verifyToken, controller.listBlocks);
+router.delete('/', verifyToken, controller.clearBlocks);
+router.delete('/:customerNumber', verifyToken, controller.clearBlock);
+
+export default router;
@@ -0,0 +1,36 @@
+import { temporalBlockManager } from '../../lib/utils/temporal-block-manager';
+import { ClearBlocksResponse, ListBlocksResponse } from './blocks.dto';
+
+async function listBlocks(uid: string): Promise<ListBlocksResponse> {
+  const blocks = await temporalBlockManager.getBlocks(uid);
+
+  return {
+    success: true,
+    total: blocks.length,
+    blocks: blocks.sort((a, b) => b.createdAt - a.createdAt),
+  };
+}
+
+async function clearBlocks(uid: string): Promise<ClearBlocksResponse> {
+  const removed = await temporalBlockManager.clearBlocks(uid);
+
+  return {
+    success: true,
+    removed,
+  };
+}
+
+async function clearBlock(uid: string, session: string, customerNumber: string): Promise<ClearBlocksResponse> {
+  const removed = await temporalBlockManager.removeBlock({ uid, session, customerNumber });
+
+  return {
+    success: true,
+    removed: removed ? 1 : 0,
+  };
+}
+
+export default {
+  listBlocks,
+  clearBlocks,
+  clearBlock,
+};
@@ -0,0 +1,125 @@
+import { Request, Response } from 'express';
+import HttpStatusCodes from '../../constants/HttpStatusCodes';
+import EnvVars from '../../constants/EnvVars';
+import { NodeEnvs } from '../../constants/misc';
+import chatService, { createSessionId, isValidSessionId, WEB_CHAT_CONFIG } from './chat.service';
+import { SendChatMessageRequest } from './chat.dto';
+import { subscribeWebChatEvents } from '../../lib/channels/web-chat-events';
+import { RouteError } from '../../other/errorHandler';
+
+/**
+ * Gets the anonymous web chat session of the request, starting one if needed
+ * The cookie is scoped to /api/chat/:uid so each account gets its own session
+ */
+function getChatSession(req: Request, res: Response): string {
+  const current = req.cookies?.[WEB_CHAT_CONFIG.COOKIE_NAME];
+  if (isValidSessionId(current)) {
+    return current;
+  }
+
+  const sessionId = createSessionId();
+  // The chat is embedded in the agency website, so the cookie must be sent cross-site
+  const isDev = EnvVars.NodeEnv === NodeEnvs.Dev.valueOf();
+  res.cookie(WEB_CHAT_CONFIG.COOKIE_NAME, sessionId, {
+    httpOnly: true,
+    path: `/api/chat/${req.params.uid}`,
+    maxAge: WEB_CHAT_CONFIG.COOKIE_MAX_AGE_MS,
+    sameSite: isDev ? 'lax' : 'none',
+    secure: !isDev,
+  });
+
+  return sessionId;
+}
+
+export async function sendMessage(req: Request, res: Response) {
+  try {
+    const { uid } = req.params;
+    const { message, name }: SendChatMessageRequest = req.body;
+
+    if (typeof message !== 'string' || !message.trim()) {
+      throw new RouteError(HttpStatusCodes.BAD_REQUEST, 'message is required');
+    }
+
+    if (message.length > WEB_CHAT_CONFIG.MAX_MESSAGE_LENGTH) {
+      throw new RouteError(HttpStatusCodes.BAD_REQUEST, `message must be at most ${WEB_CHAT_CONFIG.MAX_MESSAGE_LENGTH} characters`);
+    }
+
+    const sessionId = getChatSession(req, res);
+    const visitorName = typeof name === 'string' && name.trim() ? name.trim() : undefined;
+
+    const result = await chatService.receiveMessage(uid, sessionId, message.trim(), req.ip || 'unknown', visitorName);
+
+    if (!result) {
+      throw new RouteError(HttpStatusCodes.NOT_FOUND, 'Chat not found');
+    }
+
+    if ('reason' in result) {
+      if (result.retryAfterMs) {
+        res.setHeader('Retry-After', Math.ceil(result.retryAfterMs / 1000).toString());
+      }
+      if (result.reason === 'unavailable') {
+        throw new RouteError(HttpStatusCodes.SERVICE_UNAVAILABLE, 'Chat temporarily unavailable');
+      }
+      throw new RouteError(HttpStatusCodes.TOO_MANY_REQUESTS, 'Too many messages, please try again later');
+    }
+
+    res.status(HttpStatusCodes.ACCEPTED).json(result);
+  } catch (error: any) {
+    console.error('Error receiving web chat message:', error);
+    if (error instanceof RouteError) {
+      throw error;
+    }
+    throw new RouteError(HttpStatusCodes.INTERNAL_SERVER_ERROR, error.message || 'Internal server error while receiving message');
+  }
+}
+
+/**
+ * Server-sent events of the web chat session
+ * Clients should open the stream before posting messages, events are not replayed
+ */
+export async function streamEvents(req: Request, res: Response) {
+  const { uid } = req.params;
+
+  if (!(await chatService.isChatAvailable(uid))) {
+    throw new RouteError(HttpStatusCodes.NOT_FOUND, 'Chat not found');
+  }
+
+  const sessionId = getChatSession(req, res);
+
+  res.status(HttpStatusCodes.OK);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  // Disable proxy buffering (nginx) so tokens arrive as they are written
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  res.write(`event: ready\ndata: ${JSON.stringify({ sessionId })}\n\n`);
+
+  // Registered before subscribing: the browser may disconnect while the subscription is set up
+  let closed = false;
+  let heartbeat: NodeJS.Timeout | undefined;
+  let unsubscribe: (() => Promise<void>) | undefined;
+  req.on('close', () => {
+    closed = true;
+    clearInterval(heartbeat);
+    unsubscribe?.().catch(() => {});
+  });
+
+  try {
+    unsubscribe = await subscribeWebChatEvents(sessionId, (event) => {
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    });
+  } catch (error) {
+    console.error('Error subscribing to web chat events:', error);
+    res.end();
+    return;
+  }
+
+  if (closed || res.writableEnded) {
+    await unsubscribe().catch(() => {});
+    return;
+  }
+
+  heartbeat = setInterval(() => res.write(': ping\n\n'), WEB_CHAT_CONFIG.HEARTBEAT_INTERVAL_MS);
+}
@@ -0,0 +1,16 @@
+export interface SendChatMessageRequest {
+  message: string;
+  name?: string; // Visitor name, only used when the session starts
+}
+
+export interface SendChatMessageResponse {
+  success: boolean;
+  sessionId: string;
+  messageId: string;
+}
+
+// Message not accepted: rate limits, new sessions per IP or account budget
+export interface ChatMessageRejection {
+  reason: 'rate_limited' | 'too_many_sessions' | 'unavailable';
+  retryAfterMs?: number;
+}
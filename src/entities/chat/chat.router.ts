@@ -0,0 +1,10 @@
+import { Router } from 'express';
+import * as controller from './chat.controller';
+
+const router = Router();
+
+// Public endpoints called from the agency website (CORS with credentials is set up in server.ts)
+router.post('/:uid/messages', controller.sendMessage);
+router.get('/:uid/stream', controller.streamEvents);
+
+export default router;
@@ -0,0 +1,252 @@
+/**
+ * Web Chat Service
+ * Embeddable web chat for website leads, answered by the same agent as WhatsApp
+ *
+ * - Each browser gets an anonymous session per account (cookie), stored as a customer
+ *   with a synthetic id (web-<uuid>) so conversations, summaries and lead qualification
+ *   work the same as for WhatsApp customers
+ * - Replies are delivered over the session event stream (SSE), token by token when
+ *   AI_CONFIG.ENABLE_STREAMING is on
+ * - Same pre-checks as WhatsApp messages: account active, rate limits (per session, client IP
+ *   and account), LLM budget, takeover blocks, opt-out commands and away message
+ * - New sessions (customers) are capped per client IP
+ */
+
+import { randomUUID } from 'crypto';
+import { runAgentWorkflow } from '../../lib/ai/experiments';
+import { getChannel, ChannelTarget, WebChatChannel } from '../../lib/channels';
+import { publishWebChatEvent } from '../../lib/channels/web-chat-events';
+import { createCustomer, getCustomerByPhone } from '../../lib/db/repositories/customers';
+import { createMessageCleanupFn, saveConversationMessage } from '../../lib/db/repositories/conversations';
+import { getUserConfig } from '../../lib/db/repositories/users';
+import { getRedisClient } from '../../lib/cache/redis-client';
+import { isLLMBudgetExceeded } from '../../lib/ai/usage/budget';
+import { createExecutionContext } from '../../lib/utils/execution-context';
+import { createStreamFilter, processResponse } from '../../lib/utils/response-processor';
+import { shouldProcessWorkflow } from '../../lib/utils/validation';
+import { checkMessageRateLimit } from '../../lib/utils/rate-limiter';
+import { temporalBlockManager } from '../../lib/utils/temporal-block-manager';
+import { applyOptOutMessage } from '../../lib/utils/opt-out';
+import { claimAwayMessage } from '../../lib/utils/business-hours';
+import { ChatMessageRejection, SendChatMessageResponse } from './chat.dto';
+
+/**
+ * Configuration for the web chat
+ */
+export const WEB_CHAT_CONFIG = {
+  // Cookie holding the anonymous session id, scoped to /api/chat/:uid
+  COOKIE_NAME: 'webchat_session',
+  COOKIE_MAX_AGE_MS: 30 * 24 * 60 * 60 * 1000, // 30 days
+  // Synthetic customer ids: web-<uuid> (no ':' so they are valid in queue job ids)
+  SESSION_ID_PREFIX: 'web-',
+  MAX_MESSAGE_LENGTH: 2000,
+  DEFAULT_VISITOR_NAME: 'Visitante web',
+  // Comment lines keep proxies from closing idle SSE connections
+  HEARTBEAT_INTERVAL_MS: 25 * 1000,
+  // Every session is a new customer: a client IP can start this many per window
+  MAX_NEW_SESSIONS_PER_IP: 5,
+  NEW_SESSIONS_WINDOW_SECONDS: 60 * 60,
+  KEY_PREFIX: 'webchat:',
+} as const;
+
+const SESSION_ID_REGEX = /^web-[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+// Messages of a session are answered one after the other (in-process)
+const sessionQueues = new Map<string, Promise<void>>();
+
+export function createSessionId(): string {
+  return `${WEB_CHAT_CONFIG.SESSION_ID_PREFIX}${randomUUID()}`;
+}
+
+export function isValidSessionId(sessionId: unknown): sessionId is string {
+  return typeof sessionId === 'string' && SESSION_ID_REGEX.test(sessionId);
+}
+
+/**
+ * Checks that the account exists before opening a chat
+ */
+async function isChatAvailable(uid: string): Promise<boolean> {
+  return (await getUserConfig(uid)) !== null;
+}
+
+/**
+ * Counts a new session of a client IP
+ * @returns false if the IP started too many sessions in the window (fails open without Redis)
+ */
+async function claimNewSession(uid: string, clientIp: string): Promise<boolean> {
+  try {
+    const key = `${WEB_CHAT_CONFIG.KEY_PREFIX}new-sessions:${uid}:${clientIp}`;
+    const results = await getRedisClient()
+      .multi()
+      .incr(key)
+      .expire(key, WEB_CHAT_CONFIG.NEW_SESSIONS_WINDOW_SECONDS, 'NX')
+      .exec();
+    const count = Number(results?.[0]?.[1] ?? 0);
+    return count <= WEB_CHAT_CONFIG.MAX_NEW_SESSIONS_PER_IP;
+  } catch (error) {
+    console.error('[WebChat] ⚠️ Error counting new sessions (session accepted):', error);
+    return true;
+  }
+}
+
+/**
+ * Pre-checks of a message that don't need the agent (same as WhatsApp in ws.service)
+ * @returns true if the message was handled and must not reach the agent
+ */
+async function handleWithoutAgent(uid: string, sessionId: string, message: string, target: ChannelTarget): Promise<boolean> {
+  const channel = getChannel('web') as WebChatChannel;
+
+  // Human owner handling the conversation: the message is stored for them
+  const block = await temporalBlockManager.getBlock({ uid, session: target.session, customerNumber: sessionId });
+  if (block) {
+    console.log(`[WebChat] Conversation ${sessionId} is blocked (${block.reason})`);
+    await saveConversationMessage(uid, sessionId, 'user', message);
+    return true;
+  }
+
+  // STOP / BAJA and opt-out requests are confirmed and never reach the agent
+  const confirmation = await applyOptOutMessage(uid, sessionId, message).catch((error) => {
+    console.error('[WebChat] ❌ Error processing opt-out message:', error);
+    return null;
+  });
+  if (confirmation) {
+    await channel.sendText(target, confirmation);
+    return true;
+  }
+
+  const awayMessage = await claimAwayMessage(uid, sessionId).catch(() => null);
+  if (awayMessage) {
+    await channel.sendText(target, awayMessage);
+  }
+
+  return false;
+}
+
+/**
+ * Runs the agent workflow on a web chat message and delivers the reply to the session stream
+ */
+async function answerMessage(uid: string, sessionId: string, messageId: string, message: string, userName: string): Promise<void> {
+  const channel = getChannel('web') as WebChatChannel;
+  const userConfig = await getUserConfig(uid);
+  // The workflow only uses the session for the account connection, never to send web replies
+  const target: ChannelTarget = { session: userConfig?.config.session || '', chatId: sessionId };
+
+  const executionContext = createExecutionContext();
+  executionContext.setCleanupFn(createMessageCleanupFn(uid, sessionId));
+
+  try {
+    if (await handleWithoutAgent(uid, sessionId, message, target)) {
+      await publishWebChatEvent(sessionId, { type: 'done' });
+      return;
+    }
+
+    await channel.startTyping(target);
+
+    // The writer draft contains property markers and rich message directives, only the text is streamed
+    const streamFilter = createStreamFilter((text) => {
+      channel.sendDelta(target, text).catch(() => {});
+    });
+
+    const result = await runAgentWorkflow(uid, target.session, {
+      userPhone: sessionId,
+      userName,
+      messages: [{
+        id: messageId,
+        body: message,
+        timestamp: Date.now(),
+        replyTo: null,
+        replyToId: null,
+        transcription: null,
+        location: null,
+      }],
+    }, {
+      channel,
+      onResponseDelta: (delta) => streamFilter.push(delta),
+    }, executionContext);
+
+    await channel.stopTyping(target);
+
+    if (!result) {
+      console.log(`[WebChat] ⚠️ No AI response generated for ${sessionId}`);
+      await publishWebChatEvent(sessionId, { type: 'done' });
+      return;
+    }
+
+    await channel.sendMessages(target, processResponse(result.message));
+    await executionContext.executePendingActions();
+    await publishWebChatEvent(sessionId, { type: 'done' });
+
+    console.log(`[WebChat] ✅ Reply sent to ${sessionId}`);
+  } catch (error) {
+    console.error(`[WebChat] ❌ Error answering ${sessionId}:`, error);
+    await executionContext.runCleanup();
+    await channel.stopTyping(target).catch(() => {});
+    await publishWebChatEvent(sessionId, { type: 'error', error: 'Disculpa, no pudimos responder tu mensaje. ¿Podrías intentarlo de nuevo?' });
+  }
+}
+
+/**
+ * Receives a visitor message and answers it in the background
+ * @returns null if the account does not exist
+ */
+async function receiveMessage(
+  uid: string,
+  sessionId: string,
+  message: string,
+  clientIp: string,
+  name?: string
+): Promise<SendChatMessageResponse | ChatMessageRejection | null> {
+  if (!(await isChatAvailable(uid))) {
+    return null;
+  }
+
+  // Flood protection: every accepted message can trigger a full cascade
+  const rateLimit = await checkMessageRateLimit(uid, sessionId, clientIp);
+  if (!rateLimit.allowed) {
+    console.log(`[WebChat] 🚫 ${rateLimit.scope} limit exceeded for ${sessionId} (${clientIp}, uid: ${uid})`);
+    return { reason: 'rate_limited', retryAfterMs: rateLimit.retryAfterMs };
+  }
+
+  if (await isLLMBudgetExceeded(uid)) {
+    return { reason: 'unavailable' };
+  }
+
+  let customer = await getCustomerByPhone(uid, sessionId);
+  if (!customer) {
+    if (!(await claimNewSession(uid, clientIp))) {
+      console.log(`[WebChat] 🚫 Too many new sessions from ${clientIp} (uid: ${uid})`);
+      return { reason: 'too_many_sessions', retryAfterMs: WEB_CHAT_CONFIG.NEW_SESSIONS_WINDOW_SECONDS * 1000 };
+    }
+    customer = await createCustomer(uid, sessionId, { name: name || WEB_CHAT_CONFIG.DEFAULT_VISITOR_NAME, channel: 'web' });
+  }
+
+  // Inactive accounts, contact list and enabledFor whitelist: the message is accepted but not answered
+  const messageId = randomUUID();
+  if (!(await shouldProcessWorkflow(uid, sessionId))) {
+    console.log(`[WebChat] Session ${sessionId} should not process workflow`);
+    return { success: true, sessionId, messageId };
+  }
+
+  const userName = customer?.name || WEB_CHAT_CONFIG.DEFAULT_VISITOR_NAME;
+
+  const queueKey = `${uid}:${sessionId}`;
+  const previous = sessionQueues.get(queueKey) ?? Promise.resolve();
+  const current = previous.then(() => answerMessage(uid, sessionId, messageId, message, userName));
+  sessionQueues.set(queueKey, current);
+  current.finally(() => {
+    if (sessionQueues.get(queueKey) === current) {
+      sessionQueues.delete(queueKey);
+    }
+  });
+
+  return {
+    success: true,
+    sessionId,
+    messageId,
+  };
+}
+
+export default {
+  isChatAvailable,
+  receiveMessage,
+};
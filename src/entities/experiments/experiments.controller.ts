@@ -0,0 +1,169 @@
+import { Request, Response } from 'express';
+import HttpStatusCodes from '../../constants/HttpStatusCodes';
+import experimentsService from './experiments.service';
+import { RouteError } from '../../other/errorHandler';
+import { getUid, formatIssues, parseChanges } from '../../other/routeHelpers';
+import { ExperimentSchema, type ExperimentInput } from '../../lib/ai/experiments';
+import { GUIDELINE_VERSIONS, isGuidelineVersion } from '../../lib/ai/guidelines/guideline-versions';
+
+const ExperimentChangesSchema = ExperimentSchema.partial();
+
+function getExperimentId(value: unknown): string {
+  if (typeof value !== 'string' || !/^[a-zA-Z0-9_-]{1,100}$/.test(value)) {
+    throw new RouteError(HttpStatusCodes.BAD_REQUEST, 'A valid experiment id is required');
+  }
+
+  return value;
+}
+
+/**
+ * Checks what the schema cannot: unique variant ids, weights adding up to 100 and known guideline versions
+ */
+function validateVariants(variants: ExperimentInput['variants']): void {
+  const ids = variants.map((variant) => variant.id);
+  if (new Set(ids).size !== ids.length) {
+    throw new RouteError(HttpStatusCodes.BAD_REQUEST, 'Invalid experiment: variant ids must be unique');
+  }
+
+  const totalWeight = variants.reduce((sum, variant) => sum + variant.weight, 0);
+  if (Math.abs(totalWeight - 100) > 0.001) {
+    throw new RouteError(HttpStatusCodes.BAD_REQUEST, `Invalid experiment: variant weights must add up to 100 (got ${totalWeight})`);
+  }
+
+  const unknownVersion = variants.find((variant) => variant.guidelineVersion && !isGuidelineVersion(variant.guidelineVersion));
+  if (unknownVersion) {
+    throw new RouteError(
+      HttpStatusCodes.BAD_REQUEST,
+      `Invalid experiment: unknown guideline version ${unknownVersion.guidelineVersion} (available: ${Object.keys(GUIDELINE_VERSIONS).join(', ')})`
+    );
+  }
+}
+
+function parseExperiment(body: unknown): ExperimentInput {
+  const parsed = ExperimentSchema.safeParse(body);
+  if (!parsed.success) {
+    throw new RouteError(HttpStatusCodes.BAD_REQUEST, `Invalid experiment: ${formatIssues(parsed.error)}`);
+  }
+
+  validateVariants(parsed.data.variants);
+  return parsed.data;
+}
+
+/**
+ * Validates the changed fields of an experiment
+ */
+function parseExperimentChanges(body: unknown): Partial<ExperimentInput> {
+  const changes = parseChanges(ExperimentChangesSchema, body, 'experiment');
+  if (changes.variants) {
+    validateVariants(changes.variants);
+  }
+
+  return changes;
+}
+
+async function assertNoOtherRunningExperiment(uid: string, id?: string): Promise<void> {
+  const running = await experimentsService.getOtherRunningExperiment(uid, id);
+  if (running) {
+    throw new RouteError(HttpStatusCodes.CONFLICT, `Experiment ${running.name} (${running.id}) is already running, stop it first`);
+  }
+}
+
+export async function listExperiments(req: Request, res: Response) {
+  try {
+    const uid = getUid(req);
+
+    const result = await experimentsService.listExperiments(uid);
+
+    res.status(HttpStatusCodes.OK).json(result);
+  } catch (error: any) {
+    console.error('Error listing experiments:', error);
+    if (error instanceof RouteError) {
+      throw error;
+    }
+    throw new RouteError(HttpStatusCodes.INTERNAL_SERVER_ERROR, error.message || 'Internal server error while listing experiments');
+  }
+}
+
+export async function getExperiment(req: Request, res: Response) {
+  try {
+    const uid = getUid(req);
+    const id = getExperimentId(req.params.id);
+
+    const result = await experimentsService.getExperiment(uid, id);
+    if (!result) {
+      throw new RouteError(HttpStatusCodes.NOT_FOUND, `Experiment ${id} not found`);
+    }
+
+    res.status(HttpStatusCodes.OK).json(result);
+  } catch (error: any) {
+    console.error('Error getting experiment:', error);
+    if (error instanceof RouteError) {
+      throw error;
+    }
+    throw new RouteError(HttpStatusCodes.INTERNAL_SERVER_ERROR, error.message || 'Internal server error while getting experiment');
+  }
+}
+
+export async function createExperiment(req: Request, res: Response) {
+  try {
+    const uid = getUid(req);
+    const experiment = parseExperiment(req.body);
+    if (experiment.status === 'running') {
+      await assertNoOtherRunningExperiment(uid);
+    }
+
+    const result = await experimentsService.createExperiment(uid, experiment);
+
+    res.status(HttpStatusCodes.CREATED).json(result);
+  } catch (error: any) {
+    console.error('Error creating experiment:', error);
+    if (error instanceof RouteError) {
+      throw error;
+    }
+    throw new RouteError(HttpStatusCodes.INTERNAL_SERVER_ERROR, error.message || 'Internal server error while creating experiment');
+  }
+}
+
+export async function updateExperiment(req: Request, res: Response) {
+  try {
+    const uid = getUid(req);
+    const id = getExperimentId(req.params.id);
+    const changes = parseExperimentChanges(req.body || {});
+    if (changes.status === 'running') {
+      await assertNoOtherRunningExperiment(uid, id);
+    }
+
+    const result = await experimentsService.updateExperiment(uid, id, changes);
+    if (!result) {
+      throw new RouteError(HttpStatusCodes.NOT_FOUND, `Experiment ${id} not found`);
+    }
+
+    res.status(HttpStatusCodes.OK).json(result);
+  } catch (error: any) {
+    console.error('Error updating experiment:', error);
+    if (error instanceof RouteError) {
+      throw error;
+    }
+    throw new RouteError(HttpStatusCodes.INTERNAL_SERVER_ERROR, error.message || 'Internal server error while updating experiment');
+  }
+}
+
+export async function getExperimentReport(req: Request, res: Response) {
+  try {
+    const uid = getUid(req);
+    const id = getExperimentId(req.params.id);
+
+    const result = await experimentsService.getExperimentReport(uid, id);
+    if (!result) {
+      throw new RouteError(HttpStatusCodes.NOT_FOUND, `Experiment ${id} not found`);
+    }
+
+    res.status(HttpStatusCodes.OK).json(result);
+  } catch (error: any) {
+    console.error('Error getting experiment report:', error);
+    if (error instanceof RouteError) {
+      throw error;
+    }
+    throw new RouteError(HttpStatusCodes.INTERNAL_SERVER_ERROR, error.message || 'Internal server error while getting experiment report');
+  }
+}
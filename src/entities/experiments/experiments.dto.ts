@@ -0,0 +1,18 @@
+import type { ExperimentData } from '../../lib/db/types';
+import type { ExperimentReport } from '../../lib/ai/experiments';
+
+export interface ListExperimentsResponse {
+  success: boolean;
+  total: number;
+  experiments: ExperimentData[];
+}
+
+export interface ExperimentResponse {
+  success: boolean;
+  experiment: ExperimentData;
+}
+
+export interface ExperimentReportResponse {
+  success: boolean;
+  report: ExperimentReport;
+}
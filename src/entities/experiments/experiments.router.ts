@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import * as controller from './experiments.controller';
+import { verifyToken } from '../../middlewares/tokenVerification';
+
+const router = Router();
+
+router.get('/', verifyToken, controller.listExperiments);
+router.get('/:id', verifyToken, controller.getExperiment);
+router.get('/:id/report', verifyToken, controller.getExperimentReport);
+router.post('/', verifyToken, controller.createExperiment);
+router.patch('/:id', verifyToken, controller.updateExperiment);
+
+export default router;
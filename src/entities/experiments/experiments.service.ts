@@ -0,0 +1,90 @@
+import {
+  createExperiment as createExperimentDoc,
+  getExperiment as getExperimentDoc,
+  getExperimentConversations,
+  getExperiments,
+  getRunningExperiment,
+  updateExperiment as updateExperimentDoc,
+} from '../../lib/db/repositories/experiments';
+import { buildExperimentReport, invalidateAccountExperiments, type ExperimentInput } from '../../lib/ai/experiments';
+import type { ExperimentData } from '../../lib/db/types';
+import { ExperimentReportResponse, ExperimentResponse, ListExperimentsResponse } from './experiments.dto';
+
+async function listExperiments(uid: string): Promise<ListExperimentsResponse> {
+  const experiments = await getExperiments(uid);
+
+  return {
+    success: true,
+    total: experiments.length,
+    experiments,
+  };
+}
+
+async function getExperiment(uid: string, id: string): Promise<ExperimentResponse | null> {
+  const experiment = await getExperimentDoc(uid, id);
+  return experiment ? { success: true, experiment } : null;
+}
+
+/**
+ * Running experiment of the account other than the given one (only one can run at a time)
+ */
+async function getOtherRunningExperiment(uid: string, id?: string): Promise<ExperimentData | null> {
+  const running = await getRunningExperiment(uid);
+  return running && running.id !== id ? running : null;
+}
+
+async function createExperiment(uid: string, input: ExperimentInput): Promise<ExperimentResponse | null> {
+  const id = await createExperimentDoc(uid, input);
+  if (!id) {
+    throw new Error('Could not create experiment');
+  }
+  await invalidateAccountExperiments(uid);
+
+  return getExperiment(uid, id);
+}
+
+/**
+ * Updates an experiment (starting or stopping it with status)
+ * Customers already assigned keep their variant while it exists
+ * @returns null if the experiment does not exist
+ */
+async function updateExperiment(uid: string, id: string, changes: Partial<ExperimentInput>): Promise<ExperimentResponse | null> {
+  if (!(await getExperimentDoc(uid, id))) {
+    return null;
+  }
+
+  const updated = await updateExperimentDoc(uid, id, changes);
+  if (!updated) {
+    throw new Error(`Could not update experiment ${id}`);
+  }
+  await invalidateAccountExperiments(uid);
+
+  return getExperiment(uid, id);
+}
+
+/**
+ * Compares the conversation outcomes of the variants of an experiment
+ * @returns null if the experiment does not exist
+ */
+async function getExperimentReport(uid: string, id: string): Promise<ExperimentReportResponse | null> {
+  const experiment = await getExperimentDoc(uid, id);
+  if (!experiment) {
+    return null;
+  }
+
+  const conversations = await getExperimentConversations(uid, id);
+
+  return {
+    success: true,
+    report: buildExperimentReport(experiment, conversations),
+  };
+}
+
+export default {
+  listExperiments,
+  getExperiment,
+  getOtherRunningExperiment,
+  createExperiment,
+  updateExperiment,
+  getExperimentReport,
+};
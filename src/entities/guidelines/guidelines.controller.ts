@@ -0,0 +1,139 @@
+import { Request, Response } from 'express';
+import HttpStatusCodes from '../../constants/HttpStatusCodes';
+import guidelinesService from './guidelines.service';
+import { RouteError } from '../../other/errorHandler';
+import { getUid, formatIssues, parseChanges } from '../../other/routeHelpers';
+import { GuidelineSchema, type Guideline } from '../../lib/ai/types/guideline';
+
+// Generated per account from its context documents, cannot be customized
+const RESERVED_GUIDELINE_IDS = ['context_search'];
+
+const GuidelineChangesSchema = GuidelineSchema.omit({ id: true }).partial();
+
+function getGuidelineId(value: unknown): string {
+  if (typeof value !== 'string' || !/^[a-zA-Z0-9_-]{1,100}$/.test(value)) {
+    throw new RouteError(HttpStatusCodes.BAD_REQUEST, 'A valid guideline id is required (letters, numbers, _ and -)');
+  }
+  if (RESERVED_GUIDELINE_IDS.includes(value)) {
+    throw new RouteError(HttpStatusCodes.BAD_REQUEST, `Guideline ${value} is generated automatically and cannot be customized`);
+  }
+
+  return value;
+}
+
+/**
+ * Validates a full guideline
+ */
+function parseGuideline(body: unknown): Guideline {
+  const parsed = GuidelineSchema.safeParse(body);
+  if (!parsed.success) {
+    throw new RouteError(HttpStatusCodes.BAD_REQUEST, `Invalid guideline: ${formatIssues(parsed.error)}`);
+  }
+
+  return parsed.data;
+}
+
+/**
+ * Validates the changed fields of a guideline
+ */
+function parseGuidelineChanges(body: unknown): Partial<Guideline> {
+  return parseChanges(GuidelineChangesSchema, body, 'guideline');
+}
+
+export async function listGuidelines(req: Request, res: Response) {
+  try {
+    const uid = getUid(req);
+
+    const result = await guidelinesService.listGuidelines(uid);
+
+    res.status(HttpStatusCodes.OK).json(result);
+  } catch (error: any) {
+    console.error('Error listing guidelines:', error);
+    if (error instanceof RouteError) {
+      throw error;
+    }
+    throw new RouteError(HttpStatusCodes.INTERNAL_SERVER_ERROR, error.message || 'Internal server error while listing guidelines');
+  }
+}
+
+export async function getGuideline(req: Request, res: Response) {
+  try {
+    const uid = getUid(req);
+    const id = getGuidelineId(req.params.id);
+
+    const result = await guidelinesService.getGuideline(uid, id);
+    if (!result) {
+      throw new RouteError(HttpStatusCodes.NOT_FOUND, `Guideline ${id} not found`);
+    }
+
+    res.status(HttpStatusCodes.OK).json(result);
+  } catch (error: any) {
+    console.error('Error getting guideline:', error);
+    if (error instanceof RouteError) {
+      throw error;
+    }
+    throw new RouteError(HttpStatusCodes.INTERNAL_SERVER_ERROR, error.message || 'Internal server error while getting guideline');
+  }
+}
+
+export async function createGuideline(req: Request, res: Response) {
+  try {
+    const uid = getUid(req);
+    getGuidelineId(req.body?.id);
+    const guideline = parseGuideline(req.body);
+
+    const result = await guidelinesService.createGuideline(uid, guideline);
+    if (!result) {
+      throw new RouteError(HttpStatusCodes.CONFLICT, `Guideline ${guideline.id} already exists, update it instead`);
+    }
+
+    res.status(HttpStatusCodes.CREATED).json(result);
+  } catch (error: any) {
+    console.error('Error creating guideline:', error);
+    if (error instanceof RouteError) {
+      throw error;
+    }
+    throw new RouteError(HttpStatusCodes.INTERNAL_SERVER_ERROR, error.message || 'Internal server error while creating guideline');
+  }
+}
+
+export async function updateGuideline(req: Request, res: Response) {
+  try {
+    const uid = getUid(req);
+    const id = getGuidelineId(req.params.id);
+    const changes = parseGuidelineChanges(req.body || {});
+
+    const result = await guidelinesService.updateGuideline(uid, id, changes);
+    if (!result) {
+      throw new RouteError(HttpStatusCodes.NOT_FOUND, `Guideline ${id} not found`);
+    }
+
+    res.status(HttpStatusCodes.OK).json(result);
+  } catch (error: any) {
+    console.error('Error updating guideline:', error);
+    if (error instanceof RouteError) {
+      throw error;
+    }
+    throw new RouteError(HttpStatusCodes.INTERNAL_SERVER_ERROR, error.message || 'Internal server error while updating guideline');
+  }
+}
+
+export async function deleteGuideline(req: Request, res: Response) {
+  try {
+    const uid = getUid(req);
+    const id = getGuidelineId(req.params.id);
+
+    const result = await guidelinesService.deleteGuideline(uid, id);
+    if (!result) {
+      throw new RouteError(HttpStatusCodes.NOT_FOUND, `Guideline ${id} has no customization to delete`);
+    }
+
+    res.status(HttpStatusCodes.OK).json(result);
+  } catch (error: any) {
+    console.error('Error deleting guideline:', error);
+    if (error instanceof RouteError) {
+      throw error;
+    }
+    throw new RouteError(HttpStatusCodes.INTERNAL_SERVER_ERROR, error.message || 'Internal server error while deleting guideline');
+  }
+}
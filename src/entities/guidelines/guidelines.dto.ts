@@ -0,0 +1,18 @@
+import type { AccountGuideline } from '../../lib/ai/guidelines/custom-guidelines';
+
+export interface ListGuidelinesResponse {
+  success: boolean;
+  total: number;
+  guidelines: AccountGuideline[]; // Built-ins (with overrides applied) and custom guidelines, disabled included
+}
+
+export interface GuidelineResponse {
+  success: boolean;
+  guideline: AccountGuideline;
+}
+
+export interface DeleteGuidelineResponse {
+  success: boolean;
+  id: string;
+  restored: boolean; // true if a built-in override was removed (the built-in is active again)
+}
@@ -0,0 +1,13 @@
+import { Router } from 'express';
+import * as controller from './guidelines.controller';
+import { verifyToken } from '../../middlewares/tokenVerification';
+
+const router = Router();
+
+router.get('/', verifyToken, controller.listGuidelines);
+router.get('/:id', verifyToken, controller.getGuideline);
+router.post('/', verifyToken, controller.createGuideline);
+router.patch('/:id', verifyToken, controller.updateGuideline);
+router.delete('/:id', verifyToken, controller.deleteGuideline);
+
+export default router;
@@ -0,0 +1,107 @@
+import { multimaiGuidelines } from '../../lib/ai/guidelines/multimai-guidelines';
+import {
+  applyCustomGuidelines,
+  invalidateAccountGuidelines,
+  type AccountGuideline,
+} from '../../lib/ai/guidelines/custom-guidelines';
+import {
+  deleteCustomGuideline,
+  getCustomGuideline,
+  getCustomGuidelines,
+  saveCustomGuideline,
+} from '../../lib/db/repositories/guidelines';
+import type { Guideline } from '../../lib/ai/types/guideline';
+import { DeleteGuidelineResponse, GuidelineResponse, ListGuidelinesResponse } from './guidelines.dto';
+
+function isBuiltInGuideline(id: string): boolean {
+  return multimaiGuidelines.some((guideline) => guideline.id === id);
+}
+
+/**
+ * Guidelines of an account as the agent sees them (read without cache)
+ */
+async function getAccountGuidelineList(uid: string): Promise<AccountGuideline[]> {
+  const custom = await getCustomGuidelines(uid);
+  return applyCustomGuidelines(multimaiGuidelines, custom);
+}
+
+async function listGuidelines(uid: string): Promise<ListGuidelinesResponse> {
+  const guidelines = await getAccountGuidelineList(uid);
+
+  return {
+    success: true,
+    total: guidelines.length,
+    guidelines,
+  };
+}
+
+async function getGuideline(uid: string, id: string): Promise<GuidelineResponse | null> {
+  const guideline = (await getAccountGuidelineList(uid)).find((item) => item.id === id);
+  return guideline ? { success: true, guideline } : null;
+}
+
+async function saveAndInvalidate(uid: string, guideline: Partial<Guideline> & { id: string }): Promise<void> {
+  const saved = await saveCustomGuideline(uid, guideline);
+  if (!saved) {
+    throw new Error(`Could not save guideline ${guideline.id}`);
+  }
+  await invalidateAccountGuidelines(uid);
+}
+
+/**
+ * Creates a guideline of the account
+ * @returns null if the id is already used by a built-in or custom guideline
+ */
+async function createGuideline(uid: string, guideline: Guideline): Promise<GuidelineResponse | null> {
+  if (isBuiltInGuideline(guideline.id) || await getCustomGuideline(uid, guideline.id)) {
+    return null;
+  }
+
+  await saveAndInvalidate(uid, guideline);
+  return getGuideline(uid, guideline.id);
+}
+
+/**
+ * Updates a custom guideline, or overrides fields of a built-in one (enabled, priority, action...)
+ * @returns null if the guideline does not exist
+ */
+async function updateGuideline(uid: string, id: string, changes: Partial<Guideline>): Promise<GuidelineResponse | null> {
+  const existing = await getCustomGuideline(uid, id);
+  if (!existing && !isBuiltInGuideline(id)) {
+    return null;
+  }
+
+  const { createdAt, updatedAt, ...fields } = existing || { id };
+  await saveAndInvalidate(uid, { ...fields, ...changes, id });
+  return getGuideline(uid, id);
+}
+
+/**
+ * Deletes a custom guideline, or removes the override of a built-in one (restoring it)
+ * @returns null if the account has no guideline or override with this id
+ */
+async function deleteGuideline(uid: string, id: string): Promise<DeleteGuidelineResponse | null> {
+  if (!(await getCustomGuideline(uid, id))) {
+    return null;
+  }
+
+  const deleted = await deleteCustomGuideline(uid, id);
+  if (!deleted) {
+    throw new Error(`Could not delete guideline ${id}`);
+  }
+  await invalidateAccountGuidelines(uid);
+
+  return {
+    success: true,
+    id,
+    restored: isBuiltInGuideline(id),
+  };
+}
+
+export default {
+  listGuidelines,
+  getGuideline,
+  createGuideline,
+  updateGuideline,
+  deleteGuideline,
+};
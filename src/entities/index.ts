@@ -1,6 +1,15 @@
 import wsRoutes from './ws/ws.router';
 import remindersRoutes from './reminders/reminders.router';
 import cacheRoutes from './cache/cache.router';
+import referralsRoutes from './referrals/referrals.router';
+import blocksRoutes from './blocks/blocks.router';
+import chatRoutes from './chat/chat.router';
+import suppressionsRoutes from './suppressions/suppressions.router';
+import guidelinesRoutes from './guidelines/guidelines.router';
+import experimentsRoutes from './experiments/experiments.router';
+import usageRoutes from './usage/usage.router';
+import modelsRoutes from './models/models.router';
+import tracesRoutes from './traces/traces.router';
 import { paddleRoutes } from './paddle';
 
-export { wsRoutes, remindersRoutes, cacheRoutes, paddleRoutes };
\ No newline at end of file
+export { wsRoutes, remindersRoutes, cacheRoutes, paddleRoutes, referralsRoutes, blocksRoutes, chatRoutes, suppressionsRoutes, guidelinesRoutes, experimentsRoutes, usageRoutes, modelsRoutes, tracesRoutes };
\ No newline at end of file
@@ -0,0 +1,39 @@
+import { Request, Response } from 'express';
+import HttpStatusCodes from '../../constants/HttpStatusCodes';
+import modelsService from './models.service';
+import { RouteError } from '../../other/errorHandler';
+import { MODEL_RESILIENCE_CONFIG } from '../../lib/ai/resilience';
+
+function getEventsLimit(value: unknown): number {
+  if (value === undefined) {
+    return MODEL_RESILIENCE_CONFIG.MAX_EVENTS;
+  }
+
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MODEL_RESILIENCE_CONFIG.MAX_EVENTS) {
+    throw new RouteError(HttpStatusCodes.BAD_REQUEST, `events must be an integer between 1 and ${MODEL_RESILIENCE_CONFIG.MAX_EVENTS}`);
+  }
+
+  return limit;
+}
+
+export async function getModelsStatus(req: Request, res: Response) {
+  try {
+    const apiKey = req.headers['x-api-key'] as string || req.query.apiKey as string;
+
+    // Validate API key
+    if (!modelsService.validateApiKey(apiKey)) {
+      throw new RouteError(HttpStatusCodes.UNAUTHORIZED, 'Unauthorized: Invalid API key');
+    }
+
+    const eventsLimit = getEventsLimit(req.query.events);
+
+    res.status(HttpStatusCodes.OK).json(modelsService.getModelsStatus(eventsLimit));
+  } catch (error: any) {
+    console.error('Error getting models status:', error);
+    if (error instanceof RouteError) {
+      throw error;
+    }
+    throw new RouteError(HttpStatusCodes.INTERNAL_SERVER_ERROR, error.message || 'Internal server error while getting models status');
+  }
+}
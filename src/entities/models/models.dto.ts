@@ -0,0 +1,13 @@
+import type { FallbackEvent, ProviderBreakerStatus } from '../../lib/ai/resilience';
+
+export interface ModelsStatusResponse {
+  success: boolean;
+  instance: string; // Breakers are kept in memory: the status is of the instance that answered
+  breakers: ProviderBreakerStatus[]; // Providers called since the instance started
+  events: FallbackEvent[]; // Most recent first
+  config: {
+    maxRetries: number;
+    breakerFailureThreshold: number;
+    breakerOpenMs: number;
+  };
+}
@@ -0,0 +1,8 @@
+import { Router } from 'express';
+import * as controller from './models.controller';
+
+const router = Router();
+
+router.get('/status', controller.getModelsStatus);
+
+export default router;
@@ -0,0 +1,35 @@
+import { hostname } from 'os';
+import { MODEL_RESILIENCE_CONFIG, getBreakerStatuses, getFallbackEvents } from '../../lib/ai/resilience';
+import { ModelsStatusResponse } from './models.dto';
+
+// Simple API key authentication, every request is rejected while the key is not configured
+const MODELS_STATUS_API_KEY = process.env.MODELS_STATUS_API_KEY;
+
+function validateApiKey(apiKey: string | undefined): boolean {
+  if (!apiKey || !MODELS_STATUS_API_KEY) {
+    return false;
+  }
+  return apiKey === MODELS_STATUS_API_KEY;
+}
+
+/**
+ * Circuit breakers of the LLM providers and recent retries/fall-overs of this instance
+ */
+function getModelsStatus(eventsLimit: number): ModelsStatusResponse {
+  return {
+    success: true,
+    instance: hostname(),
+    breakers: getBreakerStatuses(),
+    events: getFallbackEvents(eventsLimit),
+    config: {
+      maxRetries: MODEL_RESILIENCE_CONFIG.MAX_RETRIES,
+      breakerFailureThreshold: MODEL_RESILIENCE_CONFIG.BREAKER_FAILURE_THRESHOLD,
+      breakerOpenMs: MODEL_RESILIENCE_CONFIG.BREAKER_OPEN_MS,
+    },
+  };
+}
+
+export default {
+  validateApiKey,
+  getModelsStatus,
+};
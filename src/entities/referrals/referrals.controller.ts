@@ -0,0 +1,38 @@
+import { Request, Response } from 'express';
+import HttpStatusCodes from '../../constants/HttpStatusCodes';
+import referralsService from './referrals.service';
+import { RouteError } from '../../other/errorHandler';
+import { getUid } from '../../other/routeHelpers';
+
+export async function listReferrals(req: Request, res: Response) {
+  try {
+    const uid = getUid(req);
+    const referrerPhone = req.query.referrerPhone as string | undefined;
+
+    const result = await referralsService.listReferrals(uid, referrerPhone);
+
+    res.status(HttpStatusCodes.OK).json(result);
+  } catch (error: any) {
+    console.error('Error listing referrals:', error);
+    if (error instanceof RouteError) {
+      throw error;
+    }
+    throw new RouteError(HttpStatusCodes.INTERNAL_SERVER_ERROR, error.message || 'Internal server error while listing referrals');
+  }
+}
+
+export async function getReferralsSummary(req: Request, res: Response) {
+  try {
+    const uid = getUid(req);
+
+    const result = await referralsService.getReferralsSummary(uid);
+
+    res.status(HttpStatusCodes.OK).json(result);
+  } catch (error: any) {
+    console.error('Error getting referrals summary:', error);
+    if (error instanceof RouteError) {
+      throw error;
+    }
+    throw new RouteError(HttpStatusCodes.INTERNAL_SERVER_ERROR, error.message || 'Internal server error while getting referrals summary');
+  }
+}
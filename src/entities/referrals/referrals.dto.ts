@@ -0,0 +1,21 @@
+import { Referral } from '../../lib/db/types';
+
+export interface ListReferralsResponse {
+  success: boolean;
+  total: number;
+  referrals: Referral[];
+}
+
+export interface ReferrerSummary {
+  referrerPhone: string;
+  referrerName?: string | null;
+  totalReferrals: number;
+  newCustomers: number; // Referrals eligible for a bonus (contact was not a customer yet)
+  lastReferralAt?: any;
+}
+
+export interface ReferralsSummaryResponse {
+  success: boolean;
+  totalReferrals: number;
+  referrers: ReferrerSummary[];
+}
@@ -0,0 +1,10 @@
+import { Router } from 'express';
+import * as controller from './referrals.controller';
+import { verifyToken } from '../../middlewares/tokenVerification';
+
+const router = Router();
+
+router.get('/', verifyToken, controller.listReferrals);
+router.get('/summary', verifyToken, controller.getReferralsSummary);
+
+export default router;
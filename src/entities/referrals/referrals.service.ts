@@ -0,0 +1,49 @@
+import { getReferrals } from '../../lib/db/repositories/referrals';
+import { ListReferralsResponse, ReferralsSummaryResponse, ReferrerSummary } from './referrals.dto';
+
+async function listReferrals(uid: string, referrerPhone?: string): Promise<ListReferralsResponse> {
+  const referrals = await getReferrals(uid, referrerPhone);
+
+  return {
+    success: true,
+    total: referrals.length,
+    referrals,
+  };
+}
+
+/**
+ * Aggregates referrals per referrer, used to compute referral bonuses
+ */
+async function getReferralsSummary(uid: string): Promise<ReferralsSummaryResponse> {
+  const referrals = await getReferrals(uid);
+  const summaries = new Map<string, ReferrerSummary>();
+
+  // Referrals come sorted newest first, so the first one seen is the latest
+  for (const referral of referrals) {
+    const summary = summaries.get(referral.referrerPhone) ?? {
+      referrerPhone: referral.referrerPhone,
+      referrerName: referral.referrerName,
+      totalReferrals: 0,
+      newCustomers: 0,
+      lastReferralAt: referral.createdAt,
+    };
+
+    summary.totalReferrals++;
+    if (referral.status === 'new_customer') {
+      summary.newCustomers++;
+    }
+
+    summaries.set(referral.referrerPhone, summary);
+  }
+
+  return {
+    success: true,
+    totalReferrals: referrals.length,
+    referrers: Array.from(summaries.values()).sort((a, b) => b.newCustomers - a.newCustomers),
+  };
+}
+
+export default {
+  listReferrals,
+  getReferralsSummary,
+};
@@ -1,8 +1,19 @@
 
 import { db } from '../../lib/db/firebase';
 import { jobsClient } from '../../lib/other/jobsClient';
+import { getInternalRequestHeaders } from '../../lib/utils/webhook-security';
+import { getCustomerLanguage } from '../../lib/db/repositories/customers';
+import { canSendProactive } from '../../lib/utils/opt-out';
+import type { ConversationLanguage } from '../../lib/db/types';
 import { ReminderData, QueuedJob, ProcessTodayRemindersResponse } from './reminders.dto';
 
+// Prefix of the reminder message, in the customer's language
+const REMINDER_PREFIXES: Record<ConversationLanguage, string> = {
+  es: 'Recordatorio',
+  en: 'Reminder',
+  pt: 'Lembrete',
+};
+
 async function processTodayReminders(uid: string): Promise<ProcessTodayRemindersResponse> {
   console.log("[ProcessTodayReminders] Iniciando procesamiento de reminders del día");
 
@@ -47,10 +58,10 @@ async function processTodayReminders(uid: string): Promise<ProcessTodayReminders
 
   console.log("[ProcessTodayReminders] Total reminders del día encontrados:", allReminders.length);
 
-  // Filtrar reminders que NO estén en status 'sent' o 'processing'
+  // Filtrar reminders que NO estén en status 'sent', 'processing' o 'suppressed'
   const unprocessedReminders = allReminders.filter((reminder) => {
     const status = reminder.status;
-    const shouldSkip = status === 'sent' || status === 'processing';
+    const shouldSkip = status === 'sent' || status === 'processing' || status === 'suppressed';
     if (shouldSkip) {
       console.log(`[ProcessTodayReminders] ⏭️ Reminder ${reminder.id} omitido (status: ${status})`);
     }
@@ -93,13 +104,25 @@ async function processTodayReminders(uid: string): Promise<ProcessTodayReminders
 
   for (const reminder of reminders) {
     try {
+      // Customers that opted out receive no reminders
+      if (reminder.customer?.phone && !(await canSendProactive(reminder.userId, reminder.customer.phone, 'visit_reminder'))) {
+        await db.collection(`users/${uid}/reminders`).doc(reminder.id).update({
+          status: 'suppressed',
+          suppressedAt: new Date(),
+        });
+        continue;
+      }
+
       // Preparar la data para activate-agent
+      const language = reminder.customer?.phone
+        ? await getCustomerLanguage(reminder.userId, reminder.customer.phone)
+        : 'es';
       const activateAgentData = {
         uid: reminder.userId,
         session: process.env.MULTIMAI_WS_SESSION,
         userPhone: reminder.customer?.phone,
         userName: reminder.customer?.name,
-        assistantMessage: `Recordatorio: ${reminder.toRemember}`,
+        assistantMessage: `${REMINDER_PREFIXES[language]}: ${reminder.toRemember}`,
         reminderId: reminder.id,
       };
 
@@ -114,13 +137,15 @@ async function processTodayReminders(uid: string): Promise<ProcessTodayReminders
       }
 
       // Encolar el job en el microservicio
+      // The job is delivered (and retried) later, so it authenticates with the internal key instead of a signature
       const jobPayload = {
         path: `${apiBaseUrl}/ws/activate-agent`, // Updated path for v2
         data: activateAgentData,
+        headers: getInternalRequestHeaders(),
       };
 
       console.log("[ProcessTodayReminders] Encolando job para reminder:", reminder.id);
-      console.log("[ProcessTodayReminders] Job payload:", JSON.stringify(jobPayload, null, 2));
+      console.log("[ProcessTodayReminders] Job payload:", JSON.stringify({ path: jobPayload.path, data: jobPayload.data }, null, 2));
 
       const response = await jobsClient.post("/enqueue", jobPayload);
 
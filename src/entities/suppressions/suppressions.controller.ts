@@ -0,0 +1,115 @@
+import { Request, Response } from 'express';
+import HttpStatusCodes from '../../constants/HttpStatusCodes';
+import suppressionsService from './suppressions.service';
+import { RouteError } from '../../other/errorHandler';
+import { getUid } from '../../other/routeHelpers';
+import { normalizeSuppressionPhone } from '../../lib/db/repositories/suppressions';
+
+const MAX_PAGE_SIZE = 200;
+
+function getPhone(value: unknown): string {
+  if (typeof value !== 'string' || !normalizeSuppressionPhone(value)) {
+    throw new RouteError(HttpStatusCodes.BAD_REQUEST, 'A valid phone is required');
+  }
+
+  return value;
+}
+
+function getLimit(value: unknown): number {
+  if (value === undefined) {
+    return 50;
+  }
+
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    throw new RouteError(HttpStatusCodes.BAD_REQUEST, `limit must be an integer between 1 and ${MAX_PAGE_SIZE}`);
+  }
+
+  return limit;
+}
+
+/**
+ * Pagination cursor of the query (nextCursor of the previous page)
+ */
+function getCursor(value: unknown): string | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'string' || !value.trim() || value.includes('/')) {
+    throw new RouteError(HttpStatusCodes.BAD_REQUEST, 'cursor must be a nextCursor returned by a previous page');
+  }
+
+  return value.trim();
+}
+
+export async function listSuppressions(req: Request, res: Response) {
+  try {
+    const uid = getUid(req);
+    const limit = getLimit(req.query.limit);
+    const cursor = getCursor(req.query.cursor);
+
+    const result = await suppressionsService.listSuppressions(uid, limit, cursor);
+
+    res.status(HttpStatusCodes.OK).json(result);
+  } catch (error: any) {
+    console.error('Error listing suppressions:', error);
+    if (error instanceof RouteError) {
+      throw error;
+    }
+    throw new RouteError(HttpStatusCodes.INTERNAL_SERVER_ERROR, error.message || 'Internal server error while listing suppressions');
+  }
+}
+
+export async function getAudit(req: Request, res: Response) {
+  try {
+    const uid = getUid(req);
+    const phone = req.query.phone as string | undefined;
+    const limit = getLimit(req.query.limit);
+    const cursor = getCursor(req.query.cursor);
+
+    const result = await suppressionsService.getAudit(uid, limit, phone, cursor);
+
+    res.status(HttpStatusCodes.OK).json(result);
+  } catch (error: any) {
+    console.error('Error getting suppression audit:', error);
+    if (error instanceof RouteError) {
+      throw error;
+    }
+    throw new RouteError(HttpStatusCodes.INTERNAL_SERVER_ERROR, error.message || 'Internal server error while getting suppression audit');
+  }
+}
+
+export async function suppressPhone(req: Request, res: Response) {
+  try {
+    const uid = getUid(req);
+    const phone = getPhone(req.body?.phone);
+    const reason = typeof req.body?.reason === 'string' ? req.body.reason : undefined;
+
+    const result = await suppressionsService.suppressPhone(uid, phone, reason);
+
+    res.status(HttpStatusCodes.OK).json(result);
+  } catch (error: any) {
+    console.error('Error suppressing phone:', error);
+    if (error instanceof RouteError) {
+      throw error;
+    }
+    throw new RouteError(HttpStatusCodes.INTERNAL_SERVER_ERROR, error.message || 'Internal server error while suppressing phone');
+  }
+}
+
+export async function unsuppressPhone(req: Request, res: Response) {
+  try {
+    const uid = getUid(req);
+    const phone = getPhone(req.params.phone);
+
+    const result = await suppressionsService.unsuppressPhone(uid, phone);
+
+    res.status(HttpStatusCodes.OK).json(result);
+  } catch (error: any) {
+    console.error('Error unsuppressing phone:', error);
+    if (error instanceof RouteError) {
+      throw error;
+    }
+    throw new RouteError(HttpStatusCodes.INTERNAL_SERVER_ERROR, error.message || 'Internal server error while unsuppressing phone');
+  }
+}
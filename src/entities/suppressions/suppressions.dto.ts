@@ -0,0 +1,21 @@
+import { SuppressionAuditEvent, SuppressionEntry } from '../../lib/db/types';
+
+export interface ListSuppressionsResponse {
+  success: boolean;
+  total: number;
+  suppressions: SuppressionEntry[];
+  nextCursor: string | null; // Pass as ?cursor= to get the next page
+}
+
+export interface SuppressionAuditResponse {
+  success: boolean;
+  total: number;
+  events: SuppressionAuditEvent[];
+  nextCursor: string | null;
+}
+
+export interface UpdateSuppressionResponse {
+  success: boolean;
+  phone: string;
+  changed: boolean; // false if the number was already in the requested state
+}
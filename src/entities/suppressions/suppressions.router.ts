@@ -0,0 +1,12 @@
+import { Router } from 'express';
+import * as controller from './suppressions.controller';
+import { verifyToken } from '../../middlewares/tokenVerification';
+
+const router = Router();
+
+router.get('/', verifyToken, controller.listSuppressions);
+router.get('/audit', verifyToken, controller.getAudit);
+router.post('/', verifyToken, controller.suppressPhone);
+router.delete('/:phone', verifyToken, controller.unsuppressPhone);
+
+export default router;
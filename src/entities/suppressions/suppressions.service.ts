@@ -0,0 +1,63 @@
+import {
+  addSuppression,
+  getSuppressionAudit,
+  getSuppressions,
+  normalizeSuppressionPhone,
+  removeSuppression,
+} from '../../lib/db/repositories/suppressions';
+import { ListSuppressionsResponse, SuppressionAuditResponse, UpdateSuppressionResponse } from './suppressions.dto';
+
+async function listSuppressions(uid: string, limit: number, cursor?: string): Promise<ListSuppressionsResponse> {
+  const page = await getSuppressions(uid, limit, cursor);
+
+  return {
+    success: true,
+    total: page.items.length,
+    suppressions: page.items,
+    nextCursor: page.nextCursor,
+  };
+}
+
+async function getAudit(uid: string, limit: number, phone?: string, cursor?: string): Promise<SuppressionAuditResponse> {
+  const page = await getSuppressionAudit(uid, limit, phone, cursor);
+
+  return {
+    success: true,
+    total: page.items.length,
+    events: page.items,
+    nextCursor: page.nextCursor,
+  };
+}
+
+/**
+ * Opts a number out on the owner's behalf (e.g. a request received by phone)
+ */
+async function suppressPhone(uid: string, phone: string, reason?: string): Promise<UpdateSuppressionResponse> {
+  const changed = await addSuppression(uid, phone, 'owner', reason ?? null);
+
+  return {
+    success: true,
+    phone: normalizeSuppressionPhone(phone),
+    changed,
+  };
+}
+
+/**
+ * Opts a number back in on the owner's behalf
+ */
+async function unsuppressPhone(uid: string, phone: string): Promise<UpdateSuppressionResponse> {
+  const changed = await removeSuppression(uid, phone, 'owner');
+
+  return {
+    success: true,
+    phone: normalizeSuppressionPhone(phone),
+    changed,
+  };
+}
+
+export default {
+  listSuppressions,
+  getAudit,
+  suppressPhone,
+  unsuppressPhone,
+};
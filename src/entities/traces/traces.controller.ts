@@ -0,0 +1,75 @@
+import { Request, Response } from 'express';
+import HttpStatusCodes from '../../constants/HttpStatusCodes';
+import tracesService from './traces.service';
+import { RouteError } from '../../other/errorHandler';
+import { getUid } from '../../other/routeHelpers';
+
+const MAX_TRACES = 100;
+
+/**
+ * Customer filter of the query (optional)
+ */
+function getPhone(value: unknown): string | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new RouteError(HttpStatusCodes.BAD_REQUEST, 'phone must be a non-empty string');
+  }
+
+  return value.trim();
+}
+
+function getLimit(value: unknown): number {
+  if (value === undefined) {
+    return 20;
+  }
+
+  const limit = Number(value);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_TRACES) {
+    throw new RouteError(HttpStatusCodes.BAD_REQUEST, `limit must be an integer between 1 and ${MAX_TRACES}`);
+  }
+
+  return limit;
+}
+
+export async function getTraces(req: Request, res: Response) {
+  try {
+    const uid = getUid(req);
+    const phone = getPhone(req.query.phone);
+    const limit = getLimit(req.query.limit);
+
+    const result = await tracesService.getTraces(uid, limit, phone);
+
+    res.status(HttpStatusCodes.OK).json(result);
+  } catch (error: any) {
+    console.error('Error getting traces:', error);
+    if (error instanceof RouteError) {
+      throw error;
+    }
+    throw new RouteError(HttpStatusCodes.INTERNAL_SERVER_ERROR, error.message || 'Internal server error while getting traces');
+  }
+}
+
+export async function getTrace(req: Request, res: Response) {
+  try {
+    const uid = getUid(req);
+    const { id } = req.params;
+    if (!/^[a-zA-Z0-9-]{1,100}$/.test(id)) {
+      throw new RouteError(HttpStatusCodes.BAD_REQUEST, 'A valid trace id is required');
+    }
+
+    const result = await tracesService.getTrace(uid, id);
+    if (!result) {
+      throw new RouteError(HttpStatusCodes.NOT_FOUND, `Trace ${id} not found`);
+    }
+
+    res.status(HttpStatusCodes.OK).json(result);
+  } catch (error: any) {
+    console.error('Error getting trace:', error);
+    if (error instanceof RouteError) {
+      throw error;
+    }
+    throw new RouteError(HttpStatusCodes.INTERNAL_SERVER_ERROR, error.message || 'Internal server error while getting trace');
+  }
+}
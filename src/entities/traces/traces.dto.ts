@@ -0,0 +1,12 @@
+import type { CascadeTraceData } from '../../lib/db/types';
+
+export interface TracesResponse {
+  success: boolean;
+  traces: CascadeTraceData[]; // Most recent first
+  count: number;
+}
+
+export interface TraceResponse {
+  success: boolean;
+  trace: CascadeTraceData;
+}
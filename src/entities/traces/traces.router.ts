@@ -0,0 +1,10 @@
+import { Router } from 'express';
+import * as controller from './traces.controller';
+import { verifyToken } from '../../middlewares/tokenVerification';
+
+const router = Router();
+
+router.get('/', verifyToken, controller.getTraces);
+router.get('/:id', verifyToken, controller.getTrace);
+
+export default router;
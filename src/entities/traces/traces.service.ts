@@ -0,0 +1,27 @@
+import { getTrace as getTraceData, getTraces as getTracesData } from '../../lib/db/repositories/traces';
+import { TraceResponse, TracesResponse } from './traces.dto';
+
+/**
+ * Most recent cascade traces of the account, optionally of a single customer
+ */
+async function getTraces(uid: string, limit: number, phone?: string): Promise<TracesResponse> {
+  const traces = await getTracesData(uid, limit, phone);
+  return {
+    success: true,
+    traces,
+    count: traces.length,
+  };
+}
+
+/**
+ * @returns null if the trace doesn't exist (or expired)
+ */
+async function getTrace(uid: string, traceId: string): Promise<TraceResponse | null> {
+  const trace = await getTraceData(uid, traceId);
+  return trace ? { success: true, trace } : null;
+}
+
+export default {
+  getTraces,
+  getTrace,
+};
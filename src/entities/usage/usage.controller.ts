@@ -0,0 +1,92 @@
+import { Request, Response } from 'express';
+import HttpStatusCodes from '../../constants/HttpStatusCodes';
+import usageService from './usage.service';
+import { RouteError } from '../../other/errorHandler';
+import { getUid } from '../../other/routeHelpers';
+import { getUsageMonth } from '../../lib/ai/usage';
+
+const MAX_HISTORY_MONTHS = 24;
+
+/**
+ * Month of the query (YYYY-MM), current month by default
+ */
+function getMonth(value: unknown): string {
+  if (value === undefined) {
+    return getUsageMonth();
+  }
+  if (typeof value !== 'string' || !/^\d{4}-(0[1-9]|1[0-2])$/.test(value)) {
+    throw new RouteError(HttpStatusCodes.BAD_REQUEST, 'month must have the format YYYY-MM');
+  }
+
+  return value;
+}
+
+function getMonthsCount(value: unknown): number {
+  if (value === undefined) {
+    return 6;
+  }
+
+  const months = Number(value);
+  if (!Number.isInteger(months) || months < 1 || months > MAX_HISTORY_MONTHS) {
+    throw new RouteError(HttpStatusCodes.BAD_REQUEST, `months must be an integer between 1 and ${MAX_HISTORY_MONTHS}`);
+  }
+
+  return months;
+}
+
+export async function getMonthlyUsage(req: Request, res: Response) {
+  try {
+    const uid = getUid(req);
+    const month = getMonth(req.query.month);
+
+    const result = await usageService.getMonthlyUsage(uid, month);
+
+    res.status(HttpStatusCodes.OK).json(result);
+  } catch (error: any) {
+    console.error('Error getting LLM usage:', error);
+    if (error instanceof RouteError) {
+      throw error;
+    }
+    throw new RouteError(HttpStatusCodes.INTERNAL_SERVER_ERROR, error.message || 'Internal server error while getting LLM usage');
+  }
+}
+
+export async function getUsageHistory(req: Request, res: Response) {
+  try {
+    const uid = getUid(req);
+    const months = getMonthsCount(req.query.months);
+
+    const result = await usageService.getUsageHistory(uid, months);
+
+    res.status(HttpStatusCodes.OK).json(result);
+  } catch (error: any) {
+    console.error('Error getting LLM usage history:', error);
+    if (error instanceof RouteError) {
+      throw error;
+    }
+    throw new RouteError(HttpStatusCodes.INTERNAL_SERVER_ERROR, error.message || 'Internal server error while getting LLM usage history');
+  }
+}
+
+export async function getExecutionUsage(req: Request, res: Response) {
+  try {
+    const uid = getUid(req);
+    const { executionId } = req.params;
+    if (!/^[a-zA-Z0-9-]{1,100}$/.test(executionId)) {
+      throw new RouteError(HttpStatusCodes.BAD_REQUEST, 'A valid execution id is required');
+    }
+
+    const result = await usageService.getExecutionUsage(uid, executionId);
+    if (!result) {
+      throw new RouteError(HttpStatusCodes.NOT_FOUND, `No LLM usage recorded for execution ${executionId}`);
+    }
+
+    res.status(HttpStatusCodes.OK).json(result);
+  } catch (error: any) {
+    console.error('Error getting execution LLM usage:', error);
+    if (error instanceof RouteError) {
+      throw error;
+    }
+    throw new RouteError(HttpStatusCodes.INTERNAL_SERVER_ERROR, error.message || 'Internal server error while getting execution LLM usage');
+  }
+}
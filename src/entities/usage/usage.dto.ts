@@ -0,0 +1,20 @@
+import type { LLMUsageData } from '../../lib/db/types';
+import type { LLMBudgetStatus } from '../../lib/ai/usage';
+
+export interface MonthlyUsageResponse {
+  success: boolean;
+  month: string; // "YYYY-MM"
+  usage: LLMUsageData; // Totals, by component and by model (zero if the month has no usage)
+  budget: LLMBudgetStatus;
+}
+
+export interface UsageHistoryResponse {
+  success: boolean;
+  months: Array<LLMUsageData & { month: string }>; // Most recent first
+}
+
+export interface ExecutionUsageResponse {
+  success: boolean;
+  executionId: string;
+  usage: LLMUsageData & { month: string };
+}
@@ -0,0 +1,11 @@
+import { Router } from 'express';
+import * as controller from './usage.controller';
+import { verifyToken } from '../../middlewares/tokenVerification';
+
+const router = Router();
+
+router.get('/', verifyToken, controller.getMonthlyUsage);
+router.get('/history', verifyToken, controller.getUsageHistory);
+router.get('/executions/:executionId', verifyToken, controller.getExecutionUsage);
+
+export default router;
@@ -0,0 +1,54 @@
+import {
+  getExecutionLLMUsage,
+  getLLMUsageHistory,
+  getMonthlyLLMUsage,
+} from '../../lib/db/repositories/llm-usage';
+import { getLLMBudgetStatus } from '../../lib/ai/usage';
+import type { LLMUsageData } from '../../lib/db/types';
+import { ExecutionUsageResponse, MonthlyUsageResponse, UsageHistoryResponse } from './usage.dto';
+
+const EMPTY_USAGE: LLMUsageData = {
+  calls: 0,
+  inputTokens: 0,
+  outputTokens: 0,
+  cost: 0,
+  components: {},
+  models: {},
+};
+
+/**
+ * Usage of a month with the budget of the account plan
+ */
+async function getMonthlyUsage(uid: string, month: string): Promise<MonthlyUsageResponse> {
+  const usage = (await getMonthlyLLMUsage(uid, month)) || EMPTY_USAGE;
+  const budget = await getLLMBudgetStatus(uid, month, usage.cost);
+
+  return {
+    success: true,
+    month,
+    usage,
+    budget,
+  };
+}
+
+async function getUsageHistory(uid: string, months: number): Promise<UsageHistoryResponse> {
+  return {
+    success: true,
+    months: await getLLMUsageHistory(uid, months),
+  };
+}
+
+/**
+ * Usage of a single execution (one batch of customer messages)
+ * @returns null if the execution made no recorded LLM calls
+ */
+async function getExecutionUsage(uid: string, executionId: string): Promise<ExecutionUsageResponse | null> {
+  const usage = await getExecutionLLMUsage(uid, executionId);
+  return usage ? { success: true, executionId, usage } : null;
+}
+
+export default {
+  getMonthlyUsage,
+  getUsageHistory,
+  getExecutionUsage,
+};
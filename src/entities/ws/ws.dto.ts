@@ -1,3 +1,16 @@
+import type { MessageTranscription } from '../../lib/transcription/types';
+
+// Location pin shared by the user (WAHA sends coordinates as numbers or strings depending on engine)
+export interface WhatsAppLocation {
+  latitude: number | string;
+  longitude: number | string;
+  name?: string | null;
+  address?: string | null;
+  description?: string | null;
+  url?: string | null;
+  live?: boolean;
+}
+
 // WhatsApp webhook payload interface based on WAHA NOWEB structure
 export interface WhatsAppWebhookPayload {
   id: string;
@@ -33,9 +46,12 @@ export interface WhatsAppWebhookPayload {
     } | null;
     ack: number;
     ackName: string;
-    location: unknown | null;
+    location: WhatsAppLocation | null;
     vCards: unknown[] | null;
+    // Quoted message, id is the WhatsApp message id of the quoted message
     replyTo?: {
+      id?: string;
+      participant?: string;
       body: string;
     } | null;
     _data: {
@@ -65,6 +81,8 @@ export interface WhatsAppWebhookPayload {
     browser: string | null;
     [key: string]: unknown;
   };
+  // Set internally when an audio message is transcribed (not sent by WAHA)
+  transcription?: MessageTranscription;
 }
 
 // Tipos de mensajes soportados
@@ -1,14 +1,25 @@
 import { Router } from 'express';
 import * as controller from './ws.controller';
+import { dedupeWebhook, verifyInternalRequest, verifyWebhookSignature } from '../../middlewares/webhookVerification';
 
 const router = Router();
 
-// Webhook endpoint - no authentication required (WAHA will call this directly)
-router.post('/webhook', controller.handleWebhook);
+// WAHA events are deduped by message id (retried deliveries keep the same payload.id)
+// Each ack value of a message is a different receipt
+const dedupeByMessageId = dedupeWebhook((body) => body?.payload?.id && (body.event === 'message.ack'
+  ? `${body.session}:${body.event}:${body.payload.id}:${body.payload.ack}`
+  : `${body.session}:${body.event}:${body.payload.id}`));
+// Reminder jobs may be retried by the jobs service
+const dedupeByReminderId = dedupeWebhook((body) => body?.reminderId && `reminder:${body.reminderId}`);
 
-router.post('/multimai-webhook', controller.handleMultimaiWebhook);
+// Webhook endpoint - WAHA calls this directly, signed with the session HMAC secret
+router.post('/webhook', verifyWebhookSignature, dedupeByMessageId, controller.handleWebhook);
 
-router.post('/activate-agent', controller.handleActivateAgent);
+router.post('/multimai-webhook', verifyWebhookSignature, dedupeByMessageId, controller.handleMultimaiWebhook);
+
+// Internal endpoint - reminder jobs send the internal key (ACTIVATE_AGENT_API_KEY),
+// owner responses are signed with signWebhookBody
+router.post('/activate-agent', verifyInternalRequest, dedupeByReminderId, controller.handleActivateAgent);
 
 export default router;
 
@@ -3,49 +3,230 @@
  * Handles webhook processing and agent activation
  * 
  * Features:
- * - Message batching with debounce
+ * - Message batching with debounce (in-memory or shared through Redis)
  * - Cancellation support: new messages abort current processing
  * - ExecutionContext for deferred actions and cleanup
+ * - Voice note transcription and location pins before enqueueing
+ * - Referral leads from shared contact cards
+ * - Delivery/read receipts of bot messages (message.ack)
+ * - Per-customer and per-account rate limits before enqueueing
+ * - Away message out of business hours
+ * - Opt-out / opt-in commands (suppression list for proactive messages)
+ * - A/B experiments: customers answered by the variant they are assigned to
  */
 
-import { mainGuidelinesWorkflow } from '../../lib/ai/workflows/main-guidelines-workflow';
-import { mainGuidelinesWorkflow as mainGuidelinesWorkflowCascade } from '../../lib/ai/workflows/main-guidelines-cascade-workflow';
+import { runAgentWorkflow } from '../../lib/ai/experiments';
 import { multimaiWorkflow } from '../../lib/ai/workflows/multimai-workflow';
 import { WhatsAppWebhookPayload, ActivateAgentRequest } from './ws.dto';
 import { extractCustomerNumber, hasToReply } from '../../lib/utils/inactivate-bot';
 import { processResponse } from '../../lib/utils/response-processor';
-import { wsProxyClient } from '../../lib/other/wsProxyClient';
+import { getChannelForAccount, getPlatformChannel } from '../../lib/channels';
 import { createMessageQueue, MESSAGE_QUEUE_CONFIG, ProcessingContext } from '../../lib/utils/message-queue';
+import { createDistributedMessageQueue } from '../../lib/queues/message-debounce-queue';
 import { db } from '../../lib/db/firebase';
 import { formatChatId, extractPhoneFromChatId } from '../../lib/utils/message-helpers';
-import { withTypingIndicator } from '../../lib/utils/typing-indicator-helper';
-import { sendSeen, startTyping, stopTyping } from '../../lib/utils/whatsapp-status-helpers';
+import { withTypingIndicator, startTypingIndicator, stopTypingIndicator } from '../../lib/utils/typing-indicator-helper';
+import { sendSeen } from '../../lib/utils/whatsapp-status-helpers';
 import { shouldProcessWorkflow } from '../../lib/utils/validation';
 import { createMessageCleanupFn } from '../../lib/db/repositories/conversations';
 import { WorkflowResult } from '../../lib/ai/workflows/main-guidelines-workflow';
 import { AI_CONFIG } from '../../lib/ai/config';
+import { prepareAudioMessage } from '../../lib/transcription';
+import { prepareLocationMessage } from '../../lib/utils/location-helpers';
+import { parseWebhookContacts, prepareContactsMessage } from '../../lib/utils/vcard-helpers';
+import { processSharedContacts } from '../../lib/utils/referrals';
+import { processMessageAck, trackSentMessage } from '../../lib/utils/delivery-tracking';
+import { checkMessageRateLimit, handleRateLimitExceeded } from '../../lib/utils/rate-limiter';
+import { sendAwayMessageIfClosed } from '../../lib/utils/business-hours';
+import { canSendProactive, processOptOutMessage, processPlatformOptOutMessage } from '../../lib/utils/opt-out';
 
 // Create message queue instance with centralized configuration
-const enqueueMessage = createMessageQueue({
-  gapMilliseconds: MESSAGE_QUEUE_CONFIG.GAP_MILLISECONDS
-});
+// Redis mode shares debounce and cancellation across API replicas
+const enqueueMessage = MESSAGE_QUEUE_CONFIG.MODE === 'redis'
+  ? createDistributedMessageQueue({
+    gapMilliseconds: MESSAGE_QUEUE_CONFIG.GAP_MILLISECONDS,
+    handlers: {
+      webhook: processAccumulatedMessages,
+      multimai: processAccumulatedMultimaiMessages,
+    },
+  })
+  : createMessageQueue({
+    gapMilliseconds: MESSAGE_QUEUE_CONFIG.GAP_MILLISECONDS
+  });
 
 /**
- * Sends WhatsApp messages to a chat
+ * Runs the agent workflow on a batch of accumulated customer messages
+ * Registered as a queue handler: it only depends on the processing context so any instance can run it
  */
-async function sendMessages(session: string, chatId: string, messages: any[]): Promise<void> {
-  await wsProxyClient.post(`/ws/send-message`, {
-    chatId,
-    session,
-    messages,
-  });
+async function processAccumulatedMessages(context: ProcessingContext): Promise<void> {
+  const { payload, executionContext } = context;
+  const { messages: accumulatedMessages, metadata, session, from } = payload;
+  const userPhone = extractPhoneFromChatId(from);
+  const channel = await getChannelForAccount(metadata.uid);
+
+  // Set up cleanup function for abort scenarios
+  executionContext.setCleanupFn(createMessageCleanupFn(metadata.uid, userPhone));
+
+  try {
+    console.log(`[Webhook] Processing accumulated messages [executionId: ${executionContext.executionId}]:`, 
+      accumulatedMessages.map(m => m.body).join(', '));
+
+    // Check if aborted before starting
+    if (executionContext.isAborted()) {
+      console.log('[Webhook] ⚠️ Execution aborted before processing');
+      return;
+    }
+
+    await startTypingIndicator(session, from, channel);
+
+    // Variant of the running experiment if the account has one, otherwise the configured workflow
+    const aiResponse: WorkflowResult | null = await runAgentWorkflow(metadata.uid, session, {
+      userPhone,
+      messages: accumulatedMessages,
+      userName: payload.userName
+    }, undefined, executionContext, AI_CONFIG?.CASCADE?.ENABLED ? 'cascade' : 'legacy');
+
+    // Check if aborted after workflow
+    if (executionContext.isAborted()) {
+      console.log('[Webhook] ⚠️ Execution aborted after workflow - not sending response');
+      await stopTypingIndicator(session, from, channel);
+      return;
+    }
+
+    if (!aiResponse) {
+      console.log('[Webhook] ⚠️ No AI response generated');
+      await stopTypingIndicator(session, from, channel);
+      return;
+    }
+
+    console.log("[Webhook] AI response:", aiResponse.message);
+
+    // Process and send response
+    const responseMessages = processResponse(aiResponse.message);
+    console.log("[Webhook] Sending response with", responseMessages.length, "message(s)");
+
+    await stopTypingIndicator(session, from, channel);
+
+    // Final check before sending
+    if (executionContext.isAborted()) {
+      console.log('[Webhook] ⚠️ Execution aborted before sending - discarding response');
+      return;
+    }
+
+    await channel.sendMessages({ session, chatId: from }, responseMessages);
+
+    console.log('[Webhook] ✅ Message sent successfully');
+  } catch (error) {
+    console.error('[Webhook] ❌ Error processing accumulated messages:', error);
+    await stopTypingIndicator(session, from, channel).catch(() => {});
+    throw error; // Re-throw to let the queue handle cleanup
+  }
+}
+
+/**
+ * Runs the Multimai workflow on a batch of accumulated messages
+ * Registered as a queue handler: it only depends on the processing context so any instance can run it
+ */
+async function processAccumulatedMultimaiMessages(context: ProcessingContext): Promise<void> {
+  const { payload, executionContext } = context;
+  const { messages: accumulatedMessages, session, from, userName } = payload;
+  const userPhone = extractPhoneFromChatId(from);
+  const channel = getPlatformChannel();
+
+  // Note: Multimai doesn't use per-user conversations, so no cleanup needed
+  // But we still pass the executionContext for potential future use
+
+  try {
+    console.log(`[MultimaiWebhook] Processing accumulated messages [executionId: ${executionContext.executionId}]:`, 
+      accumulatedMessages.map(m => m.body).join(', '));
+
+    // Check if aborted before starting
+    if (executionContext.isAborted()) {
+      console.log('[MultimaiWebhook] ⚠️ Execution aborted before processing');
+      return;
+    }
+
+    // Combine messages for Multimai
+    const combinedMessage = accumulatedMessages.map(m => m.body).join(" ");
+
+    await startTypingIndicator(session, from, channel);
+
+    // Execute Multimai workflow with ExecutionContext
+    const aiResponse = await multimaiWorkflow({
+      userPhone,
+      userName,
+      message: combinedMessage,
+      messageReferencesTo: accumulatedMessages[0]?.replyTo || undefined
+    }, executionContext);
+
+    // Check if aborted after workflow
+    if (executionContext.isAborted()) {
+      console.log('[MultimaiWebhook] ⚠️ Execution aborted after workflow - not sending response');
+      await stopTypingIndicator(session, from, channel);
+      return;
+    }
+
+    if (!aiResponse) {
+      console.log('[MultimaiWebhook] ⚠️ No AI response generated');
+      await stopTypingIndicator(session, from, channel);
+      return;
+    }
+
+    // Process and send response
+    const responseMessages = processResponse(aiResponse.message);
+    await stopTypingIndicator(session, from, channel);
+
+    // Final check before sending
+    if (executionContext.isAborted()) {
+      console.log('[MultimaiWebhook] ⚠️ Execution aborted before sending - discarding response');
+      return;
+    }
+
+    await channel.sendMessages({ session, chatId: from }, responseMessages);
+
+    console.log('[MultimaiWebhook] ✅ Message sent successfully');
+  } catch (error) {
+    console.error('[MultimaiWebhook] ❌ Error processing accumulated messages:', error);
+    await stopTypingIndicator(session, from, channel).catch(() => {});
+    throw error; // Re-throw to let the queue handle cleanup
+  }
 }
 
 /**
  * Process incoming WhatsApp webhook payload with message batching
  * Now supports cancellation and ExecutionContext for deferred actions
  */
-async function processWebhookResponse(webhookPayload: WhatsAppWebhookPayload): Promise<boolean> {
+async function processWebhookResponse(incomingPayload: WhatsAppWebhookPayload): Promise<boolean> {
+  // Delivery receipts update the tracked bot messages, they are never replied to
+  if (incomingPayload.event === 'message.ack') {
+    await processMessageAck(incomingPayload);
+    return false;
+  }
+
+  // Messages sent by the bot are linked to the stored assistant message for receipt tracking
+  const isBotMessage = incomingPayload.payload?.fromMe && incomingPayload.payload?.source === 'api';
+  if (isBotMessage) {
+    await trackSentMessage(incomingPayload);
+    return false;
+  }
+
+  const customerNumber = extractCustomerNumber(incomingPayload);
+  const uid = incomingPayload.metadata.uid as string;
+
+  // Flood protection before any paid or Firestore work: every accepted message can trigger a
+  // transcription, a full cascade or an opt-out LLM check (messages the owner types are not limited)
+  if (!incomingPayload.payload?.fromMe) {
+    const rateLimit = await checkMessageRateLimit(uid, customerNumber);
+    if (!rateLimit.allowed) {
+      await handleRateLimitExceeded(incomingPayload, customerNumber, rateLimit);
+      return false;
+    }
+  }
+
+  // Voice notes, location pins and contact cards are turned into text first so every path
+  // (including human takeover) stores readable content
+  const webhookPayload = prepareContactsMessage(prepareLocationMessage(await prepareAudioMessage(incomingPayload)));
+
   // Check if bot should reply
   const shouldReply = await hasToReply(webhookPayload);
   if (!shouldReply) {
@@ -53,90 +234,35 @@ async function processWebhookResponse(webhookPayload: WhatsAppWebhookPayload): P
     return false;
   }
 
-  const customerNumber = extractCustomerNumber(webhookPayload);
-  const uid = webhookPayload.metadata.uid as string;
-  
   const isValid = await shouldProcessWorkflow(uid, customerNumber);
   if (!isValid) {
     console.log("[Webhook] Customer should not process workflow");
     return false;
   }
 
-  await sendSeen(webhookPayload);
-
-  // Enqueue message for batch processing with ExecutionContext
-  enqueueMessage(webhookPayload, async (context: ProcessingContext) => {
-    const { payload, executionContext } = context;
-    const { messages: accumulatedMessages, metadata, session, from } = payload;
-    const userPhone = extractPhoneFromChatId(from);
-
-    // Set up cleanup function for abort scenarios
-    executionContext.setCleanupFn(createMessageCleanupFn(metadata.uid, userPhone));
-
-    try {
-      console.log(`[Webhook] Processing accumulated messages [executionId: ${executionContext.executionId}]:`, 
-        accumulatedMessages.map(m => m.body).join(', '));
-
-      // Check if aborted before starting
-      if (executionContext.isAborted()) {
-        console.log('[Webhook] ⚠️ Execution aborted before processing');
-        return;
-      }
-
-      await startTyping(webhookPayload);
-
-      let aiResponse: WorkflowResult | null = null;
-
-      if (AI_CONFIG?.CASCADE?.ENABLED) {
-        aiResponse = await mainGuidelinesWorkflowCascade(metadata.uid, session, {
-          userPhone,
-          messages: accumulatedMessages,
-          userName: payload.userName
-        }, undefined, executionContext);
-      } else {
-        aiResponse = await mainGuidelinesWorkflow(metadata.uid, session, {
-          userPhone,
-          messages: accumulatedMessages,
-          userName: payload.userName
-        }, undefined, executionContext);
-      }
-
-      // Check if aborted after workflow
-      if (executionContext.isAborted()) {
-        console.log('[Webhook] ⚠️ Execution aborted after workflow - not sending response');
-        await stopTyping(webhookPayload);
-        return;
-      }
-
-      if (!aiResponse) {
-        console.log('[Webhook] ⚠️ No AI response generated');
-        await stopTyping(webhookPayload);
-        return;
-      }
-
-      console.log("[Webhook] AI response:", aiResponse.message);
+  // STOP / BAJA and opt-out requests are confirmed here and never reach the agent
+  if (await processOptOutMessage(webhookPayload, customerNumber)) {
+    return false;
+  }
 
-      // Process and send response
-      const responseMessages = processResponse(aiResponse.message);
-      console.log("[Webhook] Sending response with", responseMessages.length, "message(s)");
+  await sendSeen(webhookPayload, await getChannelForAccount(uid));
 
-      await stopTyping(webhookPayload);
-      
-      // Final check before sending
-      if (executionContext.isAborted()) {
-        console.log('[Webhook] ⚠️ Execution aborted before sending - discarding response');
-        return;
-      }
+  await sendAwayMessageIfClosed(webhookPayload, customerNumber);
 
-      await sendMessages(session, from, responseMessages);
+  // Contacts shared by a customer become referral leads attributed to them
+  const sharedContacts = parseWebhookContacts(webhookPayload.payload.vCards);
+  if (sharedContacts.length > 0) {
+    await processSharedContacts(
+      uid,
+      webhookPayload.session,
+      customerNumber,
+      webhookPayload.payload._data?.pushName,
+      sharedContacts
+    );
+  }
 
-      console.log('[Webhook] ✅ Message sent successfully');
-    } catch (error) {
-      console.error('[Webhook] ❌ Error processing accumulated messages:', error);
-      await stopTyping(webhookPayload).catch(() => {});
-      throw error; // Re-throw to let the queue handle cleanup
-    }
-  });
+  // Enqueue message for batch processing with ExecutionContext
+  enqueueMessage(webhookPayload, processAccumulatedMessages);
 
   return true;
 }
@@ -145,6 +271,11 @@ async function processWebhookResponse(webhookPayload: WhatsAppWebhookPayload): P
  * Process Multimai webhook with batching and cancellation support
  */
 async function processMultimaiWebhookResponse(webhookPayload: WhatsAppWebhookPayload): Promise<boolean> {
+  // Receipts of platform messages are not tracked
+  if (webhookPayload.event === 'message.ack') {
+    return false;
+  }
+
   // Check if bot should reply
   const shouldReply = await hasToReply(webhookPayload);
   if (!shouldReply) {
@@ -152,72 +283,15 @@ async function processMultimaiWebhookResponse(webhookPayload: WhatsAppWebhookPay
     return false;
   }
 
-  await sendSeen(webhookPayload);
-
-  // Enqueue message for batch processing with ExecutionContext
-  enqueueMessage(webhookPayload, async (context: ProcessingContext) => {
-    const { payload, executionContext } = context;
-    const { messages: accumulatedMessages, session, from, userName } = payload;
-    const userPhone = extractPhoneFromChatId(from);
-
-    // Note: Multimai doesn't use per-user conversations, so no cleanup needed
-    // But we still pass the executionContext for potential future use
-
-    try {
-      console.log(`[MultimaiWebhook] Processing accumulated messages [executionId: ${executionContext.executionId}]:`, 
-        accumulatedMessages.map(m => m.body).join(', '));
-
-      // Check if aborted before starting
-      if (executionContext.isAborted()) {
-        console.log('[MultimaiWebhook] ⚠️ Execution aborted before processing');
-        return;
-      }
-
-      // Combine messages for Multimai
-      const combinedMessage = accumulatedMessages.map(m => m.body).join(" ");
-
-      await startTyping(webhookPayload);
-
-      // Execute Multimai workflow with ExecutionContext
-      const aiResponse = await multimaiWorkflow({
-        userPhone,
-        userName,
-        message: combinedMessage,
-        messageReferencesTo: accumulatedMessages[0]?.replyTo || undefined
-      }, executionContext);
-
-      // Check if aborted after workflow
-      if (executionContext.isAborted()) {
-        console.log('[MultimaiWebhook] ⚠️ Execution aborted after workflow - not sending response');
-        await stopTyping(webhookPayload);
-        return;
-      }
-
-      if (!aiResponse) {
-        console.log('[MultimaiWebhook] ⚠️ No AI response generated');
-        await stopTyping(webhookPayload);
-        return;
-      }
-
-      // Process and send response
-      const responseMessages = processResponse(aiResponse.message);
-      await stopTyping(webhookPayload);
-      
-      // Final check before sending
-      if (executionContext.isAborted()) {
-        console.log('[MultimaiWebhook] ⚠️ Execution aborted before sending - discarding response');
-        return;
-      }
+  // Reminders are sent from the platform number: STOP / BAJA here opts out of the accounts behind them
+  if (await processPlatformOptOutMessage(webhookPayload, extractCustomerNumber(webhookPayload))) {
+    return false;
+  }
 
-      await sendMessages(session, from, responseMessages);
+  await sendSeen(webhookPayload, getPlatformChannel());
 
-      console.log('[MultimaiWebhook] ✅ Message sent successfully');
-    } catch (error) {
-      console.error('[MultimaiWebhook] ❌ Error processing accumulated messages:', error);
-      await stopTyping(webhookPayload).catch(() => {});
-      throw error; // Re-throw to let the queue handle cleanup
-    }
-  });
+  // Enqueue message for batch processing with ExecutionContext
+  enqueueMessage(webhookPayload, processAccumulatedMultimaiMessages);
 
   return true;
 }
@@ -234,17 +308,28 @@ async function processActivateAgent(request: ActivateAgentRequest): Promise<any>
 
   const chatId = formatChatId(userPhone);
 
+  // Reminders are proactive: not sent to customers that opted out (owner answers to their questions are)
+  if (reminderId && !(await canSendProactive(uid, userPhone, 'reminder'))) {
+    await db.collection(`users/${uid}/reminders`).doc(reminderId).update({
+      status: 'suppressed',
+      suppressedAt: new Date(),
+    }).catch((error) => console.error("[ActivateAgent] ⚠️ Error updating reminder status:", error.message));
+    return { success: true, message: "Customer opted out, reminder not sent", reminderProcessed: false };
+  }
+
   try {
+    const channel = await getChannelForAccount(uid);
+
     // Execute workflow with typing indicator
     // Note: ActivateAgent doesn't need ExecutionContext since it's not queued
     const aiResponse = await withTypingIndicator(session, chatId, async () => {
-      return await mainGuidelinesWorkflowCascade(uid, session, {
+      return await runAgentWorkflow(uid, session, {
         userPhone,
         message: "",
         userName,
         assistantMessage,
       }, { isFromActivateAgent: true });
-    });
+    }, channel);
 
     if (!aiResponse) {
       console.log("[ActivateAgent] ⚠️ No AI response generated");
@@ -254,27 +339,8 @@ async function processActivateAgent(request: ActivateAgentRequest): Promise<any>
     // Process response
     const messages = processResponse(aiResponse.message);
 
-    // Build send message body
-    const sendMessageBody: any = {
-      chatId,
-      session,
-      messages,
-    };
-
-    // Add reply_to to first message if provided
-    if (replyToMessageId && messages.length > 0) {
-      const [firstMessage, ...restOfMessages] = messages;
-      sendMessageBody.messages = [
-        {
-          ...firstMessage,
-          reply_to: replyToMessageId
-        },
-        ...restOfMessages
-      ];
-    }
-
-    // Send messages
-    await wsProxyClient.post(`/ws/send-message`, sendMessageBody);
+    // Send messages (quoting the original message if provided)
+    await channel.sendMessages({ session, chatId }, messages, { replyTo: replyToMessageId });
 
     // Update reminder status if provided
     if (reminderId) {
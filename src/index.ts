@@ -7,8 +7,17 @@ import {
   startConversationWorker,
   stopConversationWorker,
   closeConversationQueue,
+  stopMessageDebounceWorker,
+  closeMessageDebounceQueue,
+  startDeliveryRetryWorker,
+  stopDeliveryRetryWorker,
+  closeDeliveryRetryQueue,
+  startHeldEscalationWorker,
+  stopHeldEscalationWorker,
+  closeHeldEscalationQueue,
   closeQueueConnection,
 } from './lib/queues';
+import { closeWebChatEvents } from './lib/channels/web-chat-events';
 
 // **** Run **** //
 
@@ -20,6 +29,14 @@ const startServer = async () => {
     startConversationWorker();
     logger.info('Conversation worker initialized');
 
+    // Start failed delivery retry worker
+    startDeliveryRetryWorker();
+    logger.info('Delivery retry worker initialized');
+
+    // Start out-of-hours escalation worker
+    startHeldEscalationWorker();
+    logger.info('Held escalation worker initialized');
+
     // Initialize cron jobs
     initializeCronJobs();
     logger.info('Cron jobs initialized');
@@ -37,7 +54,15 @@ const gracefulShutdown = async () => {
   try {
     await stopConversationWorker();
     await closeConversationQueue();
+    // Message debounce worker is started by ws.service when MESSAGE_QUEUE_MODE=redis
+    await stopMessageDebounceWorker();
+    await closeMessageDebounceQueue();
+    await stopDeliveryRetryWorker();
+    await closeDeliveryRetryQueue();
+    await stopHeldEscalationWorker();
+    await closeHeldEscalationQueue();
     await closeQueueConnection();
+    await closeWebChatEvents();
     logger.info('Queues closed successfully');
     process.exit(0);
   } catch (error) {
@@ -1,10 +1,18 @@
-import { wsProxyClient } from "../../other/wsProxyClient";
+import { getChannelForAccount, MessagingChannel } from "../../channels";
 import { generateQuickWaitingMessage } from "../quick-response";
 import { getHistory } from "../../utils/history";
 import { ConversationContext } from "../types/context";
 import { processSingleTextMessage } from "../../utils/response-processor";
+import type { ConversationLanguage } from "../../db/types";
 
-export async function quickResponser(uid: string, userPhone: string, session: string, messages: ConversationContext['messages']) {
+export async function quickResponser(
+  uid: string,
+  userPhone: string,
+  session: string,
+  messages: ConversationContext['messages'],
+  channel?: MessagingChannel,
+  language: ConversationLanguage = 'es'
+) {
   try {
     const userMessage = messages.map(m => m.content).join(" ");
   
@@ -14,7 +22,9 @@ export async function quickResponser(uid: string, userPhone: string, session: st
     // Generate quick response
     const quickResponse = await generateQuickWaitingMessage(
       userMessage,
-      history.map(h => ({ role: h.role, content: h.content }))
+      history.map(h => ({ role: h.role, content: h.content })),
+      undefined,
+      language
     );
   
     if (quickResponse) {
@@ -23,11 +33,8 @@ export async function quickResponser(uid: string, userPhone: string, session: st
       const messages = processSingleTextMessage(quickResponse.message);
   
       // Send quick response immediately
-      await wsProxyClient.post(`/ws/send-message`, {
-        chatId: userPhone,
-        session: session,
-        messages,
-      });
+      const target = channel ?? await getChannelForAccount(uid);
+      await target.sendMessages({ chatId: userPhone, session }, messages);
   
       // Small pause after quick response
       await new Promise(resolve => setTimeout(resolve, 500));
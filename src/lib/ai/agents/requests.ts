@@ -2,6 +2,7 @@ import { generateText, tool, stepCountIs } from "ai";
 import { z } from "zod";
 import { db } from "../../db/firebase";
 import { getUserConfig } from "../../db/repositories/users";
+import { signWebhookBody } from "../../utils/webhook-security";
 import { getHistory } from "../../utils/history";
 import { getOpenRouterModel } from "../openrouter";
 
@@ -206,12 +207,15 @@ async function processOwnerResponse(
       activatePayload.replyToMessageId = replyToMessageId;
     }
 
+    const activateBody = JSON.stringify(activatePayload);
+
     fetch(activateAgentUrl, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
+        ...signWebhookBody(activateBody, session),
       },
-      body: JSON.stringify(activatePayload),
+      body: activateBody,
     }).catch(error => {
       console.error(`[processOwnerResponse] ❌ Error al disparar activación:`, error);
     });
@@ -13,6 +13,7 @@ import type { GuidelineMatch } from '../../types/guideline';
 import type { LLMMessage } from '../../context/conversation-loader';
 import { AI_CONFIG } from '../../config';
 import { getModel } from '../../openrouter';
+import { withUsageComponent } from '../../usage/usage-context';
 
 export interface ContextSearchInput {
   task: PlanTask;
@@ -46,7 +47,7 @@ export class ContextSearchAgent {
   private model;
 
   constructor() {
-    this.model = getModel(AI_CONFIG?.CASCADE?.CONTEXT_SEARCH_MODEL || 'gpt-4o-mini');
+    this.model = withUsageComponent('context_search', getModel(AI_CONFIG?.CASCADE?.CONTEXT_SEARCH_MODEL || 'gpt-4o-mini'));
   }
 
   /**
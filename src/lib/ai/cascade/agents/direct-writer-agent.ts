@@ -10,6 +10,7 @@
 
 import { generateText, stepCountIs, tool } from 'ai';
 import { getModel } from '../../openrouter';
+import { withUsageComponent } from '../../usage/usage-context';
 import { AI_CONFIG } from '../../config';
 import type { GuidelineMatch } from '../../types/guideline';
 import type { ContextSearchResult } from '../../micro-agents/context-search-agent';
@@ -61,7 +62,7 @@ export class DirectWriterAgent {
 
   constructor(config: Partial<DirectWriterConfig> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
-    this.model = getModel(this.config.model);
+    this.model = withUsageComponent('writer', getModel(this.config.model));
   }
 
   /**
@@ -12,6 +12,7 @@ import type { GuidelineMatch } from '../../types/guideline';
 import type { LLMMessage } from '../../context/conversation-loader';
 import { AI_CONFIG } from '../../config';
 import { getModel } from '../../openrouter';
+import { withUsageComponent } from '../../usage/usage-context';
 
 export interface ReasoningInput {
   task: PlanTask;
@@ -36,7 +37,7 @@ export class ReasoningAgent {
   private model;
 
   constructor() {
-    this.model = getModel(AI_CONFIG?.CASCADE?.REASONING_MODEL, { reasoning: { enabled: true, effort: 'medium' }});
+    this.model = withUsageComponent('reasoning', getModel(AI_CONFIG?.CASCADE?.REASONING_MODEL, { reasoning: { enabled: true, effort: 'medium' }}));
   }
 
   /**
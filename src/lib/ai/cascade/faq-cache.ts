@@ -0,0 +1,234 @@
+/**
+ * Semantic FAQ Cache
+ *
+ * Account-level questions repeated by many leads ("¿aceptan mascotas?") are answered once:
+ * writer responses of text-only turns (no tools) that passed the style validator are stored
+ * with the embedding of their question, and served again for similar enough questions
+ *
+ * Entries of an account live in one Redis entry tagged with the account and its properties,
+ * so revalidating any of those tags drops them
+ *
+ * Only answers that don't depend on the conversation are shared: turns after the agent showed
+ * properties (or replying to one) are skipped, and entries are scoped to the day, the open/closed
+ * status, the business data and the context documents the writer saw
+ */
+
+import { createHash } from 'crypto';
+import { cosineSimilarity, embed } from 'ai';
+import { openai } from '@ai-sdk/openai';
+import { AI_CONFIG } from '../config';
+import { isMockModeEnabled } from '../mock';
+import { trackEmbeddingUsage } from '../usage/usage-tracker';
+import { cacheGet, cacheSet, revalidateTag } from '../../cache/cache-manager';
+import type { ConversationLanguage } from '../../db/types';
+
+export const FAQ_CACHE_CONFIG = {
+  ENABLED: process.env.FAQ_CACHE !== 'false',
+  SIMILARITY_THRESHOLD: 0.92, // Minimum cosine similarity to serve a cached answer
+  MIN_QUESTION_LENGTH: 10, // Shorter messages ("sí", "ok gracias") depend on the conversation
+  MAX_ENTRIES: 50, // Per account, the oldest entries are dropped
+  TTL_SECONDS: 7 * 24 * 60 * 60,
+  // Context variables set only for some conversations: the turn is not cached
+  CONVERSATION_VARIABLES: ['propiedad_citada'],
+  // Context variables that change over time: answers are served while they keep their value
+  TIME_DEPENDENT_VARIABLES: ['estado_horario'],
+  // Context variables with the business data answers are built from: editing them starts new entries
+  ACCOUNT_VARIABLES: ['contexto_negocio', 'nombre_negocio', 'nombre_agente'],
+} as const;
+
+const PROPERTY_MARKER = '@@';
+
+export interface FaqEntry {
+  question: string;
+  embedding: number[];
+  response: string;
+  language: ConversationLanguage;
+  scope: string; // See getFaqScope
+  createdAt: number;
+}
+
+// Context document of the account, see getUserContextDocuments
+export interface FaqContextDocument {
+  id: string;
+  ragId: string;
+  uploadedAt?: Date;
+}
+
+export interface FaqLookup {
+  embedding: number[]; // Embedding of the question, reused to store the answer on a miss
+  scope: string;
+  match: { question: string; response: string; similarity: number } | null;
+}
+
+export const faqCacheTag = (uid: string) => `faq:${uid}`;
+
+function getFaqCacheKey(uid: string): string {
+  const uidHash = createHash('sha256').update(uid).digest('hex').substring(0, 16);
+  return `faq:entries:${uidHash}`;
+}
+
+/**
+ * Tags that drop the FAQ entries of an account when revalidated
+ */
+function getFaqCacheTags(uid: string): string[] {
+  return [
+    faqCacheTag(uid),
+    `user:${uid}`,
+    `properties:${uid}`,
+  ];
+}
+
+function normalizeQuestion(question: string): string {
+  return question.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function isCacheableQuestion(question: string): boolean {
+  return FAQ_CACHE_CONFIG.ENABLED
+    && !isMockModeEnabled()
+    && normalizeQuestion(question).length >= FAQ_CACHE_CONFIG.MIN_QUESTION_LENGTH;
+}
+
+/**
+ * Whether the answer of a turn depends on the conversation: a property the agent already sent
+ * (property markers) or a quoted property make "¿tiene cochera?" about that property
+ */
+export function hasConversationSpecificContext(
+  messages: Array<{ role: string; content: string }>,
+  contextVariables: Record<string, string>
+): boolean {
+  return messages.some((message) => message.role === 'assistant' && message.content.includes(PROPERTY_MARKER))
+    || FAQ_CACHE_CONFIG.CONVERSATION_VARIABLES.some((name) => Boolean(contextVariables[name]));
+}
+
+/**
+ * Scope of the entries a turn can use: the current day (the writer sees the date), the value of the
+ * time-dependent and business context variables, and the context documents of the account
+ * A new business context or document gives a new scope, so older answers are no longer served
+ */
+export function getFaqScope(
+  contextVariables: Record<string, string>,
+  documents: FaqContextDocument[] = [],
+  now: Date = new Date()
+): string {
+  const variables = [...FAQ_CACHE_CONFIG.TIME_DEPENDENT_VARIABLES, ...FAQ_CACHE_CONFIG.ACCOUNT_VARIABLES]
+    .map((name) => contextVariables[name] ?? '');
+  const documentVersions = documents
+    .map((document) => `${document.id}:${document.ragId}:${document.uploadedAt?.getTime() ?? ''}`)
+    .sort();
+  const hash = createHash('sha256')
+    .update(JSON.stringify({ variables, documents: documentVersions }))
+    .digest('hex')
+    .substring(0, 12);
+  return `${now.toISOString().split('T')[0]}:${hash}`;
+}
+
+function getScopeDay(scope: string | undefined): string {
+  return (scope || '').split(':')[0];
+}
+
+async function getFaqEntries(uid: string): Promise<FaqEntry[]> {
+  return (await cacheGet<FaqEntry[]>(getFaqCacheKey(uid)).catch(() => null)) || [];
+}
+
+/**
+ * Looks for a cached answer to a question of an account
+ * @returns null if the question is not cacheable or the lookup failed
+ */
+export async function lookupFaqAnswer(
+  uid: string,
+  question: string,
+  language: ConversationLanguage,
+  scope: string
+): Promise<FaqLookup | null> {
+  if (!isCacheableQuestion(question)) {
+    return null;
+  }
+
+  try {
+    const [entries, { embedding, usage }] = await Promise.all([
+      getFaqEntries(uid),
+      embed({ model: openai.textEmbeddingModel(AI_CONFIG.EMBEDDING_MODEL), value: normalizeQuestion(question) }),
+    ]);
+    trackEmbeddingUsage('faq', AI_CONFIG.EMBEDDING_MODEL, usage.tokens);
+
+    let match: FaqLookup['match'] = null;
+    for (const entry of entries) {
+      if (entry.language !== language || entry.scope !== scope) {
+        continue;
+      }
+      const similarity = cosineSimilarity(embedding, entry.embedding);
+      if (similarity >= FAQ_CACHE_CONFIG.SIMILARITY_THRESHOLD && (!match || similarity > match.similarity)) {
+        match = { question: entry.question, response: entry.response, similarity };
+      }
+    }
+
+    if (match) {
+      console.log(`[FaqCache] ✅ Hit for "${question}" → "${match.question}" (${match.similarity.toFixed(3)})`);
+    }
+
+    return { embedding, scope, match };
+  } catch (error) {
+    console.warn('[FaqCache] ⚠️ Lookup failed:', error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+/**
+ * Stores the answer to a question missed by lookupFaqAnswer
+ * Answers mentioning the customer (e.g. their name) are not stored, they would be served to other leads
+ */
+export async function storeFaqAnswer(
+  uid: string,
+  lookup: FaqLookup,
+  question: string,
+  response: string,
+  language: ConversationLanguage,
+  customerName?: string
+): Promise<void> {
+  const firstName = customerName?.trim().split(/\s+/)[0];
+  if (firstName && firstName.length >= 3 && response.toLowerCase().includes(firstName.toLowerCase())) {
+    console.log('[FaqCache] Answer mentions the customer, not cached');
+    return;
+  }
+
+  try {
+    // Similar questions of the same scope replace each other, so an entry keeps the latest answer
+    // Entries of previous days can't be served anymore and are dropped
+    const entries = (await getFaqEntries(uid)).filter((entry) =>
+      getScopeDay(entry.scope) === getScopeDay(lookup.scope) && (
+        entry.language !== language
+        || entry.scope !== lookup.scope
+        || cosineSimilarity(lookup.embedding, entry.embedding) < FAQ_CACHE_CONFIG.SIMILARITY_THRESHOLD
+      )
+    );
+
+    entries.push({
+      question,
+      embedding: lookup.embedding.map((value) => Number(value.toFixed(5))),
+      response,
+      language,
+      scope: lookup.scope,
+      createdAt: Date.now(),
+    });
+
+    const stored = entries.slice(-FAQ_CACHE_CONFIG.MAX_ENTRIES);
+    await cacheSet(getFaqCacheKey(uid), stored, {
+      ttl: FAQ_CACHE_CONFIG.TTL_SECONDS,
+      tags: getFaqCacheTags(uid),
+    });
+    console.log(`[FaqCache] Stored answer for "${question}" (${stored.length} entries)`);
+  } catch (error) {
+    console.error('[FaqCache] ❌ Error storing answer:', error);
+  }
+}
+
+/**
+ * Drops the FAQ entries of an account (properties or guidelines changed)
+ */
+export async function invalidateFaqCache(uid: string): Promise<void> {
+  try {
+    await revalidateTag(faqCacheTag(uid));
+  } catch (error) {
+    console.error('[FaqCache] ❌ Error invalidating FAQ cache:', error);
+  }
+}
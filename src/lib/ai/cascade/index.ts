@@ -25,4 +25,11 @@ export { ResponseWriter, mergeWorkerResults, type WriterConfig } from './writer/
 // Orchestrator
 export { CascadeOrchestrator, type CascadeOrchestratorConfig } from './orchestrator';
 
+// Scheduler
+export { executePlan, getTaskTimeout, type TaskRunner, type TaskRunOutcome, type PlanSchedulerOptions, type PlanSchedulerResult } from './scheduler';
 
+// Traces
+export { CASCADE_TRACE_CONFIG, buildCascadeTrace, recordCascadeTrace, type CascadeTraceInput } from './trace';
+
+// FAQ cache
+export { FAQ_CACHE_CONFIG, faqCacheTag, getFaqScope, hasConversationSpecificContext, lookupFaqAnswer, storeFaqAnswer, invalidateFaqCache, type FaqContextDocument, type FaqEntry, type FaqLookup } from './faq-cache';
@@ -14,12 +14,15 @@ import { SupportWorker } from './workers/support-worker';
 import { FeedbackWorker } from './workers/feedback-worker';
 import { ReasoningAgent, type ReasoningOutput } from './agents/reasoning-agent';
 import { ContextSearchAgent, type ContextSearchOutput } from './agents/context-search-agent';
+import { getFaqScope, hasConversationSpecificContext, lookupFaqAnswer, storeFaqAnswer, type FaqContextDocument, type FaqLookup } from './faq-cache';
+import { executePlan, type TaskRunOutcome } from './scheduler';
 import type { 
   CascadeExecutionResult, 
   CascadeConfig, 
   WorkerResult, 
   WorkerExecutionContext,
   ActionPlan,
+  PlanTask,
   ClassificationResult,
   WORKER_REGISTRY
 } from './types';
@@ -28,14 +31,39 @@ import type { ConversationContext } from '../types/context';
 import type { GuidelineAgent } from '../guideline-agent';
 import type { ContextSearchResult } from '../micro-agents/context-search-agent';
 import { LLMMessage } from '../context';
+import type { ConversationLanguage } from '../../db/types';
+import { AI_CONFIG } from '../config';
 
 export interface CascadeOrchestratorConfig extends Partial<CascadeConfig> {
   guidelineAgent: GuidelineAgent;
   uid: string;
   userPhone: string;
   userName?: string;
+  /**
+   * Receives the writer output as it is generated (streaming channels)
+   * The final response may still differ after style validation
+   */
+  onResponseDelta?: (delta: string) => void;
+  /**
+   * Language of the conversation, the writer answers in it (default: es)
+   */
+  language?: ConversationLanguage;
+  /**
+   * Context documents of the account, FAQ cache entries are scoped to them
+   */
+  contextDocuments?: FaqContextDocument[];
 }
 
+// Sent when the cascade fails, in the language of the conversation
+const FALLBACK_RESPONSES: Record<ConversationLanguage, string> = {
+  es: 'Disculpa, tuve un pequeño problema técnico. ¿Podrías repetirme tu consulta?',
+  en: 'Sorry, I had a small technical issue. Could you repeat your question?',
+  pt: 'Desculpe, tive um pequeno problema técnico. Você poderia repetir sua pergunta?',
+};
+
+// Minimum style score for an answer to be stored in the FAQ cache
+const VALIDATION_THRESHOLD = AI_CONFIG.CASCADE.VALIDATION_THRESHOLD;
+
 const DEFAULT_CONFIG: CascadeConfig = {
   maxWorkerRetries: 2,
   maxWriterRetries: 2,
@@ -51,6 +79,9 @@ export class CascadeOrchestrator {
   private uid: string;
   private userPhone: string;
   private userName?: string;
+  private onResponseDelta?: (delta: string) => void;
+  private language: ConversationLanguage;
+  private contextDocuments: FaqContextDocument[];
 
   private planner: ActionPlanner;
   private writer: ResponseWriter;
@@ -67,6 +98,9 @@ export class CascadeOrchestrator {
     this.uid = orchestratorConfig.uid;
     this.userPhone = orchestratorConfig.userPhone;
     this.userName = orchestratorConfig.userName;
+    this.onResponseDelta = orchestratorConfig.onResponseDelta;
+    this.language = orchestratorConfig.language ?? 'es';
+    this.contextDocuments = orchestratorConfig.contextDocuments ?? [];
 
     // Initialize components
     this.planner = new ActionPlanner();
@@ -135,6 +169,35 @@ export class CascadeOrchestrator {
       console.log(`[CascadeOrchestrator] Direct to writer: ${plannerOutput.plan.directToWriter}`);
       console.log(`[CascadeOrchestrator] Tasks: ${plannerOutput.plan.tasks.length}`);
 
+      // Step 1b: Text-only questions without tasks may have a cached answer (FAQ cache)
+      let faqLookup: FaqLookup | null = null;
+      if (this.isFaqTurn(plannerOutput, messages, contextVariables)) {
+        faqLookup = await lookupFaqAnswer(this.uid, userMessage, this.language, getFaqScope(contextVariables, this.contextDocuments));
+        if (faqLookup?.match) {
+          this.onResponseDelta?.(faqLookup.match.response);
+          const totalTime = Date.now() - startTime;
+          console.log(`[CascadeOrchestrator] ========== CASCADE EXECUTION END - FAQ CACHE (${totalTime}ms) ==========\n`);
+
+          return {
+            success: true,
+            response: faqLookup.match.response,
+            metadata: {
+              classification: plannerOutput.classification,
+              plan: plannerOutput.plan,
+              workerResults: [],
+              writerIterations: 0,
+              styleValidationPassed: true,
+              faqCache: {
+                question: faqLookup.match.question,
+                similarity: faqLookup.match.similarity
+              },
+              totalExecutionTimeMs: totalTime,
+              executedGuidelines: activeGuidelines.map(g => g.guideline.id)
+            }
+          };
+        }
+      }
+
       // Step 2: Execute workers (if needed)
       let workerResults: WorkerResult[] = [];
 
@@ -153,16 +216,19 @@ export class CascadeOrchestrator {
           console.log(`  - ${r.workerId}: ${r.status} (score: ${r.validation.score})`);
         });
 
-        // Check critical path
+        // Check critical path: failed branches were already skipped by the scheduler,
+        // the execution only fails if no branch completed
         if (this.config.criticalPathEnabled && plannerOutput.plan.criticalPath) {
-          const failedWorkers = workerResults.filter(r => r.status === 'failed');
-          if (failedWorkers.length > 0) {
+          const tasks = plannerOutput.plan.tasks;
+          const failedTasks = tasks.filter(t => t.status === 'failed');
+          const anyCompleted = tasks.some(t => t.status === 'completed' || t.status === 'ask_user');
+          if (failedTasks.length > 0 && !anyCompleted) {
             console.log('[CascadeOrchestrator] Critical path failure detected');
             return this.createFailureResult(
               plannerOutput.classification,
               plannerOutput.plan,
               workerResults,
-              `Critical worker(s) failed: ${failedWorkers.map(w => w.workerId).join(', ')}`,
+              `Critical task(s) failed: ${failedTasks.map(t => t.workerId || t.id).join(', ')}`,
               startTime
             );
           }
@@ -185,13 +251,15 @@ export class CascadeOrchestrator {
         plan: plannerOutput.plan,
         glossaryContext,
         ragContext,
-        contextVariables
-      });
+        contextVariables,
+        language: this.language
+      }, this.onResponseDelta);
 
       response = writerOutput.response;
       writerIterations = 1;
 
       // Step 4: Style validation and correction (if enabled)
+      let styleValidation: CascadeExecutionResult['metadata']['styleValidation'];
       if (this.config.styleValidationEnabled) {
         console.log('[CascadeOrchestrator] Step 4: Style validation and correction...');
         
@@ -199,15 +267,27 @@ export class CascadeOrchestrator {
           response,
           userMessage,
           activeGuidelines,
-          contextVariables
+          contextVariables,
+          this.language
         );
 
+        styleValidation = {
+          score: styleResult.score,
+          corrected: styleResult.wasCorreced,
+          originalResponse: response
+        };
+
         // Use the corrected response directly
         response = styleResult.response;
         
         console.log(`[CascadeOrchestrator] Style score: ${styleResult.score}/10, Corrected: ${styleResult.wasCorreced}`);
       }
 
+      // Answers of FAQ turns that passed the style validation are cached for similar questions
+      if (faqLookup && styleValidation && styleValidation.score >= VALIDATION_THRESHOLD) {
+        void storeFaqAnswer(this.uid, faqLookup, userMessage, response, this.language, this.userName);
+      }
+
       const totalTime = Date.now() - startTime;
       console.log(`[CascadeOrchestrator] ========== CASCADE EXECUTION END (${totalTime}ms) ==========\n`);
 
@@ -220,6 +300,7 @@ export class CascadeOrchestrator {
           workerResults,
           writerIterations,
           styleValidationPassed: true,
+          styleValidation,
           totalExecutionTimeMs: totalTime,
           executedGuidelines: activeGuidelines.map(g => g.guideline.id)
         }
@@ -250,8 +331,23 @@ export class CascadeOrchestrator {
   }
 
   /**
-   * Execute workers based on the plan
-   * Returns: { results, askToUser } where askToUser contains info if we need to stop and ask user
+   * FAQ turns: text-only messages the planner sends straight to the writer (no tools),
+   * whose answer doesn't depend on the properties of the conversation
+   */
+  private isFaqTurn(
+    plannerOutput: PlannerOutput,
+    messages: LLMMessage[],
+    contextVariables: Record<string, string>
+  ): boolean {
+    return plannerOutput.classification.classification === 'text_only'
+      && plannerOutput.plan.directToWriter
+      && plannerOutput.plan.tasks.length === 0
+      && !hasConversationSpecificContext(messages, contextVariables);
+  }
+
+  /**
+   * Execute the plan tasks as a DAG (see scheduler.ts)
+   * Returns the worker results for the writer, plus a synthetic result if a task asks the user
    */
   private async executeWorkers(
     plan: ActionPlan,
@@ -260,59 +356,64 @@ export class CascadeOrchestrator {
     activeGuidelines: GuidelineMatch[],
     contextVariables: Record<string, string>
   ): Promise<WorkerResult[]> {
-    const results: WorkerResult[] = [];
-    const taskResults = new Map<string, string>(); // Store results by task ID
-
-    // Sort tasks by step number
-    const sortedTasks = [...plan.tasks].sort((a, b) => a.step - b.step);
-
-    // Process tasks sequentially (respecting dependencies)
-    for (const task of sortedTasks) {
-      console.log(`[CascadeOrchestrator] Processing task ${task.step}: ${task.description} (type: ${task.type})`);
+    const { workerResults } = await executePlan(
+      plan,
+      (task, previousTaskResults, abortSignal) => this.executeTask(
+        task,
+        plan,
+        previousTaskResults,
+        userMessage,
+        messages,
+        activeGuidelines,
+        contextVariables,
+        abortSignal
+      ),
+      {
+        parallelExecution: this.config.parallelExecution,
+        criticalPathEnabled: this.config.criticalPathEnabled,
+        maxRetries: this.config.maxWorkerRetries,
+        workerTimeout: this.config.workerTimeout
+      }
+    );
 
-      // Check if dependencies are met
-      if (task.dependsOn && task.dependsOn.length > 0) {
-        const dependenciesMet = task.dependsOn.every(depId => {
-          return taskResults.has(depId);
-        });
+    return workerResults;
+  }
 
-        if (!dependenciesMet) {
-          console.warn(`[CascadeOrchestrator] Dependencies not met for task ${task.id}, skipping`);
-          task.status = 'failed';
-          task.error = 'Dependencies not completed';
-          continue;
-        }
-      }
+  /**
+   * Execute a single task of the plan with the results of its upstream tasks
+   */
+  private async executeTask(
+    task: PlanTask,
+    plan: ActionPlan,
+    previousTaskResults: Map<string, string>,
+    userMessage: string,
+    messages: LLMMessage[],
+    activeGuidelines: GuidelineMatch[],
+    contextVariables: Record<string, string>,
+    abortSignal: AbortSignal
+  ): Promise<TaskRunOutcome> {
+    console.log(`[CascadeOrchestrator] Processing task ${task.step}: ${task.description} (type: ${task.type})`);
+
+    // Handle ask_to_user task type - stop execution and go to writer
+    if (task.type === 'ask_to_user') {
+      console.log(`[CascadeOrchestrator] Task ${task.id} is ask_to_user, stopping execution to ask user`);
+
+      // Collect all previous task results as context for the writer
+      const collectedContext: string[] = [];
+      previousTaskResults.forEach((result, id) => {
+        collectedContext.push(`[Task ${id}]: ${result}`);
+      });
 
-      task.status = 'running';
+      const result = `[ASK_TO_USER]\nQuestion: ${task.questionForUser || task.description}\nCollected Context:\n${collectedContext.join('\n')}`;
 
-      // Handle ask_to_user task type - stop execution and go to writer
-      if (task.type === 'ask_to_user') {
-        console.log(`[CascadeOrchestrator] Task ${task.id} is ask_to_user, stopping execution to ask user`);
-        
-        // Collect all previous task results as context for the writer
-        const collectedContext: string[] = [];
-        taskResults.forEach((result, id) => {
-          collectedContext.push(`[Task ${id}]: ${result}`);
-        });
-        
-        task.status = 'ask_user';
-        task.result = `[ASK_TO_USER]\nQuestion: ${task.questionForUser || task.description}\nCollected Context:\n${collectedContext.join('\n')}`;
-        taskResults.set(task.id, task.result);
-        
-        // Mark remaining tasks as skipped
-        for (const remainingTask of sortedTasks) {
-          if (remainingTask.step > task.step && remainingTask.status === 'pending') {
-            remainingTask.status = 'pending'; // Keep as pending for potential future execution
-            console.log(`[CascadeOrchestrator] Task ${remainingTask.id} skipped due to ask_to_user`);
-          }
-        }
-        
-        // Create a synthetic worker result to pass the ask_to_user info to the writer
-        results.push({
+      // Create a synthetic worker result to pass the ask_to_user info to the writer
+      return {
+        status: 'ask_user',
+        result,
+        workerResult: {
           workerId: 'ask_to_user',
           status: 'success',
-          response: task.result,
+          response: result,
           toolsExecuted: [],
           validation: {
             passed: true,
@@ -325,204 +426,124 @@ export class CascadeOrchestrator {
             executionTimeMs: 0,
             activatedGuidelines: []
           }
-        });
-        
-        // Break out of the loop - go directly to writer
-        break;
-      }
-
-      // Handle different task types
-      if (task.type === 'reasoning') {
-        // Use ReasoningAgent
-        console.log(`[CascadeOrchestrator] Task ${task.id} is reasoning, using ReasoningAgent`);
-        
-        const previousTaskResults = new Map<string, string>();
-        taskResults.forEach((result, id) => previousTaskResults.set(id, result));
-        
-        const reasoningResult = await this.reasoningAgent.execute({
-          task,
-          userMessage,
-          messages,
-          activeGuidelines,
-          previousTaskResults,
-          planContext: plan
-        });
-        
-        if (reasoningResult.success) {
-          task.status = 'completed';
-          // Format result with reasoning details
-          task.result = `[REASONING]\nConclusion: ${reasoningResult.conclusion}\n` +
-            `Confidence: ${reasoningResult.confidence}\n` +
-            (Object.keys(reasoningResult.extractedData || {}).length > 0 
-              ? `Data: ${JSON.stringify(reasoningResult.extractedData)}\n` 
-              : '') +
-            `Details: ${reasoningResult.reasoning}`;
-          taskResults.set(task.id, task.result);
-          console.log(`[CascadeOrchestrator] Reasoning completed with confidence ${reasoningResult.confidence}`);
-        } else {
-          task.status = 'failed';
-          task.error = reasoningResult.error || 'Reasoning failed';
-          console.error(`[CascadeOrchestrator] Reasoning failed: ${reasoningResult.error}`);
         }
-        continue;
-      }
-      
-      if (task.type === 'context_search') {
-        // Use ContextSearchAgent
-        console.log(`[CascadeOrchestrator] Task ${task.id} is context_search, using ContextSearchAgent`);
-        
-        const previousTaskResults = new Map<string, string>();
-        taskResults.forEach((result, id) => previousTaskResults.set(id, result));
-        
-        const searchResult = await this.contextSearchAgent.execute({
-          task,
-          userMessage,
-          messages,
-          activeGuidelines,
-          previousTaskResults,
-          planContext: plan
-        });
-        
-        if (searchResult.success) {
-          task.status = 'completed';
-          // Format result with search findings
-          task.result = `[CONTEXT_SEARCH]\nSummary: ${searchResult.summary}\n` +
-            `Confidence: ${searchResult.confidence}\n` +
-            `Items Found: ${searchResult.foundItems.length}\n` +
-            searchResult.foundItems.map((item, i) => 
-              `  ${i + 1}. [${item.type}] ${item.content.substring(0, 200)}${item.content.length > 200 ? '...' : ''}`
-            ).join('\n');
-          taskResults.set(task.id, task.result);
-          console.log(`[CascadeOrchestrator] Context search found ${searchResult.foundItems.length} items`);
-        } else {
-          task.status = 'failed';
-          task.error = searchResult.error || 'Context search failed';
-          console.error(`[CascadeOrchestrator] Context search failed: ${searchResult.error}`);
-        }
-        continue;
-      }
-
-      // Worker call task
-      if (task.type === 'worker_call') {
-        if (!task.workerId) {
-          console.warn(`[CascadeOrchestrator] No workerId for worker_call task ${task.id}`);
-          task.status = 'failed';
-          task.error = 'No workerId specified';
-          continue;
-        }
-
-        const worker = this.workers.get(task.workerId);
-        if (!worker) {
-          console.warn(`[CascadeOrchestrator] Worker not found: ${task.workerId}`);
-          results.push(this.createWorkerNotFoundResult(task.workerId));
-          task.status = 'failed';
-          task.error = `Worker ${task.workerId} not found`;
-          continue;
-        }
-
-        // Build previous task results map
-        const previousTaskResults = new Map<string, string>();
-        taskResults.forEach((result, id) => previousTaskResults.set(id, result));
-
-        const context: WorkerExecutionContext = {
-          userMessage,
-          messages,
-          activeGuidelines,
-          task,
-          uid: this.uid,
-          userPhone: this.userPhone,
-          userName: this.userName,
-          planContext: plan,
-          previousTaskResults,
-          contextVariables
-        };
-
-        const result = await worker.execute(context);
-        results.push(result);
-
-        // Store result for dependent tasks
-        task.status = result.status === 'success' ? 'completed' : 'failed';
-        task.result = result.response;
-        taskResults.set(task.id, result.response);
-
-        // If critical path and failed, abort
-        if (plan.criticalPath && result.status !== 'success') {
-          console.error(`[CascadeOrchestrator] Critical task failed: ${task.id}`);
-          break;
-        }
-      }
+      };
     }
 
-    // For backward compatibility, handle any remaining dependent tasks
-    const pendingDependentTasks = sortedTasks.filter(t => 
-      t.type === 'worker_call' && 
-      t.status === 'pending' && 
-      t.dependsOn && 
-      t.dependsOn.length > 0
-    );
+    if (task.type === 'reasoning') {
+      // Use ReasoningAgent
+      console.log(`[CascadeOrchestrator] Task ${task.id} is reasoning, using ReasoningAgent`);
 
-    for (const task of pendingDependentTasks) {
-      // Check if dependencies completed successfully
-      const dependenciesMet = task.dependsOn.every(depId => {
-        return taskResults.has(depId);
+      const reasoningResult = await this.reasoningAgent.execute({
+        task,
+        userMessage,
+        messages,
+        activeGuidelines,
+        previousTaskResults,
+        planContext: plan
       });
 
-      if (!dependenciesMet) {
-        console.warn(`[CascadeOrchestrator] Dependencies not met for: ${task.workerId}`);
-        results.push({
-          workerId: task.workerId,
-          status: 'failed',
-          response: '',
-          toolsExecuted: [],
-          validation: {
-            passed: false,
-            score: 0,
-            iterations: 0,
-            feedback: 'Dependencies not met',
-            guidelinesCriteria: []
-          },
-          metadata: {
-            executionTimeMs: 0,
-            activatedGuidelines: []
-          },
-          error: 'Dependencies not met'
-        });
-        continue;
+      if (!reasoningResult.success) {
+        console.error(`[CascadeOrchestrator] Reasoning failed: ${reasoningResult.error}`);
+        return { status: 'failed', error: reasoningResult.error || 'Reasoning failed' };
       }
 
-      const worker = this.workers.get(task.workerId);
-      if (!worker) {
-        results.push(this.createWorkerNotFoundResult(task.workerId));
-        continue;
-      }
+      console.log(`[CascadeOrchestrator] Reasoning completed with confidence ${reasoningResult.confidence}`);
+      // Format result with reasoning details
+      return {
+        status: 'completed',
+        result: `[REASONING]\nConclusion: ${reasoningResult.conclusion}\n` +
+          `Confidence: ${reasoningResult.confidence}\n` +
+          (Object.keys(reasoningResult.extractedData || {}).length > 0
+            ? `Data: ${JSON.stringify(reasoningResult.extractedData)}\n`
+            : '') +
+          `Details: ${reasoningResult.reasoning}`
+      };
+    }
 
-      // Build previous task results map
-      const previousTaskResults = new Map<string, string>();
-      taskResults.forEach((result, id) => previousTaskResults.set(id, result));
+    if (task.type === 'context_search') {
+      // Use ContextSearchAgent
+      console.log(`[CascadeOrchestrator] Task ${task.id} is context_search, using ContextSearchAgent`);
 
-      const context: WorkerExecutionContext = {
+      const searchResult = await this.contextSearchAgent.execute({
+        task,
         userMessage,
         messages,
         activeGuidelines,
-        task,
-        uid: this.uid,
-        userPhone: this.userPhone,
-        userName: this.userName,
-        planContext: plan,
         previousTaskResults,
-        contextVariables
+        planContext: plan
+      });
+
+      if (!searchResult.success) {
+        console.error(`[CascadeOrchestrator] Context search failed: ${searchResult.error}`);
+        return { status: 'failed', error: searchResult.error || 'Context search failed' };
+      }
+
+      console.log(`[CascadeOrchestrator] Context search found ${searchResult.foundItems.length} items`);
+      // Format result with search findings
+      return {
+        status: 'completed',
+        result: `[CONTEXT_SEARCH]\nSummary: ${searchResult.summary}\n` +
+          `Confidence: ${searchResult.confidence}\n` +
+          `Items Found: ${searchResult.foundItems.length}\n` +
+          searchResult.foundItems.map((item, i) =>
+            `  ${i + 1}. [${item.type}] ${item.content.substring(0, 200)}${item.content.length > 200 ? '...' : ''}`
+          ).join('\n')
       };
+    }
 
-      const result = await worker.execute(context);
-      results.push(result);
-      
-      // Store result for future reference
-      task.status = result.status === 'success' ? 'completed' : 'failed';
-      task.result = result.response;
-      taskResults.set(task.id, result.response);
+    // Worker call task
+    if (!task.workerId) {
+      console.warn(`[CascadeOrchestrator] No workerId for worker_call task ${task.id}`);
+      return { status: 'failed', error: 'No workerId specified', retryable: false };
+    }
+
+    const worker = this.workers.get(task.workerId);
+    if (!worker) {
+      console.warn(`[CascadeOrchestrator] Worker not found: ${task.workerId}`);
+      return {
+        status: 'failed',
+        error: `Worker ${task.workerId} not found`,
+        workerResult: this.createWorkerNotFoundResult(task.workerId),
+        retryable: false
+      };
+    }
+
+    const context: WorkerExecutionContext = {
+      userMessage,
+      messages,
+      activeGuidelines,
+      task,
+      uid: this.uid,
+      userPhone: this.userPhone,
+      userName: this.userName,
+      planContext: plan,
+      previousTaskResults,
+      contextVariables,
+      abortSignal
+    };
+
+    // A worker that threw or errored may have run tools before failing (a visit created,
+    // the owner notified), like one that reports executed tools: a retry would run them again
+    let result: WorkerResult;
+    try {
+      result = await worker.execute(context);
+    } catch (error) {
+      console.error(`[CascadeOrchestrator] Worker ${task.workerId} threw:`, error);
+      return {
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        retryable: false
+      };
     }
 
-    return results;
+    return {
+      status: result.status === 'success' ? 'completed' : 'failed',
+      result: result.response,
+      error: result.error,
+      workerResult: result,
+      retryable: result.toolsExecuted.length === 0 && !result.error
+    };
   }
 
   /**
@@ -579,7 +600,7 @@ export class CascadeOrchestrator {
    * Create fallback response for errors
    */
   private createFallbackResponse(): string {
-    return 'Disculpa, tuve un pequeño problema técnico. ¿Podrías repetirme tu consulta?';
+    return FALLBACK_RESPONSES[this.language];
   }
 
   /**
@@ -7,6 +7,7 @@
 import { generateObject } from 'ai';
 import { z } from 'zod';
 import { getModel } from '../../openrouter';
+import { withUsageComponent } from '../../usage/usage-context';
 import { AI_CONFIG } from '../../config';
 import type { GuidelineMatch } from '../../types/guideline';
 import type { LLMMessage } from '../../context/conversation-loader';
@@ -32,7 +33,7 @@ const TaskSchema = z.object({
 
 const ActionPlanSchema = z.object({
   tasks: z.array(TaskSchema).describe('Lista secuencial de tareas a realizar para responder al usuario'),
-  criticalPath: z.boolean().describe('Si es true, abortar todo si una tarea crítica falla'),
+  criticalPath: z.boolean().describe('Si es true, si una tarea falla se cancelan las tareas que dependen de ella'),
   directToWriter: z.boolean().describe('Si es true, no hay tareas complejas, ir directo al writer'),
   reasoning: z.string().describe('Explicación general del plan'),
   estimatedComplexity: z.enum(['low', 'medium', 'high']).describe('Complejidad estimada')
@@ -61,8 +62,8 @@ export class ActionPlanner {
   private clasiffierModel: ReturnType<typeof getModel>;
 
   constructor() {
-    this.model = getModel(AI_CONFIG?.CASCADE?.PLANNER_MODEL ?? AI_CONFIG?.COMPOSER_MODEL_MEDIUM ?? 'openai/gpt-4o-mini');  
-    this.clasiffierModel = getModel(AI_CONFIG?.CASCADE?.CLASSIFIER_MODEL ?? AI_CONFIG?.COMPOSER_MODEL_MEDIUM ?? 'openai/gpt-4o-mini');
+    this.model = withUsageComponent('planner', getModel(AI_CONFIG?.CASCADE?.PLANNER_MODEL ?? AI_CONFIG?.COMPOSER_MODEL_MEDIUM ?? 'openai/gpt-4o-mini'));  
+    this.clasiffierModel = withUsageComponent('classifier', getModel(AI_CONFIG?.CASCADE?.CLASSIFIER_MODEL ?? AI_CONFIG?.COMPOSER_MODEL_MEDIUM ?? 'openai/gpt-4o-mini'));
   }
 
   /**
@@ -199,7 +200,7 @@ export class ActionPlanner {
     prompt += `      <tipo name="ask_to_user">Detener ejecución y preguntar al usuario. IMPORTANTE: Las tareas posteriores se OMITEN. Usar cuando necesitas que el usuario tome una decisión o aclare algo antes de continuar. Requiere questionForUser.</tipo>\n`;
     prompt += `    </tipos_tarea>\n`;
     prompt += `    <instruccion>Solo usa type="worker_call" cuando realmente necesites llamar a un worker</instruccion>\n`;
-    prompt += `    <instruccion>Usa dependsOn para indicar qué tareas deben completarse antes</instruccion>\n`;
+    prompt += `    <instruccion>Usa dependsOn para indicar qué tareas deben completarse antes. Las tareas sin dependencias entre sí se ejecutan en paralelo</instruccion>\n`;
     prompt += `    <instruccion>La descripción debe ser clara y natural, explicando QUÉ hacer</instruccion>\n`;
     prompt += `    <instruccion_ask_to_user>Usa ask_to_user cuando: (1) Hay ambigüedad que solo el usuario puede resolver, (2) Se necesita confirmación antes de ejecutar una acción importante, (3) Hay múltiples opciones y el usuario debe elegir, (4) Falta información crítica que el usuario debe proporcionar</instruccion_ask_to_user>\n`;
     prompt += `  </instrucciones_planificacion>\n\n`;
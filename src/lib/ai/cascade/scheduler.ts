@@ -0,0 +1,292 @@
+/**
+ * Plan Scheduler
+ *
+ * Runs the tasks of an ActionPlan as a DAG (dependsOn) instead of one by one:
+ * - A task starts as soon as its dependencies settled, independent tasks run in parallel
+ *   (one at a time, by step, if parallelExecution is disabled)
+ * - Each task receives the results of its upstream tasks (previousTaskResults)
+ * - A failed task is retried alone: completed tasks are not re-run and its dependents wait for the retry.
+ *   Workers that already executed tools, or that threw, are not retried
+ * - criticalPath is honoured per branch: a task that still fails skips its dependents while independent
+ *   branches continue. Without criticalPath the dependents run with the error of the failed task
+ * - ask_to_user waits for every earlier step and stops the plan: later steps stay pending
+ * - Each task has a timeout derived from workerTimeout (see TASK_TIMEOUT_FACTORS). A timed out task is
+ *   cancelled through the abort signal given to runTask: workers stop their model calls and start no more tools.
+ *   Every task records its timing
+ */
+
+import type { ActionPlan, PlanTask, TaskType, WorkerResult } from './types';
+
+// Timeout of each task type, relative to workerTimeout (0 = no timeout)
+const TASK_TIMEOUT_FACTORS: Record<TaskType, number> = {
+  worker_call: 1,
+  reasoning: 0.5,
+  context_search: 0.5,
+  ask_to_user: 0, // No timeout, it only builds the question
+};
+
+export interface TaskRunOutcome {
+  status: 'completed' | 'failed' | 'ask_user';
+  result?: string;
+  error?: string;
+  workerResult?: WorkerResult; // Result passed to the writer (worker calls and ask_to_user)
+  retryable?: boolean; // false for failures a retry can't fix (e.g. unknown worker)
+}
+
+// abortSignal is aborted when the task times out
+export type TaskRunner = (
+  task: PlanTask,
+  previousTaskResults: Map<string, string>,
+  abortSignal: AbortSignal
+) => Promise<TaskRunOutcome>;
+
+export interface PlanSchedulerOptions {
+  parallelExecution: boolean;
+  criticalPathEnabled: boolean;
+  maxRetries: number; // Retries of a failed task
+  workerTimeout: number;
+}
+
+export interface PlanSchedulerResult {
+  workerResults: WorkerResult[]; // By step
+  failedTasks: PlanTask[];
+  askedUser: boolean;
+  totalTimeMs: number;
+}
+
+class TaskTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`Task timed out after ${timeoutMs}ms`);
+    this.name = 'TaskTimeoutError';
+  }
+}
+
+/**
+ * Runs fn with a signal that is aborted, and rejects, when the timeout expires
+ */
+async function withTimeout<T>(fn: (abortSignal: AbortSignal) => Promise<T>, timeoutMs: number): Promise<T> {
+  const controller = new AbortController();
+  if (timeoutMs <= 0) {
+    return fn(controller.signal);
+  }
+
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    return await Promise.race([
+      fn(controller.signal),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+          // Rejected before aborting so the race settles as a timeout, not with what the aborted task returns
+          const error = new TaskTimeoutError(timeoutMs);
+          reject(error);
+          controller.abort(error);
+        }, timeoutMs);
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export function getTaskTimeout(task: PlanTask, workerTimeout: number): number {
+  return Math.round(workerTimeout * (TASK_TIMEOUT_FACTORS[task.type] ?? 1));
+}
+
+function isSettled(task: PlanTask): boolean {
+  return task.status === 'completed' || task.status === 'failed' || task.status === 'skipped' || task.status === 'ask_user';
+}
+
+/**
+ * Dependencies of each task, without unknown ids (the planner sometimes references missing tasks)
+ */
+function buildDependencies(tasks: PlanTask[]): Map<string, string[]> {
+  const ids = new Set(tasks.map((t) => t.id));
+  const dependencies = new Map<string, string[]>();
+
+  for (const task of tasks) {
+    const dependsOn = task.dependsOn || [];
+    const unknown = dependsOn.filter((id) => !ids.has(id));
+    if (unknown.length > 0) {
+      console.warn(`[PlanScheduler] Task ${task.id} depends on unknown tasks ${unknown.join(', ')}, ignored`);
+    }
+    dependencies.set(task.id, dependsOn.filter((id) => ids.has(id) && id !== task.id));
+  }
+
+  return dependencies;
+}
+
+/**
+ * Upstream tasks of a task (transitive dependencies), by step
+ * ask_to_user gets every earlier step, so the question considers everything already found
+ */
+function getUpstreamTasks(task: PlanTask, tasks: PlanTask[], dependencies: Map<string, string[]>): PlanTask[] {
+  if (task.type === 'ask_to_user') {
+    return tasks.filter((t) => t.step < task.step);
+  }
+
+  const upstream = new Set<string>();
+  const stack = [...(dependencies.get(task.id) || [])];
+
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (upstream.has(id)) {
+      continue;
+    }
+    upstream.add(id);
+    stack.push(...(dependencies.get(id) || []));
+  }
+
+  return tasks.filter((t) => upstream.has(t.id));
+}
+
+function buildPreviousTaskResults(upstream: PlanTask[]): Map<string, string> {
+  const previousTaskResults = new Map<string, string>();
+
+  for (const task of upstream) {
+    if (task.status === 'completed' || task.status === 'ask_user') {
+      previousTaskResults.set(task.id, task.result ?? '');
+    } else if (task.status === 'failed') {
+      previousTaskResults.set(task.id, `[FAILED] ${task.error || 'Task failed'}${task.result ? `\n${task.result}` : ''}`);
+    }
+  }
+
+  return previousTaskResults;
+}
+
+/**
+ * Executes the tasks of a plan, calling runTask for each one when its dependencies settled
+ */
+export async function executePlan(
+  plan: ActionPlan,
+  runTask: TaskRunner,
+  options: PlanSchedulerOptions
+): Promise<PlanSchedulerResult> {
+  const startTime = Date.now();
+  const tasks = [...plan.tasks].sort((a, b) => a.step - b.step);
+  const tasksById = new Map(tasks.map((t) => [t.id, t]));
+  const dependencies = buildDependencies(tasks);
+  const criticalPath = options.criticalPathEnabled && plan.criticalPath;
+  const workerResults = new Map<string, WorkerResult>();
+  const running = new Map<string, Promise<void>>();
+  let askedUser = false;
+
+  tasks.forEach((task) => {
+    task.status = 'pending';
+    task.attempts = 0;
+  });
+
+  const runWithRetries = async (task: PlanTask): Promise<void> => {
+    const upstream = getUpstreamTasks(task, tasks, dependencies);
+    const previousTaskResults = buildPreviousTaskResults(upstream);
+    const timeoutMs = getTaskTimeout(task, options.workerTimeout);
+
+    task.status = 'running';
+    task.startOffsetMs = Date.now() - startTime;
+    const taskStart = Date.now();
+
+    let outcome: TaskRunOutcome;
+    for (;;) {
+      task.attempts = (task.attempts ?? 0) + 1;
+      let timedOut = false;
+
+      try {
+        outcome = await withTimeout((abortSignal) => runTask(task, previousTaskResults, abortSignal), timeoutMs);
+      } catch (error) {
+        timedOut = error instanceof TaskTimeoutError;
+        outcome = { status: 'failed', error: error instanceof Error ? error.message : 'Unknown error' };
+      }
+
+      // A timed out attempt may have run tools before it was cancelled: a retry could run them twice
+      const canRetry = outcome.status === 'failed'
+        && !timedOut
+        && outcome.retryable !== false
+        && task.attempts <= options.maxRetries;
+      if (!canRetry) {
+        break;
+      }
+      console.warn(`[PlanScheduler] 🔄 Retrying task ${task.id} (attempt ${task.attempts + 1}): ${outcome.error || 'failed'}`);
+    }
+
+    task.status = outcome.status;
+    task.result = outcome.result;
+    task.error = outcome.error;
+    task.durationMs = Date.now() - taskStart;
+    if (outcome.workerResult) {
+      workerResults.set(task.id, outcome.workerResult);
+    }
+    if (outcome.status === 'ask_user') {
+      askedUser = true;
+    }
+
+    console.log(`[PlanScheduler] Task ${task.id} ${task.status} in ${task.durationMs}ms (${task.attempts} attempt${task.attempts === 1 ? '' : 's'})`);
+  };
+
+  const getDependencies = (task: PlanTask): PlanTask[] =>
+    (dependencies.get(task.id) || []).map((id) => tasksById.get(id)!);
+
+  // Critical path: the dependents of a failed task are skipped, along with their own dependents
+  const skipFailedBranches = (): void => {
+    let skippedAny = true;
+    while (criticalPath && skippedAny) {
+      skippedAny = false;
+      for (const task of tasks.filter((t) => t.status === 'pending')) {
+        const failedDep = getDependencies(task).find((d) => d.status === 'failed' || d.status === 'skipped');
+        if (failedDep) {
+          task.status = 'skipped';
+          task.error = `Dependency ${failedDep.id} did not complete`;
+          skippedAny = true;
+          console.log(`[PlanScheduler] Task ${task.id} skipped (critical path): ${task.error}`);
+        }
+      }
+    }
+  };
+
+  const isReady = (task: PlanTask): boolean => {
+    if (task.status !== 'pending' || !getDependencies(task).every(isSettled)) {
+      return false;
+    }
+    // ask_to_user waits for the earlier steps, and the later steps wait for it (they only run if it didn't ask)
+    return !tasks.some((t) => !isSettled(t) && t.id !== task.id && (
+      task.type === 'ask_to_user' ? t.step < task.step : t.type === 'ask_to_user' && t.step < task.step
+    ));
+  };
+
+  for (;;) {
+    if (!askedUser) {
+      skipFailedBranches();
+      const ready = tasks.filter(isReady);
+      const toStart = options.parallelExecution ? ready : ready.slice(0, running.size > 0 ? 0 : 1);
+      for (const task of toStart) {
+        running.set(task.id, runWithRetries(task).finally(() => running.delete(task.id)));
+      }
+    }
+
+    if (running.size === 0) {
+      break;
+    }
+    await Promise.race(running.values());
+  }
+
+  // After an ask_to_user the remaining tasks stay pending (they run when the user answers),
+  // otherwise they are part of a dependency cycle
+  const pending = tasks.filter((t) => t.status === 'pending');
+  if (pending.length > 0) {
+    console.log(`[PlanScheduler] ${pending.length} task(s) not executed: ${pending.map((t) => t.id).join(', ')}${askedUser ? ' (waiting for the user)' : ' (dependency cycle)'}`);
+    if (!askedUser) {
+      pending.forEach((task) => {
+        task.status = 'skipped';
+        task.error = 'Dependencies not completed';
+      });
+    }
+  }
+
+  const totalTimeMs = Date.now() - startTime;
+  console.log(`[PlanScheduler] Plan executed in ${totalTimeMs}ms: ${tasks.map((t) => `${t.id}=${t.status}${t.durationMs !== undefined ? ` ${t.durationMs}ms` : ''}`).join(', ')}`);
+
+  return {
+    workerResults: tasks.filter((t) => workerResults.has(t.id)).map((t) => workerResults.get(t.id)!),
+    failedTasks: tasks.filter((t) => t.status === 'failed'),
+    askedUser,
+    totalTimeMs,
+  };
+}
@@ -0,0 +1,117 @@
+/**
+ * Cascade Execution Traces
+ *
+ * Stores the intermediate data of each cascade execution (classification, plan tasks,
+ * worker results with their tools and validation scores, style corrections) so a response
+ * can be explained days later. Traces are keyed by execution id and linked to the
+ * assistant message they produced
+ */
+
+import { saveTrace } from '../../db/repositories/traces';
+import type { CascadeTraceData } from '../../db/types';
+import type { GuidelineMatchStats } from '../core/guideline-matcher';
+import type { ActionPlan, CascadeExecutionResult, WorkerResult } from './types';
+
+export const CASCADE_TRACE_CONFIG = {
+  ENABLED: process.env.CASCADE_TRACES !== 'false',
+  RETENTION_DAYS: 30, // expiresAt for the Firestore TTL policy of the traces collection
+  MAX_RESULT_LENGTH: 2000, // Tool and task results are truncated to this length
+} as const;
+
+export interface CascadeTraceInput {
+  traceId: string;
+  phone: string;
+  executionId?: string;
+  conversationId?: string;
+  messageId?: string;
+  userMessage: string;
+  activeGuidelines: string[];
+  matching?: GuidelineMatchStats | null;
+  result: CascadeExecutionResult;
+}
+
+function truncate(value: string): string {
+  return value.length > CASCADE_TRACE_CONFIG.MAX_RESULT_LENGTH
+    ? `${value.substring(0, CASCADE_TRACE_CONFIG.MAX_RESULT_LENGTH)}... [truncated]`
+    : value;
+}
+
+/**
+ * Tool results can be large objects (property listings, availability): stored as truncated JSON
+ */
+function serializeToolResult(result: unknown): string {
+  if (typeof result === 'string') {
+    return truncate(result);
+  }
+  try {
+    return truncate(JSON.stringify(result) ?? '');
+  } catch {
+    return '[unserializable result]';
+  }
+}
+
+function tracePlan(plan: ActionPlan | undefined): ActionPlan | null {
+  if (!plan) {
+    return null;
+  }
+
+  return {
+    ...plan,
+    tasks: plan.tasks.map((task) => ({
+      ...task,
+      result: task.result !== undefined ? truncate(task.result) : undefined,
+    })),
+  };
+}
+
+function traceWorkerResult(result: WorkerResult): WorkerResult {
+  return {
+    ...result,
+    response: truncate(result.response),
+    toolsExecuted: result.toolsExecuted.map((tool) => ({
+      ...tool,
+      result: serializeToolResult(tool.result),
+    })),
+  };
+}
+
+export function buildCascadeTrace(input: CascadeTraceInput): CascadeTraceData {
+  const { metadata } = input.result;
+  const expiresAt = new Date(Date.now() + CASCADE_TRACE_CONFIG.RETENTION_DAYS * 24 * 60 * 60 * 1000);
+
+  return {
+    id: input.traceId,
+    phone: input.phone,
+    executionId: input.executionId ?? null,
+    conversationId: input.conversationId ?? null,
+    messageId: input.messageId ?? null,
+    userMessage: input.userMessage,
+    response: input.result.response,
+    success: input.result.success,
+    error: input.result.error ?? null,
+    activeGuidelines: input.activeGuidelines,
+    matching: input.matching ?? null,
+    classification: metadata.classification,
+    plan: tracePlan(metadata.plan),
+    workerResults: metadata.workerResults.map(traceWorkerResult),
+    style: metadata.styleValidation ?? null,
+    faqCache: metadata.faqCache ?? null,
+    totalExecutionTimeMs: metadata.totalExecutionTimeMs,
+    expiresAt,
+  };
+}
+
+/**
+ * Stores the trace of an execution
+ * Not awaited by the workflow: a failed write must not affect the response
+ */
+export async function recordCascadeTrace(uid: string, input: CascadeTraceInput): Promise<void> {
+  if (!CASCADE_TRACE_CONFIG.ENABLED) {
+    return;
+  }
+
+  const saved = await saveTrace(uid, buildCascadeTrace(input));
+  if (!saved) {
+    console.warn(`[CascadeTrace] ⚠️ Trace ${input.traceId} of ${input.phone} could not be saved`);
+  }
+}
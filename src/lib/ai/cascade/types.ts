@@ -6,6 +6,7 @@
 import type { GuidelineMatch } from '../types/guideline';
 import type { MicroAgentEvaluationResult } from '../types/micro-agent-types';
 import type { LLMMessage } from '../context/conversation-loader';
+import type { ConversationLanguage } from '../../db/types';
 // ========== Classification Types ==========
 
 export type MessageClassification = 'requires_action' | 'text_only';
@@ -35,14 +36,17 @@ export interface PlanTask {
   dependsOn: string[];           // Task IDs that must complete first
   questionForUser?: string;      // For ask_to_user: The question to ask the user
   // Runtime fields (filled during execution)
-  status?: 'pending' | 'running' | 'completed' | 'failed' | 'ask_user';
+  status?: 'pending' | 'running' | 'completed' | 'failed' | 'skipped' | 'ask_user';
   result?: string;               // Result of this task
-  error?: string;                // Error if failed
+  error?: string;                // Error if failed or skipped
+  startOffsetMs?: number;        // When the task started, in ms since the plan started
+  durationMs?: number;           // Including retries
+  attempts?: number;
 }
 
 export interface ActionPlan {
   tasks: PlanTask[];
-  criticalPath: boolean; // If true, abort all if one fails
+  criticalPath: boolean; // If true, a failed task skips the tasks that depend on it
   directToWriter: boolean; // Skip workers, go directly to writer
   reasoning: string;
   estimatedComplexity: 'low' | 'medium' | 'high';
@@ -87,6 +91,7 @@ export interface WorkerExecutionContext {
   planContext?: ActionPlan; // Full plan for context awareness
   previousTaskResults?: Map<string, string>; // Results from previous tasks in the plan
   contextVariables?: Record<string, string>; // Context variables loaded in the workflow (fecha, nombre_usuario, etc.)
+  abortSignal?: AbortSignal; // Aborted when the task times out: model calls stop and no more tools start
 }
 
 // ========== Validation Types ==========
@@ -136,6 +141,7 @@ export interface WriterInput {
   glossaryContext?: string;
   ragContext?: any;
   contextVariables?: Record<string, string>; // Context variables from workflow (fecha, nombre_usuario, etc.)
+  language?: ConversationLanguage; // Language of the conversation, the response is written in it (default: es)
 }
 
 export interface WriterOutput {
@@ -176,6 +182,15 @@ export interface CascadeExecutionResult {
     workerResults: WorkerResult[];
     writerIterations: number;
     styleValidationPassed: boolean;
+    styleValidation?: {
+      score: number;
+      corrected: boolean;
+      originalResponse: string; // Writer response before the corrections
+    };
+    faqCache?: {
+      question: string; // Cached question the response was served for
+      similarity: number;
+    };
     totalExecutionTimeMs: number;
     executedGuidelines: string[];
   };
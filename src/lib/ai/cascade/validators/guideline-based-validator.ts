@@ -7,6 +7,7 @@
 import { generateObject } from 'ai';
 import { z } from 'zod';
 import { getModel } from '../../openrouter';
+import { withUsageComponent } from '../../usage/usage-context';
 import { AI_CONFIG } from '../../config';
 import type { WorkerExecutionContext, LightweightValidationResult } from '../types';
 import type { WorkerToolResult } from '../workers/base-worker';
@@ -39,7 +40,7 @@ export class LightweightValidator {
 
   constructor(config: LightweightValidatorConfig) {
     this.config = config;
-    this.model = getModel(AI_CONFIG?.CASCADE?.VALIDATOR_MODEL ?? 'openai/gpt-4o-mini');
+    this.model = withUsageComponent('validator', getModel(AI_CONFIG?.CASCADE?.VALIDATOR_MODEL ?? 'openai/gpt-4o-mini'));
   }
 
   /**
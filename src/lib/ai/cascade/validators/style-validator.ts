@@ -7,9 +7,12 @@
 import { generateObject } from 'ai';
 import { z } from 'zod';
 import { getModel } from '../../openrouter';
+import { withUsageComponent } from '../../usage/usage-context';
 import { AI_CONFIG } from '../../config';
 import type { StyleValidationResult } from '../types';
 import type { GuidelineMatch } from '../../types/guideline';
+import type { ConversationLanguage } from '../../../db/types';
+import { LANGUAGE_NAMES } from '../../../utils/language';
 
 const StyleCorrectionSchema = z.object({
   correctedResponse: z.string().describe('La respuesta corregida o la original si no necesita cambios'),
@@ -33,7 +36,7 @@ export class StyleValidator {
 
   constructor(config: Partial<StyleValidatorConfig> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
-    this.model = getModel(AI_CONFIG?.CASCADE?.STYLE_VALIDATOR_MODEL, {reasoning: {enabled: true, effort: 'medium'}});
+    this.model = withUsageComponent('validator', getModel(AI_CONFIG?.CASCADE?.STYLE_VALIDATOR_MODEL, {reasoning: {enabled: true, effort: 'medium'}}));
   }
 
   /**
@@ -44,7 +47,8 @@ export class StyleValidator {
     response: string,
     userMessage: string,
     activeGuidelines: GuidelineMatch[],
-    contextVariables?: Record<string, string>
+    contextVariables?: Record<string, string>,
+    language: ConversationLanguage = 'es'
   ): Promise<{ response: string; score: number; wasCorreced: boolean }> {
     console.log('[StyleValidator] Validating and correcting...');
 
@@ -70,6 +74,8 @@ export class StyleValidator {
     systemPrompt += `    8. NO agregar información adicional que no esté en la respuesta original\n`;
     systemPrompt += `    9. NO repetir mensajes que ya haya sido enviados en la conversación\n`;
     systemPrompt += `    10. NO te presentes en cada interaccion, solo cuando te saludan\n`;
+    systemPrompt += `    11. Conservar sin cambios las directivas [[botones: ...]], [[lista: ...]], [[ubicacion: ...]] y [[pdf: ...]] y las marcas @@property_id: ...@@ (no se muestran al usuario)\n`;
+    systemPrompt += `    12. La respuesta debe estar en ${LANGUAGE_NAMES[language]}, el idioma del cliente${language !== 'es' ? '. NO la traduzcas al español: estas reglas están en español pero se aplican en cualquier idioma' : ''}\n`;
     systemPrompt += `  </reglas_estilo_base>\n\n`;
 
     // Include active guidelines with their validation criteria
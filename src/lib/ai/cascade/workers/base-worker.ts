@@ -6,6 +6,7 @@
 
 import { generateText, stepCountIs } from 'ai';
 import { getModel } from '../../openrouter';
+import { withUsageComponent } from '../../usage/usage-context';
 import { AI_CONFIG } from '../../config';
 import { LightweightValidator, createValidatorForWorker } from '../validators/guideline-based-validator';
 import type { 
@@ -48,7 +49,7 @@ export abstract class BaseWorker {
       definition.validationThreshold
     );
 
-    this.model = getModel(AI_CONFIG?.CASCADE?.WORKER_MODELS?.[this.definition.id] ?? 'openai/gpt-4o-mini');
+    this.model = withUsageComponent('worker', getModel(AI_CONFIG?.CASCADE?.WORKER_MODELS?.[this.definition.id] ?? 'openai/gpt-4o-mini'));
   }
 
   /**
@@ -242,8 +243,8 @@ export abstract class BaseWorker {
         );
       }
 
-      // If score < 7, try ONE more time with feedback
-      if (validation.feedback) {
+      // If score < 7, try ONE more time with feedback (unless the task timed out meanwhile)
+      if (validation.feedback && !context.abortSignal?.aborted) {
         console.log(`[Worker:${this.definition.id}] Score < 7, retrying with feedback: ${validation.feedback}`);
         iterations++;
 
@@ -348,6 +349,7 @@ export abstract class BaseWorker {
    * Helper to execute model generation
    * Uses stepCountIs(1) to ensure only one tool execution per iteration
    * This prevents duplicate tool calls (e.g., get_availability being called 3 times)
+   * The task abort signal cancels the model calls and the tools that did not start yet
    */
   protected async generateWithModel(
     systemPrompt: string,
@@ -359,12 +361,32 @@ export abstract class BaseWorker {
       model: this.model,
       system: systemPrompt,
       messages: context.messages,
-      tools,
+      tools: tools && this.withAbortCheck(tools),
       maxOutputTokens: 2000,
-      stopWhen: stepCountIs(maxSteps ?? 2) // Single step to avoid duplicate tool executions
+      stopWhen: stepCountIs(maxSteps ?? 2), // Single step to avoid duplicate tool executions
+      abortSignal: context.abortSignal
     });
   }
 
+  /**
+   * Wraps the tools so none starts once the task was aborted
+   * (the SDK gives each tool the abort signal, but runs the tool calls of a finished step anyway)
+   */
+  private withAbortCheck(tools: Record<string, any>): Record<string, any> {
+    return Object.fromEntries(Object.entries(tools).map(([name, tool]) => [
+      name,
+      tool?.execute
+        ? {
+          ...tool,
+          execute: (input: any, options: { abortSignal?: AbortSignal }) => {
+            options?.abortSignal?.throwIfAborted();
+            return tool.execute(input, options);
+          },
+        }
+        : tool,
+    ]));
+  }
+
   /**
    * Extract all tool calls from generateText result
    * Handles both single-step and multi-step results (when using stopWhen)
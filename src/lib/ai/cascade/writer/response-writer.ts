@@ -4,11 +4,13 @@
  * Does NOT execute any tools - only synthesis and composition
  */
 
-import { generateText } from 'ai';
+import { generateText, streamText } from 'ai';
 import { getModel } from '../../openrouter';
+import { withUsageComponent } from '../../usage/usage-context';
 import { AI_CONFIG } from '../../config';
 import type { WriterInput, WriterOutput, WorkerResult, ActionPlan } from '../types';
 import type { GuidelineMatch } from '../../types/guideline';
+import { LANGUAGE_NAMES } from '../../../utils/language';
 
 export interface WriterConfig {
   maxRetries: number;
@@ -28,7 +30,7 @@ export class ResponseWriter {
 
   constructor(config: Partial<WriterConfig> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
-    this.model = getModel(AI_CONFIG?.CASCADE?.WRITER_MODEL ?? AI_CONFIG?.COMPOSER_MODEL_MEDIUM ?? 'openai/gpt-4o');
+    this.model = withUsageComponent('writer', getModel(AI_CONFIG?.CASCADE?.WRITER_MODEL ?? AI_CONFIG?.COMPOSER_MODEL_MEDIUM ?? 'openai/gpt-4o'));
   }
 
   /**
@@ -43,7 +45,12 @@ export class ResponseWriter {
     prompt += `    <restricciones>\n`;
     prompt += `      <restriccion>NO puedes ejecutar herramientas - solo redactar</restriccion>\n`;
     prompt += `      <restriccion>Debes usar la información proporcionada por los workers</restriccion>\n`;
-    prompt += `      <restriccion>Responde en español, tono amigable y profesional</restriccion>\n`;
+    if (input.language && input.language !== 'es') {
+      // Guidelines, worker results and glossary stay in Spanish: only the response is written in the lead's language
+      prompt += `      <restriccion>Responde en ${LANGUAGE_NAMES[input.language]}, el idioma del cliente, con tono amigable y profesional. Las guidelines y resultados están en español: tradúcelos, pero NO traduzcas nombres de propiedades, direcciones, URLs ni directivas</restriccion>\n`;
+    } else {
+      prompt += `      <restriccion>Responde en español, tono amigable y profesional</restriccion>\n`;
+    }
     prompt += `      <restriccion>NO repitas información que ya haya sido enviada en la conversación</restriccion>\n`;
     prompt += `      <restriccion>NO repitas mensajes que ya haya sido enviados en la conversación</restriccion>\n`;
     prompt += `      <restriccion>NO te presentes en cada interaccion, solo cuando te saludan</restriccion>\n`;
@@ -170,6 +177,14 @@ export class ResponseWriter {
     prompt += `  <instrucciones_formato>\n`;
     prompt += `    <instruccion>Responde de forma natural y conversacional</instruccion>\n`;
     prompt += `    <instruccion>Para imágenes: usa formato Markdown ![descripción](url)</instruccion>\n`;
+    prompt += `    <instruccion>Al presentar una propiedad escribe @@property_id: ID@@ justo antes de su descripción e imágenes. Se elimina antes de enviar y permite saber de qué propiedad habla el cliente si responde citando el mensaje</instruccion>\n`;
+    prompt += `    <mensajes_enriquecidos>\n`;
+    prompt += `      <nota>Usa estas directivas en una línea propia, separando los argumentos con |. Si el canal no las soporta se envían como texto</nota>\n`;
+    prompt += `      <directiva uso="Ofrecer horarios de visita u opciones cortas (máximo 3)">[[botones: pregunta | opción 1 | opción 2 | opción 3]]</directiva>\n`;
+    prompt += `      <directiva uso="Resultados de búsqueda de propiedades (máximo 10)">[[lista: texto | Ver propiedades | título 1 ; descripción breve 1 | título 2 ; descripción breve 2]]</directiva>\n`;
+    prompt += `      <directiva uso="Ubicación de una propiedad (usa ubicacion_url o coordenadas)">[[ubicacion: link de ubicación o lat,lng | nombre | dirección]]</directiva>\n`;
+    prompt += `      <directiva uso="Documentos PDF devueltos por las herramientas">[[pdf: url | nombre del archivo | descripción]]</directiva>\n`;
+    prompt += `    </mensajes_enriquecidos>\n`;
     prompt += `    <instruccion>Mantén el mensaje conciso pero completo</instruccion>\n`;
     prompt += `    <instruccion>Mantén la concordancia de las fechas y horas de la conversación</instruccion>\n`;
     prompt += `    <instruccion>Si un worker falló, comunica el problema de forma amable y ofrece alternativas</instruccion>\n`;
@@ -183,22 +198,23 @@ export class ResponseWriter {
 
   /**
    * Compose the final response
+   * @param onDelta - When provided, the response is streamed and each text delta is passed to it
    */
-  async compose(input: WriterInput): Promise<WriterOutput> {
+  async compose(input: WriterInput, onDelta?: (delta: string) => void): Promise<WriterOutput> {
     const startTime = Date.now();
     console.log('[ResponseWriter] Starting composition...');
     console.log(`[ResponseWriter] Worker results: ${input.workerResults.length}`);
 
     const compositionPrompt = this.buildCompositionPrompt(input);
 
-    const result = await generateText({
-      model: this.model,
-      system: compositionPrompt,
-      messages: input.messages,
-      maxOutputTokens: this.config.maxResponseLength
-    });
-
-    const response = result.text;
+    const response = onDelta
+      ? await this.streamComposition(compositionPrompt, input, onDelta)
+      : (await generateText({
+        model: this.model,
+        system: compositionPrompt,
+        messages: input.messages,
+        maxOutputTokens: this.config.maxResponseLength
+      })).text;
     const executionTimeMs = Date.now() - startTime;
 
     console.log(`[ResponseWriter] Composition completed in ${executionTimeMs}ms`);
@@ -215,6 +231,40 @@ export class ResponseWriter {
     };
   }
 
+  /**
+   * Streams the composition, forwarding every text delta
+   * streamText reports errors through onError instead of throwing, so they are re-thrown here
+   */
+  private async streamComposition(
+    compositionPrompt: string,
+    input: WriterInput,
+    onDelta: (delta: string) => void
+  ): Promise<string> {
+    let streamError: unknown = null;
+
+    const result = streamText({
+      model: this.model,
+      system: compositionPrompt,
+      messages: input.messages,
+      maxOutputTokens: this.config.maxResponseLength,
+      onError: ({ error }) => {
+        streamError = error;
+      }
+    });
+
+    let response = '';
+    for await (const delta of result.textStream) {
+      response += delta;
+      onDelta(delta);
+    }
+
+    if (streamError) {
+      throw streamError;
+    }
+
+    return response;
+  }
+
   /**
    * Create a simple fallback response when everything fails
    */
@@ -6,22 +6,26 @@
 
 export const AI_CONFIG = {
   // Models for each component (OpenRouter format: provider/model-name)
+  // A slot may list fallback models in order of preference: getModel falls over to the next one
+  // when a model keeps failing or its provider circuit breaker is open
   GLOSSARY_MODEL: 'openai/gpt-4o-mini',      // Extraction of relevant terms (cost-efficient)
   MATCHING_MODEL: 'groq/openai/gpt-oss-120b',// Semantic evaluation (high accuracy)
   // COMPOSER_MODEL: 'openai/gpt-4o-mini',      // Response generation (high quality) - default
   CRITIQUE_MODEL: 'groq/openai/gpt-oss-120b',      // Self-critique (optional, cost-efficient)
   REANKING_MODEL: 'groq/openai/gpt-oss-20b',      // Reranking model (optional, cost-efficient)
   EMBEDDING_MODEL: 'text-embedding-3-small', // Embeddings model
-  QUICK_RESPONSE_MODEL: 'groq/openai/gpt-oss-120b', // Quick waiting messages (very fast, cost-efficient)
+  QUICK_RESPONSE_MODEL: ['groq/openai/gpt-oss-120b', 'openai/gpt-oss-120b'], // Quick waiting messages (very fast, cost-efficient)
   CONTEXT_SUMMARY_MODEL: 'groq/openai/gpt-oss-20b', // Context summary generation from logs
   DIRECT_WRITER_MODEL: 'x-ai/grok-4.1-fast', // Direct writer model
+  TRANSCRIPTION_MODEL: 'groq/whisper-large-v3-turbo', // Voice note transcription (speech-to-text)
   
   // RAG Proposition models
   PROPOSITION_GENERATOR_MODEL: 'groq/openai/gpt-oss-20b',  // Fast proposition generation
   PROPOSITION_VALIDATOR_MODEL: 'groq/openai/gpt-oss-20b',  // Quality and veracity validation
   PROPOSITION_CORRECTOR_MODEL: 'openai/gpt-4o-mini',       // Correction of invalid propositions
   CONTEXT_SEARCH_MODEL: 'groq/openai/gpt-oss-20b',         // Context search agent
-  LEAD_QUALIFICATION_MODEL: 'openai/gpt-4o-mini',          // Lead qualification (BANT analysis)
+  LEAD_QUALIFICATION_MODEL: ['openai/gpt-4o-mini', 'gpt-4o-mini'], // Lead qualification (BANT analysis)
+  OPT_OUT_MODEL: ['groq/openai/gpt-oss-20b', 'openai/gpt-oss-20b'], // Opt-out intent of inbound messages
   
   // Models by difficulty level
   COMPOSER_MODEL_LOW: 'openai/gpt-4o-mini',     // Simple tasks (greetings, basic info)
@@ -32,12 +36,23 @@ export const AI_CONFIG = {
   GUIDELINE_THRESHOLD: 0.6,           // Minimum score to activate guideline
   MAX_STEPS: 3,                       // Maximum iterations in tool execution loop
   MAX_GLOSSARY_TERMS: 5,              // Maximum terms to extract from glossary
+
+  // Guideline prefilter: only the guidelines closest to the conversation (embeddings) go to the LLM matcher
+  GUIDELINE_PREFILTER: {
+    ENABLED: true,
+    TOP_K: 8,                         // Candidates shortlisted by cosine similarity
+    MIN_SIMILARITY: 0.2,              // Candidates below this similarity are dropped
+    CONTEXT_MESSAGES: 3,              // Recent messages embedded as the conversation context
+    // Always evaluated by the LLM (besides guidelines with metadata.alwaysOn)
+    ALWAYS_ON: ['get_human_help', 'tenant_get_help', 'price_negotiation_escalation'],
+    MATCH_CACHE_TTL_SECONDS: 600,     // Matches cached per normalised message (ENABLE_CACHING)
+  },
   
   // Feature flags
   ENABLE_CRITIQUE: false,             // Self-critique disabled by default
   ENABLE_VALIDATION: true,            // Response validation with critic LLM enabled by default
   ENABLE_CACHING: true,               // Cache matching results
-  ENABLE_STREAMING: false,            // Streaming responses disabled by default
+  ENABLE_STREAMING: process.env.ENABLE_STREAMING !== 'false', // Stream writer tokens to channels that support it (web chat)
   
   // Cache settings
   CACHE_TTL_MS: 3600000,              // Cache time-to-live: 1 hour
@@ -63,12 +78,12 @@ export const AI_CONFIG = {
   // Cascade Architecture Configuration
   CASCADE: {
     ENABLED: true,                           // Enable cascade workflow
-    PLANNER_MODEL: 'x-ai/grok-4.1-fast',     // LLM for action planning
-    WRITER_MODEL: 'x-ai/grok-4.1-fast',           // LLM for response composition
+    PLANNER_MODEL: ['x-ai/grok-4.1-fast', 'gpt-4o-mini'], // LLM for action planning
+    WRITER_MODEL: ['x-ai/grok-4.1-fast', 'gpt-4o-mini'], // LLM for response composition
     VALIDATOR_MODEL: 'openai/gpt-4o-mini',   // LLM for style validation
-    CLASSIFIER_MODEL: 'groq/openai/gpt-oss-120b',           // LLM for message classification
+    CLASSIFIER_MODEL: ['groq/openai/gpt-oss-120b', 'openai/gpt-oss-120b'], // LLM for message classification
     CONTEXT_SEARCH_MODEL: 'x-ai/grok-4.1-fast',           // LLM for context search
-    REASONING_MODEL: 'x-ai/grok-4.1-fast',           // LLM for reasoning
+    REASONING_MODEL: ['x-ai/grok-4.1-fast', 'gpt-4o-mini'], // LLM for reasoning
     STYLE_VALIDATOR_MODEL: 'x-ai/grok-4.1-fast',  
     WORKER_MODELS: {
       SEARCH_WORKER_MODEL: 'deepseek/deepseek-v3.2-speciale',
@@ -2,10 +2,11 @@ import { generateObject, generateText } from 'ai';
 import { z } from 'zod';
 import { AI_CONFIG } from '../config';
 import { getOpenRouterModel } from '../openrouter';
+import { withUsageComponent } from '../usage/usage-context';
 
 export class GlossaryStore {
   private terms: Map<string, string> = new Map();
-  private model = getOpenRouterModel(AI_CONFIG?.GLOSSARY_MODEL ?? 'openai/gpt-4o-mini'); // Efficient model for extraction
+  private model = withUsageComponent('glossary', getOpenRouterModel(AI_CONFIG?.GLOSSARY_MODEL ?? 'openai/gpt-4o-mini')); // Efficient model for extraction
 
   constructor(domainTerms: Record<string, string> = {}) {
     Object.entries(domainTerms).forEach(([term, definition]) => {
@@ -1,17 +1,38 @@
 import { generateObject, generateText } from 'ai';
 import { groq } from '@ai-sdk/groq';
+import { createHash } from 'crypto';
 import { z } from 'zod';
 import type { Guideline, GuidelineMatch } from '../types/guideline';
 import type { LLMMessage } from '../context/conversation-loader';
 import { AI_CONFIG } from '../config';
 import { getModel, getOpenRouterModel } from '../openrouter';
+import { withUsageComponent } from '../usage/usage-context';
+import { prefilterGuidelines } from '../guidelines/guideline-prefilter';
+import { isMockModeEnabled } from '../mock';
+import { cacheGet, cacheSet } from '../../cache/cache-manager';
+
+/**
+ * How a turn was matched, to measure the cost of matching (LLM batches per turn)
+ */
+export interface GuidelineMatchStats {
+  totalGuidelines: number;
+  candidates: number; // Guidelines sent to the LLM (after the embedding prefilter)
+  llmBatches: number;
+  cacheHit: boolean;
+  prefiltered: boolean;
+  durationMs: number;
+}
+
+// Evaluation of a guideline as stored in the match cache
+type CachedEvaluation = { id: string; score: number; reason: string };
 
 export class GuidelineMatcher {
   private guidelines: Guideline[] = [];
   // Use Groq SDK as primary provider for semantic guideline matching.
   // Model can be tuned in config via AI_CONFIG.MATCHING_MODEL; falls back to a default Groq model.
-  private model = getModel(AI_CONFIG.MATCHING_MODEL || 'openai/gpt-5.1-codex-mini');
-  private cache = new Map<string, GuidelineMatch[]>(); // Semantic cache
+  private model = withUsageComponent('matcher', getModel(AI_CONFIG.MATCHING_MODEL || 'openai/gpt-5.1-codex-mini'));
+  private cache = new Map<string, CachedEvaluation[]>(); // Semantic cache (Redis is checked after it)
+  private lastMatchStats: GuidelineMatchStats | null = null;
 
   constructor(guidelines: Guideline[] = []) {
     this.guidelines = guidelines.filter(g => g.enabled);
@@ -31,26 +52,40 @@ export class GuidelineMatcher {
     this.cache.clear();
   }
 
-  // Main semantic matching using LLM (optimized with batching)
+  // Main semantic matching: embedding prefilter + LLM confirmation (optimized with batching)
   async matchGuidelines(
     messages: LLMMessage[],
     threshold: number = 0.7,
     batchSize: number = 5
   ): Promise<GuidelineMatch[]> {
-    // // Check cache
-    // const cacheKey = this.getCacheKey(messages);
-    // if (this.cache.has(cacheKey)) {
-    //   console.log('[GuidelineMatcher] Cache hit for:', cacheKey);
-    //   return this.cache.get(cacheKey)!;
-    // }
+    const startTime = Date.now();
+
+    // Check cache
+    const cacheKey = this.getCacheKey(messages);
+    const cached = await this.getCachedEvaluations(cacheKey);
+    if (cached) {
+      console.log('[GuidelineMatcher] Cache hit for:', cacheKey);
+      this.lastMatchStats = {
+        totalGuidelines: this.guidelines.length,
+        candidates: 0,
+        llmBatches: 0,
+        cacheHit: true,
+        prefiltered: false,
+        durationMs: Date.now() - startTime,
+      };
+      return this.toMatches(cached, threshold);
+    }
 
     // Build conversational context
     const conversationSummary = this.summarizeConversation(messages);
 
-    console.log(`[GuidelineMatcher] Evaluating ${this.guidelines.length} guidelines in batches of ${batchSize}...`);
+    // Shortlist the guidelines closest to the conversation
+    const { candidates, prefiltered } = await prefilterGuidelines(this.guidelines, messages);
+
+    console.log(`[GuidelineMatcher] Evaluating ${candidates.length}/${this.guidelines.length} guidelines in batches of ${batchSize}...`);
 
     // Group guidelines into batches
-    const batches = this.createBatches(this.guidelines, batchSize);
+    const batches = this.createBatches(candidates, batchSize);
     console.log(`[GuidelineMatcher] Created ${batches.length} batches`);
 
     // Evaluate each batch in parallel
@@ -61,11 +96,48 @@ export class GuidelineMatcher {
     const batchResults = await Promise.all(batchPromises);
 
     // Flatten all results
-    const results = batchResults.flat();
+    const evaluations: CachedEvaluation[] = batchResults.flat().map(match => ({
+      id: match.guideline.id,
+      score: match.score,
+      reason: match.reason,
+    }));
+
+    // Cache result (not if an evaluation failed, the next turn retries it)
+    if (!evaluations.some(evaluation => evaluation.reason.startsWith('Evaluation failed'))) {
+      await this.setCachedEvaluations(cacheKey, evaluations);
+    }
+
+    this.lastMatchStats = {
+      totalGuidelines: this.guidelines.length,
+      candidates: candidates.length,
+      llmBatches: batches.length,
+      cacheHit: false,
+      prefiltered,
+      durationMs: Date.now() - startTime,
+    };
+    console.log(`[GuidelineMatcher] 📊 ${batches.length} LLM batches for ${candidates.length}/${this.guidelines.length} guidelines (${this.lastMatchStats.durationMs}ms)`);
+
+    return this.toMatches(evaluations, threshold);
+  }
+
+  /**
+   * Stats of the last matchGuidelines call (null before the first one)
+   */
+  getLastMatchStats(): GuidelineMatchStats | null {
+    return this.lastMatchStats;
+  }
 
-    // Filter by threshold and sort by score
-    const matches = results
-      .filter(match => match.score >= threshold)
+  // Filter by threshold and sort by priority, then score
+  private toMatches(evaluations: CachedEvaluation[], threshold: number): GuidelineMatch[] {
+    const guidelinesById = new Map(this.guidelines.map(g => [g.id, g]));
+
+    return evaluations
+      .filter(evaluation => evaluation.score >= threshold && guidelinesById.has(evaluation.id))
+      .map(evaluation => ({
+        guideline: guidelinesById.get(evaluation.id)!,
+        score: evaluation.score,
+        reason: evaluation.reason,
+      }))
       .sort((a, b) => {
         // Priority first, then score
         if (a.guideline.priority !== b.guideline.priority) {
@@ -73,11 +145,47 @@ export class GuidelineMatcher {
         }
         return b.score - a.score;
       });
+  }
 
-    // Cache result
-    // this.cache.set(cacheKey, matches);
+  /**
+   * Cache key of a turn: the guidelines being matched, the normalised last user message
+   * and the assistant message it answers (short replies like "sí" depend on it)
+   */
+  private getCacheKey(messages: LLMMessage[]): string {
+    const lastUserIndex = messages.map(m => m.role).lastIndexOf('user');
+    const lastUserMessage = lastUserIndex >= 0 ? messages[lastUserIndex].content : '';
+    const previousAssistant = messages.slice(0, Math.max(lastUserIndex, 0)).reverse().find(m => m.role === 'assistant')?.content || '';
+
+    const guidelinesSignature = this.guidelines
+      .map(g => `${g.id}:${g.condition}`)
+      .sort()
+      .join('|');
+
+    const hash = createHash('sha256')
+      .update(`${guidelinesSignature}\n${normalizeMessage(previousAssistant)}\n${normalizeMessage(lastUserMessage)}`)
+      .digest('hex')
+      .substring(0, 32);
+
+    return `guideline-matches:${hash}`;
+  }
 
-    return matches;
+  private isCacheEnabled(): boolean {
+    return AI_CONFIG.ENABLE_CACHING && !isMockModeEnabled();
+  }
+
+  private async getCachedEvaluations(cacheKey: string): Promise<CachedEvaluation[] | null> {
+    if (!this.isCacheEnabled()) {
+      return null;
+    }
+    return this.cache.get(cacheKey) ?? await cacheGet<CachedEvaluation[]>(cacheKey).catch(() => null);
+  }
+
+  private async setCachedEvaluations(cacheKey: string, evaluations: CachedEvaluation[]): Promise<void> {
+    if (!this.isCacheEnabled()) {
+      return;
+    }
+    this.cache.set(cacheKey, evaluations);
+    await cacheSet(cacheKey, evaluations, { ttl: AI_CONFIG.GUIDELINE_PREFILTER.MATCH_CACHE_TTL_SECONDS }).catch(() => {});
   }
 
   // Create batches of guidelines
@@ -417,3 +525,15 @@ export class GuidelineMatcher {
   }
 }
 
+/**
+ * Lowercase, without accents, punctuation or repeated spaces
+ */
+function normalizeMessage(message: string): string {
+  return message
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\p{L}\p{N}\s]/gu, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
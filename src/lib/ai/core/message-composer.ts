@@ -2,6 +2,7 @@ import { generateText, streamText, tool, stepCountIs, generateObject } from 'ai'
 import { ChainOfThoughtAgent } from '../micro-agents/chain-of-thought-agent';
 import { GuidelineAgent } from '../guideline-agent';
 import { getModel } from '../openrouter';
+import { withUsageComponent } from '../usage/usage-context';
 import { AI_CONFIG } from '../config';
 import { z } from 'zod';
 import type { GuidelineMatch } from '../types/guideline';
@@ -60,7 +61,7 @@ const validationResultSchema = z.object({
 });
 
 export class MessageComposer {
-  private defaultModel = getModel(AI_CONFIG?.COMPOSER_MODEL_HIGH ?? 'openai/gpt-oss-120b');
+  private defaultModel = withUsageComponent('composer', getModel(AI_CONFIG?.COMPOSER_MODEL_HIGH ?? 'openai/gpt-oss-120b'));
   private options: ComposerOptions;
 
   constructor(options: ComposerOptions = {}) {
@@ -105,7 +106,7 @@ export class MessageComposer {
     }
 
     console.log(`[MessageComposer] Selected model for difficulty '${maxDifficulty}': ${selectedModel}`);
-    return [getModel(selectedModel), maxDifficulty];
+    return [withUsageComponent('composer', getModel(selectedModel)), maxDifficulty];
   }
 
   // Generate final response
@@ -0,0 +1,96 @@
+/**
+ * Scenario Evaluator
+ *
+ * Generates synthetic conversations for all (or filtered) scenarios and scores them
+ * The AI_CONFIG of the run is stored in the report, so runs with different models can be diffed
+ */
+
+import { AI_CONFIG } from '../config';
+import { syntheticScenarios, type ConversationScenario } from '../scenarios';
+import { ConversationGenerator } from '../synthetic/conversation-generator';
+import { scoreConversation, scoreFailedScenario, summarizeScores, summarizeScoresBy } from './scorecard';
+import type { EvaluationFilters, EvaluationOptions, EvaluationReport, ScenarioScore } from './types';
+
+/**
+ * Scenarios matching every filter that is set
+ */
+export function filterScenarios(filters: EvaluationFilters = {}): ConversationScenario[] {
+  return syntheticScenarios.filter((scenario) =>
+    (!filters.scenarioIds?.length || filters.scenarioIds.includes(scenario.id))
+    && (!filters.categories?.length || filters.categories.includes(scenario.category))
+    && (!filters.difficulties?.length || filters.difficulties.includes(scenario.difficulty))
+  );
+}
+
+/**
+ * Flattens AI_CONFIG to "CASCADE.PLANNER_MODEL"-style keys
+ */
+export function flattenAIConfig(
+  config: Record<string, any> = AI_CONFIG,
+  prefix = ''
+): Record<string, string | number | boolean> {
+  const flat: Record<string, string | number | boolean> = {};
+
+  for (const [key, value] of Object.entries(config)) {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (Array.isArray(value)) {
+      flat[path] = value.join(' > '); // Fallback chain of a model slot
+    } else if (value && typeof value === 'object') {
+      Object.assign(flat, flattenAIConfig(value, path));
+    } else if (value !== undefined) {
+      flat[path] = value;
+    }
+  }
+
+  return flat;
+}
+
+/**
+ * Runs and scores the scenarios
+ */
+export async function runScenarioEvaluation(options: EvaluationOptions): Promise<EvaluationReport> {
+  const workflow = options.workflow || 'cascade';
+  const parallel = options.parallel ?? AI_CONFIG.AUTO_DEV.PARALLEL_GENERATION;
+  const filters: EvaluationFilters = {
+    scenarioIds: options.scenarioIds,
+    categories: options.categories,
+    difficulties: options.difficulties,
+  };
+
+  const scenarios = filterScenarios(filters);
+  const generator = new ConversationGenerator(options.uid, options.maxTurns, workflow);
+  const scores: ScenarioScore[] = [];
+
+  console.error(`[Evaluation] 🧪 Evaluating ${scenarios.length} scenarios with the ${workflow} workflow`);
+
+  // Batches keep the number of concurrent LLM conversations bounded
+  for (let i = 0; i < scenarios.length; i += parallel) {
+    const batch = scenarios.slice(i, i + parallel);
+    const batchScores = await Promise.all(batch.map(async (scenario) => {
+      try {
+        return scoreConversation(await generator.generateConversation(scenario));
+      } catch (error) {
+        console.error(`[Evaluation] ❌ Scenario ${scenario.id} failed:`, error);
+        return scoreFailedScenario(scenario, (error as Error)?.message || String(error));
+      }
+    }));
+    scores.push(...batchScores);
+  }
+
+  const createdAt = new Date();
+  const report: EvaluationReport = {
+    id: `eval_${createdAt.getTime()}`,
+    label: options.label,
+    createdAt: createdAt.toISOString(),
+    workflow,
+    filters,
+    config: flattenAIConfig(),
+    summary: summarizeScores(scores),
+    byCategory: summarizeScoresBy(scores, 'category'),
+    byDifficulty: summarizeScoresBy(scores, 'difficulty'),
+    scenarios: scores,
+  };
+
+  console.error(`[Evaluation] ✅ ${report.summary.passed}/${report.summary.total} scenarios passed`);
+  return report;
+}
@@ -0,0 +1,30 @@
+/**
+ * Scenario Evaluation Module
+ *
+ * Scorecards of syntheticScenarios, reports and run diffs (see run.ts for the CLI)
+ */
+
+export { runScenarioEvaluation, filterScenarios, flattenAIConfig } from './evaluator';
+export {
+  EVALUATION_CONFIG,
+  computeRecall,
+  scoreConversation,
+  summarizeScores,
+  summarizeScoresBy,
+} from './scorecard';
+export {
+  formatEvaluationMarkdown,
+  formatEvaluationDiffMarkdown,
+  diffEvaluationReports,
+  writeEvaluationReport,
+  readEvaluationReport,
+} from './report';
+export type {
+  EvaluationFilters,
+  EvaluationOptions,
+  ScenarioScore,
+  ScoreSummary,
+  EvaluationReport,
+  ScenarioScoreChange,
+  EvaluationDiff,
+} from './types';
@@ -0,0 +1,191 @@
+/**
+ * Evaluation Reports
+ *
+ * JSON/Markdown reports of evaluation runs and diffs between two runs
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type {
+  EvaluationDiff,
+  EvaluationReport,
+  ScenarioScore,
+  ScenarioScoreChange,
+  ScoreSummary,
+} from './types';
+
+const SUMMARY_KEYS: Array<keyof ScoreSummary> = ['total', 'passed', 'passRate', 'successRate', 'toolRecall', 'guidelineRecall'];
+
+function percent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+function signedPercent(value: number): string {
+  return `${value >= 0 ? '+' : ''}${(value * 100).toFixed(1)}pp`;
+}
+
+function summaryRow(name: string, summary: ScoreSummary): string {
+  return `| ${name} | ${summary.passed}/${summary.total} | ${percent(summary.passRate)} | ${percent(summary.successRate)} | ${percent(summary.toolRecall)} | ${percent(summary.guidelineRecall)} |`;
+}
+
+const SUMMARY_HEADER = [
+  '| | Passed | Pass rate | Success | Tool recall | Guideline recall |',
+  '|---|---|---|---|---|---|',
+];
+
+/**
+ * Formats a run as Markdown
+ */
+export function formatEvaluationMarkdown(report: EvaluationReport): string {
+  const lines: string[] = [
+    `# Evaluation ${report.label || report.id}`,
+    '',
+    `- Run: ${report.id} (${report.createdAt})`,
+    `- Workflow: ${report.workflow}`,
+    '',
+    '## Summary',
+    '',
+    ...SUMMARY_HEADER,
+    summaryRow('**All**', report.summary),
+    ...Object.entries(report.byCategory).map(([category, summary]) => summaryRow(category, summary)),
+    ...Object.entries(report.byDifficulty).map(([difficulty, summary]) => summaryRow(difficulty, summary)),
+    '',
+    '## Scenarios',
+    '',
+    '| Scenario | Result | Success | Tool recall | Guideline recall | Turns | Outcome |',
+    '|---|---|---|---|---|---|---|',
+    ...report.scenarios.map((score) =>
+      `| ${score.scenarioId} | ${score.passed ? '✅' : '❌'} | ${score.success === score.shouldSucceed ? 'yes' : 'no'} | ${percent(score.toolRecall)} | ${percent(score.guidelineRecall)} | ${score.turnCount} | ${score.error || score.outcomeReason} |`
+    ),
+  ];
+
+  const failed = report.scenarios.filter((score) => !score.passed);
+  if (failed.length > 0) {
+    lines.push('', '## Failures', '');
+    for (const score of failed) {
+      lines.push(`### ${score.scenarioId}`, ...describeMisses(score), '');
+    }
+  }
+
+  return lines.join('\n');
+}
+
+function describeMisses(score: ScenarioScore): string[] {
+  const missingTools = score.expectedTools.filter((tool) => !score.toolsExecuted.includes(tool));
+  const missingGuidelines = score.expectedGuidelines.filter((id) => !score.guidelinesActivated.includes(id));
+
+  return [
+    `- Outcome: ${score.success === score.shouldSucceed ? 'as expected' : 'not as expected'} (${score.error || score.outcomeReason})`,
+    `- Missing tools: ${missingTools.join(', ') || '-'} (executed: ${score.toolsExecuted.join(', ') || '-'})`,
+    `- Missing guidelines: ${missingGuidelines.join(', ') || '-'} (activated: ${score.guidelinesActivated.join(', ') || '-'})`,
+  ];
+}
+
+/**
+ * Writes a run as <id>.json and <id>.md
+ * @returns Paths of the written files
+ */
+export function writeEvaluationReport(report: EvaluationReport, outputDir: string): { json: string; markdown: string } {
+  fs.mkdirSync(outputDir, { recursive: true });
+  const json = path.join(outputDir, `${report.id}.json`);
+  const markdown = path.join(outputDir, `${report.id}.md`);
+
+  fs.writeFileSync(json, JSON.stringify(report, null, 2));
+  fs.writeFileSync(markdown, formatEvaluationMarkdown(report));
+
+  return { json, markdown };
+}
+
+export function readEvaluationReport(filePath: string): EvaluationReport {
+  return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+}
+
+function pickScore(score: ScenarioScore | undefined): ScenarioScoreChange['base'] {
+  return score && {
+    passed: score.passed,
+    success: score.success,
+    toolRecall: score.toolRecall,
+    guidelineRecall: score.guidelineRecall,
+  };
+}
+
+/**
+ * Compares two runs: config changes, summary deltas and scenarios fixed or regressed
+ */
+export function diffEvaluationReports(base: EvaluationReport, candidate: EvaluationReport): EvaluationDiff {
+  const configKeys = Array.from(new Set([...Object.keys(base.config), ...Object.keys(candidate.config)])).sort();
+  const configChanges = configKeys
+    .filter((key) => base.config[key] !== candidate.config[key])
+    .map((key) => ({ key, base: base.config[key], candidate: candidate.config[key] }));
+
+  const summaryDelta = Object.fromEntries(
+    SUMMARY_KEYS.map((key) => [key, candidate.summary[key] - base.summary[key]])
+  ) as Record<keyof ScoreSummary, number>;
+
+  const baseScores = new Map(base.scenarios.map((score) => [score.scenarioId, score]));
+  const candidateScores = new Map(candidate.scenarios.map((score) => [score.scenarioId, score]));
+  const scenarioIds = Array.from(new Set([...baseScores.keys(), ...candidateScores.keys()]));
+
+  const scenarios: ScenarioScoreChange[] = scenarioIds.map((scenarioId) => {
+    const before = baseScores.get(scenarioId);
+    const after = candidateScores.get(scenarioId);
+
+    let status: ScenarioScoreChange['status'] = 'unchanged';
+    if (!before) status = 'added';
+    else if (!after) status = 'removed';
+    else if (!before.passed && after.passed) status = 'fixed';
+    else if (before.passed && !after.passed) status = 'regressed';
+
+    return { scenarioId, status, base: pickScore(before), candidate: pickScore(after) };
+  });
+
+  return {
+    base: { id: base.id, label: base.label, createdAt: base.createdAt },
+    candidate: { id: candidate.id, label: candidate.label, createdAt: candidate.createdAt },
+    configChanges,
+    summaryDelta,
+    scenarios,
+  };
+}
+
+/**
+ * Formats a diff as Markdown
+ */
+export function formatEvaluationDiffMarkdown(diff: EvaluationDiff): string {
+  const lines: string[] = [
+    `# Evaluation diff: ${diff.base.label || diff.base.id} → ${diff.candidate.label || diff.candidate.id}`,
+    '',
+    '## Summary',
+    '',
+    `- Passed: ${diff.summaryDelta.passed >= 0 ? '+' : ''}${diff.summaryDelta.passed}`,
+    `- Pass rate: ${signedPercent(diff.summaryDelta.passRate)}`,
+    `- Success: ${signedPercent(diff.summaryDelta.successRate)}`,
+    `- Tool recall: ${signedPercent(diff.summaryDelta.toolRecall)}`,
+    `- Guideline recall: ${signedPercent(diff.summaryDelta.guidelineRecall)}`,
+    '',
+    '## Config changes',
+    '',
+  ];
+
+  if (diff.configChanges.length === 0) {
+    lines.push('No config changes');
+  } else {
+    lines.push('| Key | Base | Candidate |', '|---|---|---|');
+    lines.push(...diff.configChanges.map((change) => `| ${change.key} | ${change.base ?? '-'} | ${change.candidate ?? '-'} |`));
+  }
+
+  const changed = diff.scenarios.filter((scenario) => scenario.status !== 'unchanged');
+  lines.push('', '## Scenario changes', '');
+  if (changed.length === 0) {
+    lines.push('No scenario changed result');
+  } else {
+    lines.push('| Scenario | Change | Tool recall | Guideline recall |', '|---|---|---|---|');
+    lines.push(...changed.map((scenario) => {
+      const recall = (key: 'toolRecall' | 'guidelineRecall') =>
+        `${scenario.base ? percent(scenario.base[key]) : '-'} → ${scenario.candidate ? percent(scenario.candidate[key]) : '-'}`;
+      return `| ${scenario.scenarioId} | ${scenario.status} | ${recall('toolRecall')} | ${recall('guidelineRecall')} |`;
+    }));
+  }
+
+  return lines.join('\n');
+}
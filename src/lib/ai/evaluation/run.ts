@@ -0,0 +1,87 @@
+/**
+ * Scenario Evaluation CLI
+ *
+ * Usage:
+ *   npx ts-node src/lib/ai/evaluation/run.ts --uid <uid> [--workflow cascade|direct|legacy]
+ *     [--scenario id1,id2] [--category search,visit_scheduling] [--difficulty easy,medium]
+ *     [--max-turns 6] [--parallel 3] [--label name] [--out evaluations]
+ *   npx ts-node src/lib/ai/evaluation/run.ts diff <base.json> <candidate.json> [--out evaluations]
+ *
+ * - Runs write <id>.json and <id>.md to the output directory (default: ./evaluations)
+ * - Diffs write diff_<base>_<candidate>.md and print it
+ * - To compare model configs, change AI_CONFIG between two runs and diff their reports
+ */
+
+import '../../../pre-start';
+import fs from 'fs';
+import path from 'path';
+import { runScenarioEvaluation } from './evaluator';
+import {
+  diffEvaluationReports,
+  formatEvaluationDiffMarkdown,
+  formatEvaluationMarkdown,
+  readEvaluationReport,
+  writeEvaluationReport,
+} from './report';
+import type { EvaluationOptions } from './types';
+
+function getOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  return index !== -1 ? args[index + 1] : undefined;
+}
+
+function getListOption(args: string[], name: string): string[] | undefined {
+  return getOption(args, name)?.split(',').map((value) => value.trim()).filter(Boolean);
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const outputDir = path.resolve(getOption(args, 'out') || 'evaluations');
+
+  if (args[0] === 'diff') {
+    const [basePath, candidatePath] = args.slice(1, 3);
+    if (!basePath || !candidatePath) {
+      console.error('Usage: run.ts diff <base.json> <candidate.json> [--out dir]');
+      process.exit(1);
+    }
+
+    const base = readEvaluationReport(basePath);
+    const candidate = readEvaluationReport(candidatePath);
+    const markdown = formatEvaluationDiffMarkdown(diffEvaluationReports(base, candidate));
+
+    fs.mkdirSync(outputDir, { recursive: true });
+    fs.writeFileSync(path.join(outputDir, `diff_${base.id}_${candidate.id}.md`), markdown);
+    console.log(markdown);
+    return;
+  }
+
+  const uid = getOption(args, 'uid');
+  if (!uid) {
+    console.error('Usage: run.ts --uid <uid> [--workflow cascade|direct|legacy] [--scenario ids] [--category names] [--difficulty levels] [--label name] [--out dir]');
+    process.exit(1);
+  }
+
+  const options: EvaluationOptions = {
+    uid,
+    workflow: getOption(args, 'workflow') as EvaluationOptions['workflow'],
+    scenarioIds: getListOption(args, 'scenario'),
+    categories: getListOption(args, 'category') as EvaluationOptions['categories'],
+    difficulties: getListOption(args, 'difficulty') as EvaluationOptions['difficulties'],
+    maxTurns: getOption(args, 'max-turns') ? Number(getOption(args, 'max-turns')) : undefined,
+    parallel: getOption(args, 'parallel') ? Number(getOption(args, 'parallel')) : undefined,
+    label: getOption(args, 'label'),
+  };
+
+  const report = await runScenarioEvaluation(options);
+  const files = writeEvaluationReport(report, outputDir);
+
+  console.log(formatEvaluationMarkdown(report));
+  console.error(`[Evaluation] 📄 Report written to ${files.json} and ${files.markdown}`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('[Evaluation] ❌ Fatal error:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,115 @@
+/**
+ * Scenario Scorecards
+ *
+ * Scores synthetic conversations against expectedTools, expectedGuidelines and shouldSucceed
+ */
+
+import type { SyntheticConversation } from '../synthetic/conversation-generator';
+import type { ConversationScenario } from '../scenarios';
+import type { ScenarioScore, ScoreSummary } from './types';
+
+export const EVALUATION_CONFIG = {
+  // A scenario passes when its outcome matches shouldSucceed and both recalls reach these thresholds
+  MIN_TOOL_RECALL: 1,
+  MIN_GUIDELINE_RECALL: 0.5,
+} as const;
+
+/**
+ * Share of expected items found in the actual ones (1 when nothing is expected)
+ */
+export function computeRecall(expected: string[], actual: string[]): number {
+  if (expected.length === 0) {
+    return 1;
+  }
+  return expected.filter((item) => actual.includes(item)).length / expected.length;
+}
+
+/**
+ * Scores a generated conversation against its scenario
+ */
+export function scoreConversation(conversation: SyntheticConversation): ScenarioScore {
+  const { scenario, outcome } = conversation;
+  const toolRecall = computeRecall(scenario.expectedTools, outcome.toolsAttempted);
+  const guidelineRecall = computeRecall(scenario.expectedGuidelines, outcome.guidelinesActivated);
+
+  return {
+    scenarioId: scenario.id,
+    category: scenario.category,
+    difficulty: scenario.difficulty,
+    shouldSucceed: scenario.shouldSucceed,
+    success: outcome.success,
+    expectedTools: scenario.expectedTools,
+    toolsExecuted: outcome.toolsAttempted,
+    toolRecall,
+    expectedGuidelines: scenario.expectedGuidelines,
+    guidelinesActivated: outcome.guidelinesActivated,
+    guidelineRecall,
+    passed: outcome.success === scenario.shouldSucceed
+      && toolRecall >= EVALUATION_CONFIG.MIN_TOOL_RECALL
+      && guidelineRecall >= EVALUATION_CONFIG.MIN_GUIDELINE_RECALL,
+    outcomeReason: outcome.reason,
+    turnCount: conversation.metadata.turnCount,
+    durationMs: conversation.metadata.duration,
+  };
+}
+
+/**
+ * Score of a scenario whose conversation could not be generated
+ */
+export function scoreFailedScenario(scenario: ConversationScenario, error: string): ScenarioScore {
+  return {
+    scenarioId: scenario.id,
+    category: scenario.category,
+    difficulty: scenario.difficulty,
+    shouldSucceed: scenario.shouldSucceed,
+    success: false,
+    expectedTools: scenario.expectedTools,
+    toolsExecuted: [],
+    toolRecall: computeRecall(scenario.expectedTools, []),
+    expectedGuidelines: scenario.expectedGuidelines,
+    guidelinesActivated: [],
+    guidelineRecall: computeRecall(scenario.expectedGuidelines, []),
+    passed: false,
+    outcomeReason: 'error',
+    turnCount: 0,
+    durationMs: 0,
+    error,
+  };
+}
+
+function average(values: number[]): number {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+}
+
+/**
+ * Aggregates pass rate, success rate (outcomes matching shouldSucceed) and average recalls of a set of scores
+ */
+export function summarizeScores(scores: ScenarioScore[]): ScoreSummary {
+  const passed = scores.filter((score) => score.passed).length;
+
+  return {
+    total: scores.length,
+    passed,
+    passRate: scores.length > 0 ? passed / scores.length : 0,
+    successRate: average(scores.map((score) => (score.success === score.shouldSucceed ? 1 : 0))),
+    toolRecall: average(scores.map((score) => score.toolRecall)),
+    guidelineRecall: average(scores.map((score) => score.guidelineRecall)),
+  };
+}
+
+/**
+ * Summaries grouped by a scenario field (category, difficulty)
+ */
+export function summarizeScoresBy(
+  scores: ScenarioScore[],
+  field: 'category' | 'difficulty'
+): Record<string, ScoreSummary> {
+  const groups = new Map<string, ScenarioScore[]>();
+  for (const score of scores) {
+    groups.set(score[field], [...(groups.get(score[field]) || []), score]);
+  }
+
+  return Object.fromEntries(
+    Array.from(groups.entries()).map(([key, group]) => [key, summarizeScores(group)])
+  );
+}
@@ -0,0 +1,78 @@
+/**
+ * Scenario Evaluation Types
+ *
+ * Scorecards of synthetic conversations against the expectations of their scenario
+ */
+
+import type { ConversationScenario } from '../scenarios';
+import type { SyntheticWorkflow } from '../synthetic/conversation-generator';
+
+export interface EvaluationFilters {
+  scenarioIds?: string[];
+  categories?: ConversationScenario['category'][];
+  difficulties?: ConversationScenario['difficulty'][];
+}
+
+export interface EvaluationOptions extends EvaluationFilters {
+  uid: string; // Test account the conversations run against
+  workflow?: SyntheticWorkflow; // Default: cascade
+  maxTurns?: number;
+  parallel?: number;
+  label?: string; // Name of the run in reports and diffs (e.g. "grok-writer")
+}
+
+export interface ScenarioScore {
+  scenarioId: string;
+  category: ConversationScenario['category'];
+  difficulty: ConversationScenario['difficulty'];
+  shouldSucceed: boolean;
+  success: boolean; // The conversation reached the user goal (compared with shouldSucceed)
+  expectedTools: string[];
+  toolsExecuted: string[];
+  toolRecall: number; // 0-1, share of expected tools executed
+  expectedGuidelines: string[];
+  guidelinesActivated: string[];
+  guidelineRecall: number; // 0-1, share of expected guidelines activated
+  passed: boolean;
+  outcomeReason: string;
+  turnCount: number;
+  durationMs: number;
+  error?: string;
+}
+
+export interface ScoreSummary {
+  total: number;
+  passed: number;
+  passRate: number;
+  successRate: number; // Share of outcomes matching shouldSucceed
+  toolRecall: number; // Average over scenarios
+  guidelineRecall: number; // Average over scenarios
+}
+
+export interface EvaluationReport {
+  id: string;
+  label?: string;
+  createdAt: string; // ISO date
+  workflow: SyntheticWorkflow;
+  filters: EvaluationFilters;
+  config: Record<string, string | number | boolean>; // Flattened AI_CONFIG of the run
+  summary: ScoreSummary;
+  byCategory: Record<string, ScoreSummary>;
+  byDifficulty: Record<string, ScoreSummary>;
+  scenarios: ScenarioScore[];
+}
+
+export interface ScenarioScoreChange {
+  scenarioId: string;
+  status: 'fixed' | 'regressed' | 'unchanged' | 'added' | 'removed';
+  base?: Pick<ScenarioScore, 'passed' | 'success' | 'toolRecall' | 'guidelineRecall'>;
+  candidate?: Pick<ScenarioScore, 'passed' | 'success' | 'toolRecall' | 'guidelineRecall'>;
+}
+
+export interface EvaluationDiff {
+  base: { id: string; label?: string; createdAt: string };
+  candidate: { id: string; label?: string; createdAt: string };
+  configChanges: Array<{ key: string; base?: string | number | boolean; candidate?: string | number | boolean }>;
+  summaryDelta: Record<keyof ScoreSummary, number>; // candidate - base
+  scenarios: ScenarioScoreChange[];
+}
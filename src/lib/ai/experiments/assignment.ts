@@ -0,0 +1,106 @@
+/**
+ * Experiment Assignment
+ *
+ * Customers are assigned to a variant of the running experiment of the account by a stable
+ * hash of experiment id + phone (bucket 0-99, variants take consecutive ranges by weight)
+ * The assigned variant is kept on the customer, so changing weights does not move customers
+ * that already talked with a variant
+ */
+
+import { createHash } from 'crypto';
+import { cacheFn, revalidateTag } from '../../cache/cache-manager';
+import { getCustomerExperimentVariant, getRunningExperiment } from '../../db/repositories/experiments';
+import type { ExperimentData, ExperimentVariant } from '../../db/types';
+
+export const EXPERIMENTS_CONFIG = {
+  CACHE_TTL_SECONDS: 5 * 60,
+  CACHE_PREFIX: 'experiments',
+  BUCKETS: 100,
+} as const;
+
+export interface ExperimentVariantAssignment {
+  experiment: ExperimentData;
+  variant: ExperimentVariant;
+}
+
+/**
+ * Cache tag of the experiments of an account
+ */
+export function experimentsCacheTag(uid: string): string {
+  return `experiments:${uid}`;
+}
+
+/**
+ * Stable bucket (0-99) of a customer in an experiment
+ */
+export function getExperimentBucket(experimentId: string, phone: string): number {
+  const hash = createHash('sha256').update(`${experimentId}:${phone}`).digest('hex');
+  return parseInt(hash.slice(0, 8), 16) % EXPERIMENTS_CONFIG.BUCKETS;
+}
+
+/**
+ * Variant whose weight range contains the bucket of the customer
+ */
+export function pickVariant(experiment: ExperimentData, phone: string): ExperimentVariant {
+  const bucket = getExperimentBucket(experiment.id, phone);
+  let upperBound = 0;
+
+  for (const variant of experiment.variants) {
+    upperBound += variant.weight;
+    if (bucket < upperBound) {
+      return variant;
+    }
+  }
+
+  // Weights add up to 100, only reached with rounding errors
+  return experiment.variants[experiment.variants.length - 1];
+}
+
+// Wrapped so accounts without a running experiment are cached too (null is a cache miss)
+async function loadRunningExperiment(uid: string): Promise<{ experiment: ExperimentData | null }> {
+  return { experiment: await getRunningExperiment(uid) };
+}
+
+/**
+ * Gets the running experiment of an account, cached by uid
+ */
+export async function getCachedRunningExperiment(uid: string): Promise<ExperimentData | null> {
+  try {
+    const { experiment } = await cacheFn(loadRunningExperiment, [uid], {
+      functionName: 'getRunningExperiment',
+      ttl: EXPERIMENTS_CONFIG.CACHE_TTL_SECONDS,
+      tags: [experimentsCacheTag(uid), `user:${uid}`],
+      prefix: EXPERIMENTS_CONFIG.CACHE_PREFIX,
+    });
+    return experiment;
+  } catch (error) {
+    console.error('[Experiments] ❌ Cache error, reading running experiment from Firestore:', error);
+    return await getRunningExperiment(uid);
+  }
+}
+
+/**
+ * Variant of the running experiment a customer talks with, or null if the account runs no experiment
+ */
+export async function getExperimentAssignment(uid: string, phone: string): Promise<ExperimentVariantAssignment | null> {
+  const experiment = await getCachedRunningExperiment(uid);
+  if (!experiment) {
+    return null;
+  }
+
+  const assignedVariantId = await getCustomerExperimentVariant(uid, phone, experiment.id);
+  const variant = experiment.variants.find((item) => item.id === assignedVariantId) || pickVariant(experiment, phone);
+
+  return { experiment, variant };
+}
+
+/**
+ * Drops the cached running experiment of an account (after any change)
+ */
+export async function invalidateAccountExperiments(uid: string): Promise<void> {
+  try {
+    await revalidateTag(experimentsCacheTag(uid));
+  } catch (error) {
+    console.error('[Experiments] ❌ Error invalidating experiments cache:', error);
+  }
+}
@@ -0,0 +1,22 @@
+/**
+ * Experiments Module
+ *
+ * A/B experiments between workflow variants: sticky assignment of customers, workflow runner
+ * and variant comparison of conversation outcomes
+ */
+
+export { runAgentWorkflow } from './runner';
+export {
+  EXPERIMENTS_CONFIG,
+  experimentsCacheTag,
+  getExperimentBucket,
+  pickVariant,
+  getCachedRunningExperiment,
+  getExperimentAssignment,
+  invalidateAccountExperiments,
+} from './assignment';
+export { recordConversationOutcome } from './outcomes';
+export { buildExperimentReport, summarizeVariant } from './report';
+export { ExperimentSchema, ExperimentVariantSchema } from './types';
+export type { ExperimentInput, ExperimentReport, VariantOutcomeSummary, LeadStage } from './types';
+export type { ExperimentVariantAssignment } from './assignment';
@@ -0,0 +1,39 @@
+/**
+ * Experiment Outcomes
+ *
+ * When an experiment conversation is closed, the lead analysis and the feedback of the customer
+ * are recorded on its experiment conversation for the variant report
+ */
+
+import { getLastFeedbackRating, recordExperimentOutcome } from '../../db/repositories/experiments';
+import type { ExperimentAssignment, ExperimentOutcome } from '../../db/types';
+
+/**
+ * Records the outcome of a closed conversation if it ran with an experiment variant
+ * @param conversation - Data of the conversation document (experiment field, createdAt)
+ * @param analysis - Lead analysis of the customer, null when the lead was not analyzed
+ */
+export async function recordConversationOutcome(
+  uid: string,
+  phone: string,
+  conversationId: string,
+  conversation: { experiment?: ExperimentAssignment; createdAt?: any } | undefined,
+  analysis: { leadStage: NonNullable<ExperimentOutcome['leadStage']>; totalScore: number } | null
+): Promise<void> {
+  const assignment = conversation?.experiment;
+  if (!assignment?.experimentId) {
+    return;
+  }
+
+  const startedAt = conversation?.createdAt?.toDate?.() || undefined;
+  const outcome: ExperimentOutcome = {
+    leadStage: analysis?.leadStage ?? null,
+    totalScore: analysis?.totalScore ?? null,
+    feedbackRating: await getLastFeedbackRating(uid, phone, startedAt),
+  };
+
+  const recorded = await recordExperimentOutcome(uid, assignment.experimentId, conversationId, outcome);
+  if (recorded) {
+    console.log(`[Experiments] 📊 Outcome of ${conversationId} recorded for variant ${assignment.variantId}`);
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Experiment Report
+ *
+ * Compares the outcomes of the conversations of each variant of an experiment
+ */
+
+import type { ExperimentConversationData, ExperimentData } from '../../db/types';
+import type { ExperimentReport, LeadStage, VariantOutcomeSummary } from './types';
+
+const LEAD_STAGES: LeadStage[] = ['caliente', 'tibio', 'frío', 'muy_frío'];
+
+// Tools that leave a visit scheduled at the end of the conversation
+const VISIT_TOOLS = ['create_visit', 'reschedule_visit'];
+
+function average(values: number[]): number | null {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
+
+function rate(count: number, total: number): number {
+  return total > 0 ? count / total : 0;
+}
+
+/**
+ * Summarizes the conversations of a variant
+ */
+export function summarizeVariant(
+  variant: ExperimentData['variants'][number],
+  conversations: ExperimentConversationData[]
+): VariantOutcomeSummary {
+  const closed = conversations.filter((conversation) => conversation.outcome);
+  const analyzed = closed.filter((conversation) => conversation.outcome?.leadStage);
+  const ratings = closed
+    .map((conversation) => conversation.outcome?.feedbackRating)
+    .filter((rating): rating is number => typeof rating === 'number');
+  const scores = analyzed
+    .map((conversation) => conversation.outcome?.totalScore)
+    .filter((score): score is number => typeof score === 'number');
+
+  const leadStages = Object.fromEntries(LEAD_STAGES.map((stage) => [
+    stage,
+    analyzed.filter((conversation) => conversation.outcome?.leadStage === stage).length,
+  ])) as Record<LeadStage, number>;
+
+  return {
+    variantId: variant.id,
+    weight: variant.weight,
+    workflow: variant.workflow,
+    conversations: conversations.length,
+    closed: closed.length,
+    averageTurns: average(conversations.map((conversation) => conversation.turns || 0)) ?? 0,
+    visitScheduledRate: rate(
+      conversations.filter((conversation) => (conversation.toolsExecuted || []).some((tool) => VISIT_TOOLS.includes(tool))).length,
+      conversations.length
+    ),
+    escalationRate: rate(conversations.filter((conversation) => (conversation.escalations || 0) > 0).length, conversations.length),
+    averageEscalations: average(conversations.map((conversation) => conversation.escalations || 0)) ?? 0,
+    analyzed: analyzed.length,
+    leadStages,
+    hotLeadRate: rate(leadStages.caliente, analyzed.length),
+    averageTotalScore: average(scores),
+    rated: ratings.length,
+    averageFeedbackRating: average(ratings),
+  };
+}
+
+/**
+ * Builds the variant comparison of an experiment
+ * Conversations of variants that were removed from the experiment are not included
+ */
+export function buildExperimentReport(
+  experiment: ExperimentData,
+  conversations: ExperimentConversationData[]
+): ExperimentReport {
+  const variants = experiment.variants.map((variant) =>
+    summarizeVariant(variant, conversations.filter((conversation) => conversation.variantId === variant.id))
+  );
+
+  return {
+    experiment: {
+      id: experiment.id,
+      name: experiment.name,
+      status: experiment.status,
+      variants: experiment.variants,
+    },
+    generatedAt: new Date().toISOString(),
+    totalConversations: variants.reduce((sum, variant) => sum + variant.conversations, 0),
+    variants,
+  };
+}
@@ -0,0 +1,91 @@
+/**
+ * Agent Workflow Runner
+ *
+ * Runs the agent workflow of a customer message: the account default one, or the variant
+ * of the running experiment the customer is assigned to (workflow, model overrides and
+ * guideline version). Turns of experiment conversations are recorded for the report
+ *
+ * LLM calls of the run are charged to the account and execution, and accounts over their
+ * monthly LLM budget are not answered
+ */
+
+import { mainGuidelinesWorkflow as mainGuidelinesLegacyWorkflow } from '../workflows/main-guidelines-workflow';
+import {
+  mainGuidelinesWorkflow as mainGuidelinesCascadeWorkflow,
+  type WorkflowContext,
+  type WorkflowResult,
+} from '../workflows/main-guidelines-cascade-workflow';
+import { mainGuidelinesSimpleWorkflow } from '../workflows/main-guidelines-direct-workflow';
+import { runWithModelOverrides } from '../model-overrides';
+import { runWithUsageContext } from '../usage/usage-context';
+import { isLLMBudgetExceeded, notifyLLMBudgetExceeded } from '../usage/budget';
+import { recordExperimentTurn } from '../../db/repositories/experiments';
+import { getExperimentAssignment } from './assignment';
+import type { ChatConfig } from '../../utils/validation';
+import type { IExecutionContext } from '../../utils/execution-context';
+import type { ExperimentWorkflow } from '../../db/types';
+
+const WORKFLOWS = {
+  legacy: mainGuidelinesLegacyWorkflow,
+  cascade: mainGuidelinesCascadeWorkflow,
+  direct: mainGuidelinesSimpleWorkflow,
+};
+
+/**
+ * Runs the workflow of a customer message
+ * @param defaultWorkflow - Workflow used when the account runs no experiment
+ */
+export async function runAgentWorkflow(
+  uid: string,
+  session: string,
+  body: ChatConfig,
+  workflowContext: WorkflowContext = {},
+  executionContext?: IExecutionContext,
+  defaultWorkflow: ExperimentWorkflow = 'cascade'
+): Promise<WorkflowResult | null> {
+  if (await isLLMBudgetExceeded(uid)) {
+    await notifyLLMBudgetExceeded(uid);
+    return null;
+  }
+
+  const executionId = executionContext && executionContext.executionId !== 'no-op' ? executionContext.executionId : undefined;
+  return runWithUsageContext({ uid, executionId }, () =>
+    runVariantWorkflow(uid, session, body, workflowContext, executionContext, defaultWorkflow)
+  );
+}
+
+async function runVariantWorkflow(
+  uid: string,
+  session: string,
+  body: ChatConfig,
+  workflowContext: WorkflowContext,
+  executionContext: IExecutionContext | undefined,
+  defaultWorkflow: ExperimentWorkflow
+): Promise<WorkflowResult | null> {
+  const assignment = await getExperimentAssignment(uid, body.userPhone);
+  if (!assignment) {
+    return WORKFLOWS[defaultWorkflow](uid, session, body, workflowContext, executionContext);
+  }
+
+  const { experiment, variant } = assignment;
+  console.log(`[Experiments] 🧪 ${body.userPhone} → variant ${variant.id} of ${experiment.name} (${variant.workflow})`);
+
+  const result = await runWithModelOverrides(variant.models, () =>
+    WORKFLOWS[variant.workflow](uid, session, body, {
+      ...workflowContext,
+      guidelineVersion: variant.guidelineVersion,
+    }, executionContext)
+  );
+
+  if (result && !executionContext?.isAborted()) {
+    // Not awaited: recording the turn must not delay the response
+    recordExperimentTurn(uid, body.userPhone, { experimentId: experiment.id, variantId: variant.id }, result.metadata?.toolsExecuted || [])
+      .then((conversationId) => {
+        if (!conversationId) {
+          console.warn(`[Experiments] ⚠️ No active conversation to record the turn of ${body.userPhone}`);
+        }
+      });
+  }
+
+  return result;
+}
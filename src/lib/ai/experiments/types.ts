@@ -0,0 +1,56 @@
+/**
+ * Experiment Types
+ *
+ * Validation of experiment definitions and the variant comparison report
+ */
+
+import { z } from 'zod';
+import type { ExperimentData, ExperimentOutcome } from '../../db/types';
+
+export const ExperimentVariantSchema = z.object({
+  id: z.string().regex(/^[a-zA-Z0-9_-]{1,50}$/, 'letters, numbers, _ and - only'),
+  weight: z.number().min(0).max(100),
+  workflow: z.enum(['legacy', 'cascade', 'direct']),
+  models: z.record(z.string().min(1), z.string().min(1)).optional(),
+  guidelineVersion: z.string().min(1).optional(),
+});
+
+export const ExperimentSchema = z.object({
+  name: z.string().min(1).max(100),
+  description: z.string().max(500).optional(),
+  status: z.enum(['draft', 'running', 'stopped']).default('draft'),
+  variants: z.array(ExperimentVariantSchema).min(2).max(10),
+});
+
+export type ExperimentInput = z.infer<typeof ExperimentSchema>;
+
+export type LeadStage = NonNullable<ExperimentOutcome['leadStage']>;
+
+/**
+ * Outcomes of the conversations of a variant
+ * Rates are 0-1 over the conversations they apply to (closed, analyzed or rated ones)
+ */
+export interface VariantOutcomeSummary {
+  variantId: string;
+  weight: number;
+  workflow: string;
+  conversations: number;
+  closed: number; // Conversations with an outcome recorded
+  averageTurns: number;
+  visitScheduledRate: number; // create_visit executed
+  escalationRate: number; // At least one get_help
+  averageEscalations: number;
+  analyzed: number; // Closed conversations with lead analysis
+  leadStages: Record<LeadStage, number>;
+  hotLeadRate: number; // Share of analyzed leads in 'caliente'
+  averageTotalScore: number | null;
+  rated: number; // Closed conversations with a feedback rating
+  averageFeedbackRating: number | null;
+}
+
+export interface ExperimentReport {
+  experiment: Pick<ExperimentData, 'id' | 'name' | 'status' | 'variants'>;
+  generatedAt: string; // ISO date
+  totalConversations: number;
+  variants: VariantOutcomeSummary[];
+}
@@ -0,0 +1,129 @@
+/**
+ * Custom Guidelines
+ *
+ * Per-account guidelines stored in Firestore (users/{uid}/guidelines), merged with the built-ins
+ *
+ * - A document with the id of a built-in guideline overrides its fields (condition, action,
+ *   tools, validationCriteria, priority...) and enabled: false disables it
+ * - Any other document is a new guideline of the account, validated with GuidelineSchema
+ * - The documents of an account are cached and invalidated by tag when they change
+ */
+
+import { GuidelineSchema, type Guideline } from '../types/guideline';
+import { multimaiGuidelines } from './multimai-guidelines';
+import { getCustomGuidelines } from '../../db/repositories/guidelines';
+import { cacheFn, revalidateTag } from '../../cache/cache-manager';
+import { invalidateFaqCache } from '../cascade/faq-cache';
+import type { CustomGuidelineData } from '../../db/types';
+
+export const CUSTOM_GUIDELINES_CONFIG = {
+  CACHE_TTL_SECONDS: 10 * 60,
+  CACHE_PREFIX: 'guidelines',
+} as const;
+
+export type GuidelineSource = 'builtin' | 'override' | 'custom';
+
+export type AccountGuideline = Guideline & { source: GuidelineSource };
+
+/**
+ * Cache tag of the custom guidelines of an account
+ */
+export function customGuidelinesCacheTag(uid: string): string {
+  return `guidelines:${uid}`;
+}
+
+function getGuidelineFields(custom: CustomGuidelineData): Partial<Guideline> {
+  const { createdAt, updatedAt, ...fields } = custom;
+  return fields;
+}
+
+/**
+ * Merges the custom guidelines of an account with the built-ins
+ * Disabled guidelines are kept (enabled: false), GuidelineMatcher skips them
+ */
+export function applyCustomGuidelines(base: Guideline[], custom: CustomGuidelineData[]): AccountGuideline[] {
+  const customById = new Map(custom.map((guideline) => [guideline.id, guideline]));
+  const baseIds = new Set(base.map((guideline) => guideline.id));
+
+  const merged: AccountGuideline[] = base.map((guideline) => {
+    const override = customById.get(guideline.id);
+    return override
+      ? { ...guideline, ...getGuidelineFields(override), id: guideline.id, source: 'override' }
+      : { ...guideline, source: 'builtin' };
+  });
+
+  for (const guideline of custom) {
+    if (baseIds.has(guideline.id)) {
+      continue;
+    }
+
+    const parsed = GuidelineSchema.safeParse(getGuidelineFields(guideline));
+    if (parsed.success) {
+      merged.push({ ...parsed.data, source: 'custom' });
+    } else {
+      console.warn(`[CustomGuidelines] ⚠️ Invalid custom guideline ${guideline.id} skipped: ${parsed.error.message}`);
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Reads the custom guidelines of an account without cache
+ * When Firestore fails the account runs with the built-ins only
+ */
+async function readCustomGuidelines(uid: string): Promise<CustomGuidelineData[]> {
+  try {
+    return await getCustomGuidelines(uid);
+  } catch (error) {
+    console.error('[CustomGuidelines] ❌ Error fetching custom guidelines, using the built-ins:', error);
+    return [];
+  }
+}
+
+/**
+ * Gets the custom guidelines of an account, cached by uid
+ * A failed Firestore read throws inside cacheFn, so it is never cached
+ */
+export async function getCachedCustomGuidelines(uid: string): Promise<CustomGuidelineData[]> {
+  try {
+    return await cacheFn(getCustomGuidelines, [uid], {
+      functionName: 'getCustomGuidelines',
+      ttl: CUSTOM_GUIDELINES_CONFIG.CACHE_TTL_SECONDS,
+      tags: [customGuidelinesCacheTag(uid), `user:${uid}`],
+      prefix: CUSTOM_GUIDELINES_CONFIG.CACHE_PREFIX,
+    });
+  } catch (error) {
+    console.error('[CustomGuidelines] ❌ Error loading cached custom guidelines, reading from Firestore:', error);
+    return readCustomGuidelines(uid);
+  }
+}
+
+/**
+ * Guidelines the agent of an account runs with: built-ins with the account overrides applied,
+ * plus its own guidelines, without the disabled ones
+ */
+export async function getAccountGuidelines(uid: string, base: Guideline[] = multimaiGuidelines): Promise<Guideline[]> {
+  const custom = await getCachedCustomGuidelines(uid);
+  if (custom.length === 0) {
+    return base;
+  }
+
+  console.log(`[CustomGuidelines] Applying ${custom.length} custom guidelines for ${uid}`);
+  return applyCustomGuidelines(base, custom)
+    .filter((guideline) => guideline.enabled)
+    .map(({ source, ...guideline }) => guideline);
+}
+
+/**
+ * Drops the cached custom guidelines of an account (after any change)
+ */
+export async function invalidateAccountGuidelines(uid: string): Promise<void> {
+  try {
+    await revalidateTag(customGuidelinesCacheTag(uid));
+    // Cached FAQ answers were written with the previous guidelines
+    await invalidateFaqCache(uid);
+  } catch (error) {
+    console.error('[CustomGuidelines] ❌ Error invalidating custom guidelines cache:', error);
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * Guideline Prefilter
+ *
+ * Shortlists the guidelines whose condition is semantically close to the recent conversation,
+ * so the LLM matcher only confirms the top-K candidates instead of every enabled guideline
+ * - Conditions are embedded once (in memory and Redis, keyed by the condition text)
+ * - Always-on guidelines (AI_CONFIG.GUIDELINE_PREFILTER.ALWAYS_ON or metadata.alwaysOn) skip the prefilter
+ * - Without embeddings (mock mode, provider error) every guideline is a candidate
+ */
+
+import { createHash } from 'crypto';
+import { cosineSimilarity, embed, embedMany } from 'ai';
+import { openai } from '@ai-sdk/openai';
+import { AI_CONFIG } from '../config';
+import { isMockModeEnabled } from '../mock';
+import { trackEmbeddingUsage } from '../usage/usage-tracker';
+import { cacheGet, cacheSet } from '../../cache/cache-manager';
+import type { Guideline } from '../types/guideline';
+import type { LLMMessage } from '../context/conversation-loader';
+
+const EMBEDDING_CACHE_TTL_SECONDS = 30 * 24 * 60 * 60;
+const MAX_MEMORY_EMBEDDINGS = 1000;
+
+export interface GuidelinePrefilterResult {
+  candidates: Guideline[];
+  prefiltered: boolean; // false if every guideline was kept
+  similarities: Record<string, number>; // Guideline id -> similarity (prefiltered guidelines only)
+}
+
+// Condition key -> embedding
+const conditionEmbeddings = new Map<string, number[]>();
+
+function getConditionKey(condition: string): string {
+  return createHash('sha256').update(`${AI_CONFIG.EMBEDDING_MODEL}:${condition}`).digest('hex').substring(0, 32);
+}
+
+function getEmbeddingModel() {
+  return openai.textEmbeddingModel(AI_CONFIG.EMBEDDING_MODEL);
+}
+
+function rememberEmbedding(key: string, embedding: number[]): void {
+  if (conditionEmbeddings.size >= MAX_MEMORY_EMBEDDINGS) {
+    conditionEmbeddings.clear();
+  }
+  conditionEmbeddings.set(key, embedding);
+}
+
+/**
+ * Embeddings of the guideline conditions, embedding only the ones not cached yet
+ * @returns Condition key -> embedding
+ */
+async function getConditionEmbeddings(guidelines: Guideline[]): Promise<Map<string, number[]>> {
+  const embeddings = new Map<string, number[]>();
+  const missing = new Map<string, string>(); // Condition key -> condition
+
+  for (const guideline of guidelines) {
+    const key = getConditionKey(guideline.condition);
+    const cached = conditionEmbeddings.get(key)
+      ?? await cacheGet<number[]>(`guideline-embedding:${key}`).catch(() => null);
+
+    if (cached) {
+      embeddings.set(key, cached);
+      rememberEmbedding(key, cached);
+    } else {
+      missing.set(key, guideline.condition);
+    }
+  }
+
+  if (missing.size > 0) {
+    const keys = Array.from(missing.keys());
+    const { embeddings: vectors, usage } = await embedMany({
+      model: getEmbeddingModel(),
+      values: Array.from(missing.values()),
+    });
+    trackEmbeddingUsage('matcher', AI_CONFIG.EMBEDDING_MODEL, usage.tokens);
+    console.log(`[GuidelinePrefilter] Embedded ${keys.length} guideline conditions`);
+
+    await Promise.all(keys.map((key, i) => {
+      embeddings.set(key, vectors[i]);
+      rememberEmbedding(key, vectors[i]);
+      return cacheSet(`guideline-embedding:${key}`, vectors[i], { ttl: EMBEDDING_CACHE_TTL_SECONDS }).catch(() => {});
+    }));
+  }
+
+  return embeddings;
+}
+
+export function isAlwaysOnGuideline(guideline: Guideline): boolean {
+  return (AI_CONFIG.GUIDELINE_PREFILTER.ALWAYS_ON as readonly string[]).includes(guideline.id)
+    || guideline.metadata?.alwaysOn === true;
+}
+
+/**
+ * Shortlists the guidelines to evaluate with the LLM for the recent conversation
+ */
+export async function prefilterGuidelines(guidelines: Guideline[], messages: LLMMessage[]): Promise<GuidelinePrefilterResult> {
+  const config = AI_CONFIG.GUIDELINE_PREFILTER;
+  const context = messages
+    .slice(-config.CONTEXT_MESSAGES)
+    .map((m) => `${m.role}: ${m.content}`)
+    .join('\n')
+    .trim();
+
+  if (!config.ENABLED || isMockModeEnabled() || !context || guidelines.length <= config.TOP_K) {
+    return { candidates: guidelines, prefiltered: false, similarities: {} };
+  }
+
+  const alwaysOn = guidelines.filter(isAlwaysOnGuideline);
+  const rest = guidelines.filter((g) => !isAlwaysOnGuideline(g));
+
+  try {
+    const [conditionVectors, { embedding: contextVector, usage }] = await Promise.all([
+      getConditionEmbeddings(rest),
+      embed({ model: getEmbeddingModel(), value: context }),
+    ]);
+    trackEmbeddingUsage('matcher', AI_CONFIG.EMBEDDING_MODEL, usage.tokens);
+
+    const scored = rest.map((guideline) => ({
+      guideline,
+      similarity: cosineSimilarity(contextVector, conditionVectors.get(getConditionKey(guideline.condition))!),
+    }));
+    const shortlisted = scored
+      .filter((s) => s.similarity >= config.MIN_SIMILARITY)
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, config.TOP_K);
+
+    console.log(`[GuidelinePrefilter] Shortlisted ${shortlisted.length}/${rest.length} guidelines (+${alwaysOn.length} always on): ${shortlisted.map((s) => `${s.guideline.id} (${s.similarity.toFixed(2)})`).join(', ')}`);
+
+    return {
+      candidates: [...alwaysOn, ...shortlisted.map((s) => s.guideline)],
+      prefiltered: true,
+      similarities: Object.fromEntries(scored.map((s) => [s.guideline.id, Number(s.similarity.toFixed(4))])),
+    };
+  } catch (error) {
+    console.warn('[GuidelinePrefilter] ⚠️ Embedding prefilter failed, evaluating every guideline:', error instanceof Error ? error.message : error);
+    return { candidates: guidelines, prefiltered: false, similarities: {} };
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Guideline Versions
+ *
+ * Named sets of built-in guidelines a workflow can run with (WorkflowContext.guidelineVersion),
+ * used to compare guideline changes in experiments. Account customizations apply to every version
+ */
+
+import type { Guideline } from '../types/guideline';
+import { multimaiGuidelines } from './multimai-guidelines';
+
+export const DEFAULT_GUIDELINE_VERSION = 'default';
+
+export const GUIDELINE_VERSIONS: Record<string, Guideline[]> = {
+  [DEFAULT_GUIDELINE_VERSION]: multimaiGuidelines,
+};
+
+export function isGuidelineVersion(version: string): boolean {
+  return Object.prototype.hasOwnProperty.call(GUIDELINE_VERSIONS, version);
+}
+
+/**
+ * Built-in guidelines of a version (the default ones if the version is unknown)
+ */
+export function getGuidelineVersion(version?: string): Guideline[] {
+  if (!version || version === DEFAULT_GUIDELINE_VERSION) {
+    return GUIDELINE_VERSIONS[DEFAULT_GUIDELINE_VERSION];
+  }
+
+  if (!isGuidelineVersion(version)) {
+    console.warn(`[GuidelineVersions] ⚠️ Unknown guideline version ${version}, using ${DEFAULT_GUIDELINE_VERSION}`);
+    return GUIDELINE_VERSIONS[DEFAULT_GUIDELINE_VERSION];
+  }
+
+  return GUIDELINE_VERSIONS[version];
+}
@@ -55,7 +55,7 @@ export const multimaiGuidelines: Guideline[] = [
   {
     id: 'search_properties',
     condition: 'El usuario busca propiedades con criterios específicos como ubicación, precio, tipo, dormitorios, etc. O usa verbos como "busco", "quiero", "necesito", "me interesa" seguido de tipo de propiedad (casa, departamento, terreno, etc.)',
-    action: 'Usa search_properties con TODOS los filtros que el usuario mencionó (precio, tipo, dormitorios, ubicación). Si no encuentra resultados en el primer intento, informa al usuario que no hay propiedades exactas pero puedes mostrar opciones similares. Muestra las propiedades encontradas con formato claro y SIEMPRE las imágenes en formato Markdown',
+    action: 'Usa search_properties con TODOS los filtros que el usuario mencionó (precio, tipo, dormitorios, ubicación). Si no encuentra resultados en el primer intento, informa al usuario que no hay propiedades exactas pero puedes mostrar opciones similares. Muestra las propiedades encontradas con formato claro y SIEMPRE las imágenes en formato Markdown. Si el usuario pide algo "cerca de donde estoy" o compartió su ubicación, usa cerca_de_mi_ubicacion=true',
     priority: 8,
     difficulty: 'medium',
     tools: ['search_properties'],
@@ -65,7 +65,7 @@ export const multimaiGuidelines: Guideline[] = [
     validationCriteria: [
       {
         name: 'Formato de imágenes',
-        description: 'Verificar que TODAS las imágenes de propiedades estén incluidas en formato Markdown correcto: ![descripción](url). Las URLs deben ser válidas y completas de Firebase Storage (https://firebasestorage.googleapis.com/...)',
+        description: 'Verificar que TODAS las imágenes de propiedades estén incluidas en formato Markdown correcto: ![descripción](url). Las URLs deben ser válidas y completas, tal como las devolvió la herramienta',
         weight: 20,
         examples: [
           'CORRECTO: ![Departamento en Palermo](https://firebasestorage.googleapis.com/v0/b/...)',
@@ -74,11 +74,11 @@ export const multimaiGuidelines: Guideline[] = [
       },
       {
         name: 'No mostrar property_id',
-        description: 'No muestres el identificador (property_id) en la respuesta al usuario. El id debe usarse solo internamente y nunca debe aparecer ni en texto ni en ningún formato visible para el usuario.',
+        description: 'No muestres el identificador (property_id) en la respuesta al usuario. El id debe usarse solo internamente y nunca debe aparecer ni en texto ni en ningún formato visible para el usuario. La única forma permitida es la marca @@property_id: ID@@ antes de cada propiedad, que se elimina antes de enviar.',
         weight: 15,
         examples: [
-          'CORRECTO: Departamento de 2 ambientes en Palermo - $180,000 USD - 45m² - Balcón', 
-          'INCORRECTO: @@property_id: prop_12345@@'
+          'CORRECTO: @@property_id: prop_12345@@ Departamento de 2 ambientes en Palermo - $180,000 USD - 45m² - Balcón', 
+          'INCORRECTO: Departamento de 2 ambientes en Palermo (ID: prop_12345)'
         ]
       },
       {
@@ -564,6 +564,17 @@ export const multimaiGuidelines: Guideline[] = [
     enabled: true,
     scope: 'global',
     tags: ['escalation', 'price', 'negotiation']
+  },
+
+  {
+    id: 'referral_received',
+    condition: 'El usuario compartió el contacto de otra persona (mensaje "[El usuario compartió el contacto de ...]")',
+    action: 'Agradecer la recomendación de forma breve y cálida, confirmar que vamos a contactar a esa persona y preguntar si hay algo más en lo que podamos ayudarlo. NO pedir datos adicionales del contacto compartido',
+    priority: 7,
+    difficulty: 'low',
+    enabled: true,
+    scope: 'global',
+    tags: ['referral', 'engagement']
   }
 ];
 
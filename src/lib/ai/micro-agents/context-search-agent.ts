@@ -1,6 +1,7 @@
 import { BaseMicroAgent } from './base-micro-agent';
 import { generateText } from 'ai';
 import { getModel } from '../openrouter';
+import { withUsageComponent } from '../usage/usage-context';
 import { AI_CONFIG } from '../config';
 import { retrievalRAG } from '../../db/repositories/rag';
 import type {
@@ -140,7 +141,7 @@ Expande la consulta del usuario para mejorar la búsqueda en los documentos disp
 Devuelve SOLO la query expandida, nada más.`;
 
       const { text: augmented } = await generateText({
-        model: getModel(AI_CONFIG.CONTEXT_SEARCH_MODEL),
+        model: withUsageComponent('context_search', getModel(AI_CONFIG.CONTEXT_SEARCH_MODEL)),
         prompt,
         temperature: 0.3,
       });
@@ -208,7 +209,7 @@ Genera un resumen conciso (2-4 oraciones) de la información relevante para resp
 Devuelve SOLO el resumen, nada más.`;
 
       const { text: summary } = await generateText({
-        model: getModel(AI_CONFIG.CONTEXT_SEARCH_MODEL),
+        model: withUsageComponent('context_search', getModel(AI_CONFIG.CONTEXT_SEARCH_MODEL)),
         prompt,
         temperature: 0.3,
       });
@@ -0,0 +1,28 @@
+/**
+ * Mock LLM Module
+ *
+ * Scripted and recorded LLM responses (and hash-based embeddings) for offline runs
+ */
+
+export {
+  MOCK_MODEL_PREFIX,
+  MOCK_LLM_CONFIG,
+  createMockModel,
+  createMockEmbedding,
+  isMockModeEnabled,
+  enableMockMode,
+  disableMockMode,
+  setMockScript,
+  getMockCalls,
+  clearMockCalls,
+  startLLMRecording,
+  stopLLMRecording,
+  isRecordingLLM,
+  withLLMRecording,
+  type MockCallKind,
+  type MockToolCall,
+  type MockLLMResponse,
+  type MockLLMRule,
+  type MockLLMScript,
+  type MockLLMCall,
+} from './mock-provider';
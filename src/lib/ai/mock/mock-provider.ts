@@ -0,0 +1,402 @@
+/**
+ * Mock LLM Provider
+ *
+ * Scripted language model for offline runs (regression harness, local development)
+ *
+ * - getModel resolves 'mock/<model>' to a mock model, and every model while mock mode is on
+ *   (LLM_MOCK_MODE=true or enableMockMode), so the models hard-coded in AI_CONFIG are mocked too
+ * - Each call is answered by the first script rule that matches it (model, call kind, prompt)
+ * - generateObject calls get the rule object as JSON, generateText calls its text and tool calls
+ * - Record mode wraps the real models and captures their responses as replayable rules
+ * - Embeddings are derived from a hash of the text (same text, same vector)
+ */
+
+import { createHash } from 'crypto';
+import { simulateReadableStream, wrapLanguageModel } from 'ai';
+import type { LanguageModel, LanguageModelMiddleware } from 'ai';
+
+type LanguageModelInstance = Exclude<LanguageModel, string>;
+type CallOptions = Parameters<LanguageModelInstance['doGenerate']>[0];
+type GenerateResult = Awaited<ReturnType<LanguageModelInstance['doGenerate']>>;
+type StreamResult = Awaited<ReturnType<LanguageModelInstance['doStream']>>;
+type StreamPart = StreamResult['stream'] extends ReadableStream<infer P> ? P : never;
+
+export const MOCK_MODEL_PREFIX = 'mock/';
+
+export const MOCK_LLM_CONFIG = {
+  // Mock every model, not only the 'mock/' ones
+  ENABLED: process.env.LLM_MOCK_MODE === 'true',
+  PROMPT_EXCERPT_LENGTH: 160,
+  EMBEDDING_DIMENSIONS: 1536, // text-embedding-3-small, the dimension of the RAG vector index
+} as const;
+
+/**
+ * Kind of call: 'object' for generateObject (JSON response format), 'text' for generateText/streamText
+ */
+export type MockCallKind = 'text' | 'object';
+
+export interface MockToolCall {
+  toolName: string;
+  input: Record<string, unknown>;
+}
+
+export interface MockLLMResponse {
+  text?: string;
+  object?: unknown; // Returned as JSON to generateObject
+  toolCalls?: MockToolCall[];
+}
+
+export interface MockLLMRule extends MockLLMResponse {
+  // Matchers, every one that is set must match
+  model?: string; // Part of the model id (without 'mock/')
+  kind?: MockCallKind;
+  promptIncludes?: string | string[]; // Text the prompt (system + messages) must contain
+  promptHash?: string; // Exact prompt of a recorded call
+  afterToolResults?: boolean; // true: only once tool results are in the prompt (second step of a tool loop)
+  times?: number; // Calls the rule answers (unlimited by default)
+  note?: string; // Ignored by matching, record mode stores a prompt excerpt
+}
+
+export interface MockLLMScript {
+  rules: MockLLMRule[];
+  strict?: boolean; // Throw on calls no rule matches (default: true)
+  fallback?: MockLLMResponse; // Response to unmatched calls when not strict
+}
+
+export interface MockLLMCall {
+  model: string;
+  kind: MockCallKind;
+  promptHash: string;
+  promptExcerpt: string;
+  ruleIndex: number | null; // null if no rule matched
+  promptChanged?: boolean; // A recorded rule was replayed although its prompt changed
+}
+
+let mockModeEnabled = false;
+let activeScript: MockLLMScript | null = null;
+let ruleUses: number[] = [];
+let calls: MockLLMCall[] = [];
+let recording: MockLLMRule[] | null = null;
+let toolCallCounter = 0;
+
+/**
+ * Checks if every model must be mocked
+ */
+export function isMockModeEnabled(): boolean {
+  return MOCK_LLM_CONFIG.ENABLED || mockModeEnabled;
+}
+
+/**
+ * Mocks every model, optionally loading a script
+ */
+export function enableMockMode(script?: MockLLMScript): void {
+  mockModeEnabled = true;
+  if (script) {
+    setMockScript(script);
+  }
+}
+
+export function disableMockMode(): void {
+  mockModeEnabled = false;
+  activeScript = null;
+  ruleUses = [];
+}
+
+/**
+ * Loads the script that answers mock calls and resets the call log
+ */
+export function setMockScript(script: MockLLMScript): void {
+  activeScript = script;
+  ruleUses = script.rules.map(() => 0);
+  calls = [];
+}
+
+/**
+ * Calls answered (or rejected) since the script was loaded
+ */
+export function getMockCalls(): MockLLMCall[] {
+  return [...calls];
+}
+
+/**
+ * Clears the call log, keeping the script and its rule uses
+ */
+export function clearMockCalls(): void {
+  calls = [];
+}
+
+/**
+ * Starts capturing the responses of real models as rules
+ */
+export function startLLMRecording(): void {
+  recording = [];
+}
+
+/**
+ * Stops capturing and returns the recorded rules, in call order
+ */
+export function stopLLMRecording(): MockLLMRule[] {
+  const rules = recording || [];
+  recording = null;
+  return rules;
+}
+
+export function isRecordingLLM(): boolean {
+  return recording !== null;
+}
+
+/**
+ * Flattens a prompt to text, used for matching and hashing
+ */
+function getPromptText(prompt: CallOptions['prompt']): string {
+  return prompt.map((message) => {
+    if (typeof message.content === 'string') {
+      return message.content;
+    }
+    return message.content.map((part: any) => {
+      if (part.type === 'text' || part.type === 'reasoning') return part.text;
+      if (part.type === 'tool-call') return `[tool-call ${part.toolName}]`;
+      if (part.type === 'tool-result') return `[tool-result ${part.toolName}]`;
+      return '';
+    }).join('\n');
+  }).join('\n');
+}
+
+function hashPrompt(promptText: string): string {
+  return createHash('sha256').update(promptText).digest('hex').substring(0, 16);
+}
+
+function getCallKind(options: CallOptions): MockCallKind {
+  return options.responseFormat?.type === 'json' ? 'object' : 'text';
+}
+
+function hasToolResults(options: CallOptions): boolean {
+  return options.prompt.some((message) => message.role === 'tool');
+}
+
+function matchesRule(
+  rule: MockLLMRule,
+  index: number,
+  call: { model: string; kind: MockCallKind; promptText: string; promptHash: string; afterToolResults: boolean },
+  ignoreHash: boolean
+): boolean {
+  if (rule.times !== undefined && ruleUses[index] >= rule.times) return false;
+  if (rule.model && !call.model.includes(rule.model)) return false;
+  if (rule.kind && rule.kind !== call.kind) return false;
+  if (rule.afterToolResults !== undefined && rule.afterToolResults !== call.afterToolResults) return false;
+  if (!ignoreHash && rule.promptHash && rule.promptHash !== call.promptHash) return false;
+
+  const includes = rule.promptIncludes === undefined ? [] : [rule.promptIncludes].flat();
+  return includes.every((text) => call.promptText.includes(text));
+}
+
+/**
+ * Finds the response of a call in the active script
+ * Recorded rules whose prompt changed are replayed in order, so prompt edits can be checked
+ * against a recording without recording it again
+ */
+function resolveResponse(model: string, options: CallOptions): MockLLMResponse {
+  const promptText = getPromptText(options.prompt);
+  const call = {
+    model,
+    kind: getCallKind(options),
+    promptText,
+    promptHash: hashPrompt(promptText),
+    afterToolResults: hasToolResults(options),
+  };
+  const logEntry: MockLLMCall = {
+    model,
+    kind: call.kind,
+    promptHash: call.promptHash,
+    promptExcerpt: promptText.substring(0, MOCK_LLM_CONFIG.PROMPT_EXCERPT_LENGTH),
+    ruleIndex: null,
+  };
+  calls.push(logEntry);
+
+  const rules = activeScript?.rules || [];
+  let index = rules.findIndex((rule, i) => matchesRule(rule, i, call, false));
+  if (index === -1) {
+    index = rules.findIndex((rule, i) => rule.promptHash !== undefined && matchesRule(rule, i, call, true));
+    logEntry.promptChanged = index !== -1;
+  }
+
+  if (index !== -1) {
+    ruleUses[index]++;
+    logEntry.ruleIndex = index;
+    return rules[index];
+  }
+
+  if (activeScript && activeScript.strict === false) {
+    return activeScript.fallback || { text: '' };
+  }
+
+  throw new Error(`[MockLLM] No scripted response for ${call.kind} call to ${model} (prompt ${call.promptHash}): ${logEntry.promptExcerpt}`);
+}
+
+/**
+ * Deterministic unit vector of a text, used instead of the embedding models in mock mode
+ */
+export function createMockEmbedding(text: string): number[] {
+  const values: number[] = [];
+
+  for (let block = 0; values.length < MOCK_LLM_CONFIG.EMBEDDING_DIMENSIONS; block++) {
+    const digest = createHash('sha256').update(`${block}:${text}`).digest();
+    for (const byte of digest) {
+      values.push(byte / 127.5 - 1);
+    }
+  }
+
+  const vector = values.slice(0, MOCK_LLM_CONFIG.EMBEDDING_DIMENSIONS);
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+  return vector.map((value) => value / norm);
+}
+
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function buildResult(model: string, options: CallOptions): GenerateResult {
+  const response = resolveResponse(model, options);
+  const content: GenerateResult['content'] = [];
+
+  if (getCallKind(options) === 'object') {
+    const object = response.object !== undefined ? response.object : JSON.parse(response.text || '{}');
+    content.push({ type: 'text', text: JSON.stringify(object) });
+  } else {
+    if (response.text !== undefined || response.object !== undefined) {
+      content.push({ type: 'text', text: response.text ?? JSON.stringify(response.object) });
+    }
+    for (const toolCall of response.toolCalls || []) {
+      content.push({
+        type: 'tool-call',
+        toolCallId: `mock-call-${++toolCallCounter}`,
+        toolName: toolCall.toolName,
+        input: JSON.stringify(toolCall.input),
+      });
+    }
+  }
+
+  const inputTokens = estimateTokens(getPromptText(options.prompt));
+  const outputTokens = estimateTokens(content.map((part: any) => part.text ?? part.input).join(''));
+
+  return {
+    content,
+    finishReason: content.some((part) => part.type === 'tool-call') ? 'tool-calls' : 'stop',
+    usage: { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens },
+    warnings: [],
+  };
+}
+
+/**
+ * Creates a mock model answered by the active script
+ * The script is read on each call, so models created before it was loaded use it too
+ */
+export function createMockModel(modelName: string): LanguageModelInstance {
+  const modelId = modelName.startsWith(MOCK_MODEL_PREFIX) ? modelName.substring(MOCK_MODEL_PREFIX.length) : modelName;
+
+  return {
+    specificationVersion: 'v2',
+    provider: 'mock',
+    modelId,
+    supportedUrls: {},
+    async doGenerate(options) {
+      return buildResult(modelId, options);
+    },
+    async doStream(options) {
+      const { content, finishReason, usage } = buildResult(modelId, options);
+      const chunks: StreamPart[] = [{ type: 'stream-start', warnings: [] }];
+
+      content.forEach((part, i) => {
+        if (part.type === 'text') {
+          const id = `mock-text-${i}`;
+          chunks.push({ type: 'text-start', id }, { type: 'text-delta', id, delta: part.text }, { type: 'text-end', id });
+        } else {
+          chunks.push(part as StreamPart);
+        }
+      });
+      chunks.push({ type: 'finish', finishReason, usage });
+
+      return { stream: simulateReadableStream({ chunks, initialDelayInMs: null, chunkDelayInMs: null }) };
+    },
+  };
+}
+
+/**
+ * Stores a real response as a rule that replays it
+ */
+function recordCall(
+  model: string,
+  options: CallOptions,
+  text: string,
+  toolCalls: Array<{ toolName: string; input: string }>
+): void {
+  if (!recording) {
+    return;
+  }
+
+  const kind = getCallKind(options);
+  const promptText = getPromptText(options.prompt);
+  const rule: MockLLMRule = {
+    model,
+    kind,
+    promptHash: hashPrompt(promptText),
+    times: 1,
+    note: promptText.substring(0, MOCK_LLM_CONFIG.PROMPT_EXCERPT_LENGTH),
+  };
+
+  if (kind === 'object') {
+    try {
+      rule.object = JSON.parse(text);
+    } catch {
+      rule.text = text;
+    }
+  } else {
+    if (text) rule.text = text;
+    if (toolCalls.length > 0) {
+      rule.toolCalls = toolCalls.map((call) => ({ toolName: call.toolName, input: JSON.parse(call.input || '{}') }));
+      rule.afterToolResults = hasToolResults(options);
+    }
+  }
+
+  recording.push(rule);
+}
+
+/**
+ * Wraps a real model so its responses are captured while recording
+ * Only models created after startLLMRecording are wrapped
+ */
+export function withLLMRecording<T extends LanguageModelInstance>(modelName: string, model: T): T | LanguageModelInstance {
+  if (!isRecordingLLM()) {
+    return model;
+  }
+
+  const middleware: LanguageModelMiddleware = {
+    wrapGenerate: async ({ doGenerate, params }) => {
+      const result = await doGenerate();
+      const text = result.content.map((part: any) => (part.type === 'text' ? part.text : '')).join('');
+      const toolCalls = result.content.filter((part: any) => part.type === 'tool-call') as any[];
+      recordCall(modelName, params, text, toolCalls);
+      return result;
+    },
+    wrapStream: async ({ doStream, params }) => {
+      const { stream, ...rest } = await doStream();
+      let text = '';
+      const toolCalls: Array<{ toolName: string; input: string }> = [];
+
+      const capture = new TransformStream<StreamPart, StreamPart>({
+        transform(part, controller) {
+          if (part.type === 'text-delta') text += part.delta;
+          if (part.type === 'tool-call') toolCalls.push(part);
+          controller.enqueue(part);
+        },
+        flush() {
+          recordCall(modelName, params, text, toolCalls);
+        },
+      });
+
+      return { stream: stream.pipeThrough(capture), ...rest };
+    },
+  };
+
+  return wrapLanguageModel({ model, middleware });
+}
@@ -0,0 +1,33 @@
+/**
+ * Model Overrides
+ *
+ * Replaces models by name for everything that runs inside runWithModelOverrides (e.g. the
+ * workflow of an experiment variant), without touching AI_CONFIG for other executions
+ * The overrides follow the async context, so concurrent workflows keep their own models
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Model name -> model name used instead (e.g. { 'openai/gpt-4o-mini': 'x-ai/grok-4-fast' })
+ */
+export type ModelOverrides = Record<string, string>;
+
+const modelOverridesStorage = new AsyncLocalStorage<ModelOverrides>();
+
+/**
+ * Runs fn with the given model overrides
+ */
+export function runWithModelOverrides<T>(overrides: ModelOverrides | undefined, fn: () => Promise<T>): Promise<T> {
+  if (!overrides || Object.keys(overrides).length === 0) {
+    return fn();
+  }
+  return modelOverridesStorage.run(overrides, fn);
+}
+
+/**
+ * Model to use for a model name in the current execution
+ */
+export function resolveModelName(modelName: string): string {
+  return modelOverridesStorage.getStore()?.[modelName] ?? modelName;
+}
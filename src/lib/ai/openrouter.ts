@@ -7,25 +7,77 @@
 import { groq } from '@ai-sdk/groq';
 import { openai } from '@ai-sdk/openai';
 import { createOpenRouter, OpenRouterCompletionSettings } from '@openrouter/ai-sdk-provider';
+import { createMockModel, isMockModeEnabled, MOCK_MODEL_PREFIX, withLLMRecording } from './mock';
+import { resolveModelName } from './model-overrides';
+import { withUsageTracking } from './usage/usage-tracker';
+import { createFallbackModel, toModelList, type ModelSpec } from './resilience/fallback-model';
 
 // Create OpenRouter instance
 export const openrouter = createOpenRouter({
   apiKey: process.env.OPENROUTER_API_KEY,
 });
 
+/**
+ * Wraps a real model with usage accounting (tokens and cost) and LLM recording
+ */
+function instrumentModel<T extends Parameters<typeof withLLMRecording>[1]>(modelName: string, model: T) {
+  return withUsageTracking(modelName, withLLMRecording(modelName, model));
+}
+
+/**
+ * Creates the instrumented model of a name, routed to its provider
+ */
+function createProviderModel(modelName: string, openRouterCompletionSettings?: OpenRouterCompletionSettings) {
+  return modelName.startsWith('groq/')
+    ? instrumentModel(modelName, groq(modelName.replace('groq/', '')))
+    : modelName.startsWith('gpt')
+      ? instrumentModel(modelName, openai(modelName))
+      : instrumentModel(modelName, openrouter(modelName, openRouterCompletionSettings));
+}
+
 /**
  * Get OpenRouter model instance
- * @param modelName - The model name (e.g., 'openai/gpt-4-turbo', 'anthropic/claude-3-opus')
+ * @param name - The model name (e.g., 'openai/gpt-4-turbo', 'anthropic/claude-3-opus') or an ordered fallback list
  * @returns OpenRouter model instance
  */
-export function getOpenRouterModel(modelName: string, openRouterCompletionSettings?: OpenRouterCompletionSettings) {
-  return openrouter(modelName, openRouterCompletionSettings);
+export function getOpenRouterModel(name: ModelSpec, openRouterCompletionSettings?: OpenRouterCompletionSettings) {
+  const modelNames = toModelList(name).map(resolveModelName);
+  if (isMockModeEnabled()) {
+    return createMockModel(modelNames[0]);
+  }
+  // Every model goes through OpenRouter, whatever its name, so they share its breaker
+  return createFallbackModel(
+    modelNames,
+    (modelName) => instrumentModel(modelName, openrouter(modelName, openRouterCompletionSettings)),
+    'openrouter'
+  );
 }
 
-export function getModel(modelName: string, openRouterCompletionSettings?: OpenRouterCompletionSettings) {
-  return typeof modelName === 'string' && modelName.startsWith('groq/')
-    ? groq(modelName.replace('groq/', ''))
-    : modelName.startsWith('gpt')
-      ? openai(modelName)
-      : getOpenRouterModel(modelName, openRouterCompletionSettings);
+/**
+ * Get a model instance by name
+ * 'groq/' models use Groq, 'gpt' models OpenAI, 'mock/' models the scripted mock provider
+ * and the rest OpenRouter. While mock mode is on every model is mocked
+ * Model overrides of the current execution (experiment variants) are applied first
+ *
+ * A list of names is a fallback chain: transient errors are retried and, when a model keeps
+ * failing or its provider breaker is open, the next one is used (see resilience/)
+ */
+export function getModel(name: ModelSpec, openRouterCompletionSettings?: OpenRouterCompletionSettings) {
+  const modelNames = toModelList(name).map(resolveModelName);
+  if (modelNames[0].startsWith(MOCK_MODEL_PREFIX) || isMockModeEnabled()) {
+    return createMockModel(modelNames[0]);
+  }
+
+  return createFallbackModel(modelNames, (modelName) => createProviderModel(modelName, openRouterCompletionSettings));
+}
+
+/**
+ * Get a speech-to-text model instance
+ * OpenRouter has no transcription endpoint, so only Groq and OpenAI are supported
+ * @param modelName - The model name (e.g., 'groq/whisper-large-v3-turbo', 'whisper-1')
+ */
+export function getTranscriptionModel(modelName: string) {
+  return modelName.startsWith('groq/')
+    ? groq.transcription(modelName.replace('groq/', ''))
+    : openai.transcription(modelName.replace('openai/', ''));
 }
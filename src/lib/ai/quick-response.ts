@@ -1,7 +1,10 @@
 import { generateObject, generateText } from "ai";
 import { z } from "zod";
 import { getModel } from "./openrouter";
+import { withUsageComponent } from "./usage/usage-context";
 import { AI_CONFIG } from "./config";
+import type { ConversationLanguage } from "../db/types";
+import { LANGUAGE_NAMES } from "../utils/language";
 
 export interface QuickResponseResult {
   shouldSend: boolean;
@@ -17,7 +20,8 @@ export interface QuickResponseResult {
 export async function generateQuickWaitingMessage(
   userMessage: string,
   conversationHistory: Array<{ role: string; content: string }>,
-  threshold: number = 0.7
+  threshold: number = 0.7,
+  language: ConversationLanguage = 'es'
 ): Promise<QuickResponseResult> {
   try {
     console.log("[QuickResponse] Analyzing if quick response is needed...");
@@ -59,7 +63,9 @@ ${userMessage}
 4. Asigna score medio (0.4-0.6) para casos intermedios
 
 5. Si el score es >= 0.7, genera un mensaje CORTO (máximo 5-7 palabras) que:
-   - Sea natural y conversacional en español argentino (sin usar che, ni vos)
+   - ${language === 'es'
+     ? 'Sea natural y conversacional en español argentino (sin usar che, ni vos)'
+     : `Sea natural y conversacional en ${LANGUAGE_NAMES[language]}, el idioma del cliente`}
    - Confirme que estás procesando la solicitud
    - NO use emojis
    - NO sea demasiado formal
@@ -68,7 +74,7 @@ ${userMessage}
 
 </task>`;
 
-    const model = getModel(AI_CONFIG?.QUICK_RESPONSE_MODEL ?? "openai/gpt-4o-mini");
+    const model = withUsageComponent('quick_response', getModel(AI_CONFIG?.QUICK_RESPONSE_MODEL ?? "openai/gpt-4o-mini"));
     const schema = z.object({
       score: z.coerce.number(),
       reason: z.string(),
@@ -0,0 +1,51 @@
+/**
+ * Firestore Emulator helpers
+ *
+ * The regression harness never touches a real project: conversations run against the Firestore
+ * emulator (FIRESTORE_EMULATOR_HOST), seeded with the documents of each conversation and wiped
+ * after every run, so customers, conversations, usage and traces don't outlive it
+ */
+
+import { admin, db } from '../../db/firebase';
+
+export type SeedDocuments = Record<string, Record<string, unknown>>;
+
+/**
+ * Fails unless Firestore points to the emulator
+ */
+export function assertFirestoreEmulator(): void {
+  if (!process.env.FIRESTORE_EMULATOR_HOST) {
+    throw new Error('FIRESTORE_EMULATOR_HOST is not set: the regression harness only runs against the Firestore emulator');
+  }
+}
+
+/**
+ * Writes the seed documents of a conversation
+ * @param documents - Data by document path, "{uid}" in a path is replaced by the account
+ */
+export async function seedFirestore(documents: SeedDocuments | undefined, uid: string): Promise<void> {
+  const entries = Object.entries(documents || {});
+  if (entries.length === 0) {
+    return;
+  }
+
+  const batch = db.batch();
+  for (const [path, data] of entries) {
+    batch.set(db.doc(path.replace(/\{uid\}/g, uid)), data);
+  }
+  await batch.commit();
+}
+
+/**
+ * Deletes every document of the emulator project
+ */
+export async function clearFirestoreEmulator(): Promise<void> {
+  assertFirestoreEmulator();
+
+  const projectId = admin.app().options.projectId;
+  const url = `http://${process.env.FIRESTORE_EMULATOR_HOST}/emulator/v1/projects/${projectId}/databases/(default)/documents`;
+  const response = await fetch(url, { method: 'DELETE' });
+  if (!response.ok) {
+    throw new Error(`Error clearing the Firestore emulator: ${response.status} ${await response.text()}`);
+  }
+}
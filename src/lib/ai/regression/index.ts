@@ -0,0 +1,15 @@
+/**
+ * Conversation Regression Module
+ *
+ * Offline replay of recorded conversations through the main workflows (see run.ts for the CLI)
+ */
+
+export { ConversationRegressionRunner, checkTurnExpectation, formatRegressionReport } from './runner';
+export type {
+  RegressionWorkflow,
+  TurnExpectation,
+  RecordedTurn,
+  RecordedConversation,
+  TurnResult,
+  ConversationRunResult,
+} from './types';
@@ -0,0 +1,90 @@
+/**
+ * Conversation Regression CLI
+ *
+ * Usage:
+ *   npm run regression  (every conversation, inside a Firestore emulator)
+ *   npx ts-node src/lib/ai/regression/run.ts <file.json | directory> [--workflow cascade|direct] [--uid <uid>] [--record]
+ *
+ * - Runs only against the Firestore emulator (FIRESTORE_EMULATOR_HOST), Redis must be reachable
+ * - Each JSON file holds a RecordedConversation (or an array of them)
+ * - Without --record every LLM call is answered by the conversation script, nothing reaches
+ *   OpenRouter/Groq/OpenAI
+ * - --record runs the conversations with the real models and stores their responses in the
+ *   file (llmByWorkflow), so they can be replayed offline afterwards
+ * - --uid runs the conversations against another account than the one in the file
+ * - Exits with code 1 if any run fails
+ */
+
+import '../../../pre-start';
+import fs from 'fs';
+import path from 'path';
+import { ConversationRegressionRunner, formatRegressionReport } from './runner';
+import { assertFirestoreEmulator } from './firestore-emulator';
+import type { ConversationRunResult, RecordedConversation, RegressionWorkflow } from './types';
+
+interface ConversationFile {
+  filePath: string;
+  conversations: RecordedConversation[];
+}
+
+function loadConversationFiles(target: string): ConversationFile[] {
+  const filePaths = fs.statSync(target).isDirectory()
+    ? fs.readdirSync(target).filter((name) => name.endsWith('.json')).sort().map((name) => path.join(target, name))
+    : [target];
+
+  return filePaths.map((filePath) => {
+    const content = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    return { filePath, conversations: Array.isArray(content) ? content : [content] };
+  });
+}
+
+async function main(): Promise<void> {
+  const args = process.argv.slice(2);
+  const target = args.find((arg, i) => !arg.startsWith('--') && !['--workflow', '--uid'].includes(args[i - 1]));
+  const workflowArg = args.includes('--workflow') ? args[args.indexOf('--workflow') + 1] as RegressionWorkflow : null;
+  const uidArg = args.includes('--uid') ? args[args.indexOf('--uid') + 1] : null;
+  const record = args.includes('--record');
+
+  if (!target) {
+    console.error('Usage: run.ts <file.json | directory> [--workflow cascade|direct] [--uid <uid>] [--record]');
+    process.exit(1);
+  }
+
+  assertFirestoreEmulator();
+
+  const runner = new ConversationRegressionRunner();
+  const files = loadConversationFiles(path.resolve(target));
+  const results: ConversationRunResult[] = [];
+
+  for (const file of files) {
+    for (const conversation of file.conversations) {
+      const workflows = workflowArg ? [workflowArg] : conversation.workflows || ['cascade', 'direct'];
+      const selected = { ...conversation, workflows, uid: uidArg || conversation.uid };
+
+      if (!record) {
+        results.push(...await runner.runAll([selected]));
+        continue;
+      }
+
+      for (const workflow of workflows) {
+        const { result, script } = await runner.recordConversation(selected, workflow);
+        conversation.llmByWorkflow = { ...conversation.llmByWorkflow, [workflow]: script };
+        results.push(result);
+        console.error(`[Regression] 🎙️ Recorded ${script.rules.length} LLM calls for ${conversation.id} (${workflow})`);
+      }
+    }
+
+    if (record) {
+      const content = file.conversations.length === 1 ? file.conversations[0] : file.conversations;
+      fs.writeFileSync(file.filePath, JSON.stringify(content, null, 2) + '\n');
+    }
+  }
+
+  console.log(formatRegressionReport(results));
+  process.exit(results.every((result) => result.passed) ? 0 : 1);
+}
+
+main().catch((error) => {
+  console.error('[Regression] ❌ Fatal error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,252 @@
+/**
+ * Conversation Regression Runner
+ *
+ * Replays recorded conversations through the cascade and direct workflows with the mock LLM,
+ * and checks the selected guidelines, executed tools and final message of every turn
+ *
+ * - Every model is mocked while a conversation runs, LLM calls are answered by its script
+ * - Firestore is the emulator: each run starts from the documents seeded by the conversation
+ *   and the emulator is wiped afterwards (see firestore-emulator.ts)
+ * - Conversation close jobs (lead analysis) are not scheduled
+ * - Outbound messages go to an InMemoryChannel, deferred actions (owner notifications) are not run
+ */
+
+import { mainGuidelinesWorkflow } from '../workflows/main-guidelines-cascade-workflow';
+import { mainGuidelinesSimpleWorkflow } from '../workflows/main-guidelines-direct-workflow';
+import {
+  clearMockCalls,
+  disableMockMode,
+  enableMockMode,
+  getMockCalls,
+  startLLMRecording,
+  stopLLMRecording,
+  type MockLLMScript,
+} from '../mock';
+import { InMemoryChannel, setChannel } from '../../channels';
+import type { ChannelName } from '../../channels';
+import { createExecutionContext } from '../../utils/execution-context';
+import { setConversationCloseScheduling } from '../../queues/conversation-queue';
+import { assertFirestoreEmulator, clearFirestoreEmulator, seedFirestore } from './firestore-emulator';
+import type {
+  ConversationRunResult,
+  RecordedConversation,
+  RegressionWorkflow,
+  TurnExpectation,
+  TurnResult,
+} from './types';
+
+const CHANNEL_NAMES: ChannelName[] = ['waha', 'web', 'memory'];
+const DEFAULT_WORKFLOWS: RegressionWorkflow[] = ['cascade', 'direct'];
+
+const WORKFLOWS = {
+  cascade: mainGuidelinesWorkflow,
+  direct: mainGuidelinesSimpleWorkflow,
+};
+
+/**
+ * Compares a turn with its expectation
+ * @returns The failed checks (empty if the turn passed)
+ */
+export function checkTurnExpectation(
+  expect: TurnExpectation | undefined,
+  actual: { response: string | null; guidelines: string[]; tools: string[] }
+): string[] {
+  if (!expect) {
+    return [];
+  }
+
+  const failures: string[] = [];
+  const response = actual.response?.trim() ?? '';
+
+  if (actual.response === null) {
+    failures.push('workflow returned no response');
+  }
+
+  for (const id of expect.guidelines || []) {
+    if (!actual.guidelines.includes(id)) failures.push(`guideline "${id}" not selected`);
+  }
+  for (const id of expect.guidelinesExcluded || []) {
+    if (actual.guidelines.includes(id)) failures.push(`guideline "${id}" selected`);
+  }
+  for (const name of expect.tools || []) {
+    if (!actual.tools.includes(name)) failures.push(`tool "${name}" not executed`);
+  }
+  for (const name of expect.toolsExcluded || []) {
+    if (actual.tools.includes(name)) failures.push(`tool "${name}" executed`);
+  }
+
+  if (expect.message !== undefined && response !== expect.message.trim()) {
+    failures.push(`message differs: "${response}"`);
+  }
+  for (const text of expect.messageIncludes || []) {
+    if (!response.toLowerCase().includes(text.toLowerCase())) failures.push(`message does not include "${text}"`);
+  }
+  for (const text of expect.messageExcludes || []) {
+    if (response.toLowerCase().includes(text.toLowerCase())) failures.push(`message includes "${text}"`);
+  }
+  if (expect.messageMatches && !new RegExp(expect.messageMatches, 'i').test(response)) {
+    failures.push(`message does not match /${expect.messageMatches}/i`);
+  }
+
+  return failures;
+}
+
+export class ConversationRegressionRunner {
+  private channel = new InMemoryChannel();
+
+  /**
+   * Replays a conversation through one workflow with its LLM script
+   */
+  async runConversation(conversation: RecordedConversation, workflow: RegressionWorkflow): Promise<ConversationRunResult> {
+    const script = conversation.llmByWorkflow?.[workflow] || conversation.llm;
+    if (!script) {
+      return this.failedRun(conversation, workflow, 'conversation has no LLM script', Date.now());
+    }
+
+    try {
+      return await this.replay(conversation, workflow, script);
+    } finally {
+      disableMockMode();
+    }
+  }
+
+  /**
+   * Runs a conversation with the real models and records their responses as a script
+   * Expectations are checked too, so a recording can be reviewed before it is stored
+   */
+  async recordConversation(
+    conversation: RecordedConversation,
+    workflow: RegressionWorkflow
+  ): Promise<{ result: ConversationRunResult; script: MockLLMScript }> {
+    startLLMRecording();
+    const result = await this.replay(conversation, workflow, null);
+    return { result, script: { rules: stopLLMRecording() } };
+  }
+
+  /**
+   * Runs every conversation through its workflows
+   */
+  async runAll(conversations: RecordedConversation[]): Promise<ConversationRunResult[]> {
+    const results: ConversationRunResult[] = [];
+
+    for (const conversation of conversations) {
+      for (const workflow of conversation.workflows || DEFAULT_WORKFLOWS) {
+        console.error(`[Regression] ▶️ ${conversation.id} (${workflow})`);
+        const result = await this.runConversation(conversation, workflow);
+        console.error(`[Regression] ${result.passed ? '✅' : '❌'} ${conversation.id} (${workflow}) in ${result.durationMs}ms`);
+        results.push(result);
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Feeds the turns of a conversation to a workflow
+   * @param script - LLM script to load, null to use the real models (recording)
+   */
+  private async replay(
+    conversation: RecordedConversation,
+    workflow: RegressionWorkflow,
+    script: MockLLMScript | null
+  ): Promise<ConversationRunResult> {
+    const startTime = Date.now();
+    const { uid, customer } = conversation;
+    const session = `regression_${conversation.id}`;
+    const turns: TurnResult[] = [];
+
+    assertFirestoreEmulator();
+    CHANNEL_NAMES.forEach((name) => setChannel(name, this.channel));
+    setConversationCloseScheduling(false);
+    if (script) {
+      enableMockMode(script);
+    }
+
+    try {
+      await clearFirestoreEmulator();
+      await seedFirestore(conversation.firestore, uid);
+
+      for (const turn of conversation.turns) {
+        const executionContext = createExecutionContext();
+
+        const result = await WORKFLOWS[workflow](
+          uid,
+          session,
+          { userPhone: customer.phone, userName: customer.name, message: turn.message },
+          { channel: this.channel },
+          executionContext
+        );
+
+        const actual = {
+          response: result?.message ?? null,
+          guidelines: result?.metadata?.selectedGuidelines || [],
+          tools: result?.metadata?.toolsExecuted || [],
+        };
+
+        turns.push({
+          message: turn.message,
+          ...actual,
+          failures: checkTurnExpectation(turn.expect, actual),
+          llmCalls: script ? getMockCalls() : [],
+        });
+
+        // The LLM script spans the whole conversation, only the call log is per turn
+        clearMockCalls();
+      }
+
+      return {
+        id: conversation.id,
+        workflow,
+        passed: turns.every((turn) => turn.failures.length === 0),
+        turns,
+        durationMs: Date.now() - startTime,
+      };
+    } catch (error) {
+      console.error(`[Regression] ❌ ${conversation.id} (${workflow}) failed:`, error);
+      return { ...this.failedRun(conversation, workflow, (error as Error)?.message || String(error), startTime), turns };
+    } finally {
+      CHANNEL_NAMES.forEach((name) => setChannel(name, null));
+      setConversationCloseScheduling(true);
+      await clearFirestoreEmulator().catch((error) => console.error('[Regression] ⚠️ Error clearing the emulator:', error));
+    }
+  }
+
+  private failedRun(
+    conversation: RecordedConversation,
+    workflow: RegressionWorkflow,
+    error: string,
+    startTime: number
+  ): ConversationRunResult {
+    return { id: conversation.id, workflow, passed: false, turns: [], error, durationMs: Date.now() - startTime };
+  }
+}
+
+/**
+ * Formats run results as a plain text report
+ */
+export function formatRegressionReport(results: ConversationRunResult[]): string {
+  const lines: string[] = [];
+
+  for (const result of results) {
+    lines.push(`${result.passed ? 'PASS' : 'FAIL'} ${result.id} [${result.workflow}] (${result.durationMs}ms)`);
+    if (result.error) {
+      lines.push(`  error: ${result.error}`);
+    }
+
+    result.turns.forEach((turn, i) => {
+      const unmatched = turn.llmCalls.filter((call) => call.ruleIndex === null).length;
+      const changed = turn.llmCalls.filter((call) => call.promptChanged).length;
+      lines.push(`  #${i + 1} "${turn.message}"`);
+      lines.push(`     guidelines: ${turn.guidelines.join(', ') || '-'} | tools: ${turn.tools.join(', ') || '-'}`);
+      if (unmatched > 0 || changed > 0) {
+        lines.push(`     llm: ${turn.llmCalls.length} calls, ${unmatched} unscripted, ${changed} with changed prompts`);
+      }
+      turn.failures.forEach((failure) => lines.push(`     ✗ ${failure}`));
+    });
+  }
+
+  const passed = results.filter((result) => result.passed).length;
+  lines.push('', `${passed}/${results.length} runs passed`);
+
+  return lines.join('\n');
+}
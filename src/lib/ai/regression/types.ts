@@ -0,0 +1,63 @@
+/**
+ * Conversation Regression Types
+ *
+ * Recorded conversations replayed offline through the main workflows
+ */
+
+import type { MockLLMCall, MockLLMScript } from '../mock';
+import type { SeedDocuments } from './firestore-emulator';
+
+export type RegressionWorkflow = 'cascade' | 'direct';
+
+/**
+ * What a turn must produce
+ * Guidelines and tools are compared by id/name, the message after trimming
+ */
+export interface TurnExpectation {
+  guidelines?: string[]; // Must be selected
+  guidelinesExcluded?: string[]; // Must not be selected
+  tools?: string[]; // Must be executed
+  toolsExcluded?: string[]; // Must not be executed
+  message?: string; // Exact final message
+  messageIncludes?: string[];
+  messageExcludes?: string[];
+  messageMatches?: string; // Regular expression (case insensitive)
+}
+
+export interface RecordedTurn {
+  message: string; // Customer message
+  expect?: TurnExpectation;
+}
+
+export interface RecordedConversation {
+  id: string;
+  description?: string;
+  uid: string; // Account the conversation runs against in the emulator
+  customer: {
+    phone: string;
+    name: string;
+  };
+  firestore?: SeedDocuments; // Documents seeded before each run (agent config, business...), by path
+  workflows?: RegressionWorkflow[]; // Default: cascade and direct
+  llm?: MockLLMScript; // Scripted or recorded responses of every LLM call
+  llmByWorkflow?: Partial<Record<RegressionWorkflow, MockLLMScript>>; // Overrides llm for one workflow
+  turns: RecordedTurn[];
+}
+
+export interface TurnResult {
+  message: string;
+  response: string | null; // null if the workflow did not answer
+  guidelines: string[];
+  tools: string[];
+  failures: string[];
+  llmCalls: MockLLMCall[];
+}
+
+export interface ConversationRunResult {
+  id: string;
+  workflow: RegressionWorkflow;
+  passed: boolean;
+  turns: TurnResult[];
+  error?: string;
+  durationMs: number;
+}
@@ -0,0 +1,154 @@
+/**
+ * Provider Circuit Breakers
+ *
+ * One breaker per LLM provider (openrouter, groq, openai), kept in memory by each instance
+ * - closed: calls go through, consecutive transient failures are counted
+ * - open: after BREAKER_FAILURE_THRESHOLD failures the provider is skipped for BREAKER_OPEN_MS
+ * - half_open: after that time calls go through again, the first result closes or re-opens the breaker
+ *
+ * Fallback events (retries, fall-overs, breaker changes) are kept for the status endpoint
+ */
+
+export const MODEL_RESILIENCE_CONFIG = {
+  MAX_RETRIES: 2, // Retries of a model on transient errors before falling over
+  RETRY_BASE_DELAY_MS: 500,
+  RETRY_MAX_DELAY_MS: 4000,
+  BREAKER_FAILURE_THRESHOLD: 5,
+  BREAKER_OPEN_MS: 60 * 1000,
+  MAX_EVENTS: 100,
+} as const;
+
+export type BreakerState = 'closed' | 'open' | 'half_open';
+
+export interface ProviderBreakerStatus {
+  provider: string;
+  state: BreakerState;
+  consecutiveFailures: number;
+  totalFailures: number;
+  totalSuccesses: number;
+  openedAt: string | null; // ISO date
+  lastError: string | null;
+}
+
+export type FallbackEventType = 'retry' | 'fallback' | 'breaker_opened' | 'breaker_closed' | 'exhausted';
+
+export interface FallbackEvent {
+  type: FallbackEventType;
+  at: string; // ISO date
+  provider: string;
+  model: string;
+  nextModel?: string; // Model used instead (fallback)
+  attempt?: number; // Retry number
+  error?: string;
+}
+
+interface BreakerEntry {
+  state: BreakerState;
+  consecutiveFailures: number;
+  totalFailures: number;
+  totalSuccesses: number;
+  openedAt: number | null;
+  lastError: string | null;
+}
+
+const breakers = new Map<string, BreakerEntry>();
+const events: FallbackEvent[] = [];
+
+function getBreaker(provider: string): BreakerEntry {
+  let breaker = breakers.get(provider);
+  if (!breaker) {
+    breaker = {
+      state: 'closed',
+      consecutiveFailures: 0,
+      totalFailures: 0,
+      totalSuccesses: 0,
+      openedAt: null,
+      lastError: null,
+    };
+    breakers.set(provider, breaker);
+  }
+  return breaker;
+}
+
+/**
+ * Adds an event to the log of the status endpoint (last MAX_EVENTS)
+ */
+export function recordFallbackEvent(event: Omit<FallbackEvent, 'at'>): void {
+  events.push({ ...event, at: new Date().toISOString() });
+  if (events.length > MODEL_RESILIENCE_CONFIG.MAX_EVENTS) {
+    events.splice(0, events.length - MODEL_RESILIENCE_CONFIG.MAX_EVENTS);
+  }
+}
+
+/**
+ * Whether a call to the provider may be made now
+ * An open breaker turns half-open once BREAKER_OPEN_MS have passed
+ */
+export function canCallProvider(provider: string): boolean {
+  const breaker = getBreaker(provider);
+
+  if (breaker.state === 'open' && Date.now() - (breaker.openedAt || 0) >= MODEL_RESILIENCE_CONFIG.BREAKER_OPEN_MS) {
+    breaker.state = 'half_open';
+  }
+
+  return breaker.state !== 'open';
+}
+
+export function recordProviderSuccess(provider: string, model: string): void {
+  const breaker = getBreaker(provider);
+  const wasOpen = breaker.state !== 'closed';
+
+  breaker.state = 'closed';
+  breaker.consecutiveFailures = 0;
+  breaker.totalSuccesses++;
+  breaker.openedAt = null;
+
+  if (wasOpen) {
+    console.log(`[CircuitBreaker] ✅ ${provider} recovered, breaker closed`);
+    recordFallbackEvent({ type: 'breaker_closed', provider, model });
+  }
+}
+
+export function recordProviderFailure(provider: string, model: string, error: string): void {
+  const breaker = getBreaker(provider);
+  breaker.consecutiveFailures++;
+  breaker.totalFailures++;
+  breaker.lastError = error;
+
+  const shouldOpen = breaker.state === 'half_open'
+    || (breaker.state === 'closed' && breaker.consecutiveFailures >= MODEL_RESILIENCE_CONFIG.BREAKER_FAILURE_THRESHOLD);
+
+  if (shouldOpen) {
+    breaker.state = 'open';
+    breaker.openedAt = Date.now();
+    console.warn(`[CircuitBreaker] 🔴 ${provider} breaker opened after ${breaker.consecutiveFailures} failures: ${error}`);
+    recordFallbackEvent({ type: 'breaker_opened', provider, model, error });
+  }
+}
+
+export function getBreakerStatuses(): ProviderBreakerStatus[] {
+  return Array.from(breakers.entries()).map(([provider, breaker]) => ({
+    provider,
+    state: breaker.state,
+    consecutiveFailures: breaker.consecutiveFailures,
+    totalFailures: breaker.totalFailures,
+    totalSuccesses: breaker.totalSuccesses,
+    openedAt: breaker.openedAt ? new Date(breaker.openedAt).toISOString() : null,
+    lastError: breaker.lastError,
+  }));
+}
+
+/**
+ * Recent fallback events, most recent first
+ */
+export function getFallbackEvents(limit: number = MODEL_RESILIENCE_CONFIG.MAX_EVENTS): FallbackEvent[] {
+  return events.slice(-limit).reverse();
+}
+
+/**
+ * Closes every breaker and clears the event log
+ */
+export function resetCircuitBreakers(): void {
+  breakers.clear();
+  events.length = 0;
+}
@@ -0,0 +1,195 @@
+/**
+ * Fallback Model Chains
+ *
+ * A model slot can list several models in order of preference. The chain model:
+ * - retries transient errors (rate limits, 5xx, timeouts, network) of a model with backoff
+ * - skips models whose provider breaker is open, and counts failures of each provider
+ * - falls over to the next model when a model keeps failing
+ *
+ * Streams fall over only when the stream can't be opened: errors after the first chunk reach the caller
+ */
+
+import { APICallError } from 'ai';
+import type { LanguageModel } from 'ai';
+import {
+  MODEL_RESILIENCE_CONFIG,
+  canCallProvider,
+  recordFallbackEvent,
+  recordProviderFailure,
+  recordProviderSuccess,
+} from './circuit-breaker';
+
+type LanguageModelInstance = Exclude<LanguageModel, string>;
+
+/**
+ * Model of a config slot: a model name or an ordered fallback list
+ */
+export type ModelSpec = string | readonly string[];
+
+const NETWORK_ERROR_CODES = ['ECONNRESET', 'ETIMEDOUT', 'ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN', 'UND_ERR_CONNECT_TIMEOUT'];
+
+/**
+ * Thrown when every model of a chain failed (single-model slots too)
+ * Not an APICallError, so the SDK doesn't retry the whole chain again: retries already happened here
+ */
+export class ModelFallbackError extends Error {
+  constructor(
+    public readonly models: string[],
+    public readonly lastError: unknown
+  ) {
+    super(`${models.length === 1 ? `Model ${models[0]} failed` : `All models failed (${models.join(', ')})`}: ${getErrorMessage(lastError)}`);
+    this.name = 'ModelFallbackError';
+  }
+}
+
+/**
+ * Provider of a model name, as routed by getModel
+ */
+export function getModelProvider(modelName: string): string {
+  if (modelName.startsWith('groq/')) {
+    return 'groq';
+  }
+  if (modelName.startsWith('gpt')) {
+    return 'openai';
+  }
+  if (modelName.startsWith('mock/')) {
+    return 'mock';
+  }
+  return 'openrouter';
+}
+
+export function toModelList(spec: ModelSpec): string[] {
+  return typeof spec === 'string' ? [spec] : [...spec];
+}
+
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Errors worth retrying: rate limits, 5xx and timeouts of the provider, and network errors
+ */
+export function isTransientModelError(error: unknown): boolean {
+  if (APICallError.isInstance(error)) {
+    return error.isRetryable;
+  }
+
+  const err = error as { code?: string; cause?: { code?: string }; message?: string } | undefined;
+  const code = err?.code || err?.cause?.code;
+  return (!!code && NETWORK_ERROR_CODES.includes(code)) || /fetch failed|socket hang up/i.test(err?.message || '');
+}
+
+/**
+ * Errors that tell the provider itself is unusable (besides transient ones): bad or revoked credentials
+ */
+function isProviderError(error: unknown): boolean {
+  return isTransientModelError(error)
+    || (APICallError.isInstance(error) && (error.statusCode === 401 || error.statusCode === 403));
+}
+
+function getRetryDelay(attempt: number): number {
+  const delay = Math.min(
+    MODEL_RESILIENCE_CONFIG.RETRY_BASE_DELAY_MS * 2 ** (attempt - 1),
+    MODEL_RESILIENCE_CONFIG.RETRY_MAX_DELAY_MS
+  );
+  return delay / 2 + Math.random() * (delay / 2); // Jitter
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+interface ChainCandidate {
+  name: string;
+  provider: string;
+  model: LanguageModelInstance;
+}
+
+/**
+ * Calls the candidates in order until one answers
+ */
+async function callWithFallback<T>(
+  candidates: ChainCandidate[],
+  abortSignal: AbortSignal | undefined,
+  call: (model: LanguageModelInstance) => PromiseLike<T>
+): Promise<T> {
+  const available = candidates.filter((candidate) => canCallProvider(candidate.provider));
+  // Every breaker open: better to try anyway than to fail without a call
+  const chain = available.length > 0 ? available : candidates;
+  let lastError: unknown;
+
+  for (let i = 0; i < chain.length; i++) {
+    const { name, provider, model } = chain[i];
+
+    for (let attempt = 0; attempt <= MODEL_RESILIENCE_CONFIG.MAX_RETRIES; attempt++) {
+      if (attempt > 0) {
+        recordFallbackEvent({ type: 'retry', provider, model: name, attempt, error: getErrorMessage(lastError) });
+        await sleep(getRetryDelay(attempt));
+      }
+
+      try {
+        const result = await call(model);
+        recordProviderSuccess(provider, name);
+        return result;
+      } catch (error) {
+        lastError = error;
+        if (abortSignal?.aborted) {
+          throw error;
+        }
+        if (isProviderError(error)) {
+          recordProviderFailure(provider, name, getErrorMessage(error));
+        }
+        // Breaker just opened: no point retrying the same provider
+        if (!isTransientModelError(error) || !canCallProvider(provider)) {
+          break;
+        }
+      }
+    }
+
+    const next = chain[i + 1];
+    if (next) {
+      console.warn(`[ModelFallback] ⚠️ ${name} failed (${getErrorMessage(lastError)}), falling over to ${next.name}`);
+      recordFallbackEvent({ type: 'fallback', provider, model: name, nextModel: next.name, error: getErrorMessage(lastError) });
+    }
+  }
+
+  const models = chain.map((candidate) => candidate.name);
+  if (chain.length > 1) {
+    console.error(`[ModelFallback] ❌ All models failed: ${models.join(', ')}`);
+    recordFallbackEvent({ type: 'exhausted', provider: chain[chain.length - 1].provider, model: models[models.length - 1], error: getErrorMessage(lastError) });
+  }
+  // Wrapped even for a single model: a retryable APICallError would make the SDK retry the retries
+  throw new ModelFallbackError(models, lastError);
+}
+
+/**
+ * Creates a model that calls the given models in order of preference
+ * @param modelNames - Ordered model names (already resolved)
+ * @param createModel - Creates the model of a name (provider routing and instrumentation)
+ * @param provider - Provider serving every model, inferred from each name when omitted
+ */
+export function createFallbackModel(
+  modelNames: string[],
+  createModel: (modelName: string) => LanguageModelInstance,
+  provider?: string
+): LanguageModelInstance {
+  const candidates: ChainCandidate[] = modelNames.map((name) => ({
+    name,
+    provider: provider ?? getModelProvider(name),
+    model: createModel(name),
+  }));
+  const primary = candidates[0].model;
+
+  return {
+    specificationVersion: 'v2',
+    provider: primary.provider,
+    modelId: primary.modelId,
+    supportedUrls: primary.supportedUrls,
+    doGenerate(options) {
+      return callWithFallback(candidates, options.abortSignal, (model) => model.doGenerate(options));
+    },
+    doStream(options) {
+      return callWithFallback(candidates, options.abortSignal, (model) => model.doStream(options));
+    },
+  };
+}
@@ -0,0 +1,25 @@
+/**
+ * Model Resilience Module
+ *
+ * Fallback chains of model slots, retries of transient errors and per-provider circuit breakers
+ */
+
+export {
+  MODEL_RESILIENCE_CONFIG,
+  canCallProvider,
+  getBreakerStatuses,
+  getFallbackEvents,
+  recordFallbackEvent,
+  recordProviderFailure,
+  recordProviderSuccess,
+  resetCircuitBreakers,
+} from './circuit-breaker';
+export type { BreakerState, FallbackEvent, FallbackEventType, ProviderBreakerStatus } from './circuit-breaker';
+export {
+  ModelFallbackError,
+  createFallbackModel,
+  getModelProvider,
+  isTransientModelError,
+  toModelList,
+} from './fallback-model';
+export type { ModelSpec } from './fallback-model';
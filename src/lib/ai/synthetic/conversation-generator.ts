@@ -6,8 +6,18 @@
 
 import { UserSimulator } from './user-simulator';
 import { mainGuidelinesWorkflow } from '../workflows/main-guidelines-workflow';
+import { mainGuidelinesWorkflow as mainGuidelinesCascadeWorkflow } from '../workflows/main-guidelines-cascade-workflow';
+import { mainGuidelinesSimpleWorkflow } from '../workflows/main-guidelines-direct-workflow';
 import type { ConversationScenario } from '../scenarios';
 
+export type SyntheticWorkflow = 'legacy' | 'cascade' | 'direct';
+
+const WORKFLOWS = {
+  legacy: mainGuidelinesWorkflow,
+  cascade: mainGuidelinesCascadeWorkflow,
+  direct: mainGuidelinesSimpleWorkflow,
+};
+
 export interface SyntheticMessage {
   role: 'user' | 'assistant';
   content: string;
@@ -15,6 +25,7 @@ export interface SyntheticMessage {
   metadata?: {
     selectedGuidelines?: string[];
     executedAgents?: number;
+    toolsExecuted?: string[];
     errors?: string;
   };
 }
@@ -45,10 +56,12 @@ export interface SyntheticConversation {
 export class ConversationGenerator {
   private uid: string;
   private maxTurns: number;
+  private workflow: SyntheticWorkflow;
 
-  constructor(uid: string, maxTurns: number = 6) {
+  constructor(uid: string, maxTurns: number = 6, workflow: SyntheticWorkflow = 'legacy') {
     this.uid = uid;
     this.maxTurns = maxTurns; // Reduced from 10 to 6 for faster generation
+    this.workflow = workflow;
   }
 
   /**
@@ -92,7 +105,7 @@ export class ConversationGenerator {
     for (let turn = 0; turn < this.maxTurns; turn++) {
       try {
         // Get agent response
-        const agentResult = await mainGuidelinesWorkflow(this.uid, session, {
+        const agentResult = await WORKFLOWS[this.workflow](this.uid, session, {
           userPhone,
           message: messages[messages.length - 1].content,
           userName: userProfile.name
@@ -108,6 +121,7 @@ export class ConversationGenerator {
         if (agentResult.metadata?.selectedGuidelines) {
           agentResult.metadata.selectedGuidelines.forEach(g => guidelinesActivated.add(g));
         }
+        agentResult.metadata?.toolsExecuted?.forEach(t => toolsAttempted.add(t));
 
         messages.push({
           role: 'assistant',
@@ -221,17 +235,9 @@ export class ConversationGenerator {
    * Evaluate if conversation was successful based on messages
    */
   private evaluateSuccess(messages: SyntheticMessage[], scenario: ConversationScenario): boolean {
-    // If scenario shouldn't succeed, check it failed appropriately
+    // Scenarios that shouldn't succeed never reach the goal (scorecards compare success with shouldSucceed)
     if (!scenario.shouldSucceed) {
-      // Check that agent handled failure gracefully
-      const lastAgentMessage = messages.filter(m => m.role === 'assistant').pop();
-      if (!lastAgentMessage) return false;
-
-      const message = lastAgentMessage.content.toLowerCase();
-      return message.includes('lament') ||
-             message.includes('disculp') ||
-             message.includes('alternativ') ||
-             message.includes('ayud');
+      return false;
     }
 
     // Check if expected guidelines were activated
@@ -8,7 +8,7 @@ import {
 import { getUserConfig } from "../../db/repositories/users";
 import { saveConversationMessage, saveMultimaiMessage, getRecentUserMessages } from "../../db/repositories/conversations";
 import { db } from "../../db/firebase";
-import { wsProxyClient } from "../../other/wsProxyClient";
+import { getPlatformChannel } from "../../channels";
 import { propertyVisits } from "../../db/constants";
 import { getPropertyById } from "../../db/repositories/properties";
 import { retrievalRAG } from "../../db/repositories/rag";
@@ -18,6 +18,9 @@ import { AI_CONFIG } from "../../ai/config";
 import { cacheFn, cacheSearchFn } from "../../cache";
 import { Propiedad } from "../../db/types";
 import { IExecutionContext } from "../../utils/execution-context";
+import { getCustomerSearchOrigin } from "../../db/repositories/customers";
+import { formatBusinessTime, getEscalationHoldUntil } from "../../utils/business-hours";
+import { holdEscalation } from "../../queues/held-escalation-queue";
 
 // Cache para resultados de búsqueda
 const searchResultsCache = new Map<string, string>();
@@ -510,6 +513,7 @@ async function executeRAGSearchInternal(
   if (params.tipo_operacion) userQueryParts.push(`${params.tipo_operacion}`);
   if (params.tipo_propiedad) userQueryParts.push(`${params.tipo_propiedad}`);
   if (params.ubicacion) userQueryParts.push(`en ${params.ubicacion}`);
+  if (params.origen) userQueryParts.push('cerca de la ubicación compartida por el usuario');
   if (params.precio) userQueryParts.push(`precio ${params.precio.join(' a ')}`);
   if (params.ambientes) userQueryParts.push(`${params.ambientes} ambientes`);
   if (params.otro) userQueryParts.push(params.otro);
@@ -591,8 +595,25 @@ export const searchPropertiesRAGTool = (uid: string, userPhone: string) =>
         .optional()
         .nullable()
         .describe("Cualquier otra característica o descripción en lenguaje natural"),
+      cerca_de_mi_ubicacion: z
+        .boolean()
+        .optional()
+        .nullable()
+        .describe("true si el usuario pide propiedades cerca de donde está (\"cerca de donde estoy\", \"cerca mío\"). Usa como origen la ubicación que compartió por WhatsApp"),
     }),
-    execute: async (params) => {
+    execute: async ({ cerca_de_mi_ubicacion, ...searchParams }) => {
+      // Shared location pin: used as distance origin when requested or when no location was given
+      let params: typeof searchParams & { origen?: string } = searchParams;
+      if (cerca_de_mi_ubicacion || !searchParams.ubicacion) {
+        const sharedLocation = await getCustomerSearchOrigin(uid, userPhone);
+        if (sharedLocation) {
+          // Rounded to ~100m so the pin is part of the cache key and tag
+          params = { ...searchParams, origen: `${sharedLocation.lat.toFixed(3)},${sharedLocation.lng.toFixed(3)}` };
+        } else if (cerca_de_mi_ubicacion && !searchParams.ubicacion) {
+          return 'El usuario no compartió su ubicación en esta conversación. Pedile que la comparta desde WhatsApp (📎 > Ubicación) o que indique una zona o barrio.';
+        }
+      }
+
       try {
         // Generate tags based on search parameters
         const tags: string[] = ['properties', 'rag-search-tool', `user:${uid}`];
@@ -609,6 +630,9 @@ export const searchPropertiesRAGTool = (uid: string, userPhone: string) =>
         if (params.ambientes) {
           tags.push(`ambientes:${params.ambientes}`);
         }
+        if (params.origen) {
+          tags.push(`origen:${params.origen}`);
+        }
 
         // Use flexible cache for search with similar parameter matching
         const result = await cacheSearchFn(
@@ -621,6 +645,7 @@ export const searchPropertiesRAGTool = (uid: string, userPhone: string) =>
             prefix: 'tool-rag',
             fuzzyMatch: true, // Enable fuzzy matching
             similarityThreshold: 0.85, // 85% similarity for cache hit
+            exactMatchKeys: ['origen'], // A different pin is a different search
             paramsExtractor: (args) => args[2], // Extract params (third argument)
           }
         );
@@ -796,6 +821,7 @@ export const getTodayDateTool = () =>
 
 // Tool: get_help
 // Now accepts optional ExecutionContext for deferred message sending
+// Out of business hours the message to the owner is held until opening
 export const getHelpTool = (
   uid: string, 
   userPhone: string, 
@@ -823,6 +849,7 @@ export const getHelpTool = (
 
         const reportsNumber = userConfig.config.reportsNumber;
         const multimaiSession = process.env.MULTIMAI_WS_SESSION;
+        const holdUntil = getEscalationHoldUntil(userConfig.config.businessHours);
 
         console.log("[getHelpTool] Iniciando solicitud de ayuda humana");
         console.log("[getHelpTool] Pregunta:", question);
@@ -856,6 +883,7 @@ export const getHelpTool = (
           },
           workflowStatus: "pending",
           timestamp: new Date(),
+          heldUntil: holdUntil,
         };
 
         const requestRef = await db
@@ -871,6 +899,24 @@ export const getHelpTool = (
         // Save tool execution context (this happens immediately for history)
         await saveConversationMessage(uid, userPhone, 'system', `tool executed: get_help - message to owner: ${messageToOwner}`, undefined, true);
 
+        // Out of hours the message is held in the queue instead of sent
+        const notifyOwner = async () => {
+          if (holdUntil) {
+            await holdEscalation({
+              uid,
+              requestId,
+              customerPhone: userPhone,
+              messageToOwner,
+              heldAt: new Date().toISOString(),
+            }, holdUntil);
+            return;
+          }
+
+          await getPlatformChannel().sendText({ chatId: reportsNumber, session: multimaiSession }, messageToOwner);
+
+          await saveMultimaiMessage(userPhone, 'assistant', messageToOwner);
+        };
+
         // DEFERRED: Send message to owner - only executes if processing completes
         // If an ExecutionContext is provided, defer the message sending
         // This prevents duplicate messages if the execution is aborted
@@ -881,20 +927,7 @@ export const getHelpTool = (
           executionContext.addPendingAction(async () => {
             console.log("[getHelpTool] 📨 Executing deferred: Sending message to owner");
             
-            await wsProxyClient.post(`/ws/send-message`, {
-              chatId: reportsNumber,
-              session: multimaiSession,
-              messages: [
-                {
-                  type: "text",
-                  payload: {
-                    content: messageToOwner,
-                  },
-                },
-              ],
-            });
-
-            await saveMultimaiMessage(userPhone, 'assistant', messageToOwner);
+            await notifyOwner();
             
             console.log(
               "[getHelpTool] ✅ Deferred message sent to owner. Request ID:",
@@ -905,20 +938,7 @@ export const getHelpTool = (
           // No ExecutionContext - send immediately (backward compatibility)
           console.log("[getHelpTool] 📨 Sending message to owner immediately (no context)");
           
-          await wsProxyClient.post(`/ws/send-message`, {
-            chatId: reportsNumber,
-            session: multimaiSession,
-            messages: [
-              {
-                type: "text",
-                payload: {
-                  content: messageToOwner,
-                },
-              },
-            ],
-          });
-
-          await saveMultimaiMessage(userPhone, 'assistant', messageToOwner);
+          await notifyOwner();
 
           console.log(
             "[getHelpTool] ✅ Mensaje enviado al dueño. Request ID:",
@@ -926,6 +946,16 @@ export const getHelpTool = (
           );
         }
 
+        if (holdUntil) {
+          const opening = formatBusinessTime(holdUntil, userConfig.config.businessHours.timezone);
+          return JSON.stringify({
+            success: true,
+            requestId: requestId,
+            heldUntil: holdUntil.toISOString(),
+            message: `Ok, le consulto al dueño. Ahora estamos fuera del horario de atención, así que le llega cuando abramos (el ${opening}) y te aviso en cuanto me responda. ¿Hay algo más en lo que pueda ayudarte mientras tanto?`,
+          });
+        }
+
         // Return response immediately (message sending is deferred)
         return JSON.stringify({
           success: true,
@@ -1579,18 +1609,7 @@ export const askForAvailabilityTool = (
         await saveMultimaiMessage(userPhone, "assistant", requestMessage);
         // await saveConversationMessage(uid, userPhone, 'assistant', `tool executed: ask_for_availability - request message: ${requestMessage}`);
 
-        await wsProxyClient.post(`/ws/send-message`, {
-          chatId: reportsNumber,
-          session: multimaiSession,
-          messages: [
-            {
-              type: "text",
-              payload: {
-                content: requestMessage,
-              },
-            },
-          ],
-        });
+        await getPlatformChannel().sendText({ chatId: reportsNumber, session: multimaiSession }, requestMessage);
 
         console.log(
           "[askForAvailabilityTool] ✅ Mensaje enviado al dueño. Request ID:",
@@ -2025,18 +2044,7 @@ export const logFeedbackTool = (
               true
             );
 
-            await wsProxyClient.post(`/ws/send-message`, {
-              chatId: reportsNumber,
-              session: multimaiSession,
-              messages: [
-                {
-                  type: "text",
-                  payload: {
-                    content: messageToOwner,
-                  },
-                },
-              ],
-            });
+            await getPlatformChannel().sendText({ chatId: reportsNumber, session: multimaiSession }, messageToOwner);
 
             await saveMultimaiMessage(userPhone, "assistant", messageToOwner);
             
@@ -2055,18 +2063,7 @@ export const logFeedbackTool = (
             true
           );
 
-          await wsProxyClient.post(`/ws/send-message`, {
-            chatId: reportsNumber,
-            session: multimaiSession,
-            messages: [
-              {
-                type: "text",
-                payload: {
-                  content: messageToOwner,
-                },
-              },
-            ],
-          });
+          await getPlatformChannel().sendText({ chatId: reportsNumber, session: multimaiSession }, messageToOwner);
 
           await saveMultimaiMessage(userPhone, "assistant", messageToOwner);
 
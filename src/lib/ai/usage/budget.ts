@@ -0,0 +1,144 @@
+/**
+ * LLM Budgets
+ *
+ * Monthly budget of estimated LLM spend per account, taken from its subscription plan
+ * (PADDLE_PLANS limits.monthlyLLMBudgetUsd, -1 = unlimited)
+ * When an account goes over budget the agent stops answering until the next month
+ * and the owner is notified once through the reports number
+ */
+
+import { cacheGet, cacheSet } from '../../cache/cache-manager';
+import { getRedisClient } from '../../cache/redis-client';
+import { PADDLE_PLANS, PlanId } from '../../../config/paddle';
+import { subscriptionsRepository } from '../../db/repositories/subscriptions';
+import { getMonthlyLLMUsage } from '../../db/repositories/llm-usage';
+import { getUserConfig } from '../../db/repositories/users';
+import { getPlatformChannel } from '../../channels';
+import { getUsageMonth } from './usage-tracker';
+
+export const LLM_BUDGET_CONFIG = {
+  ENFORCED: process.env.LLM_BUDGET_ENFORCED !== 'false',
+  KEY_PREFIX: 'llm-budget:',
+  // Budget of accounts without a paid plan (free trial)
+  DEFAULT_MONTHLY_BUDGET_USD: 5,
+  // The spend is re-read at most once per minute while answering messages
+  SPEND_CACHE_TTL_SECONDS: 60,
+  PLAN_CACHE_TTL_SECONDS: 5 * 60,
+  // The owner is notified once per month
+  NOTICE_TTL_SECONDS: 32 * 24 * 60 * 60,
+} as const;
+
+export interface LLMBudgetStatus {
+  month: string; // "YYYY-MM"
+  planId: string;
+  limitUsd: number | null; // null = unlimited
+  spentUsd: number;
+  remainingUsd: number | null;
+  percentUsed: number | null; // 0-100+
+  exceeded: boolean;
+}
+
+/**
+ * Plan the budget is taken from: the subscription plan while it is active (or trialing),
+ * free_trial once it was canceled, paused, past due or its period ended
+ */
+async function getAccountPlanId(uid: string): Promise<string> {
+  const cacheKey = `${LLM_BUDGET_CONFIG.KEY_PREFIX}plan:${uid}`;
+  const cachedPlanId = await cacheGet<string>(cacheKey).catch(() => null);
+  if (cachedPlanId) {
+    return cachedPlanId;
+  }
+
+  const [subscription, isActive] = await Promise.all([
+    subscriptionsRepository.getSubscription(uid),
+    subscriptionsRepository.hasActiveSubscription(uid),
+  ]);
+  const planId = isActive && subscription?.planId ? subscription.planId : 'free_trial';
+  await cacheSet(cacheKey, planId, { ttl: LLM_BUDGET_CONFIG.PLAN_CACHE_TTL_SECONDS }).catch(() => {});
+  return planId;
+}
+
+/**
+ * Monthly budget of a plan in USD (null = unlimited)
+ */
+export function getPlanLLMBudget(planId: string): number | null {
+  const plan = PADDLE_PLANS[planId as PlanId];
+  const budget = plan ? plan.limits.monthlyLLMBudgetUsd : LLM_BUDGET_CONFIG.DEFAULT_MONTHLY_BUDGET_USD;
+  return budget < 0 ? null : budget;
+}
+
+/**
+ * Budget and spend of an account in a month
+ * @param spentUsd - Spend already known (otherwise read from the monthly usage)
+ */
+export async function getLLMBudgetStatus(uid: string, month: string = getUsageMonth(), spentUsd?: number): Promise<LLMBudgetStatus> {
+  const planId = await getAccountPlanId(uid);
+  const limitUsd = getPlanLLMBudget(planId);
+  const spent = spentUsd ?? (await getMonthlyLLMUsage(uid, month))?.cost ?? 0;
+
+  return {
+    month,
+    planId,
+    limitUsd,
+    spentUsd: spent,
+    remainingUsd: limitUsd === null ? null : Math.max(0, limitUsd - spent),
+    percentUsed: limitUsd === null ? null : limitUsd > 0 ? (spent / limitUsd) * 100 : 100,
+    exceeded: limitUsd !== null && spent >= limitUsd,
+  };
+}
+
+/**
+ * Whether the agent of an account must stop answering for the rest of the month
+ * Fails open: if the spend cannot be read the message is answered
+ */
+export async function isLLMBudgetExceeded(uid: string): Promise<boolean> {
+  if (!LLM_BUDGET_CONFIG.ENFORCED) {
+    return false;
+  }
+
+  try {
+    const month = getUsageMonth();
+    const cacheKey = `${LLM_BUDGET_CONFIG.KEY_PREFIX}spent:${uid}:${month}`;
+    let spentUsd = await cacheGet<number>(cacheKey).catch(() => null);
+    if (spentUsd === null) {
+      spentUsd = (await getMonthlyLLMUsage(uid, month))?.cost ?? 0;
+      await cacheSet(cacheKey, spentUsd, { ttl: LLM_BUDGET_CONFIG.SPEND_CACHE_TTL_SECONDS }).catch(() => {});
+    }
+
+    return (await getLLMBudgetStatus(uid, month, spentUsd)).exceeded;
+  } catch (error) {
+    console.error('[LLMBudget] ❌ Error checking budget (message answered):', error);
+    return false;
+  }
+}
+
+/**
+ * Notifies the owner that the agent stopped answering, once per month
+ */
+export async function notifyLLMBudgetExceeded(uid: string): Promise<void> {
+  const month = getUsageMonth();
+  console.log(`[LLMBudget] 🚫 Monthly LLM budget exceeded for ${uid} (${month})`);
+
+  try {
+    const noticeKey = `${LLM_BUDGET_CONFIG.KEY_PREFIX}notice:${uid}:${month}`;
+    const claimed = await getRedisClient().set(noticeKey, Date.now().toString(), 'EX', LLM_BUDGET_CONFIG.NOTICE_TTL_SECONDS, 'NX');
+    if (claimed !== 'OK') {
+      return;
+    }
+
+    const userConfig = await getUserConfig(uid);
+    const reportsNumber = userConfig?.config.reportsNumber;
+    if (!reportsNumber) {
+      console.log(`[LLMBudget] ⚠️ No reports number for ${uid}, budget notice not sent`);
+      return;
+    }
+
+    await getPlatformChannel().sendText(
+      { chatId: reportsNumber, session: process.env.MULTIMAI_WS_SESSION },
+      '⚠️ Tu cuenta alcanzó el límite mensual de uso de IA de tu plan. El agente no responderá mensajes nuevos hasta el próximo mes.\n\nPodés mejorar tu plan desde la plataforma para seguir respondiendo.'
+    );
+    console.log(`[LLMBudget] 📨 Owner of ${uid} notified of exceeded budget`);
+  } catch (error) {
+    console.error('[LLMBudget] ❌ Error notifying exceeded budget:', error);
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * LLM Usage Module
+ *
+ * Token and estimated cost accounting of LLM calls per account and execution, and monthly budgets
+ */
+
+export {
+  getUsageContext,
+  runWithUsageContext,
+  withUsageComponent,
+} from './usage-context';
+export type { LLMComponent, LLMUsageContext } from './usage-context';
+export {
+  LLM_USAGE_CONFIG,
+  getUsageMonth,
+  trackLLMUsage,
+  trackEmbeddingUsage,
+  withUsageTracking,
+} from './usage-tracker';
+export { LLM_PRICING, DEFAULT_MODEL_PRICING, estimateLLMCost, getModelPricing } from './pricing';
+export type { ModelPricing } from './pricing';
+export {
+  LLM_BUDGET_CONFIG,
+  getPlanLLMBudget,
+  getLLMBudgetStatus,
+  isLLMBudgetExceeded,
+  notifyLLMBudgetExceeded,
+} from './budget';
+export type { LLMBudgetStatus } from './budget';
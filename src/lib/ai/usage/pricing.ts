@@ -0,0 +1,54 @@
+/**
+ * LLM Pricing
+ *
+ * Estimated USD prices per million tokens of the models in AI_CONFIG
+ * List prices of the providers, to be updated when they change or a model is added
+ */
+
+export interface ModelPricing {
+  input: number; // USD per 1M input tokens
+  output: number; // USD per 1M output tokens
+}
+
+export const LLM_PRICING: Record<string, ModelPricing> = {
+  'openai/gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'openai/gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'openai/gpt-5.1-codex-mini': { input: 0.25, output: 2 },
+  'openai/gpt-oss-120b': { input: 0.05, output: 0.25 },
+  'openai/gpt-oss-20b': { input: 0.03, output: 0.15 },
+  'groq/openai/gpt-oss-120b': { input: 0.15, output: 0.6 },
+  'groq/openai/gpt-oss-20b': { input: 0.075, output: 0.3 },
+  'x-ai/grok-4.1-fast': { input: 0.2, output: 0.5 },
+  'x-ai/grok-4-fast': { input: 0.2, output: 0.5 },
+  'deepseek/deepseek-v3.2-speciale': { input: 0.28, output: 0.42 },
+  'google/gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'google/gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+  'text-embedding-3-small': { input: 0.02, output: 0 },
+};
+
+// Models without a price are estimated high rather than free
+export const DEFAULT_MODEL_PRICING: ModelPricing = { input: 1, output: 4 };
+
+const warnedModels = new Set<string>();
+
+export function getModelPricing(model: string): ModelPricing {
+  const pricing = LLM_PRICING[model];
+  if (!pricing) {
+    if (!warnedModels.has(model)) {
+      warnedModels.add(model);
+      console.warn(`[LLMUsage] ⚠️ No pricing for ${model}, using default estimate`);
+    }
+    return DEFAULT_MODEL_PRICING;
+  }
+  return pricing;
+}
+
+/**
+ * Estimated cost in USD of a call
+ */
+export function estimateLLMCost(model: string, inputTokens: number, outputTokens: number): number {
+  const pricing = getModelPricing(model);
+  return (inputTokens * pricing.input + outputTokens * pricing.output) / 1_000_000;
+}
@@ -0,0 +1,64 @@
+/**
+ * LLM Usage Context
+ *
+ * Account, execution and component the LLM calls of the current async context are charged to
+ * - runWithUsageContext sets the account/execution (workflow, conversation close, cron...)
+ * - withUsageComponent tags a model with the component it is used by (planner, writer...)
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { wrapLanguageModel } from 'ai';
+import type { LanguageModel, LanguageModelMiddleware } from 'ai';
+
+export type LLMComponent =
+  | 'planner'
+  | 'classifier'
+  | 'worker'
+  | 'writer'
+  | 'validator'
+  | 'reasoning'
+  | 'context_search'
+  | 'matcher'
+  | 'glossary'
+  | 'composer'
+  | 'rag'
+  | 'lead_analysis'
+  | 'summary'
+  | 'quick_response'
+  | 'opt_out'
+  | 'faq'
+  | 'other';
+
+export interface LLMUsageContext {
+  uid?: string;
+  executionId?: string;
+  component?: LLMComponent;
+}
+
+type LanguageModelInstance = Exclude<LanguageModel, string>;
+
+const usageContextStorage = new AsyncLocalStorage<LLMUsageContext>();
+
+export function getUsageContext(): LLMUsageContext {
+  return usageContextStorage.getStore() || {};
+}
+
+/**
+ * Runs fn charging its LLM calls to the given account/execution/component
+ * Fields not given are inherited from the enclosing context
+ */
+export function runWithUsageContext<T>(context: LLMUsageContext, fn: () => Promise<T>): Promise<T> {
+  return usageContextStorage.run({ ...getUsageContext(), ...context }, fn);
+}
+
+/**
+ * Tags a model so its calls are charged to a component
+ */
+export function withUsageComponent<T extends LanguageModelInstance>(component: LLMComponent, model: T): T | LanguageModelInstance {
+  const middleware: LanguageModelMiddleware = {
+    wrapGenerate: ({ doGenerate }) => runWithUsageContext({ component }, async () => doGenerate()),
+    wrapStream: ({ doStream }) => runWithUsageContext({ component }, async () => doStream()),
+  };
+
+  return wrapLanguageModel({ model, middleware });
+}
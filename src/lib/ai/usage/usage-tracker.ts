@@ -0,0 +1,94 @@
+/**
+ * LLM Usage Tracker
+ *
+ * Records the tokens and estimated cost of every LLM call made through getModel/getOpenRouterModel
+ * (generateText, generateObject, streamText...) and of embeddings, charged to the account and
+ * execution of the current usage context. Calls outside an account context are only logged
+ */
+
+import { wrapLanguageModel } from 'ai';
+import type { LanguageModel, LanguageModelMiddleware } from 'ai';
+import { recordLLMUsage } from '../../db/repositories/llm-usage';
+import { estimateLLMCost } from './pricing';
+import { getUsageContext, type LLMComponent, type LLMUsageContext } from './usage-context';
+
+export const LLM_USAGE_CONFIG = {
+  ENABLED: process.env.LLM_USAGE_TRACKING !== 'false',
+} as const;
+
+type LanguageModelInstance = Exclude<LanguageModel, string>;
+type StreamResult = Awaited<ReturnType<LanguageModelInstance['doStream']>>;
+type StreamPart = StreamResult['stream'] extends ReadableStream<infer P> ? P : never;
+
+interface TokenUsage {
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+/**
+ * Month a call is charged to (UTC, "YYYY-MM")
+ */
+export function getUsageMonth(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 7);
+}
+
+/**
+ * Records a call for the account of the context
+ * Not awaited by callers: accounting must never delay or break a response
+ */
+export async function trackLLMUsage(model: string, usage: TokenUsage, context: LLMUsageContext = getUsageContext()): Promise<void> {
+  const inputTokens = usage.inputTokens || 0;
+  const outputTokens = usage.outputTokens || 0;
+  const component = context.component || 'other';
+  const cost = estimateLLMCost(model, inputTokens, outputTokens);
+
+  if (!context.uid) {
+    console.log(`[LLMUsage] ${component} ${model}: ${inputTokens}+${outputTokens} tokens (no account context, not recorded)`);
+    return;
+  }
+
+  await recordLLMUsage(context.uid, getUsageMonth(), { component, model, inputTokens, outputTokens, cost }, context.executionId);
+}
+
+/**
+ * Wraps a model so the usage of its calls is recorded
+ */
+export function withUsageTracking<T extends LanguageModelInstance>(modelName: string, model: T): T | LanguageModelInstance {
+  if (!LLM_USAGE_CONFIG.ENABLED) {
+    return model;
+  }
+
+  const middleware: LanguageModelMiddleware = {
+    wrapGenerate: async ({ doGenerate }) => {
+      const result = await doGenerate();
+      void trackLLMUsage(modelName, result.usage);
+      return result;
+    },
+    wrapStream: async ({ doStream }) => {
+      // Captured now: the stream is consumed outside the async context of the call
+      const context = getUsageContext();
+      const { stream, ...rest } = await doStream();
+
+      const capture = new TransformStream<StreamPart, StreamPart>({
+        transform(part, controller) {
+          if (part.type === 'finish') {
+            void trackLLMUsage(modelName, part.usage, context);
+          }
+          controller.enqueue(part);
+        },
+      });
+
+      return { stream: stream.pipeThrough(capture), ...rest };
+    },
+  };
+
+  return wrapLanguageModel({ model, middleware });
+}
+
+/**
+ * Records the tokens of an embed/embedMany call
+ * Embedding models are not created through getModel, so callers report their usage
+ */
+export function trackEmbeddingUsage(component: LLMComponent, model: string, tokens: number): void {
+  void trackLLMUsage(model, { inputTokens: tokens, outputTokens: 0 }, { ...getUsageContext(), component });
+}
@@ -7,10 +7,12 @@
  * Each worker has its own validator using guideline-based validation criteria.
  */
 
+import { randomUUID } from "crypto";
 import { ChatConfig } from "../../utils/validation";
 import { saveConversationMessage } from "../../db/repositories/conversations";
 import { GuidelineAgent } from "../guideline-agent";
-import { multimaiGuidelines } from "../guidelines/multimai-guidelines";
+import { getAccountGuidelines } from "../guidelines/custom-guidelines";
+import { getGuidelineVersion } from "../guidelines/guideline-versions";
 import { realEstateGlossary } from "../glossary/real-estate-terms";
 import {
   searchPropertiesRAGTool,
@@ -34,6 +36,8 @@ import {
   ensureCustomer,
   ensureUserConfig,
   saveMessages,
+  resolveQuotedReplies,
+  detectConversationLanguage,
   determineMessageToProcess,
   getConversationContext,
   getExecutionContextSummary
@@ -41,13 +45,17 @@ import {
 import { getUserContextDocuments } from '../../db/repositories/user-documents';
 import { generateDynamicGuidelines, mergeGuidelines } from '../guidelines/dynamic-guidelines';
 import { ContextSearchAgent, type ContextSearchResult } from '../micro-agents/context-search-agent';
-import { AgentConfigData, AgentBusinessData } from "../../db/types";
+import { AgentConfigData, AgentBusinessData, ConversationLanguage, QuotedMessageReference } from "../../db/types";
+import { LANGUAGE_NAMES } from "../../utils/language";
+import { getBusinessHoursContextVariables } from "../../utils/business-hours";
 import { ExecutionContext, createNoOpExecutionContext, IExecutionContext } from '../../utils/execution-context';
 
 // Cascade Architecture Imports
 import { CascadeOrchestrator } from '../cascade/orchestrator';
+import { recordCascadeTrace } from '../cascade/trace';
 import type { WorkerExecutionContext } from '../cascade/types';
 import { loadConversationForLLM } from "../context";
+import type { MessagingChannel } from "../../channels";
 
 export interface WorkflowResult {
   message: string;
@@ -56,12 +64,25 @@ export interface WorkflowResult {
   metadata?: {
     selectedGuidelines: string[];
     executedAgents: number;
+    toolsExecuted?: string[];
     errors?: string;
   };
 }
 
 export interface WorkflowContext {
   isFromActivateAgent?: boolean;
+  /**
+   * Channel the customer is talking through, when it is not the account channel (e.g. web chat)
+   */
+  channel?: MessagingChannel;
+  /**
+   * Receives the response as it is written, used when AI_CONFIG.ENABLE_STREAMING is on
+   */
+  onResponseDelta?: (delta: string) => void;
+  /**
+   * Built-in guideline set to run with (see GUIDELINE_VERSIONS), set by experiment variants
+   */
+  guidelineVersion?: string;
 }
 
 /**
@@ -176,7 +197,9 @@ function registerContextVariables(
   agent: GuidelineAgent,
   customerName: string,
   customerPhone: string,
-  userConfig: { config: AgentConfigData; business: AgentBusinessData }
+  userConfig: { config: AgentConfigData; business: AgentBusinessData },
+  quotedReplies: Map<string, QuotedMessageReference> = new Map(),
+  language: ConversationLanguage = 'es'
 ): void {
   
   agent.registerVariable(
@@ -230,6 +253,32 @@ function registerContextVariables(
     );
   }
 
+  // Schedule and open/closed status, resolved on each message
+  const businessHoursVariables = getBusinessHoursContextVariables(userConfig.config.businessHours);
+  for (const [name, value] of Object.entries(businessHoursVariables)) {
+    agent.registerVariable(name, () => value);
+  }
+
+  if (language !== 'es') {
+    agent.registerVariable(
+      'idioma_cliente',
+      () => `El cliente escribe en ${LANGUAGE_NAMES[language]}. La respuesta final se redacta en ese idioma, pero las búsquedas y herramientas se usan en español`
+    );
+  }
+
+  // Properties of the messages the user replied to, so "esta" resolves without asking again
+  const quotedPropertyIds = [...new Set(
+    [...quotedReplies.values()].map(quoted => quoted.propertyId).filter((id): id is string => Boolean(id))
+  )];
+  if (quotedPropertyIds.length > 0) {
+    agent.registerVariable(
+      'propiedad_citada',
+      () => quotedPropertyIds.length === 1
+        ? `El usuario respondió citando un mensaje sobre la propiedad con property_id: ${quotedPropertyIds[0]}. Cuando habla de "esta" propiedad se refiere a ella, no le preguntes cuál es`
+        : `El usuario respondió citando mensajes sobre las propiedades con property_id: ${quotedPropertyIds.join(', ')}`
+    );
+  }
+
   console.log('[Workflow] Registered context variables');
 }
 
@@ -278,8 +327,9 @@ export async function mainGuidelinesWorkflow(
     return null;
   }
 
-  // ========== STEP 4: Save Messages ==========
-  await saveMessages(uid, userPhone, body, executionId);
+  // ========== STEP 4: Resolve Quoted Replies and Save Messages ==========
+  const quotedReplies = await resolveQuotedReplies(uid, userPhone, body);
+  await saveMessages(uid, userPhone, body, executionId, quotedReplies);
 
   // Check if aborted after saving messages
   if (execCtx.isAborted()) {
@@ -287,13 +337,16 @@ export async function mainGuidelinesWorkflow(
     return null;
   }
 
+  // Language of the conversation, stored so reminders and notifications use it too
+  const language = await detectConversationLanguage(uid, userPhone, body);
+
   // ========== STEP 5: Get Conversation Context ==========
   const conversationContext = await loadConversationForLLM(uid, userPhone);
 
   // ========== STEP 6: Quick Response (if not from activate agent) ==========
   if (!workflowContext.isFromActivateAgent) {
     // Fire and forget - don't wait
-    quickResponser(uid, userPhone, session, conversationContext.messages)
+    quickResponser(uid, userPhone, session, conversationContext.messages, workflowContext.channel, language)
       .catch(error => console.error("[Workflow] Quick responder error:", error));
   }
 
@@ -301,8 +354,10 @@ export async function mainGuidelinesWorkflow(
   const messageToProcess = determineMessageToProcess(body);
 
   // ========== STEP 8: Create Guideline Agent ==========
+  // Built-in guidelines with the account overrides and custom guidelines applied
+  const accountGuidelines = await getAccountGuidelines(uid, getGuidelineVersion(workflowContext.guidelineVersion));
   const agent = new GuidelineAgent(
-    multimaiGuidelines,
+    accountGuidelines,
     realEstateGlossary,
     {
       streaming: AI_CONFIG?.ENABLE_STREAMING ?? false,
@@ -315,7 +370,7 @@ export async function mainGuidelinesWorkflow(
   // ========== STEP 9: Register Tools and Variables ==========
   // Pass executionContext to tools that support deferred actions (like getHelpTool)
   registerTools(agent, uid, userPhone, userName, execCtx);
-  registerContextVariables(agent, userName, userPhone, userConfig);
+  registerContextVariables(agent, userName, userPhone, userConfig, quotedReplies, language);
 
   // ========== STEP 10: Load User Documents and Generate Dynamic Guidelines ==========
   console.log('[Workflow] Loading user context documents...');
@@ -327,7 +382,7 @@ export async function mainGuidelinesWorkflow(
   console.log(`[Workflow] Generated ${dynamicGuidelines.length} dynamic guidelines`);
 
   // Merge static and dynamic guidelines
-  const allGuidelines = mergeGuidelines(multimaiGuidelines, dynamicGuidelines);
+  const allGuidelines = mergeGuidelines(accountGuidelines, dynamicGuidelines);
 
   // Update agent with merged guidelines
   (agent as any).guidelines = allGuidelines;
@@ -404,7 +459,10 @@ export async function mainGuidelinesWorkflow(
     maxWriterRetries: AI_CONFIG?.CASCADE?.MAX_WRITER_RETRIES ?? 2,
     workerTimeout: AI_CONFIG?.CASCADE?.WORKER_TIMEOUT_MS ?? 30000,
     parallelExecution: AI_CONFIG?.CASCADE?.ENABLE_PARALLEL_WORKERS ?? true,
-    styleValidationEnabled: AI_CONFIG?.CASCADE?.ENABLE_STYLE_VALIDATION ?? true
+    styleValidationEnabled: AI_CONFIG?.CASCADE?.ENABLE_STYLE_VALIDATION ?? true,
+    onResponseDelta: AI_CONFIG?.ENABLE_STREAMING ? workflowContext.onResponseDelta : undefined,
+    language,
+    contextDocuments: userDocuments
   });
 
   // Execute the cascade workflow
@@ -421,6 +479,7 @@ export async function mainGuidelinesWorkflow(
     metadata: {
       selectedGuidelines: cascadeResult.metadata?.executedGuidelines || [],
       executedAgents: cascadeResult.metadata?.workerResults?.length || 0,
+      toolsExecuted: cascadeResult.metadata?.workerResults?.flatMap(r => r.toolsExecuted.map(t => t.toolName)) || [],
       plannerReasoning: cascadeResult.metadata?.plan?.reasoning,
       classification: cascadeResult.metadata?.classification?.classification,
       writerIterations: cascadeResult.metadata?.writerIterations,
@@ -446,7 +505,9 @@ export async function mainGuidelinesWorkflow(
     return null;
   }
 
-  await saveConversationMessage(
+  // The trace of the execution is keyed by its id (random when there is no execution context)
+  const traceId = executionId ?? randomUUID();
+  const savedMessage = await saveConversationMessage(
     uid, 
     userPhone, 
     'assistant', 
@@ -454,9 +515,23 @@ export async function mainGuidelinesWorkflow(
     undefined, // messageId
     undefined, // isContext
     undefined, // customerName
-    executionId // executionId for rollback
+    executionId, // executionId for rollback
+    { traceId }
   );
 
+  // Not awaited: storing the trace must not delay the response
+  void recordCascadeTrace(uid, {
+    traceId,
+    phone: userPhone,
+    executionId,
+    conversationId: savedMessage.conversationId,
+    messageId: savedMessage.messageDocId,
+    userMessage: messageToProcess,
+    activeGuidelines: activeGuidelines.map((g: any) => g.guideline.id),
+    matching: matcher.getLastMatchStats(),
+    result: cascadeResult,
+  });
+
   console.log("========== GUIDELINES CASCADE WORKFLOW END ==========\n");
 
   return {
@@ -11,7 +11,8 @@
 import { ChatConfig } from "../../utils/validation";
 import { saveConversationMessage } from "../../db/repositories/conversations";
 import { GuidelineAgent } from "../guideline-agent";
-import { multimaiGuidelines } from "../guidelines/multimai-guidelines";
+import { getAccountGuidelines } from "../guidelines/custom-guidelines";
+import { getGuidelineVersion } from "../guidelines/guideline-versions";
 import { realEstateGlossary } from "../glossary/real-estate-terms";
 import {
   searchPropertiesRAGTool,
@@ -41,6 +42,7 @@ import { getUserContextDocuments } from '../../db/repositories/user-documents';
 import { generateDynamicGuidelines, mergeGuidelines } from '../guidelines/dynamic-guidelines';
 import { ContextSearchAgent, type ContextSearchResult } from '../micro-agents/context-search-agent';
 import { AgentConfigData, AgentBusinessData } from "../../db/types";
+import { getBusinessHoursContextVariables } from "../../utils/business-hours";
 import { createNoOpExecutionContext, IExecutionContext } from '../../utils/execution-context';
 
 // Direct Architecture Imports
@@ -55,12 +57,17 @@ export interface WorkflowResult {
   metadata?: {
     selectedGuidelines: string[];
     executedAgents: number;
+    toolsExecuted?: string[];
     errors?: string;
   };
 }
 
 export interface WorkflowContext {
   isFromActivateAgent?: boolean;
+  /**
+   * Built-in guideline set to run with (see GUIDELINE_VERSIONS), set by experiment variants
+   */
+  guidelineVersion?: string;
 }
 
 /**
@@ -229,6 +236,12 @@ function registerContextVariables(
     );
   }
 
+  // Schedule and open/closed status, resolved on each message
+  const businessHoursVariables = getBusinessHoursContextVariables(userConfig.config.businessHours);
+  for (const [name, value] of Object.entries(businessHoursVariables)) {
+    agent.registerVariable(name, () => value);
+  }
+
   console.log('[Workflow] Registered context variables');
 }
 
@@ -300,8 +313,10 @@ export async function mainGuidelinesSimpleWorkflow(
   const messageToProcess = determineMessageToProcess(body);
 
   // ========== STEP 8: Create Guideline Agent ==========
+  // Built-in guidelines with the account overrides and custom guidelines applied
+  const accountGuidelines = await getAccountGuidelines(uid, getGuidelineVersion(workflowContext.guidelineVersion));
   const agent = new GuidelineAgent(
-    multimaiGuidelines,
+    accountGuidelines,
     realEstateGlossary,
     {
       streaming: AI_CONFIG?.ENABLE_STREAMING ?? false,
@@ -326,7 +341,7 @@ export async function mainGuidelinesSimpleWorkflow(
   console.log(`[Workflow] Generated ${dynamicGuidelines.length} dynamic guidelines`);
 
   // Merge static and dynamic guidelines
-  const allGuidelines = mergeGuidelines(multimaiGuidelines, dynamicGuidelines);
+  const allGuidelines = mergeGuidelines(accountGuidelines, dynamicGuidelines);
 
   // Update agent with merged guidelines
   (agent as any).guidelines = allGuidelines;
@@ -6,7 +6,8 @@
 import { ChatConfig } from "../../utils/validation";
 import { saveConversationMessage } from "../../db/repositories/conversations";
 import { GuidelineAgent } from "../guideline-agent";
-import { multimaiGuidelines } from "../guidelines/multimai-guidelines";
+import { getAccountGuidelines } from "../guidelines/custom-guidelines";
+import { getGuidelineVersion } from "../guidelines/guideline-versions";
 import { realEstateGlossary } from "../glossary/real-estate-terms";
 import {
   searchPropertiesRAGTool,
@@ -39,6 +40,7 @@ import { getUserContextDocuments } from '../../db/repositories/user-documents';
 import { generateDynamicGuidelines, mergeGuidelines } from '../guidelines/dynamic-guidelines';
 import { ContextSearchAgent, type ContextSearchResult } from '../micro-agents/context-search-agent';
 import { AgentConfigData, AgentBusinessData } from "../../db/types";
+import { getBusinessHoursContextVariables } from "../../utils/business-hours";
 import { ExecutionContext, createNoOpExecutionContext, IExecutionContext } from '../../utils/execution-context';
 
 export interface WorkflowResult {
@@ -48,12 +50,17 @@ export interface WorkflowResult {
   metadata?: {
     selectedGuidelines: string[];
     executedAgents: number;
+    toolsExecuted?: string[];
     errors?: string;
   };
 }
 
 export interface WorkflowContext {
   isFromActivateAgent?: boolean;
+  /**
+   * Built-in guideline set to run with (see GUIDELINE_VERSIONS), set by experiment variants
+   */
+  guidelineVersion?: string;
 }
 
 /**
@@ -222,6 +229,12 @@ function registerContextVariables(
     );
   }
 
+  // Schedule and open/closed status, resolved on each message
+  const businessHoursVariables = getBusinessHoursContextVariables(userConfig.config.businessHours);
+  for (const [name, value] of Object.entries(businessHoursVariables)) {
+    agent.registerVariable(name, () => value);
+  }
+
   console.log('[Workflow] Registered context variables');
 }
 
@@ -296,8 +309,10 @@ export async function mainGuidelinesWorkflow(
   const messageToProcess = determineMessageToProcess(body);
 
   // ========== STEP 8: Create Guideline Agent ==========
+  // Built-in guidelines with the account overrides and custom guidelines applied
+  const accountGuidelines = await getAccountGuidelines(uid, getGuidelineVersion(workflowContext.guidelineVersion));
   const agent = new GuidelineAgent(
-    multimaiGuidelines,
+    accountGuidelines,
     realEstateGlossary,
     {
       streaming: AI_CONFIG?.ENABLE_STREAMING ?? false,
@@ -322,7 +337,7 @@ export async function mainGuidelinesWorkflow(
   console.log(`[Workflow] Generated ${dynamicGuidelines.length} dynamic guidelines`);
 
   // Merge static and dynamic guidelines
-  const allGuidelines = mergeGuidelines(multimaiGuidelines, dynamicGuidelines);
+  const allGuidelines = mergeGuidelines(accountGuidelines, dynamicGuidelines);
 
   // Update agent with merged guidelines
   (agent as any).guidelines = allGuidelines;
@@ -498,6 +513,7 @@ export async function mainGuidelinesWorkflow(
     metadata: {
       selectedGuidelines: result.state.activeGuidelines.map((g: any) => g.guideline.id),
       executedAgents: toolExecutions.length,
+      toolsExecuted: toolExecutions.map((execution: any) => execution.toolName),
     },
   };
 }
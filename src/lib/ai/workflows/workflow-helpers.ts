@@ -7,6 +7,9 @@ import { validateAiHasToResponse, ChatConfig } from "../../utils/validation";
 import {
   getCustomerByPhone,
   createCustomer,
+  saveCustomerSharedLocation,
+  getConversationLanguage,
+  saveConversationLanguage,
 } from "../../db/repositories/customers";
 import {
   saveConversationMessage,
@@ -19,7 +22,9 @@ import {
 import { buildConversationContext } from "../../utils/conversation-helpers";
 import { combineMessages } from "../../utils/message-helpers";
 import type { ConversationContext } from "../types/context";
-import type { ConversationMessage } from "../../db/types";
+import type { ConversationLanguage, ConversationMessage, QuotedMessageReference } from "../../db/types";
+import { resolveQuotedReply } from "../../utils/quoted-reply";
+import { LANGUAGE_CONFIG, resolveConversationLanguage } from "../../utils/language";
 import { loadConversationForLLM } from "../context/conversation-loader";
 import type { LLMMessage } from "../context/conversation-loader";
 
@@ -89,15 +94,43 @@ export async function ensureUserConfig(uid: string, session: string) {
   return userConfig;
 }
 
+/**
+ * Resolves the quoted replies of the incoming messages to stored assistant messages
+ * @returns Resolved references keyed by the id of the replying message
+ */
+export async function resolveQuotedReplies(
+  uid: string,
+  userPhone: string,
+  body: ChatConfig
+): Promise<Map<string, QuotedMessageReference>> {
+  const quotedReplies = new Map<string, QuotedMessageReference>();
+
+  for (const msg of body.messages || []) {
+    if (!msg.replyTo && !msg.replyToId) {
+      continue;
+    }
+
+    const quoted = await resolveQuotedReply(uid, userPhone, msg.replyToId, msg.replyTo);
+    if (quoted) {
+      console.log(`[WorkflowHelper] Message ${msg.id} quotes ${quoted.messageDocId || 'a recent message'} (property: ${quoted.propertyId || 'none'})`);
+      quotedReplies.set(msg.id, quoted);
+    }
+  }
+
+  return quotedReplies;
+}
+
 /**
  * Save messages to conversation history
  * @param executionId - Optional execution ID for tracking and potential rollback
+ * @param quotedReplies - Resolved quoted replies (see resolveQuotedReplies), stored with each message
  */
 export async function saveMessages(
   uid: string,
   userPhone: string,
   body: ChatConfig,
-  executionId?: string
+  executionId?: string,
+  quotedReplies?: Map<string, QuotedMessageReference>
 ): Promise<void> {
   const { assistantMessage, messages, message, userName } = body;
 
@@ -132,8 +165,18 @@ export async function saveMessages(
         msg.id,
         undefined, // isContext
         undefined, // customerName
-        executionId
+        executionId,
+        {
+          ...(msg.transcription && { transcription: msg.transcription }),
+          ...(msg.location && { location: msg.location }),
+          ...(quotedReplies?.has(msg.id) && { quoted: quotedReplies.get(msg.id) }),
+        }
       );
+
+      // Location pins become the search origin for the rest of the conversation
+      if (msg.location) {
+        await saveCustomerSharedLocation(uid, userPhone, msg.location);
+      }
     }
   }
   // Save single message (backward compatibility)
@@ -152,6 +195,38 @@ export async function saveMessages(
   }
 }
 
+/**
+ * Detects the language of the incoming messages and keeps it on the conversation
+ * Agent activations (no user message) keep the stored language
+ */
+export async function detectConversationLanguage(
+  uid: string,
+  userPhone: string,
+  body: ChatConfig
+): Promise<ConversationLanguage> {
+  const storedLanguage = await getConversationLanguage(uid, userPhone);
+  const userText = body.messages && body.messages.length > 0
+    ? combineMessages(body.messages.map(m => m.body))
+    : body.message;
+
+  if (!userText) {
+    return storedLanguage ?? LANGUAGE_CONFIG.DEFAULT_LANGUAGE;
+  }
+
+  // Quoted messages are prefixed in Spanish (see formatUserMessage), only the user text counts
+  const language = resolveConversationLanguage(
+    storedLanguage,
+    userText.replace(/\(hace referencia al (?:mensaje|producto): "[\s\S]*?"\)/g, '')
+  );
+
+  if (language !== storedLanguage) {
+    console.log(`[WorkflowHelper] Conversation language: ${storedLanguage || 'none'} → ${language}`);
+    await saveConversationLanguage(uid, userPhone, language);
+  }
+
+  return language;
+}
+
 /**
  * Determine message to process
  */
@@ -113,15 +113,23 @@ export function generateParamsHash(params: Record<string, any>): string {
 /**
  * Check if two parameter sets are similar enough to be considered a cache hit
  * Returns true if similarity is above threshold
+ * Keys in exactMatchKeys must be identical, they are never fuzzy matched
  */
 export function areSimilarSearchParams(
   params1: Record<string, any>,
   params2: Record<string, any>,
-  threshold: number = 0.85
+  threshold: number = 0.85,
+  exactMatchKeys: string[] = []
 ): boolean {
   const norm1 = normalizeSearchParams(params1);
   const norm2 = normalizeSearchParams(params2);
 
+  for (const key of exactMatchKeys) {
+    if (JSON.stringify(norm1[key]) !== JSON.stringify(norm2[key])) {
+      return false;
+    }
+  }
+
   const keys1 = Object.keys(norm1).sort();
   const keys2 = Object.keys(norm2).sort();
 
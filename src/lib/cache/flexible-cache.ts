@@ -87,6 +87,7 @@ export async function getCachedSearchResult<T>(
     prefix?: string;
     fuzzyMatch?: boolean;
     similarityThreshold?: number;
+    exactMatchKeys?: string[];
   } = {}
 ): Promise<T | null> {
   const redis = getRedisClient();
@@ -140,7 +141,7 @@ export async function getCachedSearchResult<T>(
       const storedParams = JSON.parse(storedParamsStr);
 
       // Check if parameters are similar
-      if (areSimilarSearchParams(params, storedParams, similarityThreshold)) {
+      if (areSimilarSearchParams(params, storedParams, similarityThreshold, options.exactMatchKeys)) {
         console.log(`[FlexibleCache] Fuzzy match found! Key: ${resultKey}`);
 
         // Get the cached result
@@ -171,6 +172,7 @@ export async function cacheSearchFn<TArgs extends unknown[], TResult>(
     paramsExtractor?: (args: TArgs) => Record<string, any>;
     fuzzyMatch?: boolean;
     similarityThreshold?: number;
+    exactMatchKeys?: string[];
   }
 ): Promise<TResult> {
   const functionName = options.functionName;
@@ -186,6 +188,7 @@ export async function cacheSearchFn<TArgs extends unknown[], TResult>(
     prefix,
     fuzzyMatch: options.fuzzyMatch,
     similarityThreshold: options.similarityThreshold,
+    exactMatchKeys: options.exactMatchKeys,
   });
 
   if (cached !== null) {
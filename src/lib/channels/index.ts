@@ -0,0 +1,99 @@
+/**
+ * Messaging Channels Entry Point
+ *
+ * Resolves the outbound channel of each account (AgentConfigData.channel)
+ * and the platform channel used for owner notifications and reminders.
+ */
+
+import { getUserConfig } from '../db/repositories/users';
+import { InMemoryChannel } from './memory-channel';
+import { WahaChannel } from './waha-channel';
+import { WebChatChannel } from './web-channel';
+import { ChannelName, MessagingChannel } from './types';
+
+export { WahaChannel } from './waha-channel';
+export { InMemoryChannel } from './memory-channel';
+export { WebChatChannel } from './web-channel';
+export type { RecordedChannelEvent } from './memory-channel';
+export type { WebChatEvent, WebChatEventListener } from './web-chat-events';
+export type {
+  ChannelName,
+  ChannelTarget,
+  SendOptions,
+  ImageAttachment,
+  DocumentAttachment,
+  MessagingChannel,
+} from './types';
+
+/**
+ * Configuration for channel selection
+ */
+export const CHANNEL_CONFIG = {
+  // Channel used when the account does not configure one, and for platform messages
+  DEFAULT_CHANNEL: (process.env.MESSAGING_CHANNEL || 'waha') as ChannelName,
+  // Account channel selection is cached to avoid a config read per message
+  ACCOUNT_CACHE_TTL_MS: 60 * 1000,
+} as const;
+
+const channels = new Map<ChannelName, MessagingChannel>();
+const accountChannelCache = new Map<string, { name: ChannelName; expiresAt: number }>();
+
+function createChannel(name: ChannelName): MessagingChannel {
+  switch (name) {
+    case 'memory':
+      return new InMemoryChannel();
+    case 'web':
+      return new WebChatChannel();
+    case 'waha':
+    default:
+      return new WahaChannel();
+  }
+}
+
+/**
+ * Get or create a channel adapter by name
+ */
+export function getChannel(name: ChannelName): MessagingChannel {
+  let channel = channels.get(name);
+  if (!channel) {
+    channel = createChannel(name);
+    channels.set(name, channel);
+  }
+  return channel;
+}
+
+/**
+ * Override a channel adapter (e.g. with a shared InMemoryChannel in tests)
+ * Pass null to go back to the default adapter
+ */
+export function setChannel(name: ChannelName, channel: MessagingChannel | null): void {
+  if (channel) {
+    channels.set(name, channel);
+  } else {
+    channels.delete(name);
+  }
+}
+
+/**
+ * Channel used for platform messages (owner notifications, reminders)
+ * sent from the Multimai session
+ */
+export function getPlatformChannel(): MessagingChannel {
+  return getChannel(CHANNEL_CONFIG.DEFAULT_CHANNEL);
+}
+
+/**
+ * Channel configured for an account, falling back to the default channel
+ */
+export async function getChannelForAccount(uid: string): Promise<MessagingChannel> {
+  const cached = accountChannelCache.get(uid);
+  if (cached && cached.expiresAt > Date.now()) {
+    return getChannel(cached.name);
+  }
+
+  const userConfig = await getUserConfig(uid);
+  const name = userConfig?.config.channel || CHANNEL_CONFIG.DEFAULT_CHANNEL;
+  accountChannelCache.set(uid, { name, expiresAt: Date.now() + CHANNEL_CONFIG.ACCOUNT_CACHE_TTL_MS });
+
+  return getChannel(name);
+}
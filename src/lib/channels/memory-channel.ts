@@ -0,0 +1,81 @@
+/**
+ * In-memory channel adapter
+ * Records every outbound action instead of sending it (tests, local dev)
+ */
+
+import { adaptMessagesToChannel, MessageItem } from '../utils/response-processor';
+import {
+  ChannelCapabilities,
+  ChannelTarget,
+  DocumentAttachment,
+  ImageAttachment,
+  MessagingChannel,
+  SendOptions,
+} from './types';
+
+export type RecordedChannelEvent =
+  | { kind: 'message'; target: ChannelTarget; message: MessageItem; replyTo?: string; at: number }
+  | { kind: 'typing_start' | 'typing_stop' | 'seen'; target: ChannelTarget; at: number };
+
+export class InMemoryChannel implements MessagingChannel {
+  public readonly name = 'memory' as const;
+  public readonly events: RecordedChannelEvent[] = [];
+
+  /**
+   * @param capabilities - Rich messages to record as-is (all by default), to simulate other channels
+   */
+  constructor(
+    public readonly capabilities: ChannelCapabilities = { buttons: true, lists: true, location: true, documents: true }
+  ) {}
+
+  async sendText(target: ChannelTarget, text: string, options?: SendOptions): Promise<void> {
+    await this.sendMessages(target, [{ type: 'text', payload: { content: text } }], options);
+  }
+
+  async sendImage(target: ChannelTarget, image: ImageAttachment, options?: SendOptions): Promise<void> {
+    await this.sendMessages(target, [{ type: 'image', payload: { ...image } }], options);
+  }
+
+  async sendDocument(target: ChannelTarget, document: DocumentAttachment, options?: SendOptions): Promise<void> {
+    await this.sendMessages(target, [{ type: 'file', payload: { ...document } }], options);
+  }
+
+  async sendMessages(target: ChannelTarget, messages: MessageItem[], options?: SendOptions): Promise<void> {
+    adaptMessagesToChannel(messages, this.capabilities).forEach((message, index) => {
+      this.events.push({
+        kind: 'message',
+        target,
+        message,
+        // Same as WAHA: only the first message quotes the original
+        replyTo: index === 0 ? options?.replyTo : undefined,
+        at: Date.now(),
+      });
+    });
+  }
+
+  async startTyping(target: ChannelTarget): Promise<void> {
+    this.events.push({ kind: 'typing_start', target, at: Date.now() });
+  }
+
+  async stopTyping(target: ChannelTarget): Promise<void> {
+    this.events.push({ kind: 'typing_stop', target, at: Date.now() });
+  }
+
+  async markSeen(target: ChannelTarget): Promise<void> {
+    this.events.push({ kind: 'seen', target, at: Date.now() });
+  }
+
+  /**
+   * Messages sent to a chat (all chats if omitted)
+   */
+  getSentMessages(chatId?: string): MessageItem[] {
+    return this.events
+      .filter((event): event is Extract<RecordedChannelEvent, { kind: 'message' }> => event.kind === 'message')
+      .filter((event) => !chatId || event.target.chatId === chatId)
+      .map((event) => event.message);
+  }
+
+  clear(): void {
+    this.events.length = 0;
+  }
+}
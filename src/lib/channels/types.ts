@@ -0,0 +1,85 @@
+/**
+ * Type definitions for outbound messaging channels
+ */
+
+import type { MessageItem } from '../utils/response-processor';
+
+/**
+ * Available channel adapters
+ * - waha: WhatsApp through the WS proxy (default)
+ * - memory: records messages in memory (tests, local dev)
+ * - web: embeddable web chat, delivered over the session event stream (SSE)
+ */
+export type ChannelName = 'waha' | 'memory' | 'web';
+
+/**
+ * Chat a message is sent to
+ */
+export interface ChannelTarget {
+  /**
+   * Session (account connection) used to send
+   */
+  session: string;
+
+  /**
+   * Chat ID in the channel format
+   * @example '5491112345678@c.us'
+   */
+  chatId: string;
+}
+
+export interface SendOptions {
+  /**
+   * Message ID to quote in the reply
+   */
+  replyTo?: string;
+}
+
+export interface ImageAttachment {
+  url: string;
+  caption?: string;
+  mimetype?: string;
+  filename?: string;
+}
+
+export interface DocumentAttachment {
+  url: string;
+  filename: string;
+  mimetype?: string;
+  caption?: string;
+}
+
+/**
+ * Rich message types a channel can deliver natively
+ * Unsupported items are degraded to plain text before sending (see adaptMessagesToChannel)
+ */
+export interface ChannelCapabilities {
+  buttons: boolean;
+  lists: boolean;
+  location: boolean;
+  documents: boolean;
+}
+
+/**
+ * Outbound messaging channel
+ * Workflows and notifications send through this interface so new channels
+ * (Telegram, Meta Cloud API) can be added without touching them
+ */
+export interface MessagingChannel {
+  readonly name: ChannelName;
+  readonly capabilities: ChannelCapabilities;
+
+  sendText(target: ChannelTarget, text: string, options?: SendOptions): Promise<void>;
+  sendImage(target: ChannelTarget, image: ImageAttachment, options?: SendOptions): Promise<void>;
+  sendDocument(target: ChannelTarget, document: DocumentAttachment, options?: SendOptions): Promise<void>;
+
+  /**
+   * Sends a batch of processed response messages (see processResponse)
+   * Channels that support it send the batch in a single request to keep ordering
+   */
+  sendMessages(target: ChannelTarget, messages: MessageItem[], options?: SendOptions): Promise<void>;
+
+  startTyping(target: ChannelTarget): Promise<void>;
+  stopTyping(target: ChannelTarget): Promise<void>;
+  markSeen(target: ChannelTarget): Promise<void>;
+}
@@ -0,0 +1,98 @@
+/**
+ * WAHA channel adapter
+ * Sends WhatsApp messages through the WS proxy (/ws/send-message, /ws/start-typing, ...)
+ */
+
+import { wsProxyClient } from '../other/wsProxyClient';
+import { adaptMessagesToChannel, MessageItem } from '../utils/response-processor';
+import {
+  ChannelCapabilities,
+  ChannelTarget,
+  DocumentAttachment,
+  ImageAttachment,
+  MessagingChannel,
+  SendOptions,
+} from './types';
+
+/**
+ * Reply buttons and lists only render for some WhatsApp engines/accounts,
+ * so they are opt-in (WAHA_INTERACTIVE_MESSAGES=true) and sent as text otherwise
+ */
+export const WAHA_CAPABILITIES: ChannelCapabilities = {
+  buttons: process.env.WAHA_INTERACTIVE_MESSAGES === 'true',
+  lists: process.env.WAHA_INTERACTIVE_MESSAGES === 'true',
+  location: true,
+  documents: true,
+};
+
+export class WahaChannel implements MessagingChannel {
+  public readonly name = 'waha' as const;
+  public readonly capabilities = WAHA_CAPABILITIES;
+
+  async sendText(target: ChannelTarget, text: string, options?: SendOptions): Promise<void> {
+    await this.sendMessages(target, [{ type: 'text', payload: { content: text } }], options);
+  }
+
+  async sendImage(target: ChannelTarget, image: ImageAttachment, options?: SendOptions): Promise<void> {
+    await this.sendMessages(target, [{
+      type: 'image',
+      payload: {
+        url: image.url,
+        caption: image.caption || '',
+        mimetype: image.mimetype || 'image/jpeg',
+        filename: image.filename || 'image.jpg',
+      },
+    }], options);
+  }
+
+  async sendDocument(target: ChannelTarget, document: DocumentAttachment, options?: SendOptions): Promise<void> {
+    await this.sendMessages(target, [{
+      type: 'file',
+      payload: {
+        url: document.url,
+        filename: document.filename,
+        mimetype: document.mimetype || 'application/pdf',
+        caption: document.caption || '',
+      },
+    }], options);
+  }
+
+  async sendMessages(target: ChannelTarget, messages: MessageItem[], options?: SendOptions): Promise<void> {
+    if (messages.length === 0) {
+      return;
+    }
+
+    // The proxy quotes the message set as reply_to on the first item
+    const [firstMessage, ...restOfMessages] = adaptMessagesToChannel(messages, this.capabilities);
+    const body = options?.replyTo
+      ? [{ ...firstMessage, reply_to: options.replyTo }, ...restOfMessages]
+      : [firstMessage, ...restOfMessages];
+
+    await wsProxyClient.post(`/ws/send-message`, {
+      chatId: target.chatId,
+      session: target.session,
+      messages: body,
+    });
+  }
+
+  async startTyping(target: ChannelTarget): Promise<void> {
+    await wsProxyClient.post(`/ws/start-typing`, {
+      session: target.session,
+      chatId: target.chatId,
+    });
+  }
+
+  async stopTyping(target: ChannelTarget): Promise<void> {
+    await wsProxyClient.post(`/ws/stop-typing`, {
+      session: target.session,
+      chatId: target.chatId,
+    });
+  }
+
+  async markSeen(target: ChannelTarget): Promise<void> {
+    await wsProxyClient.post(`/ws/send-seen`, {
+      session: target.session,
+      chatId: target.chatId,
+    });
+  }
+}
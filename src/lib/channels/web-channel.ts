@@ -0,0 +1,57 @@
+/**
+ * Web chat channel adapter
+ * Delivers messages to the browser of a web chat session (chatId = synthetic customer id)
+ * through the session event stream
+ */
+
+import type { MessageItem } from '../utils/response-processor';
+import { publishWebChatEvent } from './web-chat-events';
+import {
+  ChannelCapabilities,
+  ChannelTarget,
+  DocumentAttachment,
+  ImageAttachment,
+  MessagingChannel,
+  SendOptions,
+} from './types';
+
+export class WebChatChannel implements MessagingChannel {
+  public readonly name = 'web' as const;
+  // The widget renders every rich message natively
+  public readonly capabilities: ChannelCapabilities = { buttons: true, lists: true, location: true, documents: true };
+
+  async sendText(target: ChannelTarget, text: string, options?: SendOptions): Promise<void> {
+    await this.sendMessages(target, [{ type: 'text', payload: { content: text } }], options);
+  }
+
+  async sendImage(target: ChannelTarget, image: ImageAttachment, options?: SendOptions): Promise<void> {
+    await this.sendMessages(target, [{ type: 'image', payload: { ...image } }], options);
+  }
+
+  async sendDocument(target: ChannelTarget, document: DocumentAttachment, options?: SendOptions): Promise<void> {
+    await this.sendMessages(target, [{ type: 'file', payload: { ...document } }], options);
+  }
+
+  // Quoting is not supported in the web chat, replyTo is ignored
+  async sendMessages(target: ChannelTarget, messages: MessageItem[], _options?: SendOptions): Promise<void> {
+    await publishWebChatEvent(target.chatId, { type: 'message', messages });
+  }
+
+  /**
+   * Streams a piece of the reply being written
+   */
+  async sendDelta(target: ChannelTarget, delta: string): Promise<void> {
+    await publishWebChatEvent(target.chatId, { type: 'token', delta });
+  }
+
+  async startTyping(target: ChannelTarget): Promise<void> {
+    await publishWebChatEvent(target.chatId, { type: 'typing', active: true });
+  }
+
+  async stopTyping(target: ChannelTarget): Promise<void> {
+    await publishWebChatEvent(target.chatId, { type: 'typing', active: false });
+  }
+
+  // The browser reads messages as they arrive
+  async markSeen(_target: ChannelTarget): Promise<void> {}
+}
@@ -0,0 +1,104 @@
+/**
+ * Web chat events
+ * Events sent to the browser of a web chat session through GET /api/chat/:uid/stream (SSE)
+ *
+ * Events are published through Redis so the instance running the workflow does not
+ * need to be the one holding the SSE connection
+ */
+
+import type Redis from 'ioredis';
+import { getRedisClient } from '../cache/redis-client';
+import type { MessageItem } from '../utils/response-processor';
+
+/**
+ * Event sent to a web chat session
+ * - typing: the agent started/stopped working on a reply
+ * - token: a piece of the reply being written (streaming)
+ * - message: complete messages, replaces any streamed tokens of the current reply
+ * - done: the reply to the last message is complete
+ * - error: the reply could not be generated
+ */
+export type WebChatEvent =
+  | { type: 'typing'; active: boolean }
+  | { type: 'token'; delta: string }
+  | { type: 'message'; messages: MessageItem[] }
+  | { type: 'done' }
+  | { type: 'error'; error: string };
+
+export type WebChatEventListener = (event: WebChatEvent) => void;
+
+const CHANNEL_PREFIX = 'webchat:';
+
+const listeners = new Map<string, Set<WebChatEventListener>>();
+let subscriber: Redis | null = null;
+
+function getSubscriber(): Redis {
+  if (subscriber) {
+    return subscriber;
+  }
+
+  // Subscriber connections cannot run other commands
+  subscriber = getRedisClient().duplicate();
+  subscriber.on('message', (channel: string, raw: string) => {
+    const chatListeners = listeners.get(channel.slice(CHANNEL_PREFIX.length));
+    if (!chatListeners) return;
+
+    try {
+      const event = JSON.parse(raw) as WebChatEvent;
+      chatListeners.forEach((listener) => listener(event));
+    } catch (error) {
+      console.error(`[WebChat] ❌ Invalid event on ${channel}:`, raw);
+    }
+  });
+
+  return subscriber;
+}
+
+/**
+ * Publishes an event to a web chat session
+ * Sessions without an open stream simply miss the event (the reply is still stored)
+ */
+export async function publishWebChatEvent(chatId: string, event: WebChatEvent): Promise<void> {
+  try {
+    await getRedisClient().publish(`${CHANNEL_PREFIX}${chatId}`, JSON.stringify(event));
+  } catch (error) {
+    console.error(`[WebChat] ❌ Error publishing ${event.type} event:`, error);
+  }
+}
+
+/**
+ * Listens to the events of a web chat session
+ * @returns Function that removes the listener
+ */
+export async function subscribeWebChatEvents(chatId: string, listener: WebChatEventListener): Promise<() => Promise<void>> {
+  // The listener is registered once subscribed: a failed subscribe leaves nothing behind
+  if (!listeners.has(chatId)) {
+    await getSubscriber().subscribe(`${CHANNEL_PREFIX}${chatId}`);
+  }
+
+  const chatListeners = listeners.get(chatId) ?? new Set<WebChatEventListener>();
+  listeners.set(chatId, chatListeners);
+  chatListeners.add(listener);
+
+  return async () => {
+    const current = listeners.get(chatId);
+    if (!current) return;
+
+    current.delete(listener);
+    if (current.size === 0) {
+      listeners.delete(chatId);
+      await getSubscriber().unsubscribe(`${CHANNEL_PREFIX}${chatId}`).catch(() => {});
+    }
+  };
+}
+
+/**
+ * Closes the subscriber connection (graceful shutdown)
+ */
+export async function closeWebChatEvents(): Promise<void> {
+  if (subscriber) {
+    listeners.clear();
+    await subscriber.quit();
+    subscriber = null;
+  }
+}
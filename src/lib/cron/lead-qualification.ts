@@ -12,6 +12,7 @@ import logger from 'jet-logger';
 import { db, admin } from '../db/firebase';
 import { generateObject } from 'ai';
 import { getModel } from '../ai/openrouter';
+import { runWithUsageContext, withUsageComponent } from '../ai/usage/usage-context';
 import { AI_CONFIG } from '../ai/config';
 import { z } from 'zod';
 import { CONVERSATION_TIMEOUT_HOURS, MIN_MESSAGES_FOR_SUMMARY } from '../../config/constants';
@@ -183,7 +184,7 @@ IMPORTANTE: Sé objetivo y basa tu análisis SOLO en lo que el usuario ha dicho.
 </instrucciones>
 </task>`;
 
-    const model = getModel(AI_CONFIG?.LEAD_QUALIFICATION_MODEL ?? 'openai/gpt-4o-mini');
+    const model = withUsageComponent('lead_analysis', getModel(AI_CONFIG?.LEAD_QUALIFICATION_MODEL ?? 'openai/gpt-4o-mini'));
     const { object: result } = await generateObject({
       model: model as any,
       schema: legacyLeadQualificationSchema,
@@ -478,7 +479,7 @@ export async function processLeadQualification(): Promise<{
         await Promise.all(
           batch.map(async ({ phone, conversationId, customerName }) => {
             stats.processed++;
-            const success = await processConversation(uid, phone, conversationId, customerName);
+            const success = await runWithUsageContext({ uid }, () => processConversation(uid, phone, conversationId, customerName));
             if (success) {
               stats.succeeded++;
             } else {
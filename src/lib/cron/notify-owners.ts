@@ -2,6 +2,7 @@ import { db } from '../db/firebase';
 import { sendOwnerReminder, generateOwnerCompletionMessage } from '../whatsapp/send-reminder';
 import { Timestamp } from 'firebase-admin/firestore';
 import { nanoid } from 'nanoid';
+import { getCustomerLanguage } from '../db/repositories/customers';
 
 /**
  * Ensures an owner token exists for viewing receipts
@@ -134,24 +135,26 @@ async function processReminder(reminder: ReminderData, session: string): Promise
       reminder.tenantName,
       allTypes,
       reminder.reminderName,
-      receiptsLink
+      receiptsLink,
+      await getCustomerLanguage(reminder.uid, reminder.ownerPhone)
     );
 
     // Send WhatsApp to owner
-    const result = await sendOwnerReminder(session, reminder.ownerPhone, message);
+    const result = await sendOwnerReminder(reminder.uid, session, reminder.ownerPhone, message);
 
-    if (!result.success) {
+    if (!result.success && !result.suppressed) {
       console.error(`[notifyOwners] Failed to send WhatsApp to owner ${reminder.ownerPhone}:`, result.error);
       return false;
     }
 
-    // Mark as notified
+    // Mark as notified (an opted-out owner is not retried, the blocked send is in the audit trail)
     const now = new Date();
     await db
       .doc(`users/${reminder.uid}/tenants/${reminder.tenantId}/reminders/${reminder.id}`)
       .update({
         notified_owner: true,
         notified_owner_at: Timestamp.fromDate(now),
+        owner_notification_suppressed: Boolean(result.suppressed),
         updated_at: Timestamp.fromDate(now),
       });
 
@@ -2,6 +2,7 @@ import { db } from '../db/firebase';
 import { sendOwnerReminder, sendTenantBillsAvailable, generateOwnerReminderMessage, generateBillsAvailableMessage } from '../whatsapp/send-reminder';
 import { Timestamp, FieldValue } from 'firebase-admin/firestore';
 import { nanoid } from 'nanoid';
+import { getCustomerLanguage } from '../db/repositories/customers';
 
 /**
  * Removes undefined values from an object (Firestore doesn't accept undefined)
@@ -130,24 +131,41 @@ async function processOwnerReminder(data: OwnerReminderData, session: string): P
       data.tenantName,
       pendingTypes.map((t) => t.name),
       portalLink,
-      data.reminderName
+      data.reminderName,
+      await getCustomerLanguage(data.uid, data.ownerPhone)
     );
 
-    const result = await sendOwnerReminder(session, data.ownerPhone, message);
+    const result = await sendOwnerReminder(data.uid, session, data.ownerPhone, message);
 
-    if (!result.success) {
+    if (!result.success && !result.suppressed) {
       console.error(`[processOwnerReminder] Failed to send WhatsApp to owner ${data.ownerPhone}:`, result.error);
       return false;
     }
 
+    // Opted-out owner: the reminder interval advances without counting a send,
+    // so the blocked send is recorded once per interval
     const now = new Date();
     const paymentTypeConfigs = data.paymentTypeConfigs.map((config) => {
       if (config.requiresOwnerBill && !config.ownerBill?.url) {
-        return removeUndefined({ ...config, ownerLastRemindedAt: now, ownerReminderCount: (config.ownerReminderCount || 0) + 1 });
+        return removeUndefined({
+          ...config,
+          ownerLastRemindedAt: now,
+          ownerReminderCount: (config.ownerReminderCount || 0) + (result.suppressed ? 0 : 1),
+        });
       }
       return removeUndefined(config);
     });
 
+    if (result.suppressed) {
+      await db.doc(`users/${data.uid}/tenants/${data.tenantId}/reminders/${data.id}`).update({
+        paymentTypeConfigs,
+        owner_lastSuppressedAt: Timestamp.fromDate(now),
+        updated_at: Timestamp.fromDate(now),
+      });
+      console.log(`[processOwnerReminder] Owner ${data.ownerPhone} opted out, reminder ${data.id} skipped`);
+      return true;
+    }
+
     await db.doc(`users/${data.uid}/tenants/${data.tenantId}/reminders/${data.id}`).update({
       paymentTypeConfigs,
       owner_lastSentAt: Timestamp.fromDate(now),
@@ -222,10 +240,11 @@ async function lockBillsAndNotifyTenants(session: string): Promise<{ locked: num
                   `${tenantData.nombre} ${tenantData.apellido}`,
                   lockedConfigs.map((c: any) => ({ name: c.name, amount: c.ownerBill?.amount || 0, currency: c.currency || 'ARS' })),
                   portalLink,
-                  reminderData.name
+                  reminderData.name,
+                  await getCustomerLanguage(uid, tenantData.telefono)
                 );
 
-                const result = await sendTenantBillsAvailable(session, tenantData.telefono, message);
+                const result = await sendTenantBillsAvailable(uid, session, tenantData.telefono, message);
                 if (result.success) stats.notified++;
               }
             }
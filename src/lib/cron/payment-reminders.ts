@@ -2,6 +2,7 @@ import { db } from '../db/firebase';
 import { sendPaymentReminder, generateReminderMessage, generateReminderMessageWithConfigs } from '../whatsapp/send-reminder';
 import { Timestamp, FieldValue } from 'firebase-admin/firestore';
 import { nanoid } from 'nanoid';
+import { getCustomerLanguage } from '../db/repositories/customers';
 
 interface PaymentTypeConfig {
   id: string;
@@ -195,7 +196,8 @@ async function processReminder(reminder: ReminderData, session: string): Promise
     const completedTypes = availableTypes.filter(t => reminder.receiptsStatus[t.name]);
     const isFirstReminder = reminder.sentCount === 0;
 
-    // 4. Generar mensaje
+    // 4. Generar mensaje (en el idioma del inquilino)
+    const language = await getCustomerLanguage(reminder.uid, reminder.tenantPhone);
     let message: string;
     if (reminder.paymentTypeConfigs && reminder.paymentTypeConfigs.length > 0) {
       message = generateReminderMessageWithConfigs(
@@ -204,7 +206,8 @@ async function processReminder(reminder: ReminderData, session: string): Promise
         pendingTypes,
         completedTypes.map(t => t.name),
         isFirstReminder,
-        reminder.reminderName
+        reminder.reminderName,
+        language
       );
     } else {
       message = generateReminderMessage(
@@ -212,12 +215,30 @@ async function processReminder(reminder: ReminderData, session: string): Promise
         portalLink,
         availableTypes.map(t => t.name),
         completedTypes.map(t => t.name),
-        isFirstReminder
+        isFirstReminder,
+        language
       );
     }
 
     // 5. Enviar WhatsApp
-    const result = await sendPaymentReminder(session, reminder.tenantPhone, message);
+    const result = await sendPaymentReminder(reminder.uid, session, reminder.tenantPhone, message);
+
+    // Opted-out tenant: the cycle advances so the blocked send is recorded once per cycle
+    if (result.suppressed) {
+      const nextReminderDate = calculateNextReminderDate(
+        reminder.reminder_interval_days,
+        reminder.frequency,
+        reminder.custom_frequency_days
+      );
+      await db
+        .doc(`users/${reminder.uid}/tenants/${reminder.tenantId}/reminders/${reminder.id}`)
+        .update({
+          nextReminderDate: Timestamp.fromDate(nextReminderDate),
+          lastSuppressedAt: Timestamp.fromDate(new Date()),
+        });
+      console.log(`[processReminder] Tenant ${reminder.tenantPhone} opted out, reminder ${reminder.id} skipped`);
+      return true;
+    }
 
     if (!result.success) {
       console.error(`[processReminder] Failed to send WhatsApp to ${reminder.tenantPhone}:`, result.error);
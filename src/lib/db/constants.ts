@@ -8,11 +8,28 @@ export const customersCollection = (uid: string) => `users/${uid}/customers`;
 export const userDocument = (uid: string) => `users/${uid}`;
 export const customerInterestsCollection = (uid: string) => `users/${uid}/customers_interests`;
 export const chatsCollection = (uid: string) => `users/${uid}/chats`;
+export const referralsCollection = (uid: string) => `users/${uid}/referrals`;
+
+// Opt-out compliance
+export const suppressionListCollection = (uid: string) => `users/${uid}/suppression_list`;
+export const suppressionAuditCollection = (uid: string) => `users/${uid}/suppression_audit`;
 
 // Agent configuration
 export const agentConfigDoc = (uid: string) => `users/${uid}/agent/config`;
 export const agentContextDoc = (uid: string) => `users/${uid}/agent/context`;
 export const agentBusinessDoc = (uid: string) => `users/${uid}/agent/business`;
+export const customGuidelinesCollection = (uid: string) => `users/${uid}/guidelines`;
+
+// LLM usage and cost accounting
+export const llmUsageCollection = (uid: string) => `users/${uid}/llm_usage`;
+export const llmExecutionsCollection = (uid: string) => `users/${uid}/llm_executions`;
+
+// Cascade execution traces
+export const tracesCollection = (uid: string) => `users/${uid}/traces`;
+
+// Experiments
+export const experimentsCollection = (uid: string) => `users/${uid}/experiments`;
+export const experimentConversationsCollection = (uid: string, experimentId: string) => `users/${uid}/experiments/${experimentId}/conversations`;
 
 // Properties
 export const propertiesCollection = (uid: string) => `users/${uid}/properties`;
@@ -27,6 +44,7 @@ export const customersInteredtedCollection = (uid: string) => `users/${uid}/cust
 export const conversationsCollection = (uid: string, phoneNumber: string) => `users/${uid}/customers/${phoneNumber}/conversations`;
 export const conversationDoc = (uid: string, phoneNumber: string, date: string) => `users/${uid}/customers/${phoneNumber}/conversations/${date}`;
 export const messagesCollection = (uid: string, phoneNumber: string, date: string) => `users/${uid}/customers/${phoneNumber}/conversations/${date}/messages`;
+export const messageDeliveriesCollection = (uid: string) => `users/${uid}/message_deliveries`;
 
 // Multimai agent collections
 export const multimaiConversationsCollection = (phoneNumber: string) => `agents/multimai/conversations/${phoneNumber}`;
@@ -6,21 +6,29 @@ type FirebaseServiceAccount = {
   project_id: string;
 };
 
+// Set to run against the Firestore emulator (regression harness), no credentials are needed
+const emulatorHost = process.env.FIRESTORE_EMULATOR_HOST;
 const serviceAccountJson = process.env.FIREBASE_SERVICE_ACCOUNT;
 
-if (!serviceAccountJson) {
+if (!serviceAccountJson && !emulatorHost) {
   throw new Error("Missing FIREBASE_SERVICE_ACCOUNT environment variable.");
 }
 
-const serviceAccount = JSON.parse(
-  serviceAccountJson,
-) as FirebaseServiceAccount;
-
 // Initialize the Firebase Admin SDK with service account
 // Check if the app already exists to avoid reinitialization error
 let defaultApp: admin.app.App;
 
-if (!admin.apps.length) {
+if (admin.apps.length) {
+  defaultApp = admin.app();
+} else if (emulatorHost) {
+  defaultApp = admin.initializeApp({
+    projectId: process.env.GCLOUD_PROJECT || "demo-multimai",
+  });
+} else {
+  const serviceAccount = JSON.parse(
+    serviceAccountJson as string,
+  ) as FirebaseServiceAccount;
+
   defaultApp = admin.initializeApp({
     credential: admin.credential.cert({
       clientEmail: serviceAccount.client_email,
@@ -28,8 +36,6 @@ if (!admin.apps.length) {
       projectId: serviceAccount.project_id,
     }),
   });
-} else {
-  defaultApp = admin.app();
 }
 
 // Initialize the Firebase Database
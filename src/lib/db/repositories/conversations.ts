@@ -7,9 +7,10 @@ import {
   multimaiMessagesCollection,
   customersCollection,
 } from "../constants";
-import { ConversationMessage } from "../types";
+import { ConversationMessage, ConversationMessageExtras } from "../types";
 import { generateObject } from "ai";
 import { getModel } from "../../ai/openrouter";
+import { withUsageComponent } from "../../ai/usage/usage-context";
 import { AI_CONFIG } from "../../ai/config";
 import { z } from "zod";
 import { scheduleConversationClose } from "../../queues/conversation-queue";
@@ -103,6 +104,8 @@ async function getOrCreateActiveConversation(
  * Uses messageId as document ID when provided to avoid duplicates
  * 
  * @param executionId - Optional execution ID for tracking messages that can be rolled back on abort
+ * @param extras - Optional data stored alongside the message (e.g. voice note transcription)
+ * @returns The conversation and the message document the message was saved to
  */
 export async function saveConversationMessage(
   uid: string,
@@ -112,8 +115,9 @@ export async function saveConversationMessage(
   messageId?: string,
   isContext?: boolean,
   customerName?: string,
-  executionId?: string
-): Promise<void> {
+  executionId?: string,
+  extras?: ConversationMessageExtras
+): Promise<{ conversationId: string; messageDocId: string }> {
 
   const { conversationId, isNew } = await getOrCreateActiveConversation(uid, phone, customerName);
 
@@ -139,20 +143,41 @@ export async function saveConversationMessage(
     messageData.executionId = executionId;
   }
 
+  // Voice notes keep the transcript as content, flagged so they are treated as regular user text
+  if (extras?.transcription) {
+    messageData.transcription = extras.transcription;
+    messageData.isTranscribed = true;
+  }
+
+  if (extras?.location) {
+    messageData.location = extras.location;
+  }
+
+  if (extras?.quoted) {
+    messageData.quoted = extras.quoted;
+  }
+
+  if (extras?.traceId) {
+    messageData.traceId = extras.traceId;
+  }
+
   const messagesCollection = db.collection(getMessagesCollection(uid, phone, conversationId));
   // console.log('messagesCollection', messagesCollection);
 
   // Use messageId as document ID when available to prevent duplicates
+  let messageDocId: string;
   if (messageId) {
     console.log('messageId', messageId);
     // Use set with merge to avoid overwriting if message already exists
     await messagesCollection.doc(messageId).set(messageData, { merge: true });
+    messageDocId = messageId;
     logger.info(`[Conversations] Saved ${role} message with ID ${messageId}`);
   } else {
     console.log('messageId not found');
     // Generate random ID for messages without ID (assistant messages, context, etc.)
     const docRef = await messagesCollection.add(messageData);
     logger.info(`[Conversations] Saved ${role} message with auto-generated ID ${docRef.id}`);
+    messageDocId = docRef.id;
   }
 
   // Update conversation metadata
@@ -173,6 +198,8 @@ export async function saveConversationMessage(
     logger.err(`[Conversations] Error scheduling conversation close (non-fatal): ${queueError}`);
     // Don't throw - queue failure shouldn't prevent message from being saved
   }
+
+  return { conversationId, messageDocId };
 }
 
 /**
@@ -222,6 +249,7 @@ export async function getActiveConversationMessages(
       timestamp: doc.data().timestamp,
       whatsappMessageId: doc.data().chatMessageId,
       isContext: doc.data().isContext || false,
+      isTranscribed: doc.data().isTranscribed || false,
     }));
 
     if (!includeContext) {
@@ -235,6 +263,28 @@ export async function getActiveConversationMessages(
   }
 }
 
+/**
+ * Get a stored message of a conversation by document ID
+ */
+export async function getConversationMessage(
+  uid: string,
+  phone: string,
+  conversationId: string,
+  messageDocId: string
+): Promise<ConversationMessage | null> {
+  try {
+    const snapshot = await db
+      .collection(getMessagesCollection(uid, phone, conversationId))
+      .doc(messageDocId)
+      .get();
+
+    return snapshot.exists ? snapshot.data() as ConversationMessage : null;
+  } catch (error) {
+    logger.err("[Conversations] Error getting conversation message:", error);
+    return null;
+  }
+}
+
 /**
  * Legacy function for backward compatibility - get today's messages by date key
  */
@@ -690,7 +740,7 @@ Responde ÚNICAMENTE en formato JSON (sin markdown ni bloques de código):
         .describe("Resumen conciso si score >= threshold, o null si score < threshold"),
     });
 
-    const model = getModel(AI_CONFIG?.CONTEXT_SUMMARY_MODEL ?? "openai/gpt-4o-mini");
+    const model = withUsageComponent('summary', getModel(AI_CONFIG?.CONTEXT_SUMMARY_MODEL ?? "openai/gpt-4o-mini"));
     const { object: result } = await generateObject({
       model: model as any,
       schema: contextSummarySchema,
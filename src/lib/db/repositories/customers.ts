@@ -1,6 +1,7 @@
 import { db } from '../firebase';
-import { customersCollection } from '../constants';
-import { CustomerData } from '../types';
+import { conversationsCollection, customersCollection } from '../constants';
+import { ConversationLanguage, CustomerData, MessageLocation, SharedLocation } from '../types';
+import { LANGUAGE_CONFIG, isSupportedLanguage } from '../../utils/language';
 
 export async function getCustomerByPhone(uid: string, phone: string): Promise<CustomerData | null> {
   try {
@@ -36,3 +37,88 @@ export async function updateCustomer(uid: string, phone: string, data: Partial<C
     console.error('Error updating customer:', error);
   }
 }
+
+/**
+ * Stores the last location pin shared by a customer, linked to their active conversation
+ */
+export async function saveCustomerSharedLocation(uid: string, phone: string, location: MessageLocation): Promise<void> {
+  try {
+    const customer = await getCustomerByPhone(uid, phone);
+    const sharedLocation: SharedLocation = {
+      ...location,
+      conversationId: customer?.activeConversationId || null,
+      sharedAt: new Date(),
+    };
+    await db.collection(customersCollection(uid)).doc(phone).set({
+      sharedLocation,
+      updated_at: new Date(),
+    }, { merge: true });
+  } catch (error) {
+    console.error('Error saving customer shared location:', error);
+  }
+}
+
+/**
+ * Gets the location pin to use as search origin
+ * Only returns the pin if it was shared in the customer's current conversation
+ */
+export async function getCustomerSearchOrigin(uid: string, phone: string): Promise<SharedLocation | null> {
+  const customer = await getCustomerByPhone(uid, phone);
+  const sharedLocation = customer?.sharedLocation;
+
+  if (!sharedLocation || !customer?.activeConversationId) {
+    return null;
+  }
+
+  return sharedLocation.conversationId === customer.activeConversationId ? sharedLocation : null;
+}
+
+/**
+ * Gets the language of the customer's active conversation
+ * New conversations start with the last language detected for the customer
+ * @returns null if no language was detected yet
+ */
+export async function getConversationLanguage(uid: string, phone: string): Promise<ConversationLanguage | null> {
+  try {
+    const customer = await getCustomerByPhone(uid, phone);
+    if (customer?.activeConversationId) {
+      const conversation = await db.collection(conversationsCollection(uid, phone)).doc(customer.activeConversationId).get();
+      const language = conversation.data()?.language;
+      if (isSupportedLanguage(language)) {
+        return language;
+      }
+    }
+
+    return isSupportedLanguage(customer?.language) ? customer.language : null;
+  } catch (error) {
+    console.error('Error fetching conversation language:', error);
+    return null;
+  }
+}
+
+/**
+ * Stores the detected language on the active conversation and the customer
+ */
+export async function saveConversationLanguage(uid: string, phone: string, language: ConversationLanguage): Promise<void> {
+  try {
+    const customer = await getCustomerByPhone(uid, phone);
+    const batch = db.batch();
+
+    batch.set(db.collection(customersCollection(uid)).doc(phone), { language, updated_at: new Date() }, { merge: true });
+    if (customer?.activeConversationId) {
+      batch.set(db.collection(conversationsCollection(uid, phone)).doc(customer.activeConversationId), { language }, { merge: true });
+    }
+
+    await batch.commit();
+  } catch (error) {
+    console.error('Error saving conversation language:', error);
+  }
+}
+
+/**
+ * Gets the language reminders and notifications are sent in to a customer
+ */
+export async function getCustomerLanguage(uid: string, phone: string): Promise<ConversationLanguage> {
+  const customer = await getCustomerByPhone(uid, phone);
+  return isSupportedLanguage(customer?.language) ? customer.language : LANGUAGE_CONFIG.DEFAULT_LANGUAGE;
+}
@@ -0,0 +1,193 @@
+import { db, admin } from '../firebase';
+import { conversationsCollection, customersCollection, experimentConversationsCollection, experimentsCollection } from '../constants';
+import type {
+  ExperimentAssignment,
+  ExperimentConversationData,
+  ExperimentData,
+  ExperimentOutcome,
+} from '../types';
+
+const FieldValue = admin.firestore.FieldValue;
+
+export async function getExperiments(uid: string): Promise<ExperimentData[]> {
+  try {
+    const snapshot = await db.collection(experimentsCollection(uid)).orderBy('createdAt', 'desc').get();
+    return snapshot.docs.map((doc) => ({ ...doc.data() as ExperimentData, id: doc.id }));
+  } catch (error) {
+    console.error('Error fetching experiments:', error);
+    return [];
+  }
+}
+
+export async function getExperiment(uid: string, id: string): Promise<ExperimentData | null> {
+  try {
+    const snapshot = await db.collection(experimentsCollection(uid)).doc(id).get();
+    return snapshot.exists ? { ...snapshot.data() as ExperimentData, id: snapshot.id } : null;
+  } catch (error) {
+    console.error('Error fetching experiment:', error);
+    return null;
+  }
+}
+
+/**
+ * Gets the running experiment of an account (there is at most one)
+ */
+export async function getRunningExperiment(uid: string): Promise<ExperimentData | null> {
+  try {
+    const snapshot = await db.collection(experimentsCollection(uid)).where('status', '==', 'running').limit(1).get();
+    if (snapshot.empty) {
+      return null;
+    }
+    const doc = snapshot.docs[0];
+    return { ...doc.data() as ExperimentData, id: doc.id };
+  } catch (error) {
+    console.error('Error fetching running experiment:', error);
+    return null;
+  }
+}
+
+/**
+ * Creates an experiment
+ * @returns The id of the new experiment, or null on error
+ */
+export async function createExperiment(uid: string, experiment: Omit<ExperimentData, 'id'>): Promise<string | null> {
+  try {
+    const ref = db.collection(experimentsCollection(uid)).doc();
+    await ref.set({
+      ...experiment,
+      ...(experiment.status === 'running' && { startedAt: FieldValue.serverTimestamp() }),
+      createdAt: FieldValue.serverTimestamp(),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    return ref.id;
+  } catch (error) {
+    console.error('Error creating experiment:', error);
+    return null;
+  }
+}
+
+export async function updateExperiment(uid: string, id: string, changes: Partial<Omit<ExperimentData, 'id'>>): Promise<boolean> {
+  try {
+    await db.collection(experimentsCollection(uid)).doc(id).update({
+      ...changes,
+      ...(changes.status === 'running' && { startedAt: FieldValue.serverTimestamp() }),
+      ...(changes.status === 'stopped' && { stoppedAt: FieldValue.serverTimestamp() }),
+      updatedAt: FieldValue.serverTimestamp(),
+    });
+    return true;
+  } catch (error) {
+    console.error('Error updating experiment:', error);
+    return false;
+  }
+}
+
+/**
+ * Gets the variant a customer was assigned to in an experiment, if any
+ */
+export async function getCustomerExperimentVariant(uid: string, phone: string, experimentId: string): Promise<string | null> {
+  try {
+    const snapshot = await db.collection(customersCollection(uid)).doc(phone).get();
+    return snapshot.data()?.experiments?.[experimentId] ?? null;
+  } catch (error) {
+    console.error('Error fetching customer experiment variant:', error);
+    return null;
+  }
+}
+
+/**
+ * Records a turn of an experiment conversation:
+ * - the variant is kept on the customer (sticky assignment) and on its active conversation
+ * - the tools executed and escalations are accumulated on the experiment conversation
+ * @returns The id of the conversation, or null if the customer has no active conversation
+ */
+export async function recordExperimentTurn(
+  uid: string,
+  phone: string,
+  assignment: ExperimentAssignment,
+  toolsExecuted: string[]
+): Promise<string | null> {
+  try {
+    const customerRef = db.collection(customersCollection(uid)).doc(phone);
+    const conversationId = (await customerRef.get()).data()?.activeConversationId;
+    if (!conversationId) {
+      return null;
+    }
+
+    const escalations = toolsExecuted.filter((tool) => tool === 'get_help').length;
+    const conversationRef = db.collection(experimentConversationsCollection(uid, assignment.experimentId)).doc(conversationId);
+    const isNew = !(await conversationRef.get()).exists;
+
+    const batch = db.batch();
+    batch.set(customerRef, { experiments: { [assignment.experimentId]: assignment.variantId } }, { merge: true });
+    batch.set(db.collection(conversationsCollection(uid, phone)).doc(conversationId), { experiment: assignment }, { merge: true });
+    batch.set(conversationRef, {
+      ...assignment,
+      conversationId,
+      phone,
+      turns: FieldValue.increment(1),
+      escalations: FieldValue.increment(escalations),
+      ...(toolsExecuted.length > 0 && { toolsExecuted: FieldValue.arrayUnion(...toolsExecuted) }),
+      ...(isNew && { startedAt: FieldValue.serverTimestamp() }),
+      ...(isNew && toolsExecuted.length === 0 && { toolsExecuted: [] }),
+      updatedAt: FieldValue.serverTimestamp(),
+    }, { merge: true });
+    await batch.commit();
+
+    return conversationId;
+  } catch (error) {
+    console.error('Error recording experiment turn:', error);
+    return null;
+  }
+}
+
+export async function recordExperimentOutcome(
+  uid: string,
+  experimentId: string,
+  conversationId: string,
+  outcome: ExperimentOutcome
+): Promise<boolean> {
+  try {
+    await db.collection(experimentConversationsCollection(uid, experimentId)).doc(conversationId).set({
+      outcome: { ...outcome, closedAt: FieldValue.serverTimestamp() },
+      updatedAt: FieldValue.serverTimestamp(),
+    }, { merge: true });
+    return true;
+  } catch (error) {
+    console.error('Error recording experiment outcome:', error);
+    return false;
+  }
+}
+
+export async function getExperimentConversations(uid: string, experimentId: string): Promise<ExperimentConversationData[]> {
+  try {
+    const snapshot = await db.collection(experimentConversationsCollection(uid, experimentId)).get();
+    return snapshot.docs.map((doc) => ({ ...doc.data() as ExperimentConversationData, conversationId: doc.id }));
+  } catch (error) {
+    console.error('Error fetching experiment conversations:', error);
+    return [];
+  }
+}
+
+/**
+ * Gets the last rating a customer logged with log_feedback since a date
+ */
+export async function getLastFeedbackRating(uid: string, phone: string, since?: Date): Promise<number | null> {
+  try {
+    const snapshot = await db.collection('agents/multimai/feedback')
+      .where('userId', '==', uid)
+      .where('customer.phone', '==', phone)
+      .get();
+
+    const ratings = snapshot.docs
+      .map((doc) => doc.data())
+      .filter((feedback) => typeof feedback.rating === 'number')
+      .map((feedback) => ({ rating: feedback.rating as number, timestamp: feedback.timestamp?.toDate?.() || new Date(feedback.timestamp) }))
+      .filter((feedback) => !since || feedback.timestamp >= since)
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+
+    return ratings[0]?.rating ?? null;
+  } catch (error) {
+    console.error('Error fetching feedback rating:', error);
+    return null;
+  }
+}
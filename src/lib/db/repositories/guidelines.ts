@@ -0,0 +1,53 @@
+import { db, admin } from '../firebase';
+import { customGuidelinesCollection } from '../constants';
+import { CustomGuidelineData } from '../types';
+
+/**
+ * Gets the custom guidelines and built-in overrides of an account
+ * Errors are thrown: an empty list would be cached as "no custom guidelines"
+ */
+export async function getCustomGuidelines(uid: string): Promise<CustomGuidelineData[]> {
+  const snapshot = await db.collection(customGuidelinesCollection(uid)).get();
+  return snapshot.docs.map((doc) => ({ ...doc.data() as CustomGuidelineData, id: doc.id }));
+}
+
+export async function getCustomGuideline(uid: string, id: string): Promise<CustomGuidelineData | null> {
+  try {
+    const snapshot = await db.collection(customGuidelinesCollection(uid)).doc(id).get();
+    return snapshot.exists ? { ...snapshot.data() as CustomGuidelineData, id: snapshot.id } : null;
+  } catch (error) {
+    console.error('Error fetching custom guideline:', error);
+    return null;
+  }
+}
+
+/**
+ * Creates or replaces a custom guideline (or built-in override)
+ */
+export async function saveCustomGuideline(uid: string, guideline: CustomGuidelineData): Promise<boolean> {
+  try {
+    const ref = db.collection(customGuidelinesCollection(uid)).doc(guideline.id);
+    const existing = await ref.get();
+    const { id, createdAt, updatedAt, ...fields } = guideline;
+
+    await ref.set({
+      ...fields,
+      createdAt: existing.exists ? existing.data()?.createdAt : admin.firestore.FieldValue.serverTimestamp(),
+      updatedAt: admin.firestore.FieldValue.serverTimestamp(),
+    });
+    return true;
+  } catch (error) {
+    console.error('Error saving custom guideline:', error);
+    return false;
+  }
+}
+
+export async function deleteCustomGuideline(uid: string, id: string): Promise<boolean> {
+  try {
+    await db.collection(customGuidelinesCollection(uid)).doc(id).delete();
+    return true;
+  } catch (error) {
+    console.error('Error deleting custom guideline:', error);
+    return false;
+  }
+}
@@ -4,3 +4,5 @@ export * from './conversations';
 export * from './properties';
 export * from './users';
 export * from './rag';
+export * from './referrals';
+export * from './message-deliveries';
@@ -0,0 +1,92 @@
+import { db, admin } from '../firebase';
+import { llmExecutionsCollection, llmUsageCollection } from '../constants';
+import type { LLMUsageData } from '../types';
+
+const FieldValue = admin.firestore.FieldValue;
+
+export type LLMUsageEntry = {
+  component: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+};
+
+function incrementTotals(entry: LLMUsageEntry) {
+  return {
+    calls: FieldValue.increment(1),
+    inputTokens: FieldValue.increment(entry.inputTokens),
+    outputTokens: FieldValue.increment(entry.outputTokens),
+    cost: FieldValue.increment(entry.cost),
+  };
+}
+
+/**
+ * Increments of an entry on a usage document: totals, by component and by model
+ * Written with set + merge, so model names with dots or slashes are plain map keys
+ */
+function usageIncrements(entry: LLMUsageEntry) {
+  return {
+    ...incrementTotals(entry),
+    components: { [entry.component]: incrementTotals(entry) },
+    models: { [entry.model]: incrementTotals(entry) },
+    updatedAt: FieldValue.serverTimestamp(),
+  };
+}
+
+/**
+ * Adds an LLM call to the monthly usage of the account and to its execution (if any)
+ */
+export async function recordLLMUsage(uid: string, month: string, entry: LLMUsageEntry, executionId?: string): Promise<boolean> {
+  try {
+    const batch = db.batch();
+    batch.set(db.collection(llmUsageCollection(uid)).doc(month), usageIncrements(entry), { merge: true });
+    if (executionId) {
+      batch.set(db.collection(llmExecutionsCollection(uid)).doc(executionId), {
+        ...usageIncrements(entry),
+        month,
+      }, { merge: true });
+    }
+    await batch.commit();
+    return true;
+  } catch (error) {
+    console.error('Error recording LLM usage:', error);
+    return false;
+  }
+}
+
+export async function getMonthlyLLMUsage(uid: string, month: string): Promise<LLMUsageData | null> {
+  try {
+    const snapshot = await db.collection(llmUsageCollection(uid)).doc(month).get();
+    return snapshot.exists ? snapshot.data() as LLMUsageData : null;
+  } catch (error) {
+    console.error('Error fetching monthly LLM usage:', error);
+    return null;
+  }
+}
+
+/**
+ * Gets the usage of the last months of an account, most recent first
+ */
+export async function getLLMUsageHistory(uid: string, months: number): Promise<Array<LLMUsageData & { month: string }>> {
+  try {
+    const snapshot = await db.collection(llmUsageCollection(uid))
+      .orderBy(admin.firestore.FieldPath.documentId(), 'desc')
+      .limit(months)
+      .get();
+    return snapshot.docs.map((doc) => ({ ...doc.data() as LLMUsageData, month: doc.id }));
+  } catch (error) {
+    console.error('Error fetching LLM usage history:', error);
+    return [];
+  }
+}
+
+export async function getExecutionLLMUsage(uid: string, executionId: string): Promise<(LLMUsageData & { month: string }) | null> {
+  try {
+    const snapshot = await db.collection(llmExecutionsCollection(uid)).doc(executionId).get();
+    return snapshot.exists ? snapshot.data() as LLMUsageData & { month: string } : null;
+  } catch (error) {
+    console.error('Error fetching execution LLM usage:', error);
+    return null;
+  }
+}
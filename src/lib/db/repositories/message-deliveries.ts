@@ -0,0 +1,169 @@
+import { db, admin } from '../firebase';
+import { conversationsCollection, customersCollection, messageDeliveriesCollection, messagesCollection } from '../constants';
+import { DeliveryMetrics, DeliveryStatus, MessageDeliveryRecord } from '../types';
+
+const FieldValue = admin.firestore.FieldValue;
+
+// WhatsApp ids cannot be used as-is if they contain '/'
+function toDocId(chatMessageId: string): string {
+  return chatMessageId.replace(/\//g, '_');
+}
+
+function getConversationRef(uid: string, phone: string, conversationId: string) {
+  return db.collection(conversationsCollection(uid, phone)).doc(conversationId);
+}
+
+function getMessageRef(uid: string, phone: string, conversationId: string, messageDocId: string) {
+  return db.collection(messagesCollection(uid, phone, conversationId)).doc(messageDocId);
+}
+
+/**
+ * Finds the last assistant message of the customer's active conversation
+ * Bot messages are stored right before they are sent, so it is the one being delivered
+ */
+export async function findLatestAssistantMessage(
+  uid: string,
+  phone: string
+): Promise<{ conversationId: string; messageDocId: string } | null> {
+  try {
+    const customer = await db.collection(customersCollection(uid)).doc(phone).get();
+    const conversationId = customer.data()?.activeConversationId;
+    if (!conversationId) {
+      return null;
+    }
+
+    const snapshot = await db.collection(messagesCollection(uid, phone, conversationId))
+      .orderBy('timestamp', 'desc')
+      .limit(10)
+      .get();
+
+    const message = snapshot.docs.find((doc) => doc.data().role === 'assistant' && !doc.data().isContext);
+    return message ? { conversationId, messageDocId: message.id } : null;
+  } catch (error) {
+    console.error('Error finding latest assistant message:', error);
+    return null;
+  }
+}
+
+/**
+ * Stores the tracking record of a sent message and mirrors it on the stored assistant message
+ * Original sends (attempt 0) are counted in the conversation delivery metrics
+ */
+export async function createMessageDelivery(uid: string, record: MessageDeliveryRecord): Promise<boolean> {
+  try {
+    const batch = db.batch();
+    const { chatMessageId, phone, conversationId, messageDocId, status, ack } = record;
+
+    batch.set(db.collection(messageDeliveriesCollection(uid)).doc(toDocId(chatMessageId)), {
+      ...record,
+      sentAt: FieldValue.serverTimestamp(),
+    });
+
+    batch.set(getMessageRef(uid, phone, conversationId, messageDocId), {
+      delivery: { [chatMessageId]: { status, ack, sentAt: FieldValue.serverTimestamp() } },
+    }, { merge: true });
+
+    if (record.attempt === 0) {
+      batch.update(getConversationRef(uid, phone, conversationId), {
+        'deliveryMetrics.sent': FieldValue.increment(1),
+      });
+    }
+
+    if (record.retryOf) {
+      batch.set(db.collection(messageDeliveriesCollection(uid)).doc(toDocId(record.retryOf)), {
+        retriedAs: chatMessageId,
+      }, { merge: true });
+    }
+
+    await batch.commit();
+    return true;
+  } catch (error) {
+    console.error('Error creating message delivery:', error);
+    return false;
+  }
+}
+
+/**
+ * Gets the tracking record of a sent message
+ */
+export async function getMessageDelivery(uid: string, chatMessageId: string): Promise<MessageDeliveryRecord | null> {
+  try {
+    const snapshot = await db.collection(messageDeliveriesCollection(uid)).doc(toDocId(chatMessageId)).get();
+    return snapshot.exists ? snapshot.data() as MessageDeliveryRecord : null;
+  } catch (error) {
+    console.error('Error fetching message delivery:', error);
+    return null;
+  }
+}
+
+/**
+ * Applies a receipt to a sent message: record, stored assistant message and conversation metrics
+ * @param reached - Statuses reached for the first time with this receipt (counted in the metrics)
+ */
+export async function updateMessageDeliveryStatus(
+  uid: string,
+  record: MessageDeliveryRecord,
+  status: DeliveryStatus,
+  ack: number,
+  reached: DeliveryStatus[]
+): Promise<boolean> {
+  try {
+    const batch = db.batch();
+    const { chatMessageId, phone, conversationId, messageDocId } = record;
+    const timestamps = Object.fromEntries(reached.map((reachedStatus) => [`${reachedStatus}At`, FieldValue.serverTimestamp()]));
+
+    batch.set(db.collection(messageDeliveriesCollection(uid)).doc(toDocId(chatMessageId)), {
+      status,
+      ack,
+      ...timestamps,
+    }, { merge: true });
+
+    batch.set(getMessageRef(uid, phone, conversationId, messageDocId), {
+      delivery: { [chatMessageId]: { status, ack, ...timestamps } },
+    }, { merge: true });
+
+    const counters = reached.filter((reachedStatus) => reachedStatus !== 'pending' && reachedStatus !== 'sent');
+    if (counters.length > 0) {
+      batch.update(getConversationRef(uid, phone, conversationId), Object.fromEntries(
+        counters.map((counter) => [`deliveryMetrics.${counter}`, FieldValue.increment(1)])
+      ));
+    }
+
+    await batch.commit();
+    return true;
+  } catch (error) {
+    console.error('Error updating message delivery:', error);
+    return false;
+  }
+}
+
+/**
+ * Gets the delivery metrics of a conversation
+ */
+export async function getConversationDeliveryMetrics(
+  uid: string,
+  phone: string,
+  conversationId: string
+): Promise<DeliveryMetrics | null> {
+  try {
+    const snapshot = await getConversationRef(uid, phone, conversationId).get();
+    if (!snapshot.exists) {
+      return null;
+    }
+
+    const metrics = snapshot.data()?.deliveryMetrics || {};
+    const sent = metrics.sent || 0;
+    const read = metrics.read || 0;
+
+    return {
+      sent,
+      delivered: metrics.delivered || 0,
+      read,
+      failed: metrics.failed || 0,
+      readRate: sent > 0 ? Math.min(read / sent, 1) : null,
+    };
+  } catch (error) {
+    console.error('Error fetching delivery metrics:', error);
+    return null;
+  }
+}
@@ -3,7 +3,10 @@ import { ragCollection } from "../constants";
 import { RAGDocument } from "../types";
 import { generateText, embed } from "ai";
 import { getOpenRouterModel } from "@/lib/ai/openrouter";
+import { withUsageComponent } from "../../ai/usage/usage-context";
+import { trackEmbeddingUsage } from "../../ai/usage/usage-tracker";
 import { AI_CONFIG } from "@/lib/ai/config";
+import { createMockEmbedding, isMockModeEnabled } from "@/lib/ai/mock";
 import { openai } from "@ai-sdk/openai";
 
 const FieldValue = admin.firestore.FieldValue;
@@ -31,7 +34,7 @@ Ejemplo de formato de salida:
 ["La propiedad tiene 3 dormitorios", "La propiedad está ubicada en Buenos Aires", "El precio es $200,000"]`;
 
     const { text: response } = await generateText({
-      model: getOpenRouterModel(AI_CONFIG.PROPOSITION_GENERATOR_MODEL),
+      model: withUsageComponent('rag', getOpenRouterModel(AI_CONFIG.PROPOSITION_GENERATOR_MODEL)),
       prompt,
       temperature: 0.3,
     });
@@ -131,7 +134,7 @@ Devuelve SOLO un array JSON con el siguiente formato para cada proposición:
 ]`;
 
     const { text: response } = await generateText({
-      model: getOpenRouterModel(AI_CONFIG.PROPOSITION_VALIDATOR_MODEL),
+      model: withUsageComponent('rag', getOpenRouterModel(AI_CONFIG.PROPOSITION_VALIDATOR_MODEL)),
       prompt,
       temperature: 0.2,
     });
@@ -195,7 +198,7 @@ Devuelve SOLO un array JSON de strings con las proposiciones corregidas:
 ["Proposición corregida 1", "Proposición corregida 2"]`;
 
     const { text: response } = await generateText({
-      model: getOpenRouterModel(AI_CONFIG.PROPOSITION_CORRECTOR_MODEL),
+      model: withUsageComponent('rag', getOpenRouterModel(AI_CONFIG.PROPOSITION_CORRECTOR_MODEL)),
       prompt,
       temperature: 0.3,
     });
@@ -219,13 +222,19 @@ Devuelve SOLO un array JSON de strings con las proposiciones corregidas:
 
 /**
  * Generate embeddings for text using text-embedding-3-small
+ * In mock mode (offline regression runs) the embedding is derived from the text, without calling OpenAI
  */
 async function generateEmbedding(text: string): Promise<number[]> {
+  if (isMockModeEnabled()) {
+    return createMockEmbedding(text);
+  }
+
   try {
-    const { embedding } = await embed({
+    const { embedding, usage } = await embed({
       model: openai.textEmbeddingModel('text-embedding-3-small'),
       value: text,
     });
+    trackEmbeddingUsage('rag', 'text-embedding-3-small', usage.tokens);
     return embedding;
   } catch (error) {
     console.error("Error generating embedding:", error);
@@ -274,7 +283,7 @@ Original query: ${query}
 Improved query in english:`;
 
     const { text: improvedQuery } = await generateText({
-      model: getOpenRouterModel("openai/gpt-oss-20b"),
+      model: withUsageComponent('rag', getOpenRouterModel("openai/gpt-oss-20b")),
       prompt,
       temperature: 0.5,
     });
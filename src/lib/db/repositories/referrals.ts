@@ -0,0 +1,90 @@
+import { db, admin } from '../firebase';
+import { customersCollection, referralsCollection } from '../constants';
+import { Referral } from '../types';
+
+const FieldValue = admin.firestore.FieldValue;
+
+/**
+ * Records a referral keyed by the referred phone
+ * The first referrer wins: if the contact was already referred, the existing referral is returned
+ * @returns The stored referral and whether it was created by this call
+ */
+export async function createReferral(
+  uid: string,
+  referral: Omit<Referral, 'id' | 'createdAt'>
+): Promise<{ referral: Referral; created: boolean } | null> {
+  try {
+    const ref = db.collection(referralsCollection(uid)).doc(referral.referredPhone);
+
+    return await db.runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(ref);
+      if (snapshot.exists) {
+        return { referral: { ...snapshot.data() as Referral, id: snapshot.id }, created: false };
+      }
+
+      const data: Referral = { ...referral, createdAt: new Date() };
+      transaction.set(ref, data);
+
+      // Keep the referrer's counter in sync with the referrals collection
+      transaction.set(db.collection(customersCollection(uid)).doc(referral.referrerPhone), {
+        referralsCount: FieldValue.increment(1),
+        referredPhones: FieldValue.arrayUnion(referral.referredPhone),
+        updated_at: new Date(),
+      }, { merge: true });
+
+      return { referral: { ...data, id: ref.id }, created: true };
+    });
+  } catch (error) {
+    console.error('Error creating referral:', error);
+    return null;
+  }
+}
+
+/**
+ * Gets the referrals of an account, optionally filtered by referrer
+ */
+export async function getReferrals(uid: string, referrerPhone?: string): Promise<Referral[]> {
+  try {
+    let query: admin.firestore.Query = db.collection(referralsCollection(uid));
+    if (referrerPhone) {
+      query = query.where('referrerPhone', '==', referrerPhone);
+    }
+
+    const snapshot = await query.get();
+    return snapshot.docs
+      .map((doc) => ({ ...doc.data() as Referral, id: doc.id }))
+      .sort((a, b) => toMillis(b.createdAt) - toMillis(a.createdAt));
+  } catch (error) {
+    console.error('Error fetching referrals:', error);
+    return [];
+  }
+}
+
+/**
+ * Gets the referral that brought a contact, if any
+ */
+export async function getReferralByReferredPhone(uid: string, referredPhone: string): Promise<Referral | null> {
+  try {
+    const snapshot = await db.collection(referralsCollection(uid)).doc(referredPhone).get();
+    return snapshot.exists ? { ...snapshot.data() as Referral, id: snapshot.id } : null;
+  } catch (error) {
+    console.error('Error fetching referral:', error);
+    return null;
+  }
+}
+
+export async function markReferralFirstContactSent(uid: string, referredPhone: string): Promise<void> {
+  try {
+    await db.collection(referralsCollection(uid)).doc(referredPhone).update({
+      firstContactSentAt: new Date(),
+    });
+  } catch (error) {
+    console.error('Error marking referral first contact:', error);
+  }
+}
+
+function toMillis(value: any): number {
+  if (!value) return 0;
+  if (typeof value.toMillis === 'function') return value.toMillis();
+  return new Date(value).getTime() || 0;
+}
@@ -0,0 +1,193 @@
+import { db, admin } from '../firebase';
+import { suppressionListCollection, suppressionAuditCollection } from '../constants';
+import { SuppressionAuditEvent, SuppressionEntry, SuppressionSource } from '../types';
+
+/**
+ * Normalizes a phone to the suppression list id (digits only)
+ * Reminders store phones as typed by the owner ("+54 9 11 ..."), customers as chat ids
+ */
+export function normalizeSuppressionPhone(phone: string): string {
+  return (phone || '').split('@')[0].replace(/\D/g, '');
+}
+
+/**
+ * Checks if a number opted out of proactive messages
+ * Throws if Firestore is unavailable: a number that may have opted out is never messaged
+ */
+export async function isPhoneSuppressed(uid: string, phone: string): Promise<boolean> {
+  const id = normalizeSuppressionPhone(phone);
+  if (!id) {
+    return false;
+  }
+
+  try {
+    const snapshot = await db.collection(suppressionListCollection(uid)).doc(id).get();
+    return snapshot.exists;
+  } catch (error) {
+    console.error('Error checking suppression list:', error);
+    throw error;
+  }
+}
+
+export async function getSuppression(uid: string, phone: string): Promise<SuppressionEntry | null> {
+  try {
+    const snapshot = await db.collection(suppressionListCollection(uid)).doc(normalizeSuppressionPhone(phone)).get();
+    return snapshot.exists ? { ...snapshot.data() as SuppressionEntry, id: snapshot.id } : null;
+  } catch (error) {
+    console.error('Error fetching suppression:', error);
+    return null;
+  }
+}
+
+export interface SuppressionPage<T> {
+  items: T[];
+  nextCursor: string | null; // Id of the last item, null on the last page
+}
+
+/**
+ * Applies the cursor (id of the last item of the previous page) and the page size to a query
+ * An unknown cursor restarts from the first page
+ */
+async function paginate<T>(
+  query: admin.firestore.Query,
+  collection: string,
+  limit: number,
+  cursor?: string
+): Promise<SuppressionPage<T>> {
+  if (cursor) {
+    const cursorSnapshot = await db.collection(collection).doc(cursor).get();
+    if (cursorSnapshot.exists) {
+      query = query.startAfter(cursorSnapshot);
+    }
+  }
+
+  const snapshot = await query.limit(limit).get();
+  const items = snapshot.docs.map((doc) => ({ ...doc.data() as T, id: doc.id }));
+
+  return {
+    items,
+    nextCursor: snapshot.docs.length === limit ? snapshot.docs[snapshot.docs.length - 1].id : null,
+  };
+}
+
+/**
+ * Gets a page of the suppressed numbers of an account, newest first
+ */
+export async function getSuppressions(uid: string, limit: number, cursor?: string): Promise<SuppressionPage<SuppressionEntry>> {
+  try {
+    const query = db.collection(suppressionListCollection(uid)).orderBy('suppressedAt', 'desc');
+    return await paginate<SuppressionEntry>(query, suppressionListCollection(uid), limit, cursor);
+  } catch (error) {
+    console.error('Error fetching suppression list:', error);
+    return { items: [], nextCursor: null };
+  }
+}
+
+/**
+ * Adds a number to the suppression list and records the opt-out in the audit trail
+ * @returns false if the number was already suppressed (or the write failed)
+ */
+export async function addSuppression(
+  uid: string,
+  phone: string,
+  source: SuppressionSource,
+  message?: string | null
+): Promise<boolean> {
+  const id = normalizeSuppressionPhone(phone);
+  const ref = db.collection(suppressionListCollection(uid)).doc(id);
+  const auditRef = db.collection(suppressionAuditCollection(uid)).doc();
+
+  try {
+    return await db.runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(ref);
+      if (snapshot.exists) {
+        return false;
+      }
+
+      const now = new Date();
+      const entry: SuppressionEntry = { phone: id, source, message: message ?? null, suppressedAt: now };
+      const event: SuppressionAuditEvent = { phone: id, action: 'opt_out', source, message: message ?? null, createdAt: now };
+
+      transaction.set(ref, entry);
+      transaction.set(auditRef, event);
+      return true;
+    });
+  } catch (error) {
+    console.error('Error adding suppression:', error);
+    return false;
+  }
+}
+
+/**
+ * Removes a number from the suppression list and records the opt-in in the audit trail
+ * @returns false if the number was not suppressed (or the write failed)
+ */
+export async function removeSuppression(
+  uid: string,
+  phone: string,
+  source: SuppressionSource,
+  message?: string | null
+): Promise<boolean> {
+  const id = normalizeSuppressionPhone(phone);
+  const ref = db.collection(suppressionListCollection(uid)).doc(id);
+  const auditRef = db.collection(suppressionAuditCollection(uid)).doc();
+
+  try {
+    return await db.runTransaction(async (transaction) => {
+      const snapshot = await transaction.get(ref);
+      if (!snapshot.exists) {
+        return false;
+      }
+
+      const event: SuppressionAuditEvent = { phone: id, action: 'opt_in', source, message: message ?? null, createdAt: new Date() };
+
+      transaction.delete(ref);
+      transaction.set(auditRef, event);
+      return true;
+    });
+  } catch (error) {
+    console.error('Error removing suppression:', error);
+    return false;
+  }
+}
+
+/**
+ * Records a proactive message that was not sent because the number opted out
+ */
+export async function recordBlockedSend(uid: string, phone: string, context: string): Promise<void> {
+  try {
+    const event: SuppressionAuditEvent = {
+      phone: normalizeSuppressionPhone(phone),
+      action: 'blocked_send',
+      context,
+      createdAt: new Date(),
+    };
+    await db.collection(suppressionAuditCollection(uid)).add(event);
+  } catch (error) {
+    console.error('Error recording blocked send:', error);
+  }
+}
+
+/**
+ * Gets a page of the audit trail of an account, optionally filtered by phone, newest first
+ * The phone filter needs the composite index (phone, createdAt desc)
+ */
+export async function getSuppressionAudit(
+  uid: string,
+  limit: number,
+  phone?: string,
+  cursor?: string
+): Promise<SuppressionPage<SuppressionAuditEvent>> {
+  try {
+    let query: admin.firestore.Query = db.collection(suppressionAuditCollection(uid));
+    if (phone) {
+      query = query.where('phone', '==', normalizeSuppressionPhone(phone));
+    }
+    query = query.orderBy('createdAt', 'desc');
+
+    return await paginate<SuppressionAuditEvent>(query, suppressionAuditCollection(uid), limit, cursor);
+  } catch (error) {
+    console.error('Error fetching suppression audit:', error);
+    return { items: [], nextCursor: null };
+  }
+}
@@ -31,6 +31,29 @@ export async function getTenantByPhone(
   }
 }
 
+/**
+ * Obtiene las cuentas que le escriben a un número por el canal de la plataforma
+ * (recordatorios de pago y boletas al inquilino, recordatorios al dueño)
+ * Los errores se propagan: quien llama decide qué hacer si no se pueden resolver
+ */
+export async function getAccountsMessagingPhone(phone: string): Promise<string[]> {
+  const [tenantsSnapshot, ownersSnapshot] = await Promise.all([
+    db.collectionGroup('tenants').where('telefono', 'array-contains', phone).get(),
+    db.collectionGroup('tenants').where('dueno_telefono', '==', phone).get(),
+  ]);
+
+  const uids = new Set<string>();
+  for (const doc of [...tenantsSnapshot.docs, ...ownersSnapshot.docs]) {
+    // users/{uid}/tenants/{tenantId}
+    const uid = doc.ref.parent.parent?.id;
+    if (uid && doc.data().activo) {
+      uids.add(uid);
+    }
+  }
+
+  return [...uids];
+}
+
 /**
  * Obtiene todos los recordatorios de pago activos de un tenant
  */
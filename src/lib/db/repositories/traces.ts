@@ -0,0 +1,46 @@
+import { db, admin } from '../firebase';
+import { tracesCollection } from '../constants';
+import type { CascadeTraceData } from '../types';
+
+const FieldValue = admin.firestore.FieldValue;
+
+export async function saveTrace(uid: string, trace: CascadeTraceData): Promise<boolean> {
+  try {
+    await db.collection(tracesCollection(uid)).doc(trace.id).set({
+      ...trace,
+      createdAt: FieldValue.serverTimestamp(),
+    });
+    return true;
+  } catch (error) {
+    console.error('Error saving trace:', error);
+    return false;
+  }
+}
+
+export async function getTrace(uid: string, traceId: string): Promise<CascadeTraceData | null> {
+  try {
+    const snapshot = await db.collection(tracesCollection(uid)).doc(traceId).get();
+    return snapshot.exists ? { ...snapshot.data() as CascadeTraceData, id: snapshot.id } : null;
+  } catch (error) {
+    console.error('Error fetching trace:', error);
+    return null;
+  }
+}
+
+/**
+ * Gets the most recent traces of an account, optionally of a single customer
+ */
+export async function getTraces(uid: string, limit: number, phone?: string): Promise<CascadeTraceData[]> {
+  try {
+    let query: admin.firestore.Query = db.collection(tracesCollection(uid));
+    if (phone) {
+      query = query.where('phone', '==', phone);
+    }
+
+    const snapshot = await query.orderBy('createdAt', 'desc').limit(limit).get();
+    return snapshot.docs.map((doc) => ({ ...doc.data() as CascadeTraceData, id: doc.id }));
+  } catch (error) {
+    console.error('Error fetching traces:', error);
+    return [];
+  }
+}
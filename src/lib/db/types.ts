@@ -1,5 +1,11 @@
 // Database types for Firestore documents
 
+import type { MessageTranscription } from '../transcription/types';
+import type { ChannelName } from '../channels/types';
+import type { Guideline } from '../ai/types/guideline';
+import type { ActionPlan, ClassificationResult, WorkerResult } from '../ai/cascade/types';
+import type { GuidelineMatchStats } from '../ai/core/guideline-matcher';
+
 export type User = {
   id: string;
   email: string;
@@ -14,10 +20,212 @@ export type CustomerData = {
   name: string;
   phone: string;
   chatId?: string;
+  channel?: ChannelName; // Channel the customer reached the agent through (web chat leads have no phone)
+  activeConversationId?: string | null;
+  sharedLocation?: SharedLocation | null; // Last location pin shared by the customer
+  referredBy?: ReferredBy | null; // Customer who shared this contact (referral attribution)
+  referralsCount?: number; // Number of contacts this customer has referred
+  referredPhones?: string[]; // Phones of the contacts this customer has referred
+  language?: ConversationLanguage; // Last detected language, used for reminders and notifications
   created_at?: any;
   updated_at?: any;
 };
 
+/**
+ * Languages the agent answers in (guidelines and prompts stay authored in Spanish)
+ */
+export type ConversationLanguage = 'es' | 'en' | 'pt';
+
+export type MessageLocation = {
+  lat: number;
+  lng: number;
+  name?: string | null;
+  address?: string | null;
+};
+
+export type SharedLocation = MessageLocation & {
+  conversationId: string | null; // Conversation where the pin was shared (search origin only within it)
+  sharedAt: any;
+};
+
+export type ReferredBy = {
+  phone: string;
+  name?: string | null;
+  referredAt: any;
+};
+
+export type ReferralStatus = 'new_customer' | 'existing_customer';
+
+export type Referral = {
+  id?: string; // Same as referredPhone
+  referrerPhone: string;
+  referrerName?: string | null;
+  referredPhone: string;
+  referredName?: string | null;
+  status: ReferralStatus; // existing_customer: the contact was already a customer, no bonus applies
+  firstContactSentAt?: any;
+  createdAt: any;
+};
+
+/**
+ * Opt-out compliance (users/{uid}/suppression_list/{phone})
+ * Suppressed numbers receive no proactive messages (reminders, notifications, first contacts)
+ */
+export type SuppressionSource = 'keyword' | 'llm' | 'owner';
+
+export type SuppressionEntry = {
+  id?: string; // Same as phone
+  phone: string;
+  source: SuppressionSource;
+  message?: string | null; // Inbound message that triggered the opt-out
+  suppressedAt: any;
+};
+
+/**
+ * Audit trail of opt-outs, opt-ins and blocked sends (users/{uid}/suppression_audit)
+ */
+export type SuppressionAuditAction = 'opt_out' | 'opt_in' | 'blocked_send';
+
+export type SuppressionAuditEvent = {
+  id?: string;
+  phone: string;
+  action: SuppressionAuditAction;
+  source?: SuppressionSource | null; // Who opted the number out or in
+  context?: string | null; // Outbound path of a blocked send (e.g. payment_reminder)
+  message?: string | null;
+  createdAt: any;
+};
+
+/**
+ * Guideline of an account (users/{uid}/guidelines/{id})
+ * With the id of a built-in guideline it only holds the overridden fields
+ * (enabled: false disables it, priority reprioritises it); otherwise it is a full guideline
+ */
+export type CustomGuidelineData = Partial<Omit<Guideline, 'id'>> & {
+  id: string;
+  createdAt?: any;
+  updatedAt?: any;
+};
+
+export type ExperimentStatus = 'draft' | 'running' | 'stopped';
+
+export type ExperimentWorkflow = 'legacy' | 'cascade' | 'direct';
+
+export type ExperimentVariant = {
+  id: string; // e.g. "control", "grok-writer"
+  weight: number; // Percentage of customers (the weights of an experiment add up to 100)
+  workflow: ExperimentWorkflow;
+  models?: Record<string, string>; // Model name -> model used instead in this variant
+  guidelineVersion?: string; // Key of GUIDELINE_VERSIONS (defaults to "default")
+};
+
+/**
+ * A/B experiment between workflow variants of an account (users/{uid}/experiments)
+ * Only one experiment of an account runs at a time
+ */
+export type ExperimentData = {
+  id: string;
+  name: string;
+  description?: string;
+  status: ExperimentStatus;
+  variants: ExperimentVariant[];
+  startedAt?: any;
+  stoppedAt?: any;
+  createdAt?: any;
+  updatedAt?: any;
+};
+
+/**
+ * Variant a conversation ran with, stored on the conversation document (experiment field)
+ */
+export type ExperimentAssignment = {
+  experimentId: string;
+  variantId: string;
+};
+
+/**
+ * Outcome of an experiment conversation, recorded when the conversation is closed
+ */
+export type ExperimentOutcome = {
+  leadStage: 'caliente' | 'tibio' | 'frío' | 'muy_frío' | null; // null if the lead was not analyzed
+  totalScore: number | null;
+  feedbackRating: number | null; // Last rating logged by the customer during the conversation
+  closedAt?: any;
+};
+
+/**
+ * Conversation of an experiment (users/{uid}/experiments/{id}/conversations/{conversationId})
+ */
+export type ExperimentConversationData = ExperimentAssignment & {
+  conversationId: string;
+  phone: string;
+  turns: number;
+  toolsExecuted: string[];
+  escalations: number; // get_help executions
+  outcome?: ExperimentOutcome;
+  startedAt?: any;
+  updatedAt?: any;
+};
+
+export type LLMUsageTotals = {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number; // Estimated USD
+};
+
+/**
+ * LLM usage of an account in a month (users/{uid}/llm_usage/{YYYY-MM})
+ * or of a single execution (users/{uid}/llm_executions/{executionId})
+ */
+export type LLMUsageData = LLMUsageTotals & {
+  components: Record<string, LLMUsageTotals>; // planner, worker, writer, validator, rag, lead_analysis...
+  models: Record<string, LLMUsageTotals>;
+  createdAt?: any;
+  updatedAt?: any;
+};
+
+/**
+ * Style validation step of a cascade execution
+ */
+export type CascadeTraceStyle = {
+  score: number;
+  corrected: boolean;
+  originalResponse: string; // Writer response before the style corrections
+};
+
+/**
+ * Intermediate data of a cascade execution (users/{uid}/traces/{traceId})
+ * The trace id is the execution id, and the assistant message it produced stores it (traceId)
+ * Long tool and task results are truncated
+ */
+export type CascadeTraceData = {
+  id: string;
+  phone: string;
+  executionId: string | null;
+  conversationId: string | null;
+  messageId: string | null; // Assistant message document of the response
+  userMessage: string;
+  response: string;
+  success: boolean;
+  error: string | null;
+  activeGuidelines: string[];
+  matching: GuidelineMatchStats | null; // Prefilter, LLM batches and cache hit of the guideline matching
+  classification: ClassificationResult;
+  plan: ActionPlan | null; // Tasks with their runtime status, result and error
+  workerResults: WorkerResult[];
+  style: CascadeTraceStyle | null; // null if style validation is disabled or didn't run
+  faqCache: { question: string; similarity: number } | null; // Cached FAQ answer served instead of running the writer
+  totalExecutionTimeMs: number;
+  createdAt?: any;
+  expiresAt?: any; // Firestore TTL field
+};
+
+export type ReferralSettings = {
+  sendFirstContact?: boolean; // Send a first message to the referred contact
+  firstContactMessage?: string; // Template with {nombre}, {referente}, {agente}, {negocio}
+};
+
 export type AgentConfigData = {
   isActive: boolean;
   agentName:string;
@@ -25,6 +233,42 @@ export type AgentConfigData = {
   enabledFor?: { name: string; phone: string }[]; // Whitelist: if not empty, only these numbers can interact with the agent
   session?: string;
   reportsNumber?: string;
+  referrals?: ReferralSettings;
+  channel?: ChannelName; // Outbound channel adapter (defaults to MESSAGING_CHANNEL / 'waha')
+  businessHours?: BusinessHoursSettings;
+};
+
+export type BusinessDay = 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday';
+
+export type BusinessHoursRange = {
+  open: string; // "HH:mm" (24h) in the business timezone
+  close: string; // "HH:mm", after open
+};
+
+/**
+ * Holiday or special day that replaces the weekly schedule of a date
+ */
+export type BusinessHoursException = {
+  date: string; // "YYYY-MM-DD" in the business timezone
+  name?: string; // e.g. "Navidad"
+  closed?: boolean;
+  ranges?: BusinessHoursRange[]; // Special hours when the day is not closed
+};
+
+/**
+ * answer: the agent keeps answering, aware that the office is closed
+ * away_message: an away message is sent once per closed period before the agent answers
+ */
+export type OutOfHoursMode = 'answer' | 'away_message';
+
+export type BusinessHoursSettings = {
+  enabled: boolean;
+  timezone: string; // IANA timezone, e.g. "America/Argentina/Buenos_Aires"
+  weekly: Partial<Record<BusinessDay, BusinessHoursRange[]>>; // Days without ranges are closed
+  exceptions?: BusinessHoursException[];
+  outOfHoursMode?: OutOfHoursMode; // Defaults to 'answer'
+  awayMessage?: string; // Template with {apertura}, defaults to a localized message
+  holdEscalations?: boolean; // Hold get_help escalations until opening (defaults to true)
 };
 
 // export type AgentContextData = {
@@ -72,6 +316,73 @@ export type ConversationMessage = {
   chat_message_id?: string; // Legacy support
   whatsappMessageId?: string; // Alias for chatMessageId
   isContext?: boolean; // Flag to mark context messages (tool executions, internal logs)
+  isTranscribed?: boolean; // Flag to mark user messages transcribed from a voice note
+  delivery?: Record<string, MessageDelivery>; // WhatsApp receipts of the sent parts, keyed by chatMessageId
+  quoted?: QuotedMessageReference; // Set on user messages that reply to a stored message
+};
+
+/**
+ * Delivery status of a bot message, from WAHA message.ack events
+ * (ack -1 ERROR → failed, 0 PENDING → pending, 1 SERVER → sent, 2 DEVICE → delivered, 3 READ / 4 PLAYED → read)
+ */
+export type DeliveryStatus = 'pending' | 'sent' | 'delivered' | 'read' | 'failed';
+
+export type MessageDelivery = {
+  status: DeliveryStatus;
+  ack: number;
+  sentAt?: any;
+  deliveredAt?: any;
+  readAt?: any;
+  failedAt?: any;
+};
+
+/**
+ * Tracking record of a WhatsApp message sent by the bot (users/{uid}/message_deliveries/{chatMessageId})
+ * Links the chatMessageId to the stored assistant message so receipts can be applied later
+ */
+export type MessageDeliveryRecord = MessageDelivery & {
+  chatMessageId: string;
+  phone: string;
+  chatId: string;
+  session: string;
+  conversationId: string;
+  messageDocId: string; // Stored assistant message the part belongs to
+  content: string; // Sent text (caption for media), used to retry failed deliveries
+  hasMedia: boolean;
+  attempt: number; // 0 for the original send, n for the n-th retry
+  retryOf?: string | null; // chatMessageId of the failed message this one retries
+  retriedAs?: string | null;
+};
+
+/**
+ * Delivery counters of the bot messages in a conversation (conversation.deliveryMetrics)
+ */
+export type DeliveryMetrics = {
+  sent: number;
+  delivered: number;
+  read: number;
+  failed: number;
+  readRate: number | null; // read / sent, null when nothing was sent
+};
+
+/**
+ * Stored message a user message quotes (WhatsApp reply)
+ */
+export type QuotedMessageReference = {
+  chatMessageId: string | null; // WhatsApp id of the quoted message
+  conversationId: string | null;
+  messageDocId: string | null; // Stored assistant message the quoted part belongs to
+  propertyId: string | null; // Property the quoted part is about (@@property_id: ...@@ marker)
+};
+
+/**
+ * Optional data stored alongside a conversation message
+ */
+export type ConversationMessageExtras = {
+  transcription?: MessageTranscription; // Voice note transcript (content holds the same text)
+  location?: MessageLocation; // Location pin shared by the user
+  quoted?: QuotedMessageReference; // Resolved quoted message of a reply
+  traceId?: string; // Cascade trace of an assistant response (users/{uid}/traces/{traceId})
 };
 
 export type CustomerInterest = {
@@ -8,9 +8,13 @@ import { getQueueConnection } from './redis-connection';
 import { db, admin } from '../db/firebase';
 import { generateObject } from 'ai';
 import { getModel } from '../ai/openrouter';
+import { runWithUsageContext, withUsageComponent } from '../ai/usage/usage-context';
 import { AI_CONFIG } from '../ai/config';
 import { z } from 'zod';
 import logger from 'jet-logger';
+import { getConversationDeliveryMetrics } from '../db/repositories/message-deliveries';
+import type { DeliveryMetrics } from '../db/types';
+import { recordConversationOutcome } from '../ai/experiments/outcomes';
 
 const FieldValue = admin.firestore.FieldValue;
 
@@ -105,6 +109,16 @@ type LeadAnalysisResult = z.infer<typeof leadAnalysisSchema>;
 // Create the queue instance
 let conversationQueue: Queue<ConversationCloseJobData> | null = null;
 
+// Offline runs (regression harness) disable it: their conversations are never closed or analyzed
+let closeSchedulingEnabled = true;
+
+/**
+ * Enables or disables scheduling close jobs for new messages
+ */
+export function setConversationCloseScheduling(enabled: boolean): void {
+  closeSchedulingEnabled = enabled;
+}
+
 /**
  * Get or create the conversation queue
  */
@@ -146,6 +160,10 @@ export async function scheduleConversationClose(
   conversationId: string,
   customerName: string
 ): Promise<void> {
+  if (!closeSchedulingEnabled) {
+    return;
+  }
+
   const queue = getConversationQueue();
   const jobId = getJobId(uid, phone, conversationId);
 
@@ -352,7 +370,7 @@ ${formattedContext || 'Sin herramientas ejecutadas'}
 </importante>
 </task>`;
 
-    const model = getModel(AI_CONFIG?.LEAD_QUALIFICATION_MODEL ?? 'openai/gpt-4o-mini');
+    const model = withUsageComponent('summary', getModel(AI_CONFIG?.LEAD_QUALIFICATION_MODEL ?? 'openai/gpt-4o-mini'));
     const { object: result } = await generateObject({
       model: model as any,
       schema: conversationSummarySchema,
@@ -373,7 +391,8 @@ ${formattedContext || 'Sin herramientas ejecutadas'}
  */
 async function analyzeLead(
   messages: Array<{ role: string; content: string; timestamp: any; isContext?: boolean }>,
-  customerName: string
+  customerName: string,
+  deliveryMetrics?: DeliveryMetrics | null
 ): Promise<LeadAnalysisResult | null> {
   try {
     if (messages.length === 0) {
@@ -397,6 +416,12 @@ async function analyzeLead(
       .map((m) => m.content)
       .join('\n');
 
+    // Read receipts of the agent messages (engagement signal)
+    const readSignal = deliveryMetrics && deliveryMetrics.readRate !== null
+      ? `El cliente leyó ${deliveryMetrics.read} de ${deliveryMetrics.sent} mensajes enviados por el agente (${Math.round(deliveryMetrics.readRate * 100)}%)` +
+        (deliveryMetrics.failed > 0 ? `, ${deliveryMetrics.failed} no se pudieron entregar` : '')
+      : '';
+
     const prompt = `<task>
 Eres un experto en calificación de leads inmobiliarios usando el framework BANT adaptado al sector.
 Analiza la siguiente conversación y genera una calificación detallada con preferencias e información de propiedades consultadas.
@@ -410,6 +435,10 @@ Información de herramientas ejecutadas durante la conversación (búsquedas de
 ${formattedContext}
 </contexto_herramientas>` : ''}
 
+${readSignal ? `<lectura_mensajes>
+${readSignal}. Úsalo como señal de Engagement: leer pocos mensajes indica bajo interés.
+</lectura_mensajes>` : ''}
+
 <framework_bant>
 **Budget (Presupuesto)** - 25 puntos máximo
 - Presupuesto específico y acorde al mercado: 25pts
@@ -477,7 +506,7 @@ IMPORTANTE: Sé objetivo y basa tu análisis SOLO en lo que está en la conversa
 </instrucciones>
 </task>`;
 
-    const model = getModel(AI_CONFIG?.LEAD_QUALIFICATION_MODEL ?? 'openai/gpt-4o-mini');
+    const model = withUsageComponent('lead_analysis', getModel(AI_CONFIG?.LEAD_QUALIFICATION_MODEL ?? 'openai/gpt-4o-mini'));
     const { object: result } = await generateObject({
       model: model as any,
       schema: leadAnalysisSchema,
@@ -548,6 +577,12 @@ async function closeConversation(data: ConversationCloseJobData): Promise<boolea
       closedAt: FieldValue.serverTimestamp(),
     };
 
+    // Read rate of the agent messages, kept on the conversation for engagement reports
+    const deliveryMetrics = await getConversationDeliveryMetrics(uid, phone, conversationId);
+    if (deliveryMetrics && deliveryMetrics.readRate !== null) {
+      conversationUpdateData['deliveryMetrics.readRate'] = deliveryMetrics.readRate;
+    }
+
     // Add summary as joined propositions text
     if (detailedSummary && detailedSummary.propositions.length > 0) {
       // Join propositions with line breaks to create a readable summary text
@@ -571,15 +606,17 @@ async function closeConversation(data: ConversationCloseJobData): Promise<boolea
     const userMessages = allMessages.filter((m) => m.role === 'user' && !m.isContext);
     if (userMessages.length < 2) {
       logger.info(`[ConversationQueue] Not enough messages for lead analysis (${userMessages.length})`);
+      await recordConversationOutcome(uid, phone, conversationId, conversationData, null);
       return true;
     }
 
     // Analyze the lead (BANT scoring)
     logger.info(`[ConversationQueue] Analyzing lead ${phone} with ${allMessages.length} total messages`);
-    const analysis = await analyzeLead(allMessages, customerName || phone);
+    const analysis = await analyzeLead(allMessages, customerName || phone, deliveryMetrics);
 
     if (!analysis) {
       logger.err(`[ConversationQueue] Failed to analyze lead ${phone}`);
+      await recordConversationOutcome(uid, phone, conversationId, conversationData, null);
       return true; // Conversation was closed, just no analysis
     }
 
@@ -648,6 +685,9 @@ async function closeConversation(data: ConversationCloseJobData): Promise<boolea
       updatedAt: FieldValue.serverTimestamp(),
     });
 
+    // Variant outcome, if the conversation ran with an experiment
+    await recordConversationOutcome(uid, phone, conversationId, conversationData, analysis);
+
     logger.info(
       `[ConversationQueue] Successfully closed and analyzed ${phone}: ${analysis.leadStage} (${analysis.totalScore}/100)`
     );
@@ -674,7 +714,7 @@ export function startConversationWorker(): Worker<ConversationCloseJobData> {
     CONVERSATION_QUEUE_NAME,
     async (job: Job<ConversationCloseJobData>) => {
       logger.info(`[ConversationWorker] Processing job ${job.id}`);
-      const success = await closeConversation(job.data);
+      const success = await runWithUsageContext({ uid: job.data.uid }, () => closeConversation(job.data));
       if (!success) {
         logger.warn(`[ConversationWorker] Job ${job.id} completed but no action taken`);
       }
@@ -0,0 +1,201 @@
+/**
+ * Delivery Retry Queue - BullMQ queue for bot messages WhatsApp failed to deliver
+ *
+ * Behavior:
+ * - A message.ack with ERROR schedules a delayed resend of the failed text
+ * - Before resending, the retry is registered in Redis so the new message is linked
+ *   to the same stored assistant message (see trackSentMessage)
+ * - Retries that keep failing stop after DELIVERY_RETRY_CONFIG.MAX_RETRIES; failed jobs are kept
+ *   so they can be inspected in the queue dashboard
+ */
+
+import { createHash } from 'crypto';
+import { Queue, Worker, Job } from 'bullmq';
+import logger from 'jet-logger';
+import { getQueueConnection } from './redis-connection';
+import { getChannelForAccount } from '../channels';
+
+// Queue configuration
+export const DELIVERY_RETRY_QUEUE_NAME = 'message-delivery-retry';
+
+export const DELIVERY_RETRY_CONFIG = {
+  // Resends of a message after WhatsApp reports it as failed
+  MAX_RETRIES: process.env.DELIVERY_MAX_RETRIES ? parseInt(process.env.DELIVERY_MAX_RETRIES) : 2,
+  // Delay before the first retry, doubled on each attempt
+  RETRY_DELAY_MS: process.env.DELIVERY_RETRY_DELAY_MS ? parseInt(process.env.DELIVERY_RETRY_DELAY_MS) : 60 * 1000,
+  // Time the resent message has to show up as a bot message event
+  PENDING_TTL_SECONDS: 15 * 60,
+} as const;
+
+const PENDING_KEY_PREFIX = 'delivery-retry:pending:';
+
+// Job data interface
+export interface DeliveryRetryJobData {
+  uid: string;
+  session: string;
+  chatId: string;
+  phone: string;
+  content: string;
+  conversationId: string;
+  messageDocId: string;
+  failedChatMessageId: string;
+  attempt: number; // Attempt number of the resend (1 for the first retry)
+}
+
+/**
+ * Retry registered before a resend, claimed when the resent message is tracked
+ */
+export type PendingDeliveryRetry = Pick<
+  DeliveryRetryJobData,
+  'conversationId' | 'messageDocId' | 'failedChatMessageId' | 'attempt'
+>;
+
+let retryQueue: Queue<DeliveryRetryJobData> | null = null;
+let retryWorker: Worker<DeliveryRetryJobData> | null = null;
+
+function getPendingKey(uid: string, phone: string, content: string): string {
+  const hash = createHash('sha1').update(content).digest('hex');
+  return `${PENDING_KEY_PREFIX}${uid}:${phone}:${hash}`;
+}
+
+/**
+ * Generate job ID for a failed message (BullMQ ids cannot contain ':')
+ */
+function getJobId(chatMessageId: string): string {
+  return `retry-${chatMessageId.replace(/:/g, '-')}`;
+}
+
+/**
+ * Get or create the delivery retry queue
+ */
+export function getDeliveryRetryQueue(): Queue<DeliveryRetryJobData> {
+  if (!retryQueue) {
+    retryQueue = new Queue<DeliveryRetryJobData>(DELIVERY_RETRY_QUEUE_NAME, {
+      connection: getQueueConnection(),
+      defaultJobOptions: {
+        removeOnComplete: 100,
+        removeOnFail: false,
+        // Transport errors (proxy down) are retried by BullMQ, WhatsApp failures by a new ack
+        attempts: 3,
+        backoff: { type: 'exponential', delay: 30 * 1000 },
+      },
+    });
+  }
+  return retryQueue;
+}
+
+/**
+ * Schedules the resend of a failed message
+ * @returns false when the message already used all its retries
+ */
+export async function scheduleDeliveryRetry(data: DeliveryRetryJobData): Promise<boolean> {
+  if (data.attempt > DELIVERY_RETRY_CONFIG.MAX_RETRIES) {
+    logger.warn(`[DeliveryRetryQueue] ❌ ${data.failedChatMessageId} failed after ${DELIVERY_RETRY_CONFIG.MAX_RETRIES} retries`);
+    return false;
+  }
+
+  const delay = DELIVERY_RETRY_CONFIG.RETRY_DELAY_MS * Math.pow(2, data.attempt - 1);
+  await getDeliveryRetryQueue().add('retry-delivery', data, {
+    jobId: getJobId(data.failedChatMessageId),
+    delay,
+  });
+
+  logger.info(`[DeliveryRetryQueue] 🕐 Retry ${data.attempt} of ${data.failedChatMessageId} scheduled in ${delay}ms`);
+  return true;
+}
+
+/**
+ * Claims the retry a sent message belongs to, if any
+ * @returns The pending retry, or null if the message is not a resend
+ */
+export async function claimPendingDeliveryRetry(
+  uid: string,
+  phone: string,
+  content: string
+): Promise<PendingDeliveryRetry | null> {
+  try {
+    const redis = getQueueConnection();
+    const key = getPendingKey(uid, phone, content);
+    const raw = await redis.get(key);
+    if (!raw) {
+      return null;
+    }
+
+    await redis.del(key);
+    return JSON.parse(raw) as PendingDeliveryRetry;
+  } catch (error: any) {
+    logger.err(`[DeliveryRetryQueue] Error claiming pending retry: ${error?.message || error}`);
+    return null;
+  }
+}
+
+/**
+ * Resends a failed message
+ */
+async function processRetry(job: Job<DeliveryRetryJobData>): Promise<void> {
+  const { uid, session, chatId, phone, content, conversationId, messageDocId, failedChatMessageId, attempt } = job.data;
+
+  const pending: PendingDeliveryRetry = { conversationId, messageDocId, failedChatMessageId, attempt };
+  await getQueueConnection().set(
+    getPendingKey(uid, phone, content),
+    JSON.stringify(pending),
+    'EX',
+    DELIVERY_RETRY_CONFIG.PENDING_TTL_SECONDS
+  );
+
+  const channel = await getChannelForAccount(uid);
+  await channel.sendText({ session, chatId }, content);
+
+  logger.info(`[DeliveryRetryQueue] 🔁 Resent ${failedChatMessageId} (attempt ${attempt})`);
+}
+
+/**
+ * Start the delivery retry worker
+ */
+export function startDeliveryRetryWorker(): Worker<DeliveryRetryJobData> {
+  if (retryWorker) {
+    return retryWorker;
+  }
+
+  retryWorker = new Worker<DeliveryRetryJobData>(
+    DELIVERY_RETRY_QUEUE_NAME,
+    processRetry,
+    {
+      connection: getQueueConnection(),
+      concurrency: 5,
+    }
+  );
+
+  retryWorker.on('failed', (job, err) => {
+    logger.err(`[DeliveryRetryQueue] Job ${job?.id} failed: ${err?.message || err}`);
+  });
+
+  retryWorker.on('error', (err) => {
+    logger.err(`[DeliveryRetryQueue] Worker error: ${err?.message || err}`);
+  });
+
+  logger.info('[DeliveryRetryQueue] Worker started');
+  return retryWorker;
+}
+
+/**
+ * Stop the delivery retry worker
+ */
+export async function stopDeliveryRetryWorker(): Promise<void> {
+  if (retryWorker) {
+    await retryWorker.close();
+    retryWorker = null;
+    logger.info('[DeliveryRetryQueue] Worker stopped');
+  }
+}
+
+/**
+ * Close the queue
+ */
+export async function closeDeliveryRetryQueue(): Promise<void> {
+  if (retryQueue) {
+    await retryQueue.close();
+    retryQueue = null;
+    logger.info('[DeliveryRetryQueue] Queue closed');
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * Held Escalation Queue - BullMQ queue for get_help escalations created out of business hours
+ *
+ * Behavior:
+ * - The help request is created right away, only the message to the owner is delayed
+ * - The message is delivered to the reports number when business hours start
+ * - The reports number is read on delivery, so config changes while held are applied
+ */
+
+import { Queue, Worker, Job } from 'bullmq';
+import logger from 'jet-logger';
+import { getQueueConnection } from './redis-connection';
+import { getPlatformChannel } from '../channels';
+import { getUserConfig } from '../db/repositories/users';
+import { saveMultimaiMessage } from '../db/repositories/conversations';
+
+// Queue configuration
+export const HELD_ESCALATION_QUEUE_NAME = 'held-escalations';
+
+// Job data interface
+export interface HeldEscalationJobData {
+  uid: string;
+  requestId: string;
+  customerPhone: string;
+  messageToOwner: string;
+  heldAt: string; // ISO date the escalation was created
+}
+
+let escalationQueue: Queue<HeldEscalationJobData> | null = null;
+let escalationWorker: Worker<HeldEscalationJobData> | null = null;
+
+/**
+ * Generate job ID for a help request (BullMQ ids cannot contain ':')
+ */
+function getJobId(requestId: string): string {
+  return `held-${requestId.replace(/:/g, '-')}`;
+}
+
+/**
+ * Get or create the held escalation queue
+ */
+export function getHeldEscalationQueue(): Queue<HeldEscalationJobData> {
+  if (!escalationQueue) {
+    escalationQueue = new Queue<HeldEscalationJobData>(HELD_ESCALATION_QUEUE_NAME, {
+      connection: getQueueConnection(),
+      defaultJobOptions: {
+        removeOnComplete: 100,
+        removeOnFail: false,
+        attempts: 3,
+        backoff: { type: 'exponential', delay: 30 * 1000 },
+      },
+    });
+  }
+  return escalationQueue;
+}
+
+/**
+ * Holds an escalation until business hours start
+ */
+export async function holdEscalation(data: HeldEscalationJobData, deliverAt: Date): Promise<void> {
+  const delay = Math.max(0, deliverAt.getTime() - Date.now());
+  await getHeldEscalationQueue().add('deliver-escalation', data, {
+    jobId: getJobId(data.requestId),
+    delay,
+  });
+
+  logger.info(`[HeldEscalationQueue] 🌙 Escalation ${data.requestId} held until ${deliverAt.toISOString()}`);
+}
+
+/**
+ * Delivers a held escalation to the owner
+ */
+async function processEscalation(job: Job<HeldEscalationJobData>): Promise<void> {
+  const { uid, requestId, customerPhone, messageToOwner, heldAt } = job.data;
+
+  const userConfig = await getUserConfig(uid);
+  const reportsNumber = userConfig?.config.reportsNumber;
+  if (!reportsNumber) {
+    logger.warn(`[HeldEscalationQueue] ⚠️ No reports number for ${uid}, escalation ${requestId} not delivered`);
+    return;
+  }
+
+  const heldTime = new Date(heldAt).toLocaleString('es-AR', {
+    timeZone: userConfig.config.businessHours?.timezone,
+    dateStyle: 'short',
+    timeStyle: 'short',
+  });
+  const message = `🌅 Consulta recibida fuera de horario (${heldTime}):\n\n${messageToOwner}`;
+
+  await getPlatformChannel().sendText({ chatId: reportsNumber, session: process.env.MULTIMAI_WS_SESSION }, message);
+  await saveMultimaiMessage(customerPhone, 'assistant', message);
+
+  logger.info(`[HeldEscalationQueue] 📨 Held escalation ${requestId} delivered to owner`);
+}
+
+/**
+ * Start the held escalation worker
+ */
+export function startHeldEscalationWorker(): Worker<HeldEscalationJobData> {
+  if (escalationWorker) {
+    return escalationWorker;
+  }
+
+  escalationWorker = new Worker<HeldEscalationJobData>(
+    HELD_ESCALATION_QUEUE_NAME,
+    processEscalation,
+    {
+      connection: getQueueConnection(),
+      concurrency: 5,
+    }
+  );
+
+  escalationWorker.on('failed', (job, err) => {
+    logger.err(`[HeldEscalationQueue] Job ${job?.id} failed: ${err?.message || err}`);
+  });
+
+  escalationWorker.on('error', (err) => {
+    logger.err(`[HeldEscalationQueue] Worker error: ${err?.message || err}`);
+  });
+
+  logger.info('[HeldEscalationQueue] Worker started');
+  return escalationWorker;
+}
+
+/**
+ * Stop the held escalation worker
+ */
+export async function stopHeldEscalationWorker(): Promise<void> {
+  if (escalationWorker) {
+    await escalationWorker.close();
+    escalationWorker = null;
+    logger.info('[HeldEscalationQueue] Worker stopped');
+  }
+}
+
+/**
+ * Close the queue
+ */
+export async function closeHeldEscalationQueue(): Promise<void> {
+  if (escalationQueue) {
+    await escalationQueue.close();
+    escalationQueue = null;
+    logger.info('[HeldEscalationQueue] Queue closed');
+  }
+}
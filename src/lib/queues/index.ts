@@ -13,10 +13,37 @@ export {
   MIN_MESSAGES_FOR_SUMMARY,
   getConversationQueue,
   scheduleConversationClose,
+  setConversationCloseScheduling,
   cancelConversationClose,
   startConversationWorker,
   stopConversationWorker,
   closeConversationQueue,
 } from './conversation-queue';
 
+export {
+  MESSAGE_DEBOUNCE_QUEUE_NAME,
+  getMessageDebounceQueue,
+  createDistributedMessageQueue,
+  startMessageDebounceWorker,
+  stopMessageDebounceWorker,
+  closeMessageDebounceQueue,
+} from './message-debounce-queue';
+
+export {
+  DELIVERY_RETRY_QUEUE_NAME,
+  DELIVERY_RETRY_CONFIG,
+  getDeliveryRetryQueue,
+  scheduleDeliveryRetry,
+  startDeliveryRetryWorker,
+  stopDeliveryRetryWorker,
+  closeDeliveryRetryQueue,
+} from './delivery-retry-queue';
 
+export {
+  HELD_ESCALATION_QUEUE_NAME,
+  getHeldEscalationQueue,
+  holdEscalation,
+  startHeldEscalationWorker,
+  stopHeldEscalationWorker,
+  closeHeldEscalationQueue,
+} from './held-escalation-queue';
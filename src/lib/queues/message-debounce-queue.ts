@@ -0,0 +1,378 @@
+/**
+ * Message Debounce Queue - BullMQ implementation of the message queue
+ * Shares per-user accumulation and debounce across API replicas
+ *
+ * Behavior (same as the in-memory createMessageQueue):
+ * - Messages are accumulated in a Redis list per `session:from`
+ * - Each new message replaces the delayed job, resetting the debounce gap
+ * - A new message arriving while another instance processes the batch publishes an abort,
+ *   which drives ExecutionContext.abort() and its cleanup on the processing instance
+ * - Aborted batches keep their messages and are rescheduled
+ */
+
+import { Queue, Worker, Job } from 'bullmq';
+import Redis from 'ioredis';
+import logger from 'jet-logger';
+import { getQueueConnection } from './redis-connection';
+import { createExecutionContext, ExecutionContext } from '../utils/execution-context';
+import {
+  EnqueueMessageFn,
+  Message,
+  MessageProcessingCallback,
+  QueueConfig,
+  createQueuedMessage,
+  processQueue,
+} from '../utils/message-queue';
+import type { WhatsAppWebhookPayload } from '../../entities/ws/ws.dto';
+
+// Queue configuration
+export const MESSAGE_DEBOUNCE_QUEUE_NAME = 'message-debounce';
+const KEY_PREFIX = 'message-queue:';
+const ABORT_CHANNEL = 'message-queue:abort';
+const PENDING_TTL_SECONDS = 60 * 60; // Drop abandoned batches after 1 hour
+const PROCESSING_TTL_SECONDS = 10 * 60; // Lock expires if the processing instance dies
+
+// Job data interface
+interface MessageDebounceJobData {
+  key: string; // session:from
+  handler: string; // Name of the registered processing callback
+}
+
+interface DistributedQueueConfig extends QueueConfig {
+  // Callbacks must be registered by name so any instance can run them
+  handlers: Record<string, MessageProcessingCallback>;
+  concurrency?: number;
+}
+
+const handlers = new Map<string, MessageProcessingCallback>();
+const activeExecutions = new Map<string, ExecutionContext>();
+let gapMilliseconds = 5000;
+
+let debounceQueue: Queue<MessageDebounceJobData> | null = null;
+let debounceWorker: Worker<MessageDebounceJobData> | null = null;
+let abortSubscriber: Redis | null = null;
+
+function getPendingKey(key: string): string {
+  return `${KEY_PREFIX}${key}:pending`;
+}
+
+function getProcessingKey(key: string): string {
+  return `${KEY_PREFIX}${key}:processing`;
+}
+
+// Set when a message arrives while the job is active, checked once the job leaves 'active'
+function getRescheduleKey(key: string): string {
+  return `${KEY_PREFIX}${key}:reschedule`;
+}
+
+/**
+ * Generate job ID for a user queue (BullMQ ids cannot contain ':')
+ */
+function getJobId(key: string): string {
+  return `debounce-${key.replace(/:/g, '-')}`;
+}
+
+function getQueueKey(webhookPayload: WhatsAppWebhookPayload): string {
+  return `${webhookPayload.session}:${webhookPayload.payload.from}`;
+}
+
+/**
+ * Get or create the message debounce queue
+ */
+export function getMessageDebounceQueue(): Queue<MessageDebounceJobData> {
+  if (!debounceQueue) {
+    debounceQueue = new Queue<MessageDebounceJobData>(MESSAGE_DEBOUNCE_QUEUE_NAME, {
+      connection: getQueueConnection(),
+      defaultJobOptions: {
+        // Ids must be free again as soon as a batch finishes
+        removeOnComplete: true,
+        removeOnFail: true,
+        attempts: 1,
+      },
+    });
+  }
+  return debounceQueue;
+}
+
+/**
+ * Schedules (or re-schedules) the delayed processing job of a user queue
+ * If the job is already running, a reschedule flag is left for the running instance,
+ * which reschedules when the job finishes (see rescheduleIfPending)
+ */
+async function scheduleProcessing(key: string, handler: string): Promise<void> {
+  const queue = getMessageDebounceQueue();
+  const jobId = getJobId(key);
+
+  const existingJob = await queue.getJob(jobId);
+  if (existingJob) {
+    const state = await existingJob.getState();
+    if (state === 'active') {
+      await getQueueConnection().set(getRescheduleKey(key), '1', 'EX', PENDING_TTL_SECONDS);
+      logger.info(`[MessageDebounceQueue] ⏳ Job ${jobId} is running - will reschedule after it finishes`);
+      return;
+    }
+    // Replacing the delayed job resets the debounce gap
+    await existingJob.remove().catch(() => {});
+  }
+
+  await queue.add('process-messages', { key, handler }, { jobId, delay: gapMilliseconds });
+  logger.info(`[MessageDebounceQueue] 🕐 Scheduled ${jobId} (${gapMilliseconds}ms)`);
+}
+
+/**
+ * Adds a message to a user queue and aborts or reschedules processing
+ */
+async function addMessage(key: string, handler: string, message: Message): Promise<void> {
+  const redis = getQueueConnection();
+  const pendingKey = getPendingKey(key);
+
+  const results = await redis
+    .multi()
+    .rpush(pendingKey, JSON.stringify(message))
+    .expire(pendingKey, PENDING_TTL_SECONDS)
+    .exec();
+  const total = results?.[0]?.[1];
+
+  logger.info(`[MessageDebounceQueue] 📥 Enqueued message for ${key}. Total in queue: ${total}`);
+
+  // CRITICAL: If another execution is running for this user (on any instance), abort it
+  const executionId = await redis.get(getProcessingKey(key));
+  if (executionId) {
+    logger.info(`[MessageDebounceQueue] ⚠️ New message arrived during processing for ${key} - ABORTING execution ${executionId}`);
+    await redis.publish(ABORT_CHANNEL, JSON.stringify({ key, executionId }));
+    return;
+  }
+
+  await scheduleProcessing(key, handler);
+}
+
+/**
+ * Processes the accumulated messages of a user queue
+ * @returns Whether messages are left in the queue and the job must be rescheduled
+ */
+async function processJob(job: Job<MessageDebounceJobData>): Promise<boolean> {
+  const { key, handler } = job.data;
+  const redis = getQueueConnection();
+  const pendingKey = getPendingKey(key);
+  const processingKey = getProcessingKey(key);
+
+  const callback = handlers.get(handler);
+  if (!callback) {
+    throw new Error(`No message handler registered with name '${handler}'`);
+  }
+
+  // Create new AbortController and ExecutionContext for this processing cycle
+  const abortController = new AbortController();
+  const executionContext = createExecutionContext(abortController);
+
+  // Lock before reading so messages pushed from now on trigger an abort
+  await redis.set(processingKey, executionContext.executionId, 'EX', PROCESSING_TTL_SECONDS);
+  activeExecutions.set(key, executionContext);
+
+  let processedCount = 0;
+
+  try {
+    const rawMessages = await redis.lrange(pendingKey, 0, -1);
+    if (rawMessages.length === 0) {
+      logger.info(`[MessageDebounceQueue] No messages to process for ${key}`);
+      return false;
+    }
+
+    const messages: Message[] = rawMessages.map((raw) => JSON.parse(raw));
+    processedCount = messages.length;
+
+    logger.info(
+      `[MessageDebounceQueue] 🚀 Processing ${messages.length} accumulated message(s) for ${key} [executionId: ${executionContext.executionId}]`
+    );
+
+    try {
+      await callback({
+        payload: processQueue(messages),
+        executionContext,
+      });
+
+      if (executionContext.isAborted()) {
+        logger.info(`[MessageDebounceQueue] ⚠️ Execution was aborted for ${key} - keeping messages in queue`);
+        await executionContext.runCleanup();
+        processedCount = 0;
+      } else {
+        logger.info(`[MessageDebounceQueue] ✅ Execution completed successfully for ${key}`);
+        await executionContext.executePendingActions();
+      }
+    } catch (error) {
+      logger.err(`[MessageDebounceQueue] ❌ Error processing messages for ${key}: ${error}`);
+      await executionContext.runCleanup();
+
+      // Keep messages for retry only when the error was due to abort
+      if (executionContext.isAborted()) {
+        processedCount = 0;
+      }
+    }
+  } finally {
+    activeExecutions.delete(key);
+
+    if (processedCount > 0) {
+      await redis.ltrim(pendingKey, processedCount, -1);
+    }
+
+    // Release the lock only if it is still ours
+    if ((await redis.get(processingKey)) === executionContext.executionId) {
+      await redis.del(processingKey);
+    }
+  }
+
+  return (await redis.llen(pendingKey)) > 0;
+}
+
+/**
+ * Reschedules a finished job if messages are left in its queue
+ * The pending length read at the end of processJob can miss a message pushed while the job was
+ * still 'active' (scheduleProcessing skipped it): that case is caught by the reschedule flag
+ */
+async function rescheduleIfPending(job: Job<MessageDebounceJobData>, needsReschedule: boolean): Promise<void> {
+  const { key, handler } = job.data;
+  const redis = getQueueConnection();
+
+  const results = await redis.multi().get(getRescheduleKey(key)).del(getRescheduleKey(key)).exec();
+  const flagged = Boolean(results?.[0]?.[1]);
+
+  if (needsReschedule || (flagged && (await redis.llen(getPendingKey(key))) > 0)) {
+    logger.info(`[MessageDebounceQueue] 🔄 Rescheduling remaining messages for ${key}`);
+    await scheduleProcessing(key, handler);
+  }
+}
+
+/**
+ * Listens for aborts published by other instances
+ */
+function startAbortSubscriber(): void {
+  if (abortSubscriber) {
+    return;
+  }
+
+  // Subscriber connections cannot run other commands
+  abortSubscriber = getQueueConnection().duplicate();
+  abortSubscriber.subscribe(ABORT_CHANNEL).catch((err) => {
+    logger.err(`[MessageDebounceQueue] Error subscribing to aborts: ${err?.message || err}`);
+  });
+
+  abortSubscriber.on('message', (channel: string, raw: string) => {
+    if (channel !== ABORT_CHANNEL) return;
+
+    try {
+      const { key, executionId } = JSON.parse(raw);
+      const executionContext = activeExecutions.get(key);
+      if (executionContext && (!executionId || executionContext.executionId === executionId)) {
+        executionContext.abort();
+      }
+    } catch (error) {
+      logger.err(`[MessageDebounceQueue] Invalid abort message: ${raw}`);
+    }
+  });
+}
+
+/**
+ * Start the message debounce worker
+ */
+export function startMessageDebounceWorker(concurrency = 10): Worker<MessageDebounceJobData> {
+  if (debounceWorker) {
+    return debounceWorker;
+  }
+
+  startAbortSubscriber();
+
+  debounceWorker = new Worker<MessageDebounceJobData>(
+    MESSAGE_DEBOUNCE_QUEUE_NAME,
+    processJob,
+    {
+      connection: getQueueConnection(),
+      concurrency,
+    }
+  );
+
+  // The job id is only free once the job is removed, so reschedule here
+  debounceWorker.on('completed', (job, needsReschedule) => {
+    rescheduleIfPending(job, Boolean(needsReschedule)).catch((err) => {
+      logger.err(`[MessageDebounceQueue] Error rescheduling ${job.data.key}: ${err?.message || err}`);
+    });
+  });
+
+  debounceWorker.on('failed', (job, err) => {
+    logger.err(`[MessageDebounceQueue] Job ${job?.id} failed: ${err?.message || err}`);
+    if (job) {
+      rescheduleIfPending(job, false).catch((rescheduleErr) => {
+        logger.err(`[MessageDebounceQueue] Error rescheduling ${job.data.key}: ${rescheduleErr?.message || rescheduleErr}`);
+      });
+    }
+  });
+
+  debounceWorker.on('error', (err) => {
+    logger.err(`[MessageDebounceQueue] Worker error: ${err?.message || err}`);
+  });
+
+  logger.info('[MessageDebounceQueue] Worker started');
+  return debounceWorker;
+}
+
+/**
+ * Creates a message queue with debouncing and cancellation shared across instances
+ * Every instance must create it with the same handlers so any of them can process a batch
+ */
+export function createDistributedMessageQueue(config: DistributedQueueConfig): EnqueueMessageFn {
+  gapMilliseconds = config.gapMilliseconds;
+  for (const [name, callback] of Object.entries(config.handlers)) {
+    handlers.set(name, callback);
+  }
+
+  startMessageDebounceWorker(config.concurrency);
+
+  return function enqueueMessage(
+    webhookPayload: WhatsAppWebhookPayload,
+    callback: MessageProcessingCallback,
+  ): void {
+    const message = createQueuedMessage(webhookPayload);
+
+    // Validate payload
+    if (!message) {
+      logger.err('[MessageDebounceQueue] Invalid webhook payload - missing from or body');
+      return;
+    }
+
+    const handler = Array.from(handlers.entries()).find(([, registered]) => registered === callback)?.[0];
+    if (!handler) {
+      logger.err('[MessageDebounceQueue] Callback is not registered as a handler - message dropped');
+      return;
+    }
+
+    const key = getQueueKey(webhookPayload);
+    addMessage(key, handler, message).catch((err) => {
+      logger.err(`[MessageDebounceQueue] Error enqueueing message for ${key}: ${err?.message || err}`);
+    });
+  };
+}
+
+/**
+ * Stop the message debounce worker and abort listener
+ */
+export async function stopMessageDebounceWorker(): Promise<void> {
+  if (debounceWorker) {
+    await debounceWorker.close();
+    debounceWorker = null;
+    logger.info('[MessageDebounceQueue] Worker stopped');
+  }
+  if (abortSubscriber) {
+    await abortSubscriber.quit();
+    abortSubscriber = null;
+  }
+}
+
+/**
+ * Close the queue
+ */
+export async function closeMessageDebounceQueue(): Promise<void> {
+  if (debounceQueue) {
+    await debounceQueue.close();
+    debounceQueue = null;
+    logger.info('[MessageDebounceQueue] Queue closed');
+  }
+}
@@ -0,0 +1,150 @@
+/**
+ * Transcription System Entry Point
+ *
+ * Converts inbound WhatsApp voice notes into text before they reach the message queue,
+ * so workflows and lead analysis handle them as regular user messages.
+ */
+
+import { AI_CONFIG } from '../ai/config';
+import type { WhatsAppWebhookPayload } from '../../entities/ws/ws.dto';
+import { AiSdkSpeechToText, FixtureSpeechToText } from './providers';
+import { MessageTranscription, SpeechToText } from './types';
+
+export { AiSdkSpeechToText, FixtureSpeechToText, downloadMedia } from './providers';
+export type { AudioSource, TranscriptionResult, SpeechToText, MessageTranscription } from './types';
+
+/**
+ * Configuration for voice note transcription
+ */
+export const TRANSCRIPTION_CONFIG = {
+  // Disable with TRANSCRIPTION_ENABLED=false
+  ENABLED: process.env.TRANSCRIPTION_ENABLED !== 'false',
+  // 'ai-sdk' (default) or 'fixture'
+  PROVIDER: process.env.SPEECH_TO_TEXT_PROVIDER || 'ai-sdk',
+  // Most of our leads are Argentine, hint the model to avoid misdetections
+  LANGUAGE: process.env.TRANSCRIPTION_LANGUAGE || 'es',
+  // Whisper APIs reject files over 25MB; voice notes are far below this
+  MAX_AUDIO_BYTES: 20 * 1024 * 1024,
+} as const;
+
+/**
+ * Text used as the message body when a voice note cannot be transcribed,
+ * so the agent can ask the lead to write instead of receiving an empty prompt
+ */
+export const UNTRANSCRIBED_AUDIO_TEXT = '[El usuario envió un audio que no se pudo transcribir]';
+
+let speechToText: SpeechToText | null = null;
+
+function createSpeechToText(): SpeechToText {
+  if (TRANSCRIPTION_CONFIG.PROVIDER === 'fixture') {
+    return new FixtureSpeechToText();
+  }
+
+  return new AiSdkSpeechToText(AI_CONFIG.TRANSCRIPTION_MODEL, {
+    language: TRANSCRIPTION_CONFIG.LANGUAGE,
+    maxAudioBytes: TRANSCRIPTION_CONFIG.MAX_AUDIO_BYTES,
+  });
+}
+
+/**
+ * Get or create the configured speech-to-text provider
+ */
+export function getSpeechToText(): SpeechToText {
+  if (!speechToText) {
+    speechToText = createSpeechToText();
+  }
+  return speechToText;
+}
+
+/**
+ * Override the speech-to-text provider (e.g. with a FixtureSpeechToText in tests)
+ * Pass null to go back to the configured provider
+ */
+export function setSpeechToText(provider: SpeechToText | null): void {
+  speechToText = provider;
+}
+
+/**
+ * Checks whether the webhook carries an audio attachment (voice note or audio file)
+ */
+export function isAudioMessage(webhookPayload: WhatsAppWebhookPayload): boolean {
+  const { hasMedia, media } = webhookPayload.payload;
+  return Boolean(hasMedia && media?.url && media.mimetype?.startsWith('audio/'));
+}
+
+/**
+ * Transcribes the audio attached to a webhook payload
+ * @returns The transcription, or null if the payload has no audio or transcription failed
+ */
+export async function transcribeWebhookAudio(
+  webhookPayload: WhatsAppWebhookPayload
+): Promise<MessageTranscription | null> {
+  if (!TRANSCRIPTION_CONFIG.ENABLED || !isAudioMessage(webhookPayload)) {
+    return null;
+  }
+
+  const media = webhookPayload.payload.media!;
+  const provider = getSpeechToText();
+
+  try {
+    console.log(`[Transcription] 🎙️ Transcribing ${media.mimetype} with ${provider.name}`);
+    const result = await provider.transcribe({
+      url: media.url,
+      mimetype: media.mimetype!,
+      filename: media.filename,
+    });
+
+    if (!result.text) {
+      console.log('[Transcription] ⚠️ Empty transcript');
+      return null;
+    }
+
+    console.log(`[Transcription] ✅ Transcript: ${result.text.substring(0, 100)}`);
+
+    return {
+      text: result.text,
+      provider: result.provider,
+      mimetype: media.mimetype!,
+      mediaUrl: media.url,
+      ...(result.language && { language: result.language }),
+      ...(result.durationInSeconds !== undefined && { durationInSeconds: result.durationInSeconds }),
+    };
+  } catch (error: any) {
+    console.error('[Transcription] ❌ Error transcribing audio:', error?.message || error);
+    return null;
+  }
+}
+
+/**
+ * Replaces the body of an audio webhook payload with its transcript
+ * Returns the payload unchanged when it carries no audio
+ * If transcription fails, the body falls back to UNTRANSCRIBED_AUDIO_TEXT
+ */
+export async function prepareAudioMessage(
+  webhookPayload: WhatsAppWebhookPayload
+): Promise<WhatsAppWebhookPayload> {
+  if (!isAudioMessage(webhookPayload)) {
+    return webhookPayload;
+  }
+
+  const transcription = await transcribeWebhookAudio(webhookPayload);
+
+  if (!transcription) {
+    return {
+      ...webhookPayload,
+      payload: {
+        ...webhookPayload.payload,
+        body: webhookPayload.payload.body || UNTRANSCRIBED_AUDIO_TEXT,
+      },
+    };
+  }
+
+  return {
+    ...webhookPayload,
+    payload: {
+      ...webhookPayload.payload,
+      body: transcription.text,
+    },
+    transcription,
+  };
+}
@@ -0,0 +1,90 @@
+/**
+ * Speech-to-text providers
+ * - AiSdkSpeechToText: Whisper models through the AI SDK (Groq / OpenAI)
+ * - FixtureSpeechToText: Local stub that returns canned transcripts (tests, local dev)
+ */
+
+import axios from 'axios';
+import { experimental_transcribe as transcribe } from 'ai';
+import { getTranscriptionModel } from '../ai/openrouter';
+import { AudioSource, SpeechToText, TranscriptionResult } from './types';
+
+/**
+ * Downloads a media file as a buffer
+ * WAHA media URLs require the API key when the server is protected
+ */
+export async function downloadMedia(url: string, maxBytes: number): Promise<Buffer> {
+  const headers: Record<string, string> = {};
+  if (process.env.WAHA_API_KEY) {
+    headers['X-Api-Key'] = process.env.WAHA_API_KEY;
+  }
+
+  const response = await axios.get<ArrayBuffer>(url, {
+    responseType: 'arraybuffer',
+    headers,
+    maxContentLength: maxBytes,
+    timeout: 30000,
+  });
+
+  return Buffer.from(response.data);
+}
+
+/**
+ * Transcribes audio with a Whisper model through the AI SDK
+ */
+export class AiSdkSpeechToText implements SpeechToText {
+  public readonly name: string;
+
+  constructor(
+    private readonly modelName: string,
+    private readonly options: { language?: string; maxAudioBytes: number }
+  ) {
+    this.name = `ai-sdk:${modelName}`;
+  }
+
+  async transcribe(source: AudioSource): Promise<TranscriptionResult> {
+    const audio = await downloadMedia(source.url, this.options.maxAudioBytes);
+    const provider = this.modelName.startsWith('groq/') ? 'groq' : 'openai';
+
+    const result = await transcribe({
+      model: getTranscriptionModel(this.modelName),
+      audio,
+      providerOptions: this.options.language
+        ? { [provider]: { language: this.options.language } }
+        : undefined,
+    });
+
+    return {
+      text: result.text.trim(),
+      provider: this.name,
+      language: result.language,
+      durationInSeconds: result.durationInSeconds,
+    };
+  }
+}
+
+/**
+ * Returns canned transcripts without downloading or calling any model
+ * Fixtures are looked up by media URL first, then by filename
+ */
+export class FixtureSpeechToText implements SpeechToText {
+  public readonly name = 'fixture';
+
+  constructor(
+    private readonly fixtures: Record<string, string> = {},
+    private readonly defaultText: string = 'Hola, quería consultar por una propiedad'
+  ) {}
+
+  async transcribe(source: AudioSource): Promise<TranscriptionResult> {
+    const text =
+      this.fixtures[source.url] ??
+      (source.filename ? this.fixtures[source.filename] : undefined) ??
+      this.defaultText;
+
+    return {
+      text,
+      provider: this.name,
+      language: 'es',
+    };
+  }
+}
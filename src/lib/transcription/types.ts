@@ -0,0 +1,80 @@
+/**
+ * Type definitions for the transcription system
+ */
+
+/**
+ * Reference to an audio file received through a messaging channel
+ */
+export interface AudioSource {
+  /**
+   * URL where the media can be downloaded (WAHA media endpoint)
+   */
+  url: string;
+
+  /**
+   * Mimetype reported by the channel
+   * @example 'audio/ogg; codecs=opus'
+   */
+  mimetype: string;
+
+  /**
+   * Original filename, when the channel provides one
+   */
+  filename?: string | null;
+}
+
+/**
+ * Result of transcribing an audio file
+ */
+export interface TranscriptionResult {
+  /**
+   * Transcribed text
+   */
+  text: string;
+
+  /**
+   * Name of the provider that produced the transcript
+   */
+  provider: string;
+
+  /**
+   * Detected language (ISO-639-1), when the provider reports it
+   */
+  language?: string;
+
+  /**
+   * Audio duration in seconds, when the provider reports it
+   */
+  durationInSeconds?: number;
+}
+
+/**
+ * Pluggable speech-to-text provider
+ */
+export interface SpeechToText {
+  /**
+   * Provider name, stored alongside each transcript
+   */
+  readonly name: string;
+
+  /**
+   * Transcribes the given audio source
+   * Throws if the audio cannot be downloaded or transcribed
+   */
+  transcribe(source: AudioSource): Promise<TranscriptionResult>;
+}
+
+/**
+ * Transcription data stored with a conversation message
+ */
+export interface MessageTranscription {
+  /**
+   * Transcribed text (also saved as the message content)
+   */
+  text: string;
+  provider: string;
+  mimetype: string;
+  mediaUrl: string;
+  language?: string;
+  durationInSeconds?: number;
+}
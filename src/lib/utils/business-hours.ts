@@ -0,0 +1,379 @@
+/**
+ * Business hours
+ * Weekly schedule, holiday exceptions and timezone of each account (AgentConfigData.businessHours)
+ *
+ * - Open/closed status and next opening, computed in the business timezone
+ * - Context variables so guidelines know the schedule and avoid promising same-day visits
+ * - Away message sent once per closed period (outOfHoursMode: 'away_message')
+ * - get_help escalations created out of hours are held until opening (see held-escalation-queue)
+ */
+
+import { getRedisClient } from '../cache/redis-client';
+import { getUserConfig } from '../db/repositories/users';
+import { getCustomerLanguage } from '../db/repositories/customers';
+import { getChannelForAccount } from '../channels';
+import { LANGUAGE_LOCALES } from './language';
+import type {
+  BusinessDay,
+  BusinessHoursException,
+  BusinessHoursRange,
+  BusinessHoursSettings,
+  ConversationLanguage,
+} from '../db/types';
+import type { WhatsAppWebhookPayload } from '../../entities/ws/ws.dto';
+
+export const BUSINESS_HOURS_CONFIG = {
+  KEY_PREFIX: 'business-hours:',
+  // Days searched ahead for the next opening (long holidays included)
+  MAX_DAYS_AHEAD: 14,
+  // Exceptions listed in the schedule given to the agent
+  EXCEPTIONS_DAYS_AHEAD: 30,
+} as const;
+
+// Index matches Date.getUTCDay()
+const WEEK_DAYS: BusinessDay[] = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const DAY_NAMES: Record<BusinessDay, string> = {
+  monday: 'lunes',
+  tuesday: 'martes',
+  wednesday: 'miércoles',
+  thursday: 'jueves',
+  friday: 'viernes',
+  saturday: 'sábado',
+  sunday: 'domingo',
+};
+
+const AWAY_MESSAGES: Record<ConversationLanguage, string> = {
+  es: '¡Hola! En este momento estamos fuera del horario de atención. Volvemos a atender el {apertura}. Mientras tanto puedo responder tus consultas 🙂',
+  en: 'Hi! We are currently outside business hours. We will be back on {apertura}. In the meantime I can answer your questions 🙂',
+  pt: 'Olá! No momento estamos fora do horário de atendimento. Voltamos a atender em {apertura}. Enquanto isso posso responder suas dúvidas 🙂',
+};
+
+// {apertura} when there is no opening within MAX_DAYS_AHEAD
+const UNKNOWN_OPENING: Record<ConversationLanguage, string> = {
+  es: 'próximo día hábil',
+  en: 'the next business day',
+  pt: 'breve',
+};
+
+export interface BusinessHoursStatus {
+  isOpen: boolean;
+  closesAt: Date | null; // End of the current range when open
+  nextOpeningAt: Date | null; // Start of the next range when closed (null if none within MAX_DAYS_AHEAD)
+  opensToday: boolean; // The next opening is on the current local date
+  exception: BusinessHoursException | null; // Exception applied to the current local date
+}
+
+interface ZonedDate {
+  date: string; // YYYY-MM-DD
+  weekday: BusinessDay;
+  minutes: number; // Minutes since local midnight
+}
+
+const validTimeZones = new Map<string, boolean>();
+
+/**
+ * Checks that Intl knows a timezone (an invalid one makes every date computation throw)
+ */
+function isValidTimeZone(timeZone: string): boolean {
+  let valid = validTimeZones.get(timeZone);
+  if (valid === undefined) {
+    try {
+      new Intl.DateTimeFormat(undefined, { timeZone });
+      valid = true;
+    } catch {
+      console.warn(`[BusinessHours] ⚠️ Invalid timezone "${timeZone}", business hours ignored`);
+      valid = false;
+    }
+    validTimeZones.set(timeZone, valid);
+  }
+  return valid;
+}
+
+/**
+ * Checks if business hours are configured and enabled (with a valid timezone)
+ */
+export function hasBusinessHours(settings: BusinessHoursSettings | undefined | null): settings is BusinessHoursSettings {
+  return Boolean(settings?.enabled && settings.timezone && settings.weekly && isValidTimeZone(settings.timezone));
+}
+
+function parseTime(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+}
+
+function formatTime(minutes: number): string {
+  return `${Math.floor(minutes / 60).toString().padStart(2, '0')}:${(minutes % 60).toString().padStart(2, '0')}`;
+}
+
+/**
+ * Gets the local date, weekday and time of an instant in a timezone
+ */
+function getZonedDate(instant: Date, timeZone: string): ZonedDate {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(instant);
+  const get = (type: string) => parts.find((part) => part.type === type)?.value || '0';
+
+  const date = `${get('year')}-${get('month')}-${get('day')}`;
+  return {
+    date,
+    weekday: WEEK_DAYS[new Date(`${date}T00:00:00Z`).getUTCDay()],
+    minutes: Number(get('hour')) * 60 + Number(get('minute')),
+  };
+}
+
+/**
+ * Adds days to a local date (YYYY-MM-DD)
+ */
+function addDays(date: string, days: number): { date: string; weekday: BusinessDay } {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return { date: next.toISOString().split('T')[0], weekday: WEEK_DAYS[next.getUTCDay()] };
+}
+
+/**
+ * Converts a local date and time in a timezone to an instant
+ */
+function zonedTimeToDate(date: string, minutes: number, timeZone: string): Date {
+  const [year, month, day] = date.split('-').map(Number);
+  const asUtc = Date.UTC(year, month - 1, day, 0, minutes);
+
+  // The offset is measured at the guess and corrected once for DST transitions
+  let instant = asUtc;
+  for (let i = 0; i < 2; i++) {
+    const zoned = getZonedDate(new Date(instant), timeZone);
+    const [zYear, zMonth, zDay] = zoned.date.split('-').map(Number);
+    const zonedAsUtc = Date.UTC(zYear, zMonth - 1, zDay, 0, zoned.minutes);
+    instant = instant - (zonedAsUtc - asUtc);
+  }
+
+  return new Date(instant);
+}
+
+function getException(settings: BusinessHoursSettings, date: string): BusinessHoursException | null {
+  return settings.exceptions?.find((exception) => exception.date === date) ?? null;
+}
+
+/**
+ * Gets the opening ranges of a local date, in minutes, applying exceptions
+ */
+function getRangesForDate(settings: BusinessHoursSettings, date: string, weekday: BusinessDay): Array<{ open: number; close: number }> {
+  const exception = getException(settings, date);
+  const ranges: BusinessHoursRange[] = exception
+    ? (exception.closed ? [] : exception.ranges ?? [])
+    : settings.weekly[weekday] ?? [];
+
+  return ranges
+    .map((range) => ({ open: parseTime(range.open), close: parseTime(range.close) }))
+    .filter((range) => range.close > range.open)
+    .sort((a, b) => a.open - b.open);
+}
+
+/**
+ * Gets the open/closed status of the business at an instant
+ * Accounts without business hours are always open
+ */
+export function getBusinessHoursStatus(
+  settings: BusinessHoursSettings | undefined | null,
+  now: Date = new Date()
+): BusinessHoursStatus {
+  if (!hasBusinessHours(settings)) {
+    return { isOpen: true, closesAt: null, nextOpeningAt: null, opensToday: false, exception: null };
+  }
+
+  const { timezone } = settings;
+  const local = getZonedDate(now, timezone);
+  const exception = getException(settings, local.date);
+  const todayRanges = getRangesForDate(settings, local.date, local.weekday);
+
+  const current = todayRanges.find((range) => range.open <= local.minutes && local.minutes < range.close);
+  if (current) {
+    return {
+      isOpen: true,
+      closesAt: zonedTimeToDate(local.date, current.close, timezone),
+      nextOpeningAt: null,
+      opensToday: false,
+      exception,
+    };
+  }
+
+  for (let offset = 0; offset <= BUSINESS_HOURS_CONFIG.MAX_DAYS_AHEAD; offset++) {
+    const day = offset === 0 ? local : addDays(local.date, offset);
+    const next = getRangesForDate(settings, day.date, day.weekday)
+      .find((range) => offset > 0 || range.open > local.minutes);
+
+    if (next) {
+      return {
+        isOpen: false,
+        closesAt: null,
+        nextOpeningAt: zonedTimeToDate(day.date, next.open, timezone),
+        opensToday: offset === 0,
+        exception,
+      };
+    }
+  }
+
+  return { isOpen: false, closesAt: null, nextOpeningAt: null, opensToday: false, exception };
+}
+
+/**
+ * Formats an instant as weekday and time in the business timezone ("lunes 09:00")
+ */
+export function formatBusinessTime(
+  instant: Date,
+  timeZone: string,
+  language: ConversationLanguage = 'es'
+): string {
+  const weekday = new Intl.DateTimeFormat(LANGUAGE_LOCALES[language], { timeZone, weekday: 'long' }).format(instant);
+  const local = getZonedDate(instant, timeZone);
+  return `${weekday} ${formatTime(local.minutes)}`;
+}
+
+/**
+ * Describes the weekly schedule and the upcoming exceptions (in Spanish, for prompts)
+ */
+export function describeBusinessHours(settings: BusinessHoursSettings, now: Date = new Date()): string {
+  const weekly = [...WEEK_DAYS.slice(1), WEEK_DAYS[0]]
+    .map((day) => {
+      const ranges = (settings.weekly[day] ?? [])
+        .map((range) => `${range.open} a ${range.close}`)
+        .join(' y ');
+      return `${DAY_NAMES[day]}: ${ranges || 'cerrado'}`;
+    })
+    .join('; ');
+
+  const today = getZonedDate(now, settings.timezone).date;
+  const limit = addDays(today, BUSINESS_HOURS_CONFIG.EXCEPTIONS_DAYS_AHEAD).date;
+  const exceptions = (settings.exceptions ?? [])
+    .filter((exception) => exception.date >= today && exception.date <= limit)
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map((exception) => {
+      const hours = exception.closed || !exception.ranges?.length
+        ? 'cerrado'
+        : exception.ranges.map((range) => `${range.open} a ${range.close}`).join(' y ');
+      return `${exception.date}${exception.name ? ` (${exception.name})` : ''}: ${hours}`;
+    });
+
+  return exceptions.length > 0
+    ? `${weekly}. Días especiales: ${exceptions.join('; ')}`
+    : weekly;
+}
+
+/**
+ * Builds the business hours context variables for the guideline agent
+ * @returns Empty when the account has no business hours
+ */
+export function getBusinessHoursContextVariables(
+  settings: BusinessHoursSettings | undefined | null,
+  now: Date = new Date()
+): Record<string, string> {
+  if (!hasBusinessHours(settings)) {
+    return {};
+  }
+
+  const status = getBusinessHoursStatus(settings, now);
+  const schedule = `Horario de atención de la inmobiliaria (zona horaria ${settings.timezone}): ${describeBusinessHours(settings, now)}`;
+
+  if (status.isOpen) {
+    return {
+      horario_atencion: schedule,
+      estado_horario: `Ahora la inmobiliaria está abierta, hasta las ${formatTime(getZonedDate(status.closesAt, settings.timezone).minutes)}`,
+    };
+  }
+
+  const reason = status.exception?.name ? ` por ${status.exception.name}` : '';
+  const nextOpening = status.nextOpeningAt
+    ? `Vuelve a abrir el ${formatBusinessTime(status.nextOpeningAt, settings.timezone)}.`
+    : 'No hay una próxima apertura cargada.';
+  const sameDay = status.opensToday
+    ? ''
+    : ' No prometas visitas, llamadas ni respuestas del equipo para hoy.';
+  const escalations = settings.holdEscalations !== false
+    ? ' Las consultas que derives al dueño le llegan cuando abra.'
+    : '';
+
+  return {
+    horario_atencion: schedule,
+    estado_horario: `Ahora la inmobiliaria está cerrada${reason}. ${nextOpening} Podés seguir respondiendo consultas.${sameDay}${escalations}`,
+  };
+}
+
+/**
+ * Decides if an escalation created now has to be held until opening
+ * @returns The opening to deliver it at, or null to deliver it now
+ */
+export function getEscalationHoldUntil(
+  settings: BusinessHoursSettings | undefined | null,
+  now: Date = new Date()
+): Date | null {
+  if (!hasBusinessHours(settings) || settings.holdEscalations === false) {
+    return null;
+  }
+
+  const status = getBusinessHoursStatus(settings, now);
+  return status.isOpen ? null : status.nextOpeningAt;
+}
+
+/**
+ * Gets the away message for a customer writing out of hours (outOfHoursMode: 'away_message')
+ * Claimed once per customer per closed period; the agent still answers afterwards
+ * @returns The message to send, or null if open, not configured or already sent
+ */
+export async function claimAwayMessage(uid: string, customerNumber: string): Promise<string | null> {
+  const userConfig = await getUserConfig(uid);
+  const settings = userConfig?.config.businessHours;
+  if (!hasBusinessHours(settings) || settings.outOfHoursMode !== 'away_message') {
+    return null;
+  }
+
+  const status = getBusinessHoursStatus(settings);
+  if (status.isOpen) {
+    return null;
+  }
+
+  // The key lives until the next opening, so the message is sent again in the next closed period
+  const ttlSeconds = status.nextOpeningAt
+    ? Math.max(60, Math.ceil((status.nextOpeningAt.getTime() - Date.now()) / 1000))
+    : 24 * 60 * 60;
+  const key = `${BUSINESS_HOURS_CONFIG.KEY_PREFIX}away:${uid}:${customerNumber}`;
+  const claimed = await getRedisClient().set(key, Date.now().toString(), 'EX', ttlSeconds, 'NX');
+  if (claimed !== 'OK') {
+    return null;
+  }
+
+  const language = await getCustomerLanguage(uid, customerNumber);
+  const opening = status.nextOpeningAt
+    ? formatBusinessTime(status.nextOpeningAt, settings.timezone, language)
+    : UNKNOWN_OPENING[language];
+  return (settings.awayMessage || AWAY_MESSAGES[language]).replace(/\{apertura\}/g, opening);
+}
+
+/**
+ * Sends the away message to a WhatsApp customer writing out of hours
+ */
+export async function sendAwayMessageIfClosed(
+  webhookPayload: WhatsAppWebhookPayload,
+  customerNumber: string
+): Promise<void> {
+  const uid = webhookPayload.metadata.uid as string;
+
+  try {
+    const message = await claimAwayMessage(uid, customerNumber);
+    if (!message) {
+      return;
+    }
+
+    const channel = await getChannelForAccount(uid);
+    await channel.sendText({ session: webhookPayload.session, chatId: webhookPayload.payload.from }, message);
+    console.log(`[BusinessHours] 🌙 Away message sent to ${customerNumber} (uid: ${uid})`);
+  } catch (error) {
+    console.error('[BusinessHours] ❌ Error sending away message:', error);
+  }
+}
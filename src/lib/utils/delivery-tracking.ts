@@ -0,0 +1,141 @@
+/**
+ * Delivery tracking for bot messages
+ * - Bot message events (fromMe, source api) link the WhatsApp message id to the stored assistant message
+ * - message.ack events update sent/delivered/read/failed timestamps and the conversation read rate
+ * - Failed deliveries are resent through the delivery retry queue
+ */
+
+import type { WhatsAppWebhookPayload } from '../../entities/ws/ws.dto';
+import {
+  createMessageDelivery,
+  findLatestAssistantMessage,
+  getMessageDelivery,
+  updateMessageDeliveryStatus,
+} from '../db/repositories/message-deliveries';
+import { DeliveryStatus } from '../db/types';
+import { claimPendingDeliveryRetry, scheduleDeliveryRetry } from '../queues/delivery-retry-queue';
+import { extractCustomerNumber } from './inactivate-bot';
+
+// Progress order of successful deliveries (failed is handled apart)
+const STATUS_ORDER: DeliveryStatus[] = ['pending', 'sent', 'delivered', 'read'];
+
+/**
+ * Maps a WAHA ack value to a delivery status
+ * -1 ERROR, 0 PENDING, 1 SERVER, 2 DEVICE, 3 READ, 4 PLAYED
+ */
+export function ackToDeliveryStatus(ack: number): DeliveryStatus {
+  if (ack < 0) return 'failed';
+  if (ack === 0) return 'pending';
+  if (ack === 1) return 'sent';
+  if (ack === 2) return 'delivered';
+  return 'read';
+}
+
+/**
+ * Statuses reached when moving from one status to another
+ * (a read receipt also means the message was delivered)
+ * @returns Empty if the new status is not a progress (late or repeated receipts)
+ */
+export function getReachedStatuses(from: DeliveryStatus, to: DeliveryStatus): DeliveryStatus[] {
+  if (to === 'failed') {
+    return from === 'failed' ? [] : ['failed'];
+  }
+
+  const fromIndex = STATUS_ORDER.indexOf(from);
+  const toIndex = STATUS_ORDER.indexOf(to);
+  return toIndex > fromIndex ? STATUS_ORDER.slice(fromIndex + 1, toIndex + 1) : [];
+}
+
+/**
+ * Links a message sent by the bot to the stored assistant message it belongs to
+ * Resends of failed messages are linked to the original stored message
+ */
+export async function trackSentMessage(webhookPayload: WhatsAppWebhookPayload): Promise<void> {
+  const { payload, session, metadata } = webhookPayload;
+  const uid = metadata.uid as string;
+
+  if (!payload.id) {
+    return;
+  }
+
+  try {
+    const phone = extractCustomerNumber(webhookPayload);
+    const content = payload.body || '';
+
+    const retry = await claimPendingDeliveryRetry(uid, phone, content);
+    const target = retry ?? await findLatestAssistantMessage(uid, phone);
+    if (!target) {
+      console.log(`[DeliveryTracking] ⚠️ No stored assistant message for ${payload.id}`);
+      return;
+    }
+
+    const ack = typeof payload.ack === 'number' ? payload.ack : 0;
+    await createMessageDelivery(uid, {
+      chatMessageId: payload.id,
+      phone,
+      chatId: payload.to || payload._data?.key?.remoteJid,
+      session,
+      conversationId: target.conversationId,
+      messageDocId: target.messageDocId,
+      content,
+      hasMedia: Boolean(payload.hasMedia),
+      // A bot message event means the message left the device
+      status: ack < 0 ? 'failed' : 'sent',
+      ack,
+      attempt: retry?.attempt ?? 0,
+      retryOf: retry?.failedChatMessageId ?? null,
+    });
+  } catch (error) {
+    console.error('[DeliveryTracking] ❌ Error tracking sent message:', error);
+  }
+}
+
+/**
+ * Applies a message.ack event to the tracked bot message
+ * Acks of messages that were not sent by the bot (customer or owner messages) are ignored
+ */
+export async function processMessageAck(webhookPayload: WhatsAppWebhookPayload): Promise<void> {
+  const { payload, metadata } = webhookPayload;
+  const uid = metadata.uid as string;
+
+  if (!payload?.id || typeof payload.ack !== 'number') {
+    return;
+  }
+
+  try {
+    const record = await getMessageDelivery(uid, payload.id);
+    if (!record) {
+      return;
+    }
+
+    const status = ackToDeliveryStatus(payload.ack);
+    const reached = getReachedStatuses(record.status, status);
+    if (reached.length === 0) {
+      return;
+    }
+
+    await updateMessageDeliveryStatus(uid, record, status, payload.ack, reached);
+    console.log(`[DeliveryTracking] 📬 ${record.chatMessageId}: ${record.status} → ${status} (${payload.ackName})`);
+
+    if (status === 'failed') {
+      if (record.hasMedia) {
+        console.log(`[DeliveryTracking] ⚠️ ${record.chatMessageId} has media, not retrying`);
+        return;
+      }
+
+      await scheduleDeliveryRetry({
+        uid,
+        session: record.session,
+        chatId: record.chatId,
+        phone: record.phone,
+        content: record.content,
+        conversationId: record.conversationId,
+        messageDocId: record.messageDocId,
+        failedChatMessageId: record.chatMessageId,
+        attempt: record.attempt + 1,
+      });
+    }
+  } catch (error) {
+    console.error('[DeliveryTracking] ❌ Error processing message ack:', error);
+  }
+}
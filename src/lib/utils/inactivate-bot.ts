@@ -7,10 +7,11 @@ import { saveConversationMessage } from "../db/repositories";
 import { WhatsAppWebhookPayload } from '../../entities/ws/ws.dto';
 import {
   temporalBlockManager,
-  buildConversationKey,
+  BlockTarget,
   TEMPORAL_BLOCK_CONFIG
 } from './temporal-block-manager';
 import { extractPhoneFromChatId } from './message-helpers';
+import { OwnerBotCommand, parseOwnerBotCommand } from './owner-commands';
 
 export function extractCustomerNumber(webhookPayload: WhatsAppWebhookPayload): string {
   const { payload } = webhookPayload;
@@ -19,10 +20,28 @@ export function extractCustomerNumber(webhookPayload: WhatsAppWebhookPayload): s
       : extractPhoneFromChatId(payload.from);
 }
 
+/**
+ * Applies an owner bot command to a conversation
+ */
+async function applyOwnerBotCommand(target: BlockTarget, command: OwnerBotCommand): Promise<void> {
+  switch (command.action) {
+    case 'off':
+      await temporalBlockManager.setBlock(target, TEMPORAL_BLOCK_CONFIG.INDEFINITE_BLOCK, 'owner_command');
+      break;
+    case 'on':
+      await temporalBlockManager.removeBlock(target);
+      break;
+    case 'pause':
+      await temporalBlockManager.setBlock(target, command.durationMs, 'owner_command');
+      break;
+  }
+}
+
 /**
  * Determines if the bot should reply to this webhook payload
  * Returns false if:
  * - Message is from bot itself
+ * - Message is an owner bot command (/bot off, /bot on, /bot 30m), which is applied and not stored
  * - Human owner is currently handling the conversation
  * @param webhookPayload - Incoming webhook payload
  * @returns true if bot should reply, false otherwise
@@ -30,8 +49,8 @@ export function extractCustomerNumber(webhookPayload: WhatsAppWebhookPayload): s
 export async function hasToReply(webhookPayload: WhatsAppWebhookPayload): Promise<boolean> {
   const { payload, session, metadata, event } = webhookPayload;
 
-  // Handle missing or undefined event
-  if(!event || !event.includes('message')) {
+  // Handle missing or undefined event (receipts are not messages)
+  if(!event || !event.includes('message') || event === 'message.ack') {
     return false;
   }
 
@@ -42,7 +61,11 @@ export async function hasToReply(webhookPayload: WhatsAppWebhookPayload): Promis
   // Extract customer number
   const customerNumber = extractCustomerNumber(webhookPayload);
 
-  const conversationKey = buildConversationKey(session, customerNumber);
+  const blockTarget: BlockTarget = {
+    uid: metadata.uid as string,
+    session,
+    customerNumber,
+  };
 
   // Bot talking to customer - don't reply
   if (isBotMessage) {
@@ -54,39 +77,64 @@ export async function hasToReply(webhookPayload: WhatsAppWebhookPayload): Promis
   if (isHumanOwnerMessage) {
     console.log('[hasToReply] Human owner message detected');
 
+    // Owner commands control the bot and are not part of the conversation
+    const command = parseOwnerBotCommand(payload.body);
+    if (command) {
+      console.log(`[hasToReply] Owner bot command: ${command.action}`);
+      await applyOwnerBotCommand(blockTarget, command);
+      return false;
+    }
+
     // Set temporal block to prevent bot interference
-    temporalBlockManager.setBlock(
-      conversationKey,
-      TEMPORAL_BLOCK_CONFIG.HUMAN_INTERVENTION_DURATION
-    );
+    // (an explicit /bot off or /bot <duration> block is kept as is)
+    const currentBlock = await temporalBlockManager.getBlock(blockTarget);
+    if (currentBlock?.reason !== 'owner_command') {
+      await temporalBlockManager.setBlock(
+        blockTarget,
+        TEMPORAL_BLOCK_CONFIG.HUMAN_INTERVENTION_DURATION
+      );
+    }
 
     // Save owner's message as assistant message
     await saveConversationMessage(
       metadata.uid as string,
       customerNumber,
       'assistant',
-      payload.body
+      payload.body,
+      undefined, // messageId
+      undefined, // isContext
+      undefined, // customerName
+      undefined, // executionId
+      webhookPayload.transcription && { transcription: webhookPayload.transcription }
     );
 
     return false;
   }
 
   // Check if conversation is currently blocked (human handling it)
-  if (temporalBlockManager.isBlocked(conversationKey)) {
-    console.log('[hasToReply] Conversation is blocked (human handling)');
-
-    // Refresh block duration
-    temporalBlockManager.setBlock(
-      conversationKey,
-      TEMPORAL_BLOCK_CONFIG.HUMAN_INTERVENTION_DURATION
-    );
+  const block = await temporalBlockManager.getBlock(blockTarget);
+  if (block) {
+    console.log(`[hasToReply] Conversation is blocked (${block.reason})`);
+
+    // Refresh block duration while the human keeps the conversation going
+    if (block.reason === 'human_intervention') {
+      await temporalBlockManager.setBlock(
+        blockTarget,
+        TEMPORAL_BLOCK_CONFIG.HUMAN_INTERVENTION_DURATION
+      );
+    }
 
     // Save customer message
     await saveConversationMessage(
       metadata.uid as string,
       customerNumber,
       'user',
-      payload.body
+      payload.body,
+      undefined, // messageId
+      undefined, // isContext
+      undefined, // customerName
+      undefined, // executionId
+      webhookPayload.transcription && { transcription: webhookPayload.transcription }
     );
 
     return false;
@@ -6,6 +6,7 @@
 import { getProperties } from "../db/repositories/properties";
 import { storeRAG, updateRAGEmbeddings, deleteRAGByKeys } from "../db/repositories/rag";
 import { Propiedad } from "../db/types";
+import { invalidateFaqCache } from "../ai/cascade/faq-cache";
 
 /**
  * Build text description for a property to store in RAG
@@ -124,6 +125,7 @@ export async function indexPropertyToRAG(
     const docId = await storeRAG(keys, text, metadata, docRef);
 
     console.log(`[Index RAG] Successfully indexed property ${property.id} as ${docId}`);
+    await invalidateFaqCache(uid);
     return docId;
   } catch (error) {
     console.error(`[Index RAG] Error indexing property ${property.id}:`, error);
@@ -235,6 +237,7 @@ export async function updatePropertyInRAG(
     const docId = await updateRAGEmbeddings(keys, text, metadata, docRef);
 
     console.log(`[Index RAG] Successfully updated property ${property.id} as ${docId}`);
+    await invalidateFaqCache(uid);
     return docId;
   } catch (error) {
     console.error(`[Index RAG] Error updating property ${property.id}:`, error);
@@ -256,6 +259,7 @@ export async function removePropertyFromRAG(
     const deletedCount = await deleteRAGByKeys([`prop_${propertyId}`]);
 
     console.log(`[Index RAG] Removed ${deletedCount} documents for property ${propertyId}`);
+    await invalidateFaqCache(uid);
     return deletedCount;
   } catch (error) {
     console.error(`[Index RAG] Error removing property ${propertyId}:`, error);
@@ -273,6 +277,7 @@ export async function clearAllPropertiesFromRAG(uid: string): Promise<number> {
     const deletedCount = await deleteRAGByKeys(["property", uid]);
 
     console.log(`[Index RAG] Cleared ${deletedCount} property documents for user ${uid}`);
+    await invalidateFaqCache(uid);
     return deletedCount;
   } catch (error) {
     console.error(`[Index RAG] Error clearing properties for user ${uid}:`, error);
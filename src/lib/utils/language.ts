@@ -0,0 +1,121 @@
+/**
+ * Language utilities for multilingual conversations
+ * Detects the language a lead writes in so the agent can answer in it,
+ * while guidelines, tools and prompts stay authored in Spanish
+ */
+
+import type { ConversationLanguage } from '../db/types';
+
+export const LANGUAGE_CONFIG = {
+  DEFAULT_LANGUAGE: 'es' as ConversationLanguage,
+  // Matches needed to switch the language of a conversation that already has one
+  MIN_SWITCH_SCORE: 2,
+} as const;
+
+export const SUPPORTED_LANGUAGES: ConversationLanguage[] = ['es', 'en', 'pt'];
+
+// Language names as written in the (Spanish) prompts
+export const LANGUAGE_NAMES: Record<ConversationLanguage, string> = {
+  es: 'español',
+  en: 'inglés',
+  pt: 'portugués',
+};
+
+// Locales for dates and amounts
+export const LANGUAGE_LOCALES: Record<ConversationLanguage, string> = {
+  es: 'es-AR',
+  en: 'en-US',
+  pt: 'pt-BR',
+};
+
+// Frequent words that only appear in one of the languages (shared words like "para" or "casa" are left out)
+const LANGUAGE_WORDS: Record<ConversationLanguage, Set<string>> = {
+  es: new Set([
+    'el', 'la', 'los', 'las', 'y', 'es', 'un', 'una', 'por', 'con', 'del', 'hola', 'quiero', 'quisiera',
+    'cuánto', 'cuanto', 'cuántos', 'busco', 'gracias', 'hay', 'departamento', 'pero', 'dónde', 'donde',
+    'precio', 'mi', 'puedo', 'sí', 'también', 'tienen', 'usted', 'vos', 'ustedes', 'ambientes', 'alquiler',
+    'buenas', 'buenos', 'días', 'tardes', 'noches', 'necesito', 'cuál', 'cual', 'ese', 'esa', 'eso', 'muy',
+    'dormitorios', 'baño', 'ahora', 'mañana', 'hoy', 'visitar', 'ver', 'fotos', 'qué',
+  ]),
+  en: new Set([
+    'the', 'an', 'is', 'are', 'i', "i'm", 'you', 'to', 'of', 'and', 'in', 'for', 'with', 'hello', 'hi', 'hey',
+    'want', 'would', 'like', 'how', 'much', 'looking', 'thanks', 'thank', 'apartment', 'house', 'what',
+    'where', 'price', 'my', 'can', 'yes', 'please', 'do', 'does', 'have', 'rent', 'buy', 'bedrooms',
+    'bathroom', 'good', 'morning', 'afternoon', 'evening', 'need', 'which', 'this', 'that', 'it', 'visit',
+    'see', 'photos', 'tomorrow', 'today', 'there', 'any', 'about', 'could',
+  ]),
+  pt: new Set([
+    'os', 'um', 'uma', 'não', 'nao', 'é', 'você', 'voce', 'vocês', 'olá', 'ola', 'obrigado', 'obrigada',
+    'quero', 'gostaria', 'quanto', 'quantos', 'tem', 'apartamento', 'muito', 'mas', 'onde', 'preço', 'meu',
+    'minha', 'posso', 'sim', 'também', 'do', 'da', 'dos', 'das', 'na', 'em', 'isso', 'essa', 'esse', 'bom',
+    'dia', 'boa', 'tarde', 'noite', 'preciso', 'qual', 'agora', 'amanhã', 'hoje', 'quartos', 'banheiro',
+    'aluguel', 'comprar', 'fotos', 'ver', 'visitar', 'pra', 'tô', 'estou',
+  ]),
+};
+
+// Characters that only appear in one of the languages
+const LANGUAGE_CHARACTERS: Partial<Record<ConversationLanguage, RegExp>> = {
+  es: /[ñ¿¡]/g,
+  pt: /[ãõç]/g,
+};
+
+/**
+ * Checks if a value is a supported language code
+ */
+export function isSupportedLanguage(value: unknown): value is ConversationLanguage {
+  return typeof value === 'string' && (SUPPORTED_LANGUAGES as string[]).includes(value);
+}
+
+/**
+ * Scores each supported language by its distinctive words and characters
+ */
+export function scoreLanguages(text: string): Record<ConversationLanguage, number> {
+  const normalized = text.toLowerCase();
+  const words = normalized.match(/[\p{L}']+/gu) || [];
+
+  return SUPPORTED_LANGUAGES.reduce((scores, language) => {
+    const wordMatches = words.filter((word) => LANGUAGE_WORDS[language].has(word)).length;
+    const characters = LANGUAGE_CHARACTERS[language];
+    const characterMatches = characters ? (normalized.match(characters) || []).length : 0;
+    scores[language] = wordMatches + characterMatches;
+    return scores;
+  }, {} as Record<ConversationLanguage, number>);
+}
+
+/**
+ * Detects the language of a message
+ * @returns The language and its score, or null if the text is too short or ambiguous
+ */
+export function detectLanguage(text: string): { language: ConversationLanguage; score: number } | null {
+  const scores = scoreLanguages(text);
+  const [best, second] = SUPPORTED_LANGUAGES
+    .map((language) => ({ language, score: scores[language] }))
+    .sort((a, b) => b.score - a.score);
+
+  if (best.score === 0 || best.score === second.score) {
+    return null;
+  }
+
+  return best;
+}
+
+/**
+ * Decides the language of a conversation after a new message
+ * Short or ambiguous messages ("ok", "👍") keep the current language
+ */
+export function resolveConversationLanguage(
+  current: ConversationLanguage | null | undefined,
+  text: string
+): ConversationLanguage {
+  const detected = detectLanguage(text);
+
+  if (!current) {
+    return detected?.language ?? LANGUAGE_CONFIG.DEFAULT_LANGUAGE;
+  }
+
+  if (detected && detected.language !== current && detected.score >= LANGUAGE_CONFIG.MIN_SWITCH_SCORE) {
+    return detected.language;
+  }
+
+  return current;
+}
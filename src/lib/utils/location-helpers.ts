@@ -0,0 +1,115 @@
+/**
+ * Location utilities for WhatsApp location pins
+ * Normalizes WAHA location payloads and turns them into text the agent can read
+ */
+
+import type { WhatsAppLocation, WhatsAppWebhookPayload } from '../../entities/ws/ws.dto';
+import type { MessageLocation } from '../db/types';
+
+/**
+ * Parses a WAHA location payload into coordinates
+ * @returns Normalized location, or null if the payload has no valid coordinates
+ */
+export function parseWebhookLocation(location: WhatsAppLocation | null | undefined): MessageLocation | null {
+  if (!location) {
+    return null;
+  }
+
+  const lat = Number(location.latitude);
+  const lng = Number(location.longitude);
+
+  if (!Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+    return null;
+  }
+
+  return {
+    lat,
+    lng,
+    name: location.name || null,
+    address: location.address || location.description || null,
+  };
+}
+
+/**
+ * Formats a shared location as a user message for the conversation history
+ */
+export function formatLocationMessage(location: MessageLocation): string {
+  const place = [location.name, location.address].filter(Boolean).join(' - ');
+  const coordinates = `${location.lat.toFixed(6)}, ${location.lng.toFixed(6)}`;
+  return place
+    ? `[El usuario compartió su ubicación: ${place} (${coordinates})]`
+    : `[El usuario compartió su ubicación (${coordinates})]`;
+}
+
+/**
+ * Replaces the body of a location webhook payload with a readable description
+ * Returns the payload unchanged when it carries no valid location
+ */
+export function prepareLocationMessage(webhookPayload: WhatsAppWebhookPayload): WhatsAppWebhookPayload {
+  const location = parseWebhookLocation(webhookPayload.payload.location);
+  if (!location) {
+    return webhookPayload;
+  }
+
+  return {
+    ...webhookPayload,
+    payload: {
+      ...webhookPayload.payload,
+      body: formatLocationMessage(location),
+    },
+  };
+}
+
+function toCoordinates(lat: number, lng: number): { lat: number; lng: number } | null {
+  if (!Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+    return null;
+  }
+  return { lat, lng };
+}
+
+/**
+ * decodeURIComponent that returns the raw value for malformed input (e.g. a stray % in an LLM-written link)
+ */
+export function safeDecodeURIComponent(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Extracts coordinates from a "lat,lng" string or a Google Maps link (property ubicacion_url)
+ * Supports ?q=/query=/ll= parameters, /@lat,lng paths and !3d..!4d.. place data
+ * @returns Coordinates, or null if none can be found (e.g. short links)
+ */
+export function parseCoordinates(value: string | null | undefined): { lat: number; lng: number } | null {
+  if (!value) {
+    return null;
+  }
+
+  const text = safeDecodeURIComponent(value.trim());
+  const number = '(-?\\d{1,3}(?:\\.\\d+)?)';
+  const patterns = [
+    new RegExp(`^${number}\\s*,\\s*${number}$`),
+    new RegExp(`!3d${number}!4d${number}`),
+    new RegExp(`[?&](?:q|query|ll|destination)=${number}\\s*,\\s*${number}`),
+    new RegExp(`@${number},${number}`),
+  ];
+
+  for (const pattern of patterns) {
+    const match = text.match(pattern);
+    if (match) {
+      return toCoordinates(Number(match[1]), Number(match[2]));
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Builds a Google Maps link for a pair of coordinates
+ */
+export function buildMapsUrl(lat: number, lng: number): string {
+  return `https://maps.google.com/?q=${lat},${lng}`;
+}
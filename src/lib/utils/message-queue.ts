@@ -6,11 +6,17 @@
  * - Message accumulation with debounce timer
  * - Cancellation support: new messages abort current processing
  * - ExecutionContext for deferred actions and cleanup
+ *
+ * This is the single-node (in-memory) implementation. Multi-instance deployments
+ * use createDistributedMessageQueue (lib/queues/message-debounce-queue.ts).
  */
 
 import { formatUserMessage } from './message-helpers';
 import { ExecutionContext, createExecutionContext } from './execution-context';
 import type { WhatsAppWebhookPayload } from '../../entities/ws/ws.dto';
+import type { MessageTranscription } from '../transcription/types';
+import type { MessageLocation } from '../db/types';
+import { parseWebhookLocation } from './location-helpers';
 
 /**
  * Configuration for message queue processing
@@ -18,15 +24,17 @@ import type { WhatsAppWebhookPayload } from '../../entities/ws/ws.dto';
 export const MESSAGE_QUEUE_CONFIG = {
   // Gap in milliseconds to wait before processing accumulated messages
   GAP_MILLISECONDS: process.env.MESSAGE_QUEUE_GAP_MILLISECONDS ? parseInt(process.env.MESSAGE_QUEUE_GAP_MILLISECONDS) : 5000,
+  // 'memory' (single node) or 'redis' (shared across API replicas)
+  MODE: (process.env.MESSAGE_QUEUE_MODE || (process.env.NODE_ENV === 'development' ? 'memory' : 'redis')) as 'memory' | 'redis',
 } as const;
 
-interface Message {
+export interface Message {
   text: string;
   timestamp: number;
   webhookPayload: WhatsAppWebhookPayload;
 }
 
-interface QueueConfig {
+export interface QueueConfig {
   gapMilliseconds: number;
 }
 
@@ -39,6 +47,9 @@ export interface AccumulatedMessagesPayload {
     body: string;
     timestamp: number;
     replyTo: string | null;
+    replyToId: string | null;
+    transcription: MessageTranscription | null;
+    location: MessageLocation | null;
   }>;
   metadata: Record<string, any>;
   session: string;
@@ -59,6 +70,11 @@ export interface ProcessingContext {
  */
 export type MessageProcessingCallback = (context: ProcessingContext) => Promise<void>;
 
+/**
+ * Enqueue function returned by both queue implementations
+ */
+export type EnqueueMessageFn = (webhookPayload: WhatsAppWebhookPayload, callback: MessageProcessingCallback) => void;
+
 interface UserQueue {
   messages: Message[];
   timer: NodeJS.Timeout | null;
@@ -108,7 +124,7 @@ function resetTimer(userQueue: UserQueue): UserQueue {
 /**
  * Processes accumulated messages and creates payload
  */
-function processQueue(messages: Message[]): AccumulatedMessagesPayload {
+export function processQueue(messages: Message[]): AccumulatedMessagesPayload {
   const basePayload = messages[0].webhookPayload;
 
   return {
@@ -117,6 +133,9 @@ function processQueue(messages: Message[]): AccumulatedMessagesPayload {
       body: msg.text,
       timestamp: msg.timestamp,
       replyTo: msg.webhookPayload.payload.replyTo?.body || null,
+      replyToId: msg.webhookPayload.payload.replyTo?.id || null,
+      transcription: msg.webhookPayload.transcription || null,
+      location: parseWebhookLocation(msg.webhookPayload.payload.location),
     })),
     metadata: basePayload.metadata,
     session: basePayload.session,
@@ -125,6 +144,30 @@ function processQueue(messages: Message[]): AccumulatedMessagesPayload {
   };
 }
 
+/**
+ * Validates a webhook payload and formats it as a queued message
+ * @returns null if the payload has no sender or body
+ */
+export function createQueuedMessage(webhookPayload: WhatsAppWebhookPayload): Message | null {
+  const from = webhookPayload.payload.from;
+  const messageBody = webhookPayload.payload.body;
+
+  if (!from || !messageBody) {
+    return null;
+  }
+
+  return {
+    text: formatUserMessage(
+      messageBody,
+      webhookPayload.payload.replyTo?.body || null,
+      null,
+      webhookPayload.payload._data.pushName
+    ),
+    timestamp: Date.now(),
+    webhookPayload,
+  };
+}
+
 /**
  * Wrapper for formatUserMessage to maintain backward compatibility
  * @deprecated Use formatUserMessage from message-helpers.ts directly
@@ -148,7 +191,7 @@ export function getUserMessage(
  * - After abort cleanup, a new timer is started to reprocess accumulated messages
  * - Only on successful completion are pending actions executed
  */
-export function createMessageQueue(config: QueueConfig) {
+export function createMessageQueue(config: QueueConfig): EnqueueMessageFn {
   const state: QueueState = createInitialState();
 
   /**
@@ -278,10 +321,10 @@ export function createMessageQueue(config: QueueConfig) {
     callback: MessageProcessingCallback,
   ): void {
     const from = webhookPayload.payload.from;
-    const messageBody = webhookPayload.payload.body;
+    const message = createQueuedMessage(webhookPayload);
 
     // Validate payload
-    if (!from || !messageBody) {
+    if (!message) {
       console.error("[MessageQueue] Invalid webhook payload - missing from or body");
       return;
     }
@@ -306,19 +349,8 @@ export function createMessageQueue(config: QueueConfig) {
       userQueue.timer = null;
     }
 
-    // Format and add message
-    const formattedMessage = formatUserMessage(
-      messageBody,
-      webhookPayload.payload.replyTo?.body || null,
-      null,
-      webhookPayload.payload._data.pushName
-    );
-
-    userQueue.messages.push({
-      text: formattedMessage,
-      timestamp: Date.now(),
-      webhookPayload,
-    });
+    // Add formatted message
+    userQueue.messages.push(message);
     userQueue.callback = callback;
 
     console.log(`[MessageQueue] 📥 Enqueued message for ${from}. Total in queue: ${userQueue.messages.length}`);
@@ -0,0 +1,301 @@
+/**
+ * Opt-out compliance
+ * Honours "no me escriban más" across every proactive message (reminders, notifications, first contacts)
+ *
+ * - Inbound messages are checked for opt-out/opt-in commands (STOP, BAJA, ALTA...) and, when they
+ *   contain an opt-out phrase, confirmed with an LLM intent check
+ * - Opted-out numbers go to the per-uid suppression list, with an audit trail of every change
+ * - Opt-outs sent to the platform number are applied to every account that messages that number
+ * - Proactive senders call canSendProactive before sending; replies to inbound messages are not blocked
+ * - Customers opt back in by writing ALTA / START / VOLTAR (owners through /api/suppressions)
+ */
+
+import { generateObject } from 'ai';
+import { z } from 'zod';
+import { getModel } from '../ai/openrouter';
+import { runWithUsageContext, withUsageComponent } from '../ai/usage/usage-context';
+import { AI_CONFIG } from '../ai/config';
+import {
+  addSuppression,
+  isPhoneSuppressed,
+  recordBlockedSend,
+  removeSuppression,
+} from '../db/repositories/suppressions';
+import { getCustomerLanguage } from '../db/repositories/customers';
+import { getAccountsMessagingPhone } from '../db/repositories/tenants';
+import { getChannelForAccount, getPlatformChannel } from '../channels';
+import type { ConversationLanguage, SuppressionSource } from '../db/types';
+import type { WhatsAppWebhookPayload } from '../../entities/ws/ws.dto';
+
+export const OPT_OUT_CONFIG = {
+  // Confirm opt-out phrases with the LLM (commands never need it)
+  LLM_CONFIRMATION: process.env.OPT_OUT_LLM_CONFIRMATION !== 'false',
+  MIN_CONFIDENCE: 0.8,
+  // Longer messages are conversations, not opt-out requests
+  MAX_MESSAGE_LENGTH: 300,
+} as const;
+
+export type OptOutAction = 'opt_out' | 'opt_in';
+
+export interface OptOutDetection {
+  action: OptOutAction;
+  source: SuppressionSource;
+}
+
+// Messages that are a command on their own (compared after normalization)
+const OPT_OUT_COMMANDS = new Set(['stop', 'baja', 'unsubscribe', 'desuscribir', 'desuscribirme', 'pare', 'sair']);
+const OPT_IN_COMMANDS = new Set(['alta', 'start', 'unstop', 'subscribe', 'voltar']);
+
+// Phrases that may be an opt-out request, confirmed with the LLM
+const OPT_OUT_PHRASE_REGEX = new RegExp([
+  'no (me )?(escrib|mand|envi|contact)\\w*( mas)?',
+  'dej(a|e|en)n? de (escrib|mand|envi|contact)',
+  'no quiero (recibir|que me)',
+  '(darme|dame|denme|me doy) de baja',
+  'borr(a|e|en)(me| mi numero)',
+  'stop (sending|messaging|texting|contacting)',
+  "(don'?t|do not) (text|message|contact|write)",
+  'remove me',
+  'nao (me )?(mand|envi|escrev)\\w*',
+  'par(a|e) de (mandar|enviar|escrever)',
+  'descadastr',
+].join('|'));
+
+const OPT_OUT_CONFIRMATIONS: Record<ConversationLanguage, string> = {
+  es: 'Listo, no vas a recibir más mensajes nuestros. Si en algún momento querés volver a recibirlos, escribí *ALTA*.',
+  en: "Done, you won't receive any more messages from us. If you want to receive them again, reply *START*.",
+  pt: 'Pronto, você não vai receber mais mensagens nossas. Se quiser voltar a recebê-las, escreva *VOLTAR*.',
+};
+
+const OPT_IN_CONFIRMATIONS: Record<ConversationLanguage, string> = {
+  es: '¡Listo! Vas a volver a recibir nuestros mensajes 🙂',
+  en: 'Done! You will receive our messages again 🙂',
+  pt: 'Pronto! Você voltará a receber nossas mensagens 🙂',
+};
+
+/**
+ * Lowercases and removes accents and punctuation
+ */
+function normalizeMessage(text: string): string {
+  return text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\p{L}\p{N}' ]+/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Detects a whole-message opt-out or opt-in command ("STOP", "baja", "ALTA")
+ */
+export function detectOptOutCommand(text: string): OptOutAction | null {
+  const normalized = normalizeMessage(text);
+  if (OPT_OUT_COMMANDS.has(normalized)) return 'opt_out';
+  if (OPT_IN_COMMANDS.has(normalized)) return 'opt_in';
+  return null;
+}
+
+/**
+ * Checks if a message contains a phrase that may be an opt-out request
+ */
+export function hasOptOutPhrase(text: string): boolean {
+  return text.length <= OPT_OUT_CONFIG.MAX_MESSAGE_LENGTH && OPT_OUT_PHRASE_REGEX.test(normalizeMessage(text));
+}
+
+/**
+ * Confirms with the LLM that a message asks to stop receiving messages
+ * ("no me interesa esa casa" or "no me llamen, escribime" are not opt-outs)
+ */
+async function classifyOptOutIntent(text: string): Promise<boolean> {
+  const prompt = `<task>
+Decidí si el mensaje de un cliente de una inmobiliaria pide NO recibir más mensajes del negocio (baja / opt-out).
+
+<mensaje>${text}</mensaje>
+
+<criterios>
+- Es opt-out: "no me escriban más", "dejen de mandarme mensajes", "dame de baja", "stop texting me"
+- NO es opt-out: rechazar una propiedad, cancelar una visita, pedir que no lo llamen pero sí le escriban, decir que ya no busca propiedad sin pedir que no le escriban
+</criterios>
+</task>`;
+
+  try {
+    const { object } = await generateObject({
+      model: withUsageComponent('opt_out', getModel(AI_CONFIG.OPT_OUT_MODEL)) as any,
+      prompt,
+      schema: z.object({
+        optOut: z.boolean(),
+        confidence: z.coerce.number(),
+        reason: z.string(),
+      }),
+      temperature: 0,
+    });
+
+    console.log(`[OptOut] 🤖 Intent: ${object.optOut} (${object.confidence}) - ${object.reason}`);
+    return object.optOut && object.confidence >= OPT_OUT_CONFIG.MIN_CONFIDENCE;
+  } catch (error) {
+    console.error('[OptOut] ❌ Error classifying opt-out intent:', error);
+    return false;
+  }
+}
+
+/**
+ * Detects an opt-out or opt-in in an inbound message
+ * Commands are detected by keyword, opt-out phrases are confirmed with the LLM
+ */
+export async function detectOptOut(text: string | null | undefined): Promise<OptOutDetection | null> {
+  if (!text) {
+    return null;
+  }
+
+  const command = detectOptOutCommand(text);
+  if (command) {
+    return { action: command, source: 'keyword' };
+  }
+
+  if (!hasOptOutPhrase(text)) {
+    return null;
+  }
+
+  if (!OPT_OUT_CONFIG.LLM_CONFIRMATION) {
+    return { action: 'opt_out', source: 'keyword' };
+  }
+
+  return await classifyOptOutIntent(text) ? { action: 'opt_out', source: 'llm' } : null;
+}
+
+/**
+ * Adds the number to the account suppression list, or removes it on an opt-in
+ * @returns true if the list changed ("alta" from a number that never opted out is a regular message)
+ */
+async function applyOptOutDetection(
+  uid: string,
+  customerNumber: string,
+  detection: OptOutDetection,
+  text: string | null | undefined
+): Promise<boolean> {
+  if (detection.action === 'opt_out') {
+    const added = await addSuppression(uid, customerNumber, detection.source, text);
+    console.log(`[OptOut] 🚫 ${customerNumber} opted out (uid: ${uid}, source: ${detection.source}, new: ${added})`);
+    return true;
+  }
+
+  const removed = await removeSuppression(uid, customerNumber, detection.source, text);
+  if (removed) {
+    console.log(`[OptOut] ✅ ${customerNumber} opted back in (uid: ${uid})`);
+  }
+  return removed;
+}
+
+/**
+ * Confirmation of an applied opt-out or opt-in in the customer language
+ */
+async function getOptOutConfirmation(uid: string, customerNumber: string, action: OptOutAction): Promise<string> {
+  const confirmations = action === 'opt_out' ? OPT_OUT_CONFIRMATIONS : OPT_IN_CONFIRMATIONS;
+  const language = await getCustomerLanguage(uid, customerNumber);
+  return confirmations[language];
+}
+
+/**
+ * Applies an opt-out or opt-in sent by a customer
+ * @returns The confirmation to send in the customer language, or null if the message is not an opt-out/opt-in
+ */
+export async function applyOptOutMessage(
+  uid: string,
+  customerNumber: string,
+  text: string | null | undefined
+): Promise<string | null> {
+  const detection = await runWithUsageContext({ uid }, () => detectOptOut(text));
+  if (!detection || !(await applyOptOutDetection(uid, customerNumber, detection, text))) {
+    return null;
+  }
+
+  return getOptOutConfirmation(uid, customerNumber, detection.action);
+}
+
+/**
+ * Applies an opt-out or opt-in sent by a WhatsApp customer and confirms it
+ * @returns true if the message was an opt-out/opt-in and must not reach the agent
+ */
+export async function processOptOutMessage(
+  webhookPayload: WhatsAppWebhookPayload,
+  customerNumber: string
+): Promise<boolean> {
+  const uid = webhookPayload.metadata.uid as string;
+
+  try {
+    const confirmation = await applyOptOutMessage(uid, customerNumber, webhookPayload.payload.body);
+    if (!confirmation) {
+      return false;
+    }
+
+    const channel = await getChannelForAccount(uid);
+    await channel.sendText({ session: webhookPayload.session, chatId: webhookPayload.payload.from }, confirmation);
+
+    return true;
+  } catch (error) {
+    console.error('[OptOut] ❌ Error processing opt-out message:', error);
+    return false;
+  }
+}
+
+/**
+ * Applies an opt-out or opt-in sent to the platform number and confirms it
+ * Platform messages (payment, bills and owner reminders) are sent on behalf of the accounts
+ * the number is a tenant or owner of, so the change is applied to each of those accounts
+ * @returns true if the message was an opt-out/opt-in and must not reach the agent
+ */
+export async function processPlatformOptOutMessage(
+  webhookPayload: WhatsAppWebhookPayload,
+  customerNumber: string
+): Promise<boolean> {
+  const text = webhookPayload.payload.body;
+
+  try {
+    const detection = await detectOptOut(text);
+    if (!detection) {
+      return false;
+    }
+
+    const uids = await getAccountsMessagingPhone(customerNumber);
+    if (uids.length === 0) {
+      console.log(`[OptOut] ℹ️ ${customerNumber} wrote ${detection.action} to the platform but no account messages them`);
+      return false;
+    }
+
+    const changedUids: string[] = [];
+    for (const uid of uids) {
+      if (await applyOptOutDetection(uid, customerNumber, detection, text)) {
+        changedUids.push(uid);
+      }
+    }
+
+    if (changedUids.length === 0) {
+      return false;
+    }
+
+    const confirmation = await getOptOutConfirmation(changedUids[0], customerNumber, detection.action);
+    await getPlatformChannel().sendText({ session: webhookPayload.session, chatId: webhookPayload.payload.from }, confirmation);
+
+    return true;
+  } catch (error) {
+    console.error('[OptOut] ❌ Error processing platform opt-out message:', error);
+    return false;
+  }
+}
+
+/**
+ * Checks a proactive send against the suppression list
+ * Blocked sends are recorded in the audit trail
+ * A failed lookup throws: the send is not made and callers retry it on their next run
+ * @param context - Outbound path, e.g. 'payment_reminder'
+ */
+export async function canSendProactive(uid: string, phone: string, context: string): Promise<boolean> {
+  if (!(await isPhoneSuppressed(uid, phone))) {
+    return true;
+  }
+
+  console.log(`[OptOut] 🚫 ${context} to ${phone} blocked (opted out, uid: ${uid})`);
+  await recordBlockedSend(uid, phone, context);
+  return false;
+}
@@ -0,0 +1,39 @@
+/**
+ * Owner chat commands
+ * Commands typed by the business owner from their phone inside a customer chat:
+ * - /bot off  → bot stays silent in this chat until /bot on
+ * - /bot on   → bot resumes replying
+ * - /bot 30m  → bot stays silent for a while (m = minutes, h = hours, d = days)
+ */
+
+export type OwnerBotCommand =
+  | { action: 'off' }
+  | { action: 'on' }
+  | { action: 'pause'; durationMs: number };
+
+const DURATION_UNITS_MS: Record<string, number> = {
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+
+const BOT_COMMAND_REGEX = /^\/bot\s+(?:(off|on)|(\d+)\s*(m|h|d))$/i;
+
+/**
+ * Parses an owner bot command
+ * @returns The command, or null if the message is not a bot command
+ */
+export function parseOwnerBotCommand(body: string | null | undefined): OwnerBotCommand | null {
+  const match = body?.trim().match(BOT_COMMAND_REGEX);
+  if (!match) {
+    return null;
+  }
+
+  const [, toggle, amount, unit] = match;
+  if (toggle) {
+    return { action: toggle.toLowerCase() as 'off' | 'on' };
+  }
+
+  const durationMs = parseInt(amount) * DURATION_UNITS_MS[unit.toLowerCase()];
+  return durationMs > 0 ? { action: 'pause', durationMs } : null;
+}
@@ -0,0 +1,122 @@
+/**
+ * Quoted reply utilities
+ * Resolves the message a customer quotes (WhatsApp reply) to the stored assistant message,
+ * and the property it is about from the @@property_id: ...@@ markers the writer embeds
+ * (markers are removed by processResponse before sending, but kept in the stored message)
+ */
+
+import { getMessageDelivery } from '../db/repositories/message-deliveries';
+import { getActiveConversationMessages, getConversationMessage } from '../db/repositories/conversations';
+import type { QuotedMessageReference } from '../db/types';
+
+const PROPERTY_MARKER_REGEX = /@@\s*(?:property_id\s*[:=]\s*)?([A-Za-z0-9_-]+)\s*@@/gi;
+
+/**
+ * Normalizes sent text for comparison: images become their description (the WhatsApp caption),
+ * links their url, and WhatsApp formatting is removed
+ */
+function normalizeText(text: string): string {
+  return text
+    .replace(/!\[([\s\S]*?)\]\((https?:\/\/[^\s)]+)\)/g, '$1')
+    .replace(/\[.*?\]\((https?:\/\/.*?)\)/g, '$1')
+    .replace(/[*_`~#]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .toLowerCase();
+}
+
+/**
+ * Removes the property markers from a stored message
+ */
+function stripPropertyMarkers(content: string): string {
+  return content.replace(/@@[^@]*@@/g, '');
+}
+
+/**
+ * Finds the property a quoted part of a stored assistant message is about
+ * Each marker starts the section of its property, the section that contains the quoted text wins
+ * @returns The property id, or null if the quoted part is not about a single property
+ */
+export function findQuotedPropertyId(storedContent: string, quotedText: string | null): string | null {
+  const markers = Array.from(storedContent.matchAll(PROPERTY_MARKER_REGEX));
+  if (markers.length === 0) {
+    return null;
+  }
+
+  const propertyIds = new Set(markers.map((marker) => marker[1]));
+  const quote = quotedText ? normalizeText(stripPropertyMarkers(quotedText)) : '';
+
+  if (quote) {
+    const section = markers.find((marker, index) => {
+      const start = (marker.index ?? 0) + marker[0].length;
+      const end = markers[index + 1]?.index ?? storedContent.length;
+      return normalizeText(storedContent.slice(start, end)).includes(quote);
+    });
+
+    if (section) {
+      return section[1];
+    }
+  }
+
+  // A message about a single property resolves even when the quoted part is not found
+  return propertyIds.size === 1 ? markers[0][1] : null;
+}
+
+/**
+ * Resolves a quoted reply to the stored assistant message and the property it refers to
+ * - By WhatsApp message id, through the delivery tracking record of the sent part
+ * - By quoted text in the active conversation, for messages sent before delivery tracking
+ * @returns null if the quoted message is not a stored assistant message
+ */
+export async function resolveQuotedReply(
+  uid: string,
+  phone: string,
+  replyToId: string | null | undefined,
+  replyTo: string | null | undefined
+): Promise<QuotedMessageReference | null> {
+  if (!replyToId && !replyTo) {
+    return null;
+  }
+
+  try {
+    if (replyToId) {
+      const delivery = await getMessageDelivery(uid, replyToId);
+      const message = delivery
+        ? await getConversationMessage(uid, phone, delivery.conversationId, delivery.messageDocId)
+        : null;
+
+      if (delivery && message) {
+        return {
+          chatMessageId: replyToId,
+          conversationId: delivery.conversationId,
+          messageDocId: delivery.messageDocId,
+          propertyId: findQuotedPropertyId(message.content, replyTo || delivery.content),
+        };
+      }
+    }
+
+    const quote = replyTo ? normalizeText(replyTo) : '';
+    if (!quote) {
+      return null;
+    }
+
+    const messages = await getActiveConversationMessages(uid, phone);
+    const quotedMessage = [...messages]
+      .reverse()
+      .find((message) => message.role === 'assistant' && normalizeText(stripPropertyMarkers(message.content)).includes(quote));
+
+    if (!quotedMessage) {
+      return null;
+    }
+
+    return {
+      chatMessageId: replyToId || null,
+      conversationId: null,
+      messageDocId: null,
+      propertyId: findQuotedPropertyId(quotedMessage.content, replyTo ?? null),
+    };
+  } catch (error) {
+    console.error('[QuotedReply] ❌ Error resolving quoted reply:', error);
+    return null;
+  }
+}
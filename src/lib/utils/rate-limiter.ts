@@ -0,0 +1,224 @@
+/**
+ * Rate Limiter
+ * Flood protection for incoming customer messages: every accepted burst runs a full cascade
+ * (planner, workers, writer, validator), so a single sender must not trigger unlimited LLM calls
+ *
+ * - Redis token buckets per customer number and per account (uid), sized by the account plan
+ * - When a limit is exceeded the customer gets a single cooldown reply
+ * - Customers that exceed their limit are reported to the owner through the reports number
+ */
+
+import { getRedisClient } from '../cache/redis-client';
+import { cacheGet, cacheSet } from '../cache/cache-manager';
+import { PADDLE_PLANS, PlanId } from '../../config/paddle';
+import { subscriptionsRepository } from '../db/repositories/subscriptions';
+import { getUserConfig } from '../db/repositories/users';
+import { getCustomerLanguage } from '../db/repositories/customers';
+import { getChannelForAccount, getPlatformChannel } from '../channels';
+import type { ConversationLanguage } from '../db/types';
+import type { WhatsAppWebhookPayload } from '../../entities/ws/ws.dto';
+
+export interface TokenBucketLimit {
+  capacity: number; // Messages accepted in a burst
+  refillPerMinute: number; // Sustained messages per minute
+}
+
+export interface PlanRateLimits {
+  customer: TokenBucketLimit;
+  account: TokenBucketLimit;
+}
+
+export const RATE_LIMIT_CONFIG = {
+  ENABLED: process.env.RATE_LIMIT_ENABLED !== 'false',
+  KEY_PREFIX: 'rate-limit:',
+  // Limits of accounts without a paid plan (free trial)
+  DEFAULT_LIMITS: {
+    customer: { capacity: 8, refillPerMinute: 4 },
+    account: { capacity: 30, refillPerMinute: 15 },
+  } as PlanRateLimits,
+  // Web chat visitors get a new session without cookies, so they are also limited by client IP
+  CLIENT_IP_LIMIT: { capacity: 15, refillPerMinute: 6 } as TokenBucketLimit,
+  // Plan lookups are cached to avoid a Firestore read per message
+  PLAN_CACHE_TTL_SECONDS: 5 * 60,
+  // The cooldown reply is sent once per customer within this window
+  COOLDOWN_NOTICE_TTL_SECONDS: 10 * 60,
+  // The owner is notified once per customer (or once per account) within this window
+  ABUSE_NOTICE_TTL_SECONDS: 60 * 60,
+} as const;
+
+export type RateLimitScope = 'customer' | 'client_ip' | 'account';
+
+export interface RateLimitResult {
+  allowed: boolean;
+  scope?: RateLimitScope; // Limit that rejected the message
+  retryAfterMs?: number;
+}
+
+const COOLDOWN_MESSAGES: Record<ConversationLanguage, string> = {
+  es: 'Recibí muchos mensajes seguidos 🙏 Dame unos minutos y te respondo.',
+  en: 'I received a lot of messages in a row 🙏 Give me a few minutes and I will get back to you.',
+  pt: 'Recebi muitas mensagens seguidas 🙏 Me dê alguns minutos e já te respondo.',
+};
+
+/**
+ * Takes a token from a bucket, refilling it by the time elapsed since the last message
+ * Returns [allowed (0/1), milliseconds until the next token]
+ */
+const TOKEN_BUCKET_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local refillPerMs = tonumber(ARGV[2])
+local now = tonumber(ARGV[3])
+local bucket = redis.call('HMGET', KEYS[1], 'tokens', 'ts')
+local tokens = tonumber(bucket[1]) or capacity
+local ts = tonumber(bucket[2]) or now
+tokens = math.min(capacity, tokens + math.max(0, now - ts) * refillPerMs)
+local allowed = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+  allowed = 1
+end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'ts', tostring(now))
+redis.call('PEXPIRE', KEYS[1], math.ceil(capacity / refillPerMs))
+local retryAfter = 0
+if allowed == 0 then
+  retryAfter = math.ceil((1 - tokens) / refillPerMs)
+end
+return { allowed, retryAfter }
+`;
+
+/**
+ * Gets the rate limits of the account plan
+ * Accounts without an active subscription get the free_trial limits
+ */
+export async function getPlanRateLimits(uid: string): Promise<PlanRateLimits> {
+  const cacheKey = `${RATE_LIMIT_CONFIG.KEY_PREFIX}plan:${uid}`;
+  const cachedPlanId = await cacheGet<string>(cacheKey).catch(() => null);
+
+  let planId = cachedPlanId;
+  if (!planId) {
+    const [subscription, isActive] = await Promise.all([
+      subscriptionsRepository.getSubscription(uid),
+      subscriptionsRepository.hasActiveSubscription(uid),
+    ]);
+    planId = isActive && subscription?.planId ? subscription.planId : 'free_trial';
+    await cacheSet(cacheKey, planId, { ttl: RATE_LIMIT_CONFIG.PLAN_CACHE_TTL_SECONDS }).catch(() => {});
+  }
+
+  const plan = PADDLE_PLANS[planId as PlanId];
+  return plan?.limits.rateLimit ?? RATE_LIMIT_CONFIG.DEFAULT_LIMITS;
+}
+
+async function takeToken(key: string, limit: TokenBucketLimit): Promise<{ allowed: boolean; retryAfterMs: number }> {
+  const [allowed, retryAfterMs] = await getRedisClient().eval(
+    TOKEN_BUCKET_SCRIPT,
+    1,
+    key,
+    limit.capacity,
+    limit.refillPerMinute / 60000,
+    Date.now()
+  ) as [number, number];
+
+  return { allowed: allowed === 1, retryAfterMs };
+}
+
+/**
+ * Counts an incoming customer message against the customer and account limits
+ * Fails open: if Redis is unavailable the message is accepted
+ * @param clientIp - Web chat requests are also limited per client IP
+ */
+export async function checkMessageRateLimit(uid: string, customerNumber: string, clientIp?: string): Promise<RateLimitResult> {
+  if (!RATE_LIMIT_CONFIG.ENABLED) {
+    return { allowed: true };
+  }
+
+  try {
+    const limits = await getPlanRateLimits(uid);
+
+    const customer = await takeToken(`${RATE_LIMIT_CONFIG.KEY_PREFIX}customer:${uid}:${customerNumber}`, limits.customer);
+    if (!customer.allowed) {
+      return { allowed: false, scope: 'customer', retryAfterMs: customer.retryAfterMs };
+    }
+
+    if (clientIp) {
+      const ip = await takeToken(`${RATE_LIMIT_CONFIG.KEY_PREFIX}ip:${uid}:${clientIp}`, RATE_LIMIT_CONFIG.CLIENT_IP_LIMIT);
+      if (!ip.allowed) {
+        return { allowed: false, scope: 'client_ip', retryAfterMs: ip.retryAfterMs };
+      }
+    }
+
+    const account = await takeToken(`${RATE_LIMIT_CONFIG.KEY_PREFIX}account:${uid}`, limits.account);
+    if (!account.allowed) {
+      return { allowed: false, scope: 'account', retryAfterMs: account.retryAfterMs };
+    }
+
+    return { allowed: true };
+  } catch (error) {
+    console.error('[RateLimiter] ❌ Error checking rate limit (message accepted):', error);
+    return { allowed: true };
+  }
+}
+
+/**
+ * Marks a notice as sent
+ * @returns false if the notice was already sent within the window
+ */
+async function claimNotice(key: string, ttlSeconds: number): Promise<boolean> {
+  const result = await getRedisClient().set(key, Date.now().toString(), 'EX', ttlSeconds, 'NX');
+  return result === 'OK';
+}
+
+/**
+ * Handles a message over the limit: cooldown reply to the customer and abuse notice to the owner
+ */
+export async function handleRateLimitExceeded(
+  webhookPayload: WhatsAppWebhookPayload,
+  customerNumber: string,
+  result: RateLimitResult
+): Promise<void> {
+  const uid = webhookPayload.metadata.uid as string;
+  console.log(`[RateLimiter] 🚫 ${result.scope} limit exceeded for ${customerNumber} (uid: ${uid}, retry in ${result.retryAfterMs}ms)`);
+
+  try {
+    const cooldownKey = `${RATE_LIMIT_CONFIG.KEY_PREFIX}cooldown:${uid}:${customerNumber}`;
+    if (await claimNotice(cooldownKey, RATE_LIMIT_CONFIG.COOLDOWN_NOTICE_TTL_SECONDS)) {
+      const language = await getCustomerLanguage(uid, customerNumber);
+      const channel = await getChannelForAccount(uid);
+      await channel.sendText({ session: webhookPayload.session, chatId: webhookPayload.payload.from }, COOLDOWN_MESSAGES[language]);
+    }
+
+    // Customer abuse is reported per customer, account floods once per account
+    const abuseKey = result.scope === 'customer'
+      ? `${RATE_LIMIT_CONFIG.KEY_PREFIX}abuse:${uid}:${customerNumber}`
+      : `${RATE_LIMIT_CONFIG.KEY_PREFIX}abuse:${uid}`;
+    if (await claimNotice(abuseKey, RATE_LIMIT_CONFIG.ABUSE_NOTICE_TTL_SECONDS)) {
+      await notifyOwnerOfAbuse(uid, customerNumber, webhookPayload.payload._data?.pushName, result.scope);
+    }
+  } catch (error) {
+    console.error('[RateLimiter] ❌ Error handling exceeded rate limit:', error);
+  }
+}
+
+/**
+ * Notifies the owner through the reports number
+ */
+async function notifyOwnerOfAbuse(
+  uid: string,
+  customerNumber: string,
+  customerName: string | undefined,
+  scope: RateLimitScope
+): Promise<void> {
+  const userConfig = await getUserConfig(uid);
+  const reportsNumber = userConfig?.config.reportsNumber;
+  if (!reportsNumber) {
+    console.log(`[RateLimiter] ⚠️ No reports number for ${uid}, abuse not notified`);
+    return;
+  }
+
+  const sender = customerName ? `${customerNumber} (${customerName})` : customerNumber;
+  const message = scope === 'customer'
+    ? `⚠️ El número ${sender} está enviando demasiados mensajes seguidos. El agente dejó de responderle por unos minutos.\n\nSi es spam, podés pausar el bot en ese chat con */bot off*.`
+    : `⚠️ Tu cuenta está recibiendo demasiados mensajes en poco tiempo (último: ${sender}). El agente no responderá mensajes nuevos por unos minutos para evitar abusos.`;
+
+  await getPlatformChannel().sendText({ chatId: reportsNumber, session: process.env.MULTIMAI_WS_SESSION }, message);
+  console.log(`[RateLimiter] 📨 Owner notified of ${scope} flood (${customerNumber})`);
+}
@@ -0,0 +1,129 @@
+/**
+ * Referral leads from shared WhatsApp contacts
+ * When a customer shares a contact card, the contact becomes a new lead attributed to the sender
+ */
+
+import { getChannelForAccount } from '../channels';
+import { createCustomer, getCustomerByPhone } from '../db/repositories/customers';
+import { saveConversationMessage } from '../db/repositories/conversations';
+import { createReferral, markReferralFirstContactSent } from '../db/repositories/referrals';
+import { getUserConfig } from '../db/repositories/users';
+import { AgentBusinessData, AgentConfigData, Referral } from '../db/types';
+import { formatChatId } from './message-helpers';
+import { canSendProactive } from './opt-out';
+import { SharedContact } from './vcard-helpers';
+
+/**
+ * Default first-contact message sent to referred contacts when enabled
+ * Placeholders: {nombre}, {referente}, {agente}, {negocio}
+ */
+export const DEFAULT_REFERRAL_FIRST_CONTACT_MESSAGE =
+  'Hola {nombre}! Soy {agente} de {negocio}. {referente} nos pasó tu contacto porque podrías estar buscando una propiedad. ¿Te puedo ayudar en algo?';
+
+/**
+ * Fills the placeholders of a first-contact template
+ */
+export function renderFirstContactMessage(
+  template: string,
+  values: { nombre: string; referente: string; agente: string; negocio: string }
+): string {
+  return template.replace(/\{(nombre|referente|agente|negocio)\}/g, (_, key: keyof typeof values) => values[key]);
+}
+
+/**
+ * Sends the configured first-contact message to a referred contact
+ * and stores it in their conversation so the agent has context when they reply
+ */
+async function sendFirstContact(
+  uid: string,
+  session: string,
+  contact: SharedContact,
+  referrerName: string,
+  config: AgentConfigData,
+  business: AgentBusinessData
+): Promise<void> {
+  if (!(await canSendProactive(uid, contact.phone, 'referral_first_contact'))) {
+    return;
+  }
+
+  const message = renderFirstContactMessage(
+    config.referrals?.firstContactMessage || DEFAULT_REFERRAL_FIRST_CONTACT_MESSAGE,
+    {
+      nombre: contact.name,
+      referente: referrerName,
+      agente: config.agentName,
+      negocio: business.businessName || 'la inmobiliaria',
+    }
+  );
+
+  const channel = await getChannelForAccount(uid);
+  await channel.sendText({ chatId: formatChatId(contact.phone), session }, message);
+
+  await saveConversationMessage(uid, contact.phone, 'assistant', message, undefined, undefined, contact.name);
+  await markReferralFirstContactSent(uid, contact.phone);
+
+  console.log(`[Referrals] 📨 First contact sent to ${contact.phone}`);
+}
+
+/**
+ * Registers the contacts shared by a customer as referral leads
+ * - New contacts are created as customers linked to the referrer (referredBy)
+ * - Contacts that were already customers are recorded but keep their original attribution
+ * Errors are logged and never block the reply to the referrer
+ */
+export async function processSharedContacts(
+  uid: string,
+  session: string,
+  referrerPhone: string,
+  referrerName: string | undefined,
+  contacts: SharedContact[]
+): Promise<Referral[]> {
+  const referrals: Referral[] = [];
+
+  try {
+    // Referrals are only counted on existing customers, make sure the sender has a document
+    const referrer = await getCustomerByPhone(uid, referrerPhone)
+      ?? await createCustomer(uid, referrerPhone, { name: referrerName || referrerPhone });
+    const name = referrer?.name || referrerName || referrerPhone;
+
+    const userConfig = await getUserConfig(uid);
+
+    for (const contact of contacts) {
+      if (contact.phone === referrerPhone) continue;
+
+      const existing = await getCustomerByPhone(uid, contact.phone);
+      if (!existing) {
+        await createCustomer(uid, contact.phone, {
+          name: contact.name,
+          referredBy: { phone: referrerPhone, name, referredAt: new Date() },
+        });
+      }
+
+      const result = await createReferral(uid, {
+        referrerPhone,
+        referrerName: name,
+        referredPhone: contact.phone,
+        referredName: contact.name,
+        status: existing ? 'existing_customer' : 'new_customer',
+      });
+
+      if (!result?.created) {
+        console.log(`[Referrals] ℹ️ ${contact.phone} was already referred, keeping original attribution`);
+        continue;
+      }
+
+      referrals.push(result.referral);
+      console.log(`[Referrals] 🤝 ${referrerPhone} referred ${contact.phone} (${result.referral.status})`);
+
+      // Only reach out to contacts who are not talking to the agent yet
+      if (!existing && userConfig?.config.referrals?.sendFirstContact) {
+        await sendFirstContact(uid, session, contact, name, userConfig.config, userConfig.business)
+          .catch((error) => console.error('[Referrals] ❌ Error sending first contact:', error?.message || error));
+      }
+    }
+  } catch (error) {
+    console.error('[Referrals] ❌ Error processing shared contacts:', error);
+  }
+
+  return referrals;
+}
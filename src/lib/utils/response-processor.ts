@@ -1,101 +1,261 @@
+import type { ChannelCapabilities } from "../channels/types";
+import { buildMapsUrl, parseCoordinates, safeDecodeURIComponent } from "./location-helpers";
+
+/**
+ * Configuration for response processing
+ */
+export const RESPONSE_PROCESSOR_CONFIG = {
+  // Hosts images can be sent from (subdomains included), comma separated in IMAGE_HOSTS_ALLOWLIST
+  IMAGE_HOSTS: (process.env.IMAGE_HOSTS_ALLOWLIST || "firebasestorage.googleapis.com,storage.googleapis.com")
+    .split(",")
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean),
+  // WhatsApp limits for interactive messages
+  MAX_BUTTONS: 3,
+  MAX_LIST_ROWS: 10,
+} as const;
+
+export interface MessageButton {
+  id: string;
+  text: string;
+}
+
+export interface MessageListRow {
+  id: string;
+  title: string;
+  description?: string;
+}
+
+/**
+ * Message sent to a channel
+ * - text: content
+ * - image / file: url, mimetype, filename, caption
+ * - buttons: content (body) + buttons (reply options)
+ * - list: content (body) + buttonText (opens the list) + rows
+ * - location: latitude, longitude, name, address
+ */
 export interface MessageItem {
-  type: "text" | "image";
+  type: "text" | "image" | "file" | "buttons" | "list" | "location";
   payload: {
     content?: string;
     mimetype?: string;
     filename?: string;
     url?: string;
     caption?: string;
+    buttons?: MessageButton[];
+    buttonText?: string;
+    rows?: MessageListRow[];
+    latitude?: number;
+    longitude?: number;
+    name?: string;
+    address?: string;
   };
 }
 
+/**
+ * Directives the writer uses for rich messages (one per line, arguments separated by |):
+ * - [[botones: texto | opción 1 | opción 2 | opción 3]]
+ * - [[lista: texto | texto del botón | título 1 ; descripción 1 | título 2 ; descripción 2]]
+ * - [[ubicacion: lat,lng o link de Google Maps | nombre | dirección]]
+ * - [[pdf: url | nombre del archivo | descripción]]
+ */
+const DIRECTIVE_REGEX = /\[\[\s*(botones|lista|ubicaci[oó]n|pdf)\s*:([\s\S]*?)\]\]/gi;
+
+const IMAGE_MARKDOWN_REGEX = /!\[([\s\S]*?)\]\((https:\/\/[^\s)]+)\)/g;
+
+function splitArgs(args: string): string[] {
+  return args.split("|").map((arg) => arg.trim()).filter(Boolean);
+}
+
+/**
+ * Checks if an image URL belongs to an allow-listed host
+ */
+export function isAllowedImageUrl(url: string): boolean {
+  try {
+    const { protocol, hostname } = new URL(url);
+    const host = hostname.toLowerCase();
+    return protocol === "https:" && RESPONSE_PROCESSOR_CONFIG.IMAGE_HOSTS.some(
+      (allowed) => host === allowed || host.endsWith(`.${allowed}`),
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Builds the message of a directive
+ * @returns null when the directive is malformed (its text is kept instead)
+ */
+function parseDirective(kind: string, rawArgs: string): MessageItem | null {
+  const args = splitArgs(rawArgs);
+
+  switch (kind.toLowerCase()) {
+    case "botones": {
+      const [content, ...options] = args;
+      if (!content || options.length === 0) return null;
+
+      // More options than WhatsApp allows as buttons are sent as a list
+      if (options.length > RESPONSE_PROCESSOR_CONFIG.MAX_BUTTONS) {
+        return parseDirective("lista", [content, "Ver opciones", ...options].join("|"));
+      }
+
+      return {
+        type: "buttons",
+        payload: {
+          content,
+          buttons: options.map((text, index) => ({ id: `option_${index + 1}`, text })),
+        },
+      };
+    }
+
+    case "lista": {
+      const [content, buttonText, ...items] = args;
+      if (!content || !buttonText || items.length === 0) return null;
+
+      return {
+        type: "list",
+        payload: {
+          content,
+          buttonText,
+          rows: items.slice(0, RESPONSE_PROCESSOR_CONFIG.MAX_LIST_ROWS).map((item, index) => {
+            const [title, ...description] = item.split(";").map((part) => part.trim());
+            return {
+              id: `row_${index + 1}`,
+              title,
+              description: description.join("; ") || undefined,
+            };
+          }),
+        },
+      };
+    }
+
+    case "ubicacion":
+    case "ubicación": {
+      const [place, name, address] = args;
+      const coordinates = parseCoordinates(place);
+      if (!coordinates) {
+        // Links without coordinates (e.g. short links) are sent as text
+        return place ? { type: "text", payload: { content: [name, address, place].filter(Boolean).join("\n") } } : null;
+      }
+
+      return {
+        type: "location",
+        payload: {
+          latitude: coordinates.lat,
+          longitude: coordinates.lng,
+          name,
+          address,
+        },
+      };
+    }
+
+    case "pdf": {
+      const [url, filename, caption] = args;
+      if (!url || !/^https:\/\//.test(url)) return null;
+
+      const name = filename || safeDecodeURIComponent(url.split("?")[0].split("/").pop() || "documento");
+
+      return {
+        type: "file",
+        payload: {
+          url,
+          mimetype: "application/pdf",
+          filename: /\.pdf$/i.test(name) ? name : `${name}.pdf`,
+          caption: caption || "",
+        },
+      };
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Splits a chunk into text parts and directive messages, keeping their order
+ */
+function splitDirectives(chunk: string): Array<string | MessageItem> {
+  const parts: Array<string | MessageItem> = [];
+  let lastIndex = 0;
+
+  for (const match of chunk.matchAll(DIRECTIVE_REGEX)) {
+    const index = match.index ?? 0;
+    parts.push(chunk.slice(lastIndex, index));
+    parts.push(parseDirective(match[1], match[2]) ?? match[2].trim());
+    lastIndex = index + match[0].length;
+  }
+  parts.push(chunk.slice(lastIndex));
+
+  return parts.filter((part) => typeof part !== "string" || part.trim());
+}
+
 export function processResponse(response: string): MessageItem[] {
   // Remove text between @@ (e.g., @@id_property: alskdmalsmd@@)
-  let cleanedResponse = response.replace(/@@[^@]*@@/g, "").trim();
+  // Directives are kept on a single line so they are not split into chunks
+  let cleanedResponse = response
+    .replace(/@@[^@]*@@/g, "")
+    .replace(DIRECTIVE_REGEX, (directive) => directive.replace(/\s*\n\s*/g, " "))
+    .trim();
 
   const messages: MessageItem[] = [];
   const chunks = cleanedResponse.split(/\n\n+/);
 
   for (const chunk of chunks) {
-    let cleanedChunk = chunk.trim().replace(/【.*?】/g, "");
+    const cleanedChunk = chunk.trim().replace(/【.*?】/g, "");
 
-    // Extract image links
-    // Updated regex to handle line breaks in alt text using [\s\S] instead of .
-    const imageLinks = cleanedChunk.match(
-      /!\[([\s\S]*?)\]\((https:\/\/firebasestorage\.googleapis\.com\/[^\s)]+)\)/g,
-    );
-    const imageData = imageLinks
-      ?.map((link) => {
-        const matches = link.match(
-          /!\[([\s\S]*?)\]\((https:\/\/firebasestorage\.googleapis\.com\/[^\s)]+)\)/,
-        );
-        return matches ? { description: matches[1].trim(), url: matches[2] } : null;
-      })
-      .filter(
-        (item): item is { description: string; url: string } => item !== null,
-      );
-
-    // Clean up text and remove image links
-    // Updated regex to handle line breaks in alt text
-    cleanedChunk = cleanedChunk.replace(
-      /!\[[\s\S]*?\]\(https:\/\/firebasestorage\.googleapis\.com\/[^\s)]+\)/g,
-      "",
-    );
+    for (const part of splitDirectives(cleanedChunk)) {
+      if (typeof part === "string") {
+        messages.push(...processTextChunk(part.trim()));
+      } else {
+        messages.push(part);
+      }
+    }
+  }
 
-    // Replace [text](URL) with just URL for non-image links
-    cleanedChunk = cleanedChunk.replace(/\[.*?\]\((https?:\/\/.*?)\)/g, "$1");
+  return messages;
+}
 
-    // Replace ** with `
-    cleanedChunk = cleanedChunk.replace(/\*\*/g, "`");
+/**
+ * Turns a chunk of text into text and image messages
+ */
+function processTextChunk(chunk: string): MessageItem[] {
+  const messages: MessageItem[] = [];
+  let cleanedChunk = chunk;
 
-    // Handle ### special text
-    const specialTextMatch = cleanedChunk.match(/###(.*?)\n/);
-    if (specialTextMatch) {
-      const specialText = specialTextMatch[1].trim();
-      cleanedChunk = cleanedChunk.replace(
-        specialTextMatch[0],
-        `*${specialText}*\n`,
-      );
-    }
+  // Extract image links from allow-listed hosts
+  // [\s\S] handles line breaks in alt text
+  const imageData = Array.from(cleanedChunk.matchAll(IMAGE_MARKDOWN_REGEX))
+    .filter((match) => isAllowedImageUrl(match[2]))
+    .map((match) => ({ description: match[1].trim(), url: match[2] }));
 
-    if (imageData && imageData.length > 0) {
-      if (imageData.length > 1) {
-        for (const data of imageData) {
-          let link = data.url;
-          if (String(link).endsWith(".")) {
-            link = link.substring(0, link.length - 1);
-          }
-
-          messages.push({
-            type: "image",
-            payload: {
-              mimetype: "image/jpeg",
-              filename: data.description || "image.jpg",
-              url: link,
-              caption: data.description || "",
-            },
-          });
-        }
+  // Clean up text: remove allowed image links, other images are kept as plain links
+  cleanedChunk = cleanedChunk.replace(IMAGE_MARKDOWN_REGEX, (_link, _description, url: string) =>
+    isAllowedImageUrl(url) ? "" : url,
+  );
 
-        if (cleanedChunk.trim()) {
-          messages.push({
-            type: "text",
-            payload: {
-              content: cleanedChunk.trim(),
-            },
-          });
-        }
-      } else {
-        const data = imageData[0];
+  // Replace [text](URL) with just URL for non-image links
+  cleanedChunk = cleanedChunk.replace(/\[.*?\]\((https?:\/\/.*?)\)/g, "$1");
+
+  // Replace ** with `
+  cleanedChunk = cleanedChunk.replace(/\*\*/g, "`");
+
+  // Handle ### special text
+  const specialTextMatch = cleanedChunk.match(/###(.*?)\n/);
+  if (specialTextMatch) {
+    const specialText = specialTextMatch[1].trim();
+    cleanedChunk = cleanedChunk.replace(
+      specialTextMatch[0],
+      `*${specialText}*\n`,
+    );
+  }
+
+  if (imageData && imageData.length > 0) {
+    if (imageData.length > 1) {
+      for (const data of imageData) {
         let link = data.url;
         if (String(link).endsWith(".")) {
           link = link.substring(0, link.length - 1);
         }
-        if (cleanedChunk.includes(`!${link}`)) {
-          cleanedChunk = cleanedChunk.replace(`!${link}`, "");
-        } else {
-          cleanedChunk = cleanedChunk.replace(link, "");
-        }
 
         messages.push({
           type: "image",
@@ -107,7 +267,7 @@ export function processResponse(response: string): MessageItem[] {
           },
         });
       }
-    } else {
+
       if (cleanedChunk.trim()) {
         messages.push({
           type: "text",
@@ -116,14 +276,99 @@ export function processResponse(response: string): MessageItem[] {
           },
         });
       }
+    } else {
+      const data = imageData[0];
+      let link = data.url;
+      if (String(link).endsWith(".")) {
+        link = link.substring(0, link.length - 1);
+      }
+      if (cleanedChunk.includes(`!${link}`)) {
+        cleanedChunk = cleanedChunk.replace(`!${link}`, "");
+      } else {
+        cleanedChunk = cleanedChunk.replace(link, "");
+      }
+
+      messages.push({
+        type: "image",
+        payload: {
+          mimetype: "image/jpeg",
+          filename: data.description || "image.jpg",
+          url: link,
+          caption: data.description || "",
+        },
+      });
+    }
+  } else {
+    if (cleanedChunk.trim()) {
+      messages.push({
+        type: "text",
+        payload: {
+          content: cleanedChunk.trim(),
+        },
+      });
     }
   }
 
   return messages;
 }
 
+/**
+ * Plain text version of a rich message, for channels that cannot deliver it
+ */
+function toTextMessage(message: MessageItem): MessageItem {
+  const { payload } = message;
+  let content: string;
+
+  switch (message.type) {
+    case "buttons":
+      content = [
+        payload.content,
+        (payload.buttons || []).map((button, index) => `${index + 1}. ${button.text}`).join("\n"),
+      ].filter(Boolean).join("\n\n");
+      break;
+    case "list":
+      content = [
+        payload.content,
+        (payload.rows || [])
+          .map((row, index) => `${index + 1}. *${row.title}*${row.description ? ` - ${row.description}` : ""}`)
+          .join("\n"),
+      ].filter(Boolean).join("\n\n");
+      break;
+    case "location":
+      content = [
+        payload.name && `📍 *${payload.name}*`,
+        payload.address,
+        buildMapsUrl(payload.latitude as number, payload.longitude as number),
+      ].filter(Boolean).join("\n");
+      break;
+    case "file":
+      content = [payload.caption, payload.url].filter(Boolean).join("\n");
+      break;
+    default:
+      return message;
+  }
+
+  return { type: "text", payload: { content } };
+}
 
-export function processSingleTextMessage(message: string) {
+/**
+ * Degrades the messages a channel does not support to plain text
+ */
+export function adaptMessagesToChannel(messages: MessageItem[], capabilities: ChannelCapabilities): MessageItem[] {
+  return messages.map((message) => {
+    const supported =
+      (message.type === "buttons" && capabilities.buttons) ||
+      (message.type === "list" && capabilities.lists) ||
+      (message.type === "location" && capabilities.location) ||
+      (message.type === "file" && capabilities.documents) ||
+      message.type === "text" ||
+      message.type === "image";
+
+    return supported ? message : toTextMessage(message);
+  });
+}
+
+export function processSingleTextMessage(message: string): MessageItem[] {
   return [
     {
       type: "text",
@@ -132,4 +377,50 @@ export function processSingleTextMessage(message: string) {
       },
     }
   ]
-}
\ No newline at end of file
+}
+// Internal markers processResponse removes from the text (property ids, rich message directives, citations)
+const STREAM_MARKERS: Array<[open: string, close: string]> = [["@@", "@@"], ["[[", "]]"], ["【", "】"]];
+
+/**
+ * Filters the streamed draft of a response before it reaches a client
+ * Markers are removed once closed, and a partial marker at the end of the buffer is held back,
+ * so internal ids and directives never leak token by token
+ */
+export function createStreamFilter(onText: (text: string) => void): { push: (delta: string) => void } {
+  let buffer = "";
+
+  return {
+    push(delta: string) {
+      buffer += delta;
+      let output = "";
+
+      while (buffer) {
+        const opening = STREAM_MARKERS
+          .map(([open, close]) => ({ index: buffer.indexOf(open), open, close }))
+          .filter((marker) => marker.index >= 0)
+          .sort((a, b) => a.index - b.index)[0];
+
+        if (!opening) {
+          // Hold back a last character that may start a marker ("@" or "[")
+          const holdBack = STREAM_MARKERS.some(([open]) => open.length > 1 && buffer.endsWith(open[0])) ? 1 : 0;
+          output += buffer.slice(0, buffer.length - holdBack);
+          buffer = buffer.slice(buffer.length - holdBack);
+          break;
+        }
+
+        output += buffer.slice(0, opening.index);
+        const closeIndex = buffer.indexOf(opening.close, opening.index + opening.open.length);
+        if (closeIndex < 0) {
+          // Unclosed marker: wait for more tokens (an unclosed marker is never sent)
+          buffer = buffer.slice(opening.index);
+          break;
+        }
+        buffer = buffer.slice(closeIndex + opening.close.length);
+      }
+
+      if (output) {
+        onText(output);
+      }
+    },
+  };
+}
@@ -27,6 +27,8 @@ export interface SearchPropertiesParams {
   tipo_propiedad?: string;
   ambientes?: number;
   otro?: string;
+  // Coordenadas de origen "lat,lng" (pin compartido por el usuario). Si existe, no se geocodifica la ubicación
+  origen?: string;
 }
 
 function modificarPorcentaje(num: number, porcentaje: number) {
@@ -76,6 +78,22 @@ async function geocodificarDireccion(direccion: string) {
   }
 }
 
+/**
+ * Obtiene las coordenadas de origen para calcular distancias
+ * Prioriza el pin compartido por el usuario sobre la geocodificación de la ubicación
+ */
+async function resolverOrigen(criterios: SearchPropertiesParams): Promise<{ lat: number; lng: number } | null> {
+  if (criterios.origen) {
+    console.log('Usando ubicación compartida como origen:', criterios.origen);
+    const [lat, lng] = criterios.origen.split(',').map(Number);
+    return { lat, lng };
+  }
+  if (criterios.ubicacion) {
+    return geocodificarDireccion(criterios.ubicacion);
+  }
+  return null;
+}
+
 const R = 6371; // Radio de la Tierra en kilómetros
 
 function calcularDistancia(lat1: number, lon1: number, lat2: number, lon2: number) {
@@ -254,7 +272,7 @@ function calculateHybridScore(
   reasons.push(`Similitud semántica: ${(ragSimilarity * 100).toFixed(1)}%`);
 
   // 2. PROXIMITY SCORE (30 points max)
-  if (criterios.ubicacion) {
+  if (criterios.ubicacion || criterios.origen) {
     // Text match bonus
     if (locationTextMatch) {
       score += 15;
@@ -479,12 +497,12 @@ export async function queryProperties(uid: string, criterios: SearchPropertiesPa
       }
     }
 
-    // Geocodificar ubicación si existe
+    // Geocodificar ubicación (o usar el pin compartido) si existe
     let ubicacionCoordenadas: { lat: number; lng: number } | null = null;
     const distancias = new Map<string, number>();
 
-    if (criterios.ubicacion) {
-      ubicacionCoordenadas = await geocodificarDireccion(criterios.ubicacion);
+    if (criterios.ubicacion || criterios.origen) {
+      ubicacionCoordenadas = await resolverOrigen(criterios);
 
       if (ubicacionCoordenadas) {
         filteredProperties.forEach((prop: any) => {
@@ -637,12 +655,12 @@ export async function queryPropertiesRAG(
       };
     }
 
-    // STEP 4: Geocode location if provided for proximity calculation
+    // STEP 4: Resolve origin (shared pin or geocoded location) for proximity calculation
     let ubicacionCoordenadas: { lat: number; lng: number } | null = null;
     const distancias = new Map<string, number>();
 
-    if (criterios.ubicacion) {
-      ubicacionCoordenadas = await geocodificarDireccion(criterios.ubicacion);
+    if (criterios.ubicacion || criterios.origen) {
+      ubicacionCoordenadas = await resolverOrigen(criterios);
 
       if (ubicacionCoordenadas) {
         filteredProperties.forEach((prop: any) => {
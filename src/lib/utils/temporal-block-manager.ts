@@ -2,8 +2,13 @@
  * Temporal Block Manager
  * Manages temporary blocks for user conversations to prevent bot interference
  * when human agents are handling conversations
+ *
+ * Blocks are stored in Redis (with TTL for timed blocks) so they survive restarts
+ * and are shared between API replicas
  */
 
+import { getRedisClient } from '../cache/redis-client';
+
 /**
  * Configuration for temporal blocks
  */
@@ -12,84 +17,165 @@ export const TEMPORAL_BLOCK_CONFIG = {
   HUMAN_INTERVENTION_DURATION: 2 * 60 * 1000, // 2 minutes
   // Indefinite block value
   INDEFINITE_BLOCK: -1,
+  // Redis key prefix: temporal-block:{uid}:{session}:{customerNumber}
+  KEY_PREFIX: 'temporal-block:',
 } as const;
 
+/**
+ * Why a conversation is blocked
+ * - human_intervention: the owner wrote to the customer (short, refreshed on activity)
+ * - owner_command: the owner sent /bot off or /bot <duration>
+ */
+export type TemporalBlockReason = 'human_intervention' | 'owner_command';
+
+/**
+ * Conversation a block applies to
+ */
+export interface BlockTarget {
+  uid: string;
+  session: string;
+  customerNumber: string;
+}
+
+export interface TemporalBlock extends BlockTarget {
+  reason: TemporalBlockReason;
+  indefinite: boolean;
+  expiresAt: number | null; // Epoch ms, null for indefinite blocks
+  createdAt: number;
+}
+
+function buildBlockKey(target: BlockTarget): string {
+  return `${TEMPORAL_BLOCK_CONFIG.KEY_PREFIX}${target.uid}:${buildConversationKey(target.session, target.customerNumber)}`;
+}
+
 /**
  * State management for temporal blocks
  */
 class TemporalBlockManager {
-  private timers: Map<string, NodeJS.Timeout | boolean> = new Map();
-
   /**
-   * Sets a temporal block for a conversation key
-   * @param key - Conversation key (e.g., "session:phone")
+   * Sets a temporal block for a conversation
+   * @param target - Conversation to block
    * @param durationMs - Duration in milliseconds, or negative for indefinite
+   * @param reason - Why the conversation is blocked
    */
-  setBlock(key: string, durationMs: number): void {
-    // Clear existing timer if present
-    const currentTimer = this.timers.get(key);
-    if (currentTimer && typeof currentTimer !== 'boolean') {
-      clearTimeout(currentTimer);
-    }
+  async setBlock(
+    target: BlockTarget,
+    durationMs: number,
+    reason: TemporalBlockReason = 'human_intervention'
+  ): Promise<TemporalBlock> {
+    const key = buildBlockKey(target);
+    const indefinite = durationMs < 0;
+    const now = Date.now();
 
-    // Set indefinite block
-    if (durationMs < 0) {
-      this.timers.set(key, true);
-      console.log(`[TemporalBlock] Indefinite block set for: ${key}`);
-      return;
+    const block: TemporalBlock = {
+      uid: target.uid,
+      session: target.session,
+      customerNumber: target.customerNumber,
+      reason,
+      indefinite,
+      expiresAt: indefinite ? null : now + durationMs,
+      createdAt: now,
+    };
+
+    try {
+      const redis = getRedisClient();
+      if (indefinite) {
+        await redis.set(key, JSON.stringify(block));
+        console.log(`[TemporalBlock] Indefinite block set for: ${key}`);
+      } else {
+        await redis.set(key, JSON.stringify(block), 'PX', durationMs);
+        console.log(`[TemporalBlock] Block set for ${durationMs}ms: ${key}`);
+      }
+    } catch (error) {
+      console.error(`[TemporalBlock] Error setting block for ${key}:`, error);
     }
 
-    // Set timed block
-    const timer = setTimeout(() => {
-      this.timers.delete(key);
-      console.log(`[TemporalBlock] Block expired for: ${key}`);
-    }, durationMs);
+    return block;
+  }
 
-    this.timers.set(key, timer);
-    console.log(`[TemporalBlock] Block set for ${durationMs}ms: ${key}`);
+  /**
+   * Gets the active block of a conversation
+   * @returns The block, or null if the conversation is not blocked (or Redis is unavailable)
+   */
+  async getBlock(target: BlockTarget): Promise<TemporalBlock | null> {
+    try {
+      const raw = await getRedisClient().get(buildBlockKey(target));
+      return raw ? JSON.parse(raw) as TemporalBlock : null;
+    } catch (error) {
+      console.error('[TemporalBlock] Error reading block:', error);
+      return null;
+    }
   }
 
   /**
    * Checks if a conversation is currently blocked
-   * @param key - Conversation key to check
+   * @param target - Conversation to check
    * @returns true if blocked, false otherwise
    */
-  isBlocked(key: string): boolean {
-    return this.timers.has(key);
+  async isBlocked(target: BlockTarget): Promise<boolean> {
+    return (await this.getBlock(target)) !== null;
   }
 
   /**
    * Manually removes a block
-   * @param key - Conversation key to unblock
+   * @param target - Conversation to unblock
+   * @returns true if a block was removed
    */
-  removeBlock(key: string): void {
-    const timer = this.timers.get(key);
-    if (timer && typeof timer !== 'boolean') {
-      clearTimeout(timer);
+  async removeBlock(target: BlockTarget): Promise<boolean> {
+    const key = buildBlockKey(target);
+    try {
+      const removed = await getRedisClient().del(key);
+      console.log(`[TemporalBlock] Block removed for: ${key}`);
+      return removed > 0;
+    } catch (error) {
+      console.error(`[TemporalBlock] Error removing block for ${key}:`, error);
+      return false;
     }
-    this.timers.delete(key);
-    console.log(`[TemporalBlock] Block removed for: ${key}`);
   }
 
   /**
-   * Gets all currently blocked conversation keys
-   * @returns Array of blocked keys
+   * Gets all currently active blocks of an account
    */
-  getBlockedKeys(): string[] {
-    return Array.from(this.timers.keys());
+  async getBlocks(uid: string): Promise<TemporalBlock[]> {
+    const keys = await this.scanKeys(uid);
+    if (keys.length === 0) {
+      return [];
+    }
+
+    const values = await getRedisClient().mget(keys);
+    return values
+      .filter((value): value is string => Boolean(value))
+      .map((value) => JSON.parse(value) as TemporalBlock);
   }
 
   /**
-   * Clears all blocks
+   * Clears all blocks of an account
+   * @returns Number of blocks removed
    */
-  clearAllBlocks(): void {
-    for (const [key, timer] of this.timers.entries()) {
-      if (timer && typeof timer !== 'boolean') {
-        clearTimeout(timer);
-      }
+  async clearBlocks(uid: string): Promise<number> {
+    const keys = await this.scanKeys(uid);
+    if (keys.length === 0) {
+      return 0;
     }
-    this.timers.clear();
-    console.log('[TemporalBlock] All blocks cleared');
+
+    const removed = await getRedisClient().del(...keys);
+    console.log(`[TemporalBlock] ${removed} block(s) cleared for uid: ${uid}`);
+    return removed;
+  }
+
+  private async scanKeys(uid: string): Promise<string[]> {
+    const redis = getRedisClient();
+    const pattern = `${TEMPORAL_BLOCK_CONFIG.KEY_PREFIX}${uid}:*`;
+    const keys: string[] = [];
+    let cursor = '0';
+
+    do {
+      const [nextCursor, batch] = await redis.scan(cursor, 'MATCH', pattern, 'COUNT', 100);
+      cursor = nextCursor;
+      keys.push(...batch);
+    } while (cursor !== '0');
+
+    return keys;
   }
 }
 
@@ -3,23 +3,22 @@
  * Centralizes typing indicator management to avoid duplication
  */
 
-import { wsProxyClient } from '../other/wsProxyClient';
+import { getPlatformChannel, MessagingChannel } from '../channels';
 
 /**
  * Starts typing indicator in a WhatsApp chat
  * @param session - Session ID
  * @param chatId - Chat ID (format: phone@c.us)
+ * @param channel - Channel of the chat (defaults to the platform channel)
  * @returns Promise that resolves when indicator starts
  */
 export async function startTypingIndicator(
   session: string,
-  chatId: string
+  chatId: string,
+  channel: MessagingChannel = getPlatformChannel()
 ): Promise<void> {
   try {
-    await wsProxyClient.post(`/ws/start-typing`, {
-      session,
-      chatId,
-    });
+    await channel.startTyping({ session, chatId });
   } catch (error) {
     console.error('[TypingIndicator] ⚠️ Error starting typing indicator:', error);
     // Don't throw - typing indicator is not critical
@@ -30,17 +29,16 @@ export async function startTypingIndicator(
  * Stops typing indicator in a WhatsApp chat
  * @param session - Session ID
  * @param chatId - Chat ID (format: phone@c.us)
+ * @param channel - Channel of the chat (defaults to the platform channel)
  * @returns Promise that resolves when indicator stops
  */
 export async function stopTypingIndicator(
   session: string,
-  chatId: string
+  chatId: string,
+  channel: MessagingChannel = getPlatformChannel()
 ): Promise<void> {
   try {
-    await wsProxyClient.post(`/ws/stop-typing`, {
-      session,
-      chatId,
-    });
+    await channel.stopTyping({ session, chatId });
   } catch (error) {
     console.error('[TypingIndicator] ⚠️ Error stopping typing indicator:', error);
     // Don't throw - typing indicator is not critical
@@ -53,18 +51,20 @@ export async function stopTypingIndicator(
  * @param session - Session ID
  * @param chatId - Chat ID
  * @param fn - Async function to execute
+ * @param channel - Channel of the chat (defaults to the platform channel)
  * @returns Result of the function
  */
 export async function withTypingIndicator<T>(
   session: string,
   chatId: string,
-  fn: () => Promise<T>
+  fn: () => Promise<T>,
+  channel: MessagingChannel = getPlatformChannel()
 ): Promise<T> {
-  await startTypingIndicator(session, chatId);
+  await startTypingIndicator(session, chatId, channel);
 
   try {
     return await fn();
   } finally {
-    await stopTypingIndicator(session, chatId);
+    await stopTypingIndicator(session, chatId, channel);
   }
 }
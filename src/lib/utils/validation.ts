@@ -1,4 +1,6 @@
 import { getUserConfig } from '../db/repositories/users';
+import type { MessageTranscription } from '../transcription/types';
+import type { MessageLocation } from '../db/types';
 
 export interface ChatConfig {
   userPhone: string;
@@ -8,6 +10,9 @@ export interface ChatConfig {
     body: string;
     timestamp: number;
     replyTo?: string | null;
+    replyToId?: string | null; // WhatsApp id of the quoted message
+    transcription?: MessageTranscription | null; // Set when the message was a transcribed voice note
+    location?: MessageLocation | null; // Set when the message was a shared location pin
   }>;
   assistantMessage?: string;
   senderName?: string;
@@ -0,0 +1,113 @@
+/**
+ * vCard utilities for WhatsApp shared contacts
+ * Parses WAHA vCards into name/phone pairs and turns them into text the agent can read
+ */
+
+import type { WhatsAppWebhookPayload } from '../../entities/ws/ws.dto';
+
+export interface SharedContact {
+  name: string;
+  phone: string; // Digits only, same format used as customer ID
+}
+
+/**
+ * Unfolds vCard continuation lines (RFC 6350: lines starting with a space or tab)
+ */
+function unfoldVCard(vcard: string): string[] {
+  return vcard
+    .replace(/\r\n/g, '\n')
+    .replace(/\n[ \t]/g, '')
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Parses a single vCard string
+ * WhatsApp adds a waid parameter to TEL lines with the WhatsApp number, preferred over the display number
+ * @returns Contact, or null if the vCard has no phone number
+ */
+export function parseVCard(vcard: string): SharedContact | null {
+  let name = '';
+  let phone = '';
+
+  for (const line of unfoldVCard(vcard)) {
+    const separatorIndex = line.indexOf(':');
+    if (separatorIndex === -1) continue;
+
+    const key = line.substring(0, separatorIndex).toUpperCase();
+    const value = line.substring(separatorIndex + 1).trim();
+
+    if (key === 'FN' && value) {
+      name = value;
+    } else if (key.startsWith('N') && !key.startsWith('NOTE') && !name && value) {
+      name = value.split(';').filter(Boolean).reverse().join(' ');
+    } else if (key.startsWith('TEL') && !phone) {
+      const waid = key.match(/WAID=(\d+)/);
+      phone = waid ? waid[1] : value.replace(/\D/g, '');
+    }
+  }
+
+  if (!phone || phone.length < 8) {
+    return null;
+  }
+
+  return { name: name || phone, phone };
+}
+
+/**
+ * Parses the vCards of a webhook payload, skipping invalid ones and duplicates
+ */
+export function parseWebhookContacts(vCards: unknown[] | null | undefined): SharedContact[] {
+  if (!Array.isArray(vCards) || vCards.length === 0) {
+    return [];
+  }
+
+  const contacts = new Map<string, SharedContact>();
+
+  for (const card of vCards) {
+    // Some engines send { vcard: string } objects instead of raw strings
+    const raw = typeof card === 'string' ? card : (card as { vcard?: string } | null)?.vcard;
+    if (!raw) continue;
+
+    const contact = parseVCard(raw);
+    if (contact && !contacts.has(contact.phone)) {
+      contacts.set(contact.phone, contact);
+    }
+  }
+
+  return Array.from(contacts.values());
+}
+
+/**
+ * Formats shared contacts as a user message for the conversation history
+ */
+export function formatContactsMessage(contacts: SharedContact[]): string {
+  const list = contacts.map((c) => `${c.name} (+${c.phone})`).join(', ');
+  return contacts.length === 1
+    ? `[El usuario compartió el contacto de ${list}]`
+    : `[El usuario compartió los contactos de ${list}]`;
+}
+
+/**
+ * Replaces the body of a contact-card webhook payload with a readable description
+ * Returns the payload unchanged when it carries no valid vCards
+ */
+export function prepareContactsMessage(webhookPayload: WhatsAppWebhookPayload): WhatsAppWebhookPayload {
+  const contacts = parseWebhookContacts(webhookPayload.payload.vCards);
+  if (contacts.length === 0) {
+    return webhookPayload;
+  }
+
+  const description = formatContactsMessage(contacts);
+  const caption = webhookPayload.payload.body?.trim();
+
+  return {
+    ...webhookPayload,
+    payload: {
+      ...webhookPayload.payload,
+      // vCard messages usually carry the raw card in the body; keep only real captions
+      body: caption && !caption.startsWith('BEGIN:VCARD') ? `${description} ${caption}` : description,
+    },
+  };
+}
@@ -0,0 +1,179 @@
+/**
+ * Webhook security utilities
+ * - HMAC signatures compatible with WAHA (X-Webhook-Hmac / X-Webhook-Hmac-Algorithm)
+ * - Timestamp window check against replayed deliveries
+ * - Redis-backed dedupe so retried deliveries are processed only once
+ * - Shared internal key for deliveries that can't be signed when sent (queued reminder jobs)
+ */
+
+import crypto from 'crypto';
+import { getRedisClient } from '../cache/redis-client';
+
+export const WEBHOOK_HEADERS = {
+  HMAC: 'x-webhook-hmac',
+  HMAC_ALGORITHM: 'x-webhook-hmac-algorithm',
+  TIMESTAMP: 'x-webhook-timestamp',
+  INTERNAL_KEY: 'x-internal-key',
+} as const;
+
+/**
+ * Configuration for webhook verification
+ */
+export const WEBHOOK_SECURITY_CONFIG = {
+  // Verification is skipped in development (same as verifyToken) unless forced
+  ENABLED: process.env.WEBHOOK_VERIFICATION_ENABLED
+    ? process.env.WEBHOOK_VERIFICATION_ENABLED === 'true'
+    : process.env.NODE_ENV !== 'development',
+  // WAHA signs with sha512 by default
+  DEFAULT_ALGORITHM: 'sha512',
+  SUPPORTED_ALGORITHMS: ['sha512', 'sha256'] as readonly string[],
+  // Max clock difference between the sender and us
+  TIMESTAMP_TOLERANCE_MS: parseInt(process.env.WEBHOOK_TIMESTAMP_TOLERANCE_MS || '300000'), // 5 minutes
+  // How long a processed delivery id is remembered
+  DEDUPE_TTL_SECONDS: parseInt(process.env.WEBHOOK_DEDUPE_TTL_SECONDS || '86400'), // 24 hours
+  DEDUPE_KEY_PREFIX: 'webhook:dedupe:',
+  // Queued jobs are delivered (and retried) long after they are enqueued, past the timestamp window,
+  // so they authenticate /ws/activate-agent with this key instead of a signature
+  INTERNAL_API_KEY: process.env.ACTIVATE_AGENT_API_KEY || '',
+} as const;
+
+let sessionSecrets: Record<string, string> | null = null;
+
+/**
+ * Loads per-session secrets from WEBHOOK_HMAC_SECRETS (JSON object: { [session]: secret })
+ */
+function loadSessionSecrets(): Record<string, string> {
+  if (sessionSecrets) {
+    return sessionSecrets;
+  }
+
+  try {
+    sessionSecrets = JSON.parse(process.env.WEBHOOK_HMAC_SECRETS || '{}');
+  } catch (error) {
+    console.error('[WebhookSecurity] ❌ WEBHOOK_HMAC_SECRETS is not valid JSON, ignoring it');
+    sessionSecrets = {};
+  }
+
+  return sessionSecrets!;
+}
+
+/**
+ * Gets the HMAC secret of a WhatsApp session
+ * Falls back to WEBHOOK_HMAC_SECRET when the session has no dedicated secret
+ */
+export function getWebhookSecret(session: string | undefined): string | null {
+  const secrets = loadSessionSecrets();
+  if (session && secrets[session]) {
+    return secrets[session];
+  }
+  return process.env.WEBHOOK_HMAC_SECRET || null;
+}
+
+/**
+ * Computes the hex HMAC of a raw request body
+ */
+export function computeWebhookHmac(
+  rawBody: string,
+  secret: string,
+  algorithm: string = WEBHOOK_SECURITY_CONFIG.DEFAULT_ALGORITHM
+): string {
+  return crypto.createHmac(algorithm, secret).update(rawBody).digest('hex');
+}
+
+/**
+ * Compares an HMAC against the expected one in constant time
+ */
+export function isValidWebhookHmac(rawBody: string, secret: string, signature: string, algorithm: string): boolean {
+  const expected = Buffer.from(computeWebhookHmac(rawBody, secret, algorithm), 'hex');
+  const received = Buffer.from(signature.trim().toLowerCase(), 'hex');
+
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+}
+
+/**
+ * Checks that a timestamp (ms or seconds since epoch) is within the allowed window
+ */
+export function isWithinTimestampWindow(timestamp: number, now: number = Date.now()): boolean {
+  if (!Number.isFinite(timestamp) || timestamp <= 0) {
+    return false;
+  }
+
+  // WAHA sends milliseconds, some senders use seconds
+  const timestampMs = timestamp < 1e12 ? timestamp * 1000 : timestamp;
+  return Math.abs(now - timestampMs) <= WEBHOOK_SECURITY_CONFIG.TIMESTAMP_TOLERANCE_MS;
+}
+
+/**
+ * Builds the signature headers for a request body sent to our own webhook endpoints
+ * (e.g. /ws/activate-agent called by reminders and owner responses)
+ * The body must be sent exactly as serialized here
+ */
+export function signWebhookBody(body: string, session: string | undefined): Record<string, string> {
+  const secret = getWebhookSecret(session);
+  if (!secret) {
+    return {};
+  }
+
+  const algorithm = WEBHOOK_SECURITY_CONFIG.DEFAULT_ALGORITHM;
+  return {
+    'X-Webhook-Hmac': computeWebhookHmac(body, secret, algorithm),
+    'X-Webhook-Hmac-Algorithm': algorithm,
+    'X-Webhook-Timestamp': Date.now().toString(),
+  };
+}
+
+/**
+ * Headers for internal requests delivered later by the jobs service (see INTERNAL_API_KEY)
+ */
+export function getInternalRequestHeaders(): Record<string, string> {
+  if (!WEBHOOK_SECURITY_CONFIG.INTERNAL_API_KEY) {
+    return {};
+  }
+  return { 'X-Internal-Key': WEBHOOK_SECURITY_CONFIG.INTERNAL_API_KEY };
+}
+
+/**
+ * Compares an internal key against ACTIVATE_AGENT_API_KEY in constant time
+ */
+export function isValidInternalKey(key: string | undefined): boolean {
+  const expected = WEBHOOK_SECURITY_CONFIG.INTERNAL_API_KEY;
+  if (!expected || !key) {
+    return false;
+  }
+
+  const expectedBuffer = Buffer.from(expected);
+  const receivedBuffer = Buffer.from(key);
+  return expectedBuffer.length === receivedBuffer.length && crypto.timingSafeEqual(expectedBuffer, receivedBuffer);
+}
+
+/**
+ * Marks a delivery id as processed
+ * @returns false if it was already processed (duplicate delivery)
+ * Fails open when Redis is unavailable so messages are never dropped
+ */
+export async function claimWebhookDelivery(deliveryId: string): Promise<boolean> {
+  try {
+    const result = await getRedisClient().set(
+      `${WEBHOOK_SECURITY_CONFIG.DEDUPE_KEY_PREFIX}${deliveryId}`,
+      Date.now().toString(),
+      'EX',
+      WEBHOOK_SECURITY_CONFIG.DEDUPE_TTL_SECONDS,
+      'NX'
+    );
+    return result === 'OK';
+  } catch (error: any) {
+    console.error('[WebhookSecurity] ⚠️ Dedupe unavailable, processing delivery:', error?.message || error);
+    return true;
+  }
+}
+
+/**
+ * Releases a delivery id so a retry can be processed (used when processing failed)
+ */
+export async function releaseWebhookDelivery(deliveryId: string): Promise<void> {
+  try {
+    await getRedisClient().del(`${WEBHOOK_SECURITY_CONFIG.DEDUPE_KEY_PREFIX}${deliveryId}`);
+  } catch (error: any) {
+    console.error('[WebhookSecurity] ⚠️ Error releasing delivery:', error?.message || error);
+  }
+}
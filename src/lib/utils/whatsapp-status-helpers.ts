@@ -3,19 +3,19 @@
  * Utilities for managing WhatsApp message status indicators
  */
 
-import { wsProxyClient } from '../other/wsProxyClient';
+import { getPlatformChannel, MessagingChannel } from '../channels';
 import { WhatsAppWebhookPayload } from '../../entities/ws/ws.dto';
 
 /**
  * Mark a message as seen/read
  */
-export async function sendSeen(webhookPayload: WhatsAppWebhookPayload): Promise<boolean> {
+export async function sendSeen(
+  webhookPayload: WhatsAppWebhookPayload,
+  channel: MessagingChannel = getPlatformChannel()
+): Promise<boolean> {
   try {
     const { session, payload: { from: chatId } } = webhookPayload;
-    await wsProxyClient.post(`/ws/send-seen`, {
-      session,
-      chatId,
-    });
+    await channel.markSeen({ session, chatId });
     console.log("[WhatsApp] ✅ Message marked as seen");
     return true;
   } catch (error) {
@@ -27,13 +27,13 @@ export async function sendSeen(webhookPayload: WhatsAppWebhookPayload): Promise<
 /**
  * Start typing indicator
  */
-export async function startTyping(webhookPayload: WhatsAppWebhookPayload): Promise<boolean> {
+export async function startTyping(
+  webhookPayload: WhatsAppWebhookPayload,
+  channel: MessagingChannel = getPlatformChannel()
+): Promise<boolean> {
   try {
     const { session, payload: { from: chatId } } = webhookPayload;
-    await wsProxyClient.post(`/ws/start-typing`, {
-      session,
-      chatId,
-    });
+    await channel.startTyping({ session, chatId });
     console.log("[WhatsApp] ⌨️ Typing indicator started");
     return true;
   } catch (error) {
@@ -45,13 +45,13 @@ export async function startTyping(webhookPayload: WhatsAppWebhookPayload): Promi
 /**
  * Stop typing indicator
  */
-export async function stopTyping(webhookPayload: WhatsAppWebhookPayload): Promise<boolean> {
+export async function stopTyping(
+  webhookPayload: WhatsAppWebhookPayload,
+  channel: MessagingChannel = getPlatformChannel()
+): Promise<boolean> {
   try {
     const { session, payload: { from: chatId } } = webhookPayload;
-    await wsProxyClient.post(`/ws/stop-typing`, {
-      session,
-      chatId,
-    });
+    await channel.stopTyping({ session, chatId });
     console.log("[WhatsApp] ⌨️ Typing indicator stopped");
     return true;
   } catch (error) {
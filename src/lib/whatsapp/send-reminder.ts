@@ -1,6 +1,19 @@
-import { wsProxyClient } from '../other/wsProxyClient';
+import { getPlatformChannel } from '../channels';
 import { formatChatId } from '../utils/message-helpers';
 import { processSingleTextMessage } from '../utils/response-processor';
+import type { ConversationLanguage } from '../db/types';
+import { LANGUAGE_LOCALES } from '../utils/language';
+import { canSendProactive } from '../utils/opt-out';
+
+/**
+ * Result of a proactive send
+ * suppressed: the number opted out, nothing was sent (not a failure to retry)
+ */
+export interface SendReminderResult {
+  success: boolean;
+  suppressed?: boolean;
+  error?: string;
+}
 
 interface PaymentTypeWithAmount {
   name: string;
@@ -12,15 +25,20 @@ interface PaymentTypeWithAmount {
  * Sends a payment reminder via WhatsApp
  */
 export async function sendPaymentReminder(
+  uid: string,
   session: string,
   phone: string,
   message: string
-): Promise<{ success: boolean; error?: string }> {
+): Promise<SendReminderResult> {
   try {
+    if (!(await canSendProactive(uid, phone, 'payment_reminder'))) {
+      return { success: false, suppressed: true };
+    }
+
     const chatId = formatChatId(phone);
     const messages = processSingleTextMessage(message);
 
-    await wsProxyClient.post('/ws/send-message', { chatId, session, messages });
+    await getPlatformChannel().sendMessages({ chatId, session }, messages);
 
     console.log(`[sendPaymentReminder] Message sent to ${phone}`);
     return { success: true };
@@ -34,15 +52,20 @@ export async function sendPaymentReminder(
  * Sends an owner reminder via WhatsApp
  */
 export async function sendOwnerReminder(
+  uid: string,
   session: string,
   phone: string,
   message: string
-): Promise<{ success: boolean; error?: string }> {
+): Promise<SendReminderResult> {
   try {
+    if (!(await canSendProactive(uid, phone, 'owner_reminder'))) {
+      return { success: false, suppressed: true };
+    }
+
     const chatId = formatChatId(phone);
     const messages = processSingleTextMessage(message);
 
-    await wsProxyClient.post('/ws/send-message', { chatId, session, messages });
+    await getPlatformChannel().sendMessages({ chatId, session }, messages);
 
     console.log(`[sendOwnerReminder] Message sent to ${phone}`);
     return { success: true };
@@ -56,15 +79,20 @@ export async function sendOwnerReminder(
  * Sends notification to tenant that bills are available
  */
 export async function sendTenantBillsAvailable(
+  uid: string,
   session: string,
   phone: string,
   message: string
-): Promise<{ success: boolean; error?: string }> {
+): Promise<SendReminderResult> {
   try {
+    if (!(await canSendProactive(uid, phone, 'bills_available'))) {
+      return { success: false, suppressed: true };
+    }
+
     const chatId = formatChatId(phone);
     const messages = processSingleTextMessage(message);
 
-    await wsProxyClient.post('/ws/send-message', { chatId, session, messages });
+    await getPlatformChannel().sendMessages({ chatId, session }, messages);
 
     console.log(`[sendTenantBillsAvailable] Message sent to ${phone}`);
     return { success: true };
@@ -74,12 +102,108 @@ export async function sendTenantBillsAvailable(
   }
 }
 
+/**
+ * Texts of the reminder and notification templates per customer language
+ * Plurals receive the count, lists and links are added by the generators
+ */
+const REMINDER_TEXTS = {
+  es: {
+    greeting: (name: string) => `Hola *${name}*,`,
+    autoGenerated: '_Mensaje generado automáticamente_',
+    uploadReceiptsMonth: 'Es momento de cargar los comprobantes de pago del mes. Por favor, ingresá al siguiente enlace para subir los comprobantes:',
+    uploadReceipts: 'Es momento de cargar los comprobantes de pago. Por favor, ingresá al siguiente enlace para subir los comprobantes:',
+    requiredTypes: '📋 *Tipos de pago requeridos:*',
+    pendingPayments: '💰 *Pagos pendientes:*',
+    adminNotified: 'Una vez que hayas subido todos los comprobantes, la administración será notificada automáticamente.',
+    missingReceipts: (count: number) => `Recordatorio: aún faltan *${count}* comprobante${count !== 1 ? 's' : ''} por subir.`,
+    alreadyReceived: '✅ *Ya recibidos:*',
+    alreadyReceivedCount: (completed: number, total: number) => `✅ *Ya recibidos (${completed}/${total}):*`,
+    missing: '⏳ *Faltan:*',
+    pendingPaymentsShort: '⏳ *Pagos pendientes:*',
+    completeUpload: 'Ingresá aquí para completar la carga:',
+    ownerUploadBills: (tenantName: string) => `Es momento de cargar las boletas de pago para el inquilino *${tenantName}*.`,
+    pendingBills: '📋 *Boletas pendientes:*',
+    ownerUploadLink: 'Por favor, ingresá al siguiente enlace para cargar las boletas con los montos:',
+    ownerEditWindow: '⚠️ *Importante:* Tendrás 24 horas para realizar modificaciones una vez cargadas las boletas. Luego, se notificará al inquilino para que realice los pagos.',
+    billsAvailable: '¡Las boletas de pago ya están disponibles! 🎉',
+    availablePayments: '💰 *Pagos disponibles:*',
+    billsLink: 'Ya podés acceder al siguiente enlace para ver las boletas y cargar tus comprobantes de pago:',
+    tenantCompleted: (tenantName: string) => `El inquilino *${tenantName}* ha completado la carga de todos los comprobantes de pago. ✅`,
+    receivedReceipts: '📋 *Comprobantes recibidos:*',
+    receiptsLink: '📎 Puede ver y descargar los comprobantes aquí:',
+  },
+  en: {
+    greeting: (name: string) => `Hi *${name}*,`,
+    autoGenerated: '_Automatically generated message_',
+    uploadReceiptsMonth: "It's time to upload this month's payment receipts. Please use the following link to upload them:",
+    uploadReceipts: "It's time to upload the payment receipts. Please use the following link to upload them:",
+    requiredTypes: '📋 *Required payments:*',
+    pendingPayments: '💰 *Pending payments:*',
+    adminNotified: 'Once you have uploaded all the receipts, the administration will be notified automatically.',
+    missingReceipts: (count: number) => `Reminder: *${count}* receipt${count !== 1 ? 's are' : ' is'} still missing.`,
+    alreadyReceived: '✅ *Already received:*',
+    alreadyReceivedCount: (completed: number, total: number) => `✅ *Already received (${completed}/${total}):*`,
+    missing: '⏳ *Missing:*',
+    pendingPaymentsShort: '⏳ *Pending payments:*',
+    completeUpload: 'Complete the upload here:',
+    ownerUploadBills: (tenantName: string) => `It's time to upload the payment bills for your tenant *${tenantName}*.`,
+    pendingBills: '📋 *Pending bills:*',
+    ownerUploadLink: 'Please use the following link to upload the bills with their amounts:',
+    ownerEditWindow: '⚠️ *Important:* You will have 24 hours to make changes once the bills are uploaded. After that, the tenant will be notified to make the payments.',
+    billsAvailable: 'The payment bills are now available! 🎉',
+    availablePayments: '💰 *Available payments:*',
+    billsLink: 'You can now use the following link to see the bills and upload your payment receipts:',
+    tenantCompleted: (tenantName: string) => `Your tenant *${tenantName}* has uploaded all the payment receipts. ✅`,
+    receivedReceipts: '📋 *Received receipts:*',
+    receiptsLink: '📎 You can view and download the receipts here:',
+  },
+  pt: {
+    greeting: (name: string) => `Olá *${name}*,`,
+    autoGenerated: '_Mensagem gerada automaticamente_',
+    uploadReceiptsMonth: 'Chegou a hora de enviar os comprovantes de pagamento do mês. Por favor, acesse o link a seguir para enviá-los:',
+    uploadReceipts: 'Chegou a hora de enviar os comprovantes de pagamento. Por favor, acesse o link a seguir para enviá-los:',
+    requiredTypes: '📋 *Pagamentos solicitados:*',
+    pendingPayments: '💰 *Pagamentos pendentes:*',
+    adminNotified: 'Quando todos os comprovantes forem enviados, a administração será notificada automaticamente.',
+    missingReceipts: (count: number) => `Lembrete: ainda falta${count !== 1 ? 'm' : ''} *${count}* comprovante${count !== 1 ? 's' : ''} para enviar.`,
+    alreadyReceived: '✅ *Já recebidos:*',
+    alreadyReceivedCount: (completed: number, total: number) => `✅ *Já recebidos (${completed}/${total}):*`,
+    missing: '⏳ *Faltam:*',
+    pendingPaymentsShort: '⏳ *Pagamentos pendentes:*',
+    completeUpload: 'Acesse aqui para concluir o envio:',
+    ownerUploadBills: (tenantName: string) => `Chegou a hora de enviar os boletos de pagamento do inquilino *${tenantName}*.`,
+    pendingBills: '📋 *Boletos pendentes:*',
+    ownerUploadLink: 'Por favor, acesse o link a seguir para enviar os boletos com os valores:',
+    ownerEditWindow: '⚠️ *Importante:* Você terá 24 horas para fazer alterações depois de enviar os boletos. Depois disso, o inquilino será notificado para realizar os pagamentos.',
+    billsAvailable: 'Os boletos de pagamento já estão disponíveis! 🎉',
+    availablePayments: '💰 *Pagamentos disponíveis:*',
+    billsLink: 'Você já pode acessar o link a seguir para ver os boletos e enviar seus comprovantes de pagamento:',
+    tenantCompleted: (tenantName: string) => `O inquilino *${tenantName}* enviou todos os comprovantes de pagamento. ✅`,
+    receivedReceipts: '📋 *Comprovantes recebidos:*',
+    receiptsLink: '📎 Você pode ver e baixar os comprovantes aqui:',
+  },
+} satisfies Record<ConversationLanguage, unknown>;
+
 /**
  * Formats currency amount
  */
-function formatAmount(amount: number, currency: string): string {
+function formatAmount(amount: number, currency: string, language: ConversationLanguage = 'es'): string {
   const symbol = currency === 'USD' ? 'US$' : '$';
-  return `${symbol} ${amount.toLocaleString('es-AR')}`;
+  return `${symbol} ${amount.toLocaleString(LANGUAGE_LOCALES[language])}`;
+}
+
+/**
+ * Formats payment types as a bullet list, with their amounts when available
+ */
+function formatPaymentTypes(types: PaymentTypeWithAmount[], language: ConversationLanguage): string {
+  return types.map(t => {
+    if (t.amount) return `• ${t.name}: ${formatAmount(t.amount, t.currency, language)}`;
+    return `• ${t.name}`;
+  }).join('\n');
+}
+
+function formatList(items: string[]): string {
+  return items.map(item => `• ${item}`).join('\n');
 }
 
 /**
@@ -90,41 +214,43 @@ export function generateReminderMessage(
   portalLink: string,
   allPaymentTypes: string[],
   completedTypes: string[],
-  isFirstReminder: boolean
+  isFirstReminder: boolean,
+  language: ConversationLanguage = 'es'
 ): string {
+  const texts = REMINDER_TEXTS[language];
   const pendingTypes = allPaymentTypes.filter(type => !completedTypes.includes(type));
 
   if (isFirstReminder) {
-    return `Hola *${tenantName}*,
+    return `${texts.greeting(tenantName)}
 
-Es momento de cargar los comprobantes de pago del mes. Por favor, ingresá al siguiente enlace para subir los comprobantes:
+${texts.uploadReceiptsMonth}
 
 ${portalLink}
 
-📋 *Tipos de pago requeridos:*
-${allPaymentTypes.map(type => `• ${type}`).join('\n')}
+${texts.requiredTypes}
+${formatList(allPaymentTypes)}
 
-Una vez que hayas subido todos los comprobantes, la administración será notificada automáticamente.
+${texts.adminNotified}
 
-_Mensaje generado automáticamente_`;
+${texts.autoGenerated}`;
   } else {
     const completedCount = completedTypes.length;
     const totalCount = allPaymentTypes.length;
 
-    return `Hola *${tenantName}*,
+    return `${texts.greeting(tenantName)}
 
-Recordatorio: aún faltan *${pendingTypes.length}* comprobante${pendingTypes.length !== 1 ? 's' : ''} por subir.
+${texts.missingReceipts(pendingTypes.length)}
 
-✅ *Ya recibidos (${completedCount}/${totalCount}):*
-${completedTypes.map(type => `• ${type}`).join('\n')}
+${texts.alreadyReceivedCount(completedCount, totalCount)}
+${formatList(completedTypes)}
 
-⏳ *Faltan:*
-${pendingTypes.map(type => `• ${type}`).join('\n')}
+${texts.missing}
+${formatList(pendingTypes)}
 
-Ingresá aquí para completar la carga:
+${texts.completeUpload}
 ${portalLink}
 
-_Mensaje generado automáticamente_`;
+${texts.autoGenerated}`;
   }
 }
 
@@ -137,43 +263,36 @@ export function generateReminderMessageWithConfigs(
   pendingTypes: PaymentTypeWithAmount[],
   completedTypeNames: string[],
   isFirstReminder: boolean,
-  reminderName?: string
+  reminderName?: string,
+  language: ConversationLanguage = 'es'
 ): string {
+  const texts = REMINDER_TEXTS[language];
   const titleLine = reminderName ? `\n📌 *${reminderName}*\n` : '';
+  const typesWithAmounts = formatPaymentTypes(pendingTypes, language);
 
   if (isFirstReminder) {
-    const typesWithAmounts = pendingTypes.map(t => {
-      if (t.amount) return `• ${t.name}: ${formatAmount(t.amount, t.currency)}`;
-      return `• ${t.name}`;
-    }).join('\n');
-
-    return `Hola *${tenantName}*,${titleLine}
-Es momento de cargar los comprobantes de pago. Por favor, ingresá al siguiente enlace para subir los comprobantes:
+    return `${texts.greeting(tenantName)}${titleLine}
+${texts.uploadReceipts}
 
 ${portalLink}
 
-💰 *Pagos pendientes:*
+${texts.pendingPayments}
 ${typesWithAmounts}
 
-Una vez que hayas subido todos los comprobantes, la administración será notificada automáticamente.
+${texts.adminNotified}
 
-_Mensaje generado automáticamente_`;
+${texts.autoGenerated}`;
   } else {
-    const typesWithAmounts = pendingTypes.map(t => {
-      if (t.amount) return `• ${t.name}: ${formatAmount(t.amount, t.currency)}`;
-      return `• ${t.name}`;
-    }).join('\n');
-
-    return `Hola *${tenantName}*,${titleLine}
-Recordatorio: aún faltan *${pendingTypes.length}* comprobante${pendingTypes.length !== 1 ? 's' : ''} por subir.
+    return `${texts.greeting(tenantName)}${titleLine}
+${texts.missingReceipts(pendingTypes.length)}
 
-${completedTypeNames.length > 0 ? `✅ *Ya recibidos:*\n${completedTypeNames.map(t => `• ${t}`).join('\n')}\n\n` : ''}⏳ *Pagos pendientes:*
+${completedTypeNames.length > 0 ? `${texts.alreadyReceived}\n${formatList(completedTypeNames)}\n\n` : ''}${texts.pendingPaymentsShort}
 ${typesWithAmounts}
 
-Ingresá aquí para completar la carga:
+${texts.completeUpload}
 ${portalLink}
 
-_Mensaje generado automáticamente_`;
+${texts.autoGenerated}`;
   }
 }
 
@@ -185,23 +304,25 @@ export function generateOwnerReminderMessage(
   tenantName: string,
   paymentTypes: string[],
   portalLink: string,
-  reminderName?: string
+  reminderName?: string,
+  language: ConversationLanguage = 'es'
 ): string {
+  const texts = REMINDER_TEXTS[language];
   const titleLine = reminderName ? `\n📌 *${reminderName}*\n` : '';
 
-  return `Hola *${ownerName}*,${titleLine}
-Es momento de cargar las boletas de pago para el inquilino *${tenantName}*.
+  return `${texts.greeting(ownerName)}${titleLine}
+${texts.ownerUploadBills(tenantName)}
 
-📋 *Boletas pendientes:*
-${paymentTypes.map(type => `• ${type}`).join('\n')}
+${texts.pendingBills}
+${formatList(paymentTypes)}
 
-Por favor, ingresá al siguiente enlace para cargar las boletas con los montos:
+${texts.ownerUploadLink}
 
 ${portalLink}
 
-⚠️ *Importante:* Tendrás 24 horas para realizar modificaciones una vez cargadas las boletas. Luego, se notificará al inquilino para que realice los pagos.
+${texts.ownerEditWindow}
 
-_Mensaje generado automáticamente_`;
+${texts.autoGenerated}`;
 }
 
 /**
@@ -211,26 +332,23 @@ export function generateBillsAvailableMessage(
   tenantName: string,
   availableTypes: PaymentTypeWithAmount[],
   portalLink: string,
-  reminderName?: string
+  reminderName?: string,
+  language: ConversationLanguage = 'es'
 ): string {
+  const texts = REMINDER_TEXTS[language];
   const titleLine = reminderName ? `\n📌 *${reminderName}*\n` : '';
 
-  const typesWithAmounts = availableTypes.map(t => {
-    if (t.amount) return `• ${t.name}: ${formatAmount(t.amount, t.currency)}`;
-    return `• ${t.name}`;
-  }).join('\n');
-
-  return `Hola *${tenantName}*,${titleLine}
-¡Las boletas de pago ya están disponibles! 🎉
+  return `${texts.greeting(tenantName)}${titleLine}
+${texts.billsAvailable}
 
-💰 *Pagos disponibles:*
-${typesWithAmounts}
+${texts.availablePayments}
+${formatPaymentTypes(availableTypes, language)}
 
-Ya podés acceder al siguiente enlace para ver las boletas y cargar tus comprobantes de pago:
+${texts.billsLink}
 
 ${portalLink}
 
-_Mensaje generado automáticamente_`;
+${texts.autoGenerated}`;
 }
 
 /**
@@ -241,32 +359,34 @@ export function generateOwnerCompletionMessage(
   tenantName: string,
   completedTypes: string[],
   reminderName?: string,
-  receiptsLink?: string
+  receiptsLink?: string,
+  language: ConversationLanguage = 'es'
 ): string {
+  const texts = REMINDER_TEXTS[language];
   const titleLine = reminderName ? `\n📌 *${reminderName}*\n` : '';
 
-  let message = `Hola *${ownerName}*,${titleLine}
-El inquilino *${tenantName}* ha completado la carga de todos los comprobantes de pago. ✅
+  let message = `${texts.greeting(ownerName)}${titleLine}
+${texts.tenantCompleted(tenantName)}
 
-📋 *Comprobantes recibidos:*
-${completedTypes.map(type => `• ${type}`).join('\n')}`;
+${texts.receivedReceipts}
+${formatList(completedTypes)}`;
 
   if (receiptsLink) {
     message += `
 
-📎 Puede ver y descargar los comprobantes aquí:
+${texts.receiptsLink}
 ${receiptsLink}`;
   }
 
   message += `
 
-_Mensaje generado automáticamente_`;
+${texts.autoGenerated}`;
 
   return message;
 }
 
 /**
- * Generates completion notification for admin/agency
+ * Generates completion notification for admin/agency (always in Spanish, sent to the account owner)
  */
 export function generateAdminCompletionMessage(
   tenantName: string,
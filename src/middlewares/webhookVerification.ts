@@ -0,0 +1,98 @@
+import { NextFunction, Request, Response } from "express";
+import { RouteError } from "../other/errorHandler";
+import HttpStatusCodes from "../constants/HttpStatusCodes";
+import {
+  WEBHOOK_HEADERS,
+  WEBHOOK_SECURITY_CONFIG,
+  claimWebhookDelivery,
+  getWebhookSecret,
+  isValidInternalKey,
+  isValidWebhookHmac,
+  isWithinTimestampWindow,
+  releaseWebhookDelivery,
+} from "../lib/utils/webhook-security";
+
+/**
+ * Verifies the HMAC signature and timestamp of a webhook request
+ * The secret is resolved from the session in the body (per-session secrets)
+ */
+export function verifyWebhookSignature(req: Request, res: Response, next: NextFunction) {
+  if (!WEBHOOK_SECURITY_CONFIG.ENABLED) {
+    next();
+    return;
+  }
+
+  const rawBody = (req as any).rawBody as string | undefined;
+  const signature = req.header(WEBHOOK_HEADERS.HMAC);
+  if (!rawBody || !signature) {
+    throw new RouteError(HttpStatusCodes.UNAUTHORIZED, "Webhook signature not provided");
+  }
+
+  const algorithm = (req.header(WEBHOOK_HEADERS.HMAC_ALGORITHM) || WEBHOOK_SECURITY_CONFIG.DEFAULT_ALGORITHM).toLowerCase();
+  if (!WEBHOOK_SECURITY_CONFIG.SUPPORTED_ALGORITHMS.includes(algorithm)) {
+    throw new RouteError(HttpStatusCodes.UNAUTHORIZED, "Webhook signature algorithm not supported");
+  }
+
+  const secret = getWebhookSecret(req.body?.session);
+  if (!secret) {
+    console.error(`[WebhookVerification] ❌ No secret configured for session ${req.body?.session}`);
+    throw new RouteError(HttpStatusCodes.UNAUTHORIZED, "Webhook signature not valid");
+  }
+
+  if (!isValidWebhookHmac(rawBody, secret, signature, algorithm)) {
+    throw new RouteError(HttpStatusCodes.UNAUTHORIZED, "Webhook signature not valid");
+  }
+
+  // WAHA sends the timestamp header; events also carry it in the body
+  const timestamp = Number(req.header(WEBHOOK_HEADERS.TIMESTAMP) || req.body?.timestamp);
+  if (!isWithinTimestampWindow(timestamp)) {
+    throw new RouteError(HttpStatusCodes.UNAUTHORIZED, "Webhook timestamp out of range");
+  }
+
+  next();
+}
+
+/**
+ * Verifies internal requests: the shared internal key (queued jobs, delivered after the
+ * timestamp window) or, without it, the HMAC signature (requests sent right away)
+ */
+export function verifyInternalRequest(req: Request, res: Response, next: NextFunction) {
+  if (WEBHOOK_SECURITY_CONFIG.ENABLED && req.header(WEBHOOK_HEADERS.INTERNAL_KEY)) {
+    if (!isValidInternalKey(req.header(WEBHOOK_HEADERS.INTERNAL_KEY))) {
+      throw new RouteError(HttpStatusCodes.UNAUTHORIZED, "Internal key not valid");
+    }
+    next();
+    return;
+  }
+
+  verifyWebhookSignature(req, res, next);
+}
+
+/**
+ * Skips deliveries that were already processed
+ * @param getDeliveryId - Extracts the delivery id from the body (return null to skip dedupe)
+ */
+export const dedupeWebhook = (getDeliveryId: (body: any) => string | null | undefined) =>
+  async (req: Request, res: Response, next: NextFunction) => {
+    const deliveryId = getDeliveryId(req.body);
+    if (!deliveryId) {
+      next();
+      return;
+    }
+
+    const claimed = await claimWebhookDelivery(deliveryId);
+    if (!claimed) {
+      console.log(`[WebhookVerification] ⏭️ Duplicate delivery ignored: ${deliveryId}`);
+      res.status(HttpStatusCodes.OK).json({ success: true, duplicate: true });
+      return;
+    }
+
+    // Let the sender retry if processing failed
+    res.on('finish', () => {
+      if (res.statusCode >= 500) {
+        releaseWebhookDelivery(deliveryId);
+      }
+    });
+
+    next();
+  };
@@ -0,0 +1,52 @@
+/**
+ * Request helpers shared by the entity controllers.
+ */
+
+import { Request } from 'express';
+import { z } from 'zod';
+import HttpStatusCodes from '../constants/HttpStatusCodes';
+import { RouteError } from './errorHandler';
+
+
+/**
+ * Account of the request (uid header, or uid query param)
+ */
+export function getUid(req: Request): string {
+  const uid = (req.headers['uid'] as string) || (req.query.uid as string);
+
+  if (!uid) {
+    throw new RouteError(HttpStatusCodes.BAD_REQUEST, 'UID header is required');
+  }
+
+  return uid;
+}
+
+/**
+ * Validation issues as a single line ("path: message; ...")
+ */
+export function formatIssues(error: { issues: Array<{ path: PropertyKey[]; message: string }> }): string {
+  return error.issues.map((issue) => `${issue.path.map(String).join('.') || 'body'}: ${issue.message}`).join('; ');
+}
+
+/**
+ * Validates the changed fields of an update against a partial schema
+ * Schema defaults are dropped, only the fields sent are changed
+ * @param name - Entity name used in the error messages (e.g. 'guideline')
+ */
+export function parseChanges<S extends z.ZodType<object>>(schema: S, body: unknown, name: string): Partial<z.output<S>> {
+  const parsed = schema.safeParse(body);
+  if (!parsed.success) {
+    throw new RouteError(HttpStatusCodes.BAD_REQUEST, `Invalid ${name}: ${formatIssues(parsed.error)}`);
+  }
+
+  const provided = Object.keys(body as object);
+  const changes = Object.fromEntries(
+    Object.entries(parsed.data).filter(([key]) => provided.includes(key))
+  ) as Partial<z.output<S>>;
+
+  if (Object.keys(changes).length === 0) {
+    throw new RouteError(HttpStatusCodes.BAD_REQUEST, `No ${name} fields to update`);
+  }
+
+  return changes;
+}
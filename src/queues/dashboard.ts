@@ -2,6 +2,9 @@ import { createBullBoard } from '@bull-board/api';
 import { BullMQAdapter } from '@bull-board/api/bullMQAdapter';
 import { ExpressAdapter } from '@bull-board/express';
 import { getConversationQueue } from '../lib/queues/conversation-queue';
+import { getMessageDebounceQueue } from '../lib/queues/message-debounce-queue';
+import { getDeliveryRetryQueue } from '../lib/queues/delivery-retry-queue';
+import { getHeldEscalationQueue } from '../lib/queues/held-escalation-queue';
 
 // Create Express adapter for Bull Board
 const serverAdapter = new ExpressAdapter();
@@ -9,7 +12,12 @@ serverAdapter.setBasePath('/admin/queues');
 
 // Create Bull Board dashboard
 const { addQueue, removeQueue, setQueues, replaceQueues } = createBullBoard({
-  queues: [new BullMQAdapter(getConversationQueue())],
+  queues: [
+    new BullMQAdapter(getConversationQueue()),
+    new BullMQAdapter(getMessageDebounceQueue()),
+    new BullMQAdapter(getDeliveryRetryQueue()),
+    new BullMQAdapter(getHeldEscalationQueue()),
+  ],
   serverAdapter: serverAdapter,
 });
 
@@ -1,5 +1,5 @@
 import { Router, Request, Response } from "express";
-import { wsRoutes, remindersRoutes, cacheRoutes, paddleRoutes } from "./entities";
+import { wsRoutes, remindersRoutes, cacheRoutes, paddleRoutes, referralsRoutes, blocksRoutes, chatRoutes, suppressionsRoutes, guidelinesRoutes, experimentsRoutes, usageRoutes, modelsRoutes, tracesRoutes } from "./entities";
 import { verifyToken } from "./middlewares/tokenVerification";
 import cronRouter from "./routes/cron";
 
@@ -23,4 +23,31 @@ apiRouter.use('/cron', cronRouter);
 // Rutas de Paddle (subscripciones y pagos)
 apiRouter.use('/paddle', paddleRoutes);
 
+// Rutas de Referidos (atribución de leads por contactos compartidos)
+apiRouter.use('/referrals', referralsRoutes);
+
+// Rutas de Bloqueos (intervención humana y comandos /bot del dueño)
+apiRouter.use('/blocks', blocksRoutes);
+
+// Rutas de Web Chat (widget público para leads del sitio web)
+apiRouter.use('/chat', chatRoutes);
+
+// Rutas de Bajas (números que pidieron no recibir más mensajes)
+apiRouter.use('/suppressions', suppressionsRoutes);
+
+// Rutas de Guidelines (guidelines propias de cada cuenta y ajustes de las predefinidas)
+apiRouter.use('/guidelines', guidelinesRoutes);
+
+// Rutas de Experimentos (A/B entre variantes del workflow y reporte de resultados)
+apiRouter.use('/experiments', experimentsRoutes);
+
+// Rutas de Uso de IA (tokens y costo estimado por cuenta, presupuesto mensual del plan)
+apiRouter.use('/usage', usageRoutes);
+
+// Rutas de Modelos (estado de los circuit breakers de proveedores LLM y fallbacks)
+apiRouter.use('/models', modelsRoutes);
+
+// Rutas de Trazas (datos intermedios de cada ejecución del cascade para depurar respuestas)
+apiRouter.use('/traces', tracesRoutes);
+
 export default apiRouter
\ No newline at end of file
@@ -24,15 +24,21 @@ import { serverAdapter as queueDashboard } from './queues/dashboard';
 
 const app = express();
 
+// Behind a load balancer req.ip must come from X-Forwarded-For (web chat limits per client IP)
+// TRUST_PROXY: number of proxy hops, or an Express trust proxy value
+if (process.env.TRUST_PROXY) {
+  app.set('trust proxy', /^\d+$/.test(process.env.TRUST_PROXY) ? Number(process.env.TRUST_PROXY) : process.env.TRUST_PROXY);
+}
+
 // **** Setup **** //
 
 // Basic middleware - increased limits for AI responses with images
-// Save raw body for Paddle webhook signature verification
+// Save raw body for Paddle and WhatsApp webhook signature verification
 app.use(express.json({ 
   limit: '10mb',
   verify: (req: any, res, buf) => {
     // Save raw body for webhook signature verification
-    if (req.originalUrl.includes('/paddle/webhook')) {
+    if (req.originalUrl.includes('/paddle/webhook') || req.originalUrl.includes('/ws/')) {
       req.rawBody = buf.toString();
     }
   }
@@ -41,7 +47,10 @@ app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 app.use(cookieParser(EnvVars.CookieProps.Secret));
 app.use(bodyParser.urlencoded({ extended: false, limit: '10mb' }));
 app.use(bodyParser.json({ limit: '10mb' }));
-app.use(cors());
+// Web chat is embedded in agency websites and uses a session cookie: reflect the origin and allow credentials
+app.use(cors((req, callback) => {
+  callback(null, req.url?.startsWith('/api/chat/') ? { origin: true, credentials: true } : {});
+}));
 
 // Show routes called in console during development
 if (EnvVars.NodeEnv === NodeEnvs.Dev.valueOf()) {